@@ -1,49 +1,66 @@
 
-import React, { useState, useEffect } from 'react';
-import { AppState, Project, ArchiveItem } from './types.ts';
-import { INITIAL_PROJECTS, INITIAL_SERVICES, INITIAL_ARCHIVE } from './constants.tsx';
+import React, { useState, useEffect, useRef } from 'react';
+import { AppState, Project, ArchiveItem, Service, Client, ClientMatch, Credential, TrashEntry, CategoryTerm, ContactSettings, ContactSubmission, InboxMessage, SiteConfig, ThemeSettings } from './types.ts';
+import { INITIAL_STATE } from './constants.tsx';
 import PublicView from './components/PublicView.tsx';
 import AdminView from './components/AdminView.tsx';
+import AuthOverlay from './components/AuthOverlay.tsx';
+import { deleteAsset, migrateInlineImages, remapImageRefs, unusedAssetRefs } from './services/assetStore.ts';
+import { HOME_ROUTE } from './services/router.ts';
+import { useHashRoute } from './hooks/useHashRoute.ts';
+import { useIdleTimeout } from './hooks/useIdleTimeout.ts';
+import { useHistoryState } from './hooks/useHistoryState.ts';
+import { SESSION_TIMEOUT_MS, verifyCredential, createCredential, validateNewPasskey } from './services/auth.ts';
+import { readPersistedState, writePersistedState, PersistedLoad } from './services/storage.ts';
+import { withAudit, recordDraft, draftsFromStateDiff, diffFields, recordLabel, RECORD_TYPES } from './services/audit.ts';
+import { CollectionKey } from './services/backupMerge.ts';
+import { contactSettingsOf } from './services/contact.ts';
+import { siteConfigOf } from './services/siteConfig.ts';
+import { themeSettingsOf } from './services/theme.ts';
+import { useTheme } from './hooks/useTheme.ts';
+import { mergeInbox } from './services/inbox.ts';
+import { reassignCategory } from './services/taxonomy.ts';
+import { matchKey } from './services/clients.ts';
 
-const STORAGE_KEY = 'odemind_archive_v5_final';
+// undo/redo는 데이터만 되돌린다. 패스키, 문의함, 변경 이력은 현재 값을 유지하고, 되돌린 내용을 이력에 남긴다.
+const carryAcrossHistory = (current: AppState, restored: AppState, direction: 'UNDO' | 'REDO'): AppState =>
+  withAudit(
+    { ...restored, credential: current.credential, inbox: current.inbox, auditLog: current.auditLog },
+    draftsFromStateDiff(current, restored, direction)
+  );
 
 const App: React.FC = () => {
+  const [route, navigate] = useHashRoute();
   const [isAdmin, setIsAdmin] = useState(false);
-  const [isAuthenticating, setIsAuthenticating] = useState(false);
-  const [password, setPassword] = useState('');
-  const [error, setError] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
+  // CMS 폼에 저장되지 않은 변경이 있는지 (EXIT_CMS 확인용)
+  const [hasUnsavedForms, setHasUnsavedForms] = useState(false);
 
-  const [state, setState] = useState<AppState>(() => {
-    const defaultState: AppState = {
-      projects: INITIAL_PROJECTS,
-      archiveItems: INITIAL_ARCHIVE,
-      services: INITIAL_SERVICES,
-      siteTitle: 'ODEMIND',
-      tagline: 'ODEMIND OPERATES AS AN ASIAN CONTENT AND DISTRIBUTION HUB, COLLABORATING WITH STRATEGIC PARTNERS ACROSS CHINA, TAIWAN, HONG KONG, AND INDONESIA.'
-    };
-
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY);
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        // 저장된 데이터가 유효한지 최소한의 검사 수행
-        if (parsed && Array.isArray(parsed.projects)) {
-          return { ...defaultState, ...parsed };
-        }
-      }
-    } catch (e) {
-      console.warn("SYSTEM: FAILED_TO_LOAD_PERSISTENT_STORAGE", e);
-    }
-    return defaultState;
+  // 저장 데이터는 스키마 마이그레이션과 검증을 거쳐 로드한다. 검증 결과는 CMS에 표시.
+  const [initialLoad] = useState<PersistedLoad>(() => readPersistedState(INITIAL_STATE));
+  // 모든 데이터 변경은 undo/redo 히스토리에 쌓인다.
+  const { state, setState, undo, redo, canUndo, canRedo } = useHistoryState<AppState>(initialLoad.state, {
+    carry: carryAcrossHistory
   });
+  // 공개 화면과 CMS 모두 같은 테마를 쓴다.
+  const [theme, setTheme] = useTheme(state.themeSettings);
+
+  // 최초 로드 시 이전 버전의 base64 이미지·첨부를 IndexedDB 에셋으로 이관
+  const assetMigrationStarted = useRef(false);
+  useEffect(() => {
+    if (assetMigrationStarted.current) return;
+    assetMigrationStarted.current = true;
+    migrateInlineImages(state).then(mapping => {
+      if (mapping.size > 0) setState(prev => remapImageRefs(prev, mapping), { record: false });
+    });
+  }, []);
 
   // 상태가 변경될 때마다 LocalStorage에 저장
   useEffect(() => {
     setIsSyncing(true);
     const timer = setTimeout(() => {
       try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+        writePersistedState(state);
         setIsSyncing(false);
       } catch (e) {
         setIsSyncing(false);
@@ -55,69 +72,276 @@ const App: React.FC = () => {
     return () => clearTimeout(timer);
   }, [state]);
 
-  const handleAdminToggle = () => {
-    if (isAdmin) setIsAdmin(false);
-    else setIsAuthenticating(true);
-  };
+  // #/cms 라우트가 CMS 진입점: 인증 전이면 인증 오버레이, 인증 후에는 관리자 화면
+  const isCmsRoute = route.name === 'CMS';
+  const isAuthenticating = isCmsRoute && !isAdmin;
+  const showAdmin = isCmsRoute && isAdmin;
 
-  const handleAuth = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (password === '0729') {
-      setIsAdmin(true);
-      setIsAuthenticating(false);
-      setPassword('');
-      setError(false);
+  const handleAdminToggle = () => {
+    if (showAdmin) {
+      if (hasUnsavedForms && !confirm("UNSAVED_CHANGES: EXIT CMS? THE DRAFT WILL BE KEPT.")) return;
+      setIsAdmin(false);
+      navigate(HOME_ROUTE);
     } else {
-      setError(true);
-      setPassword('');
+      navigate({ name: 'CMS' });
     }
   };
 
-  // 데이터 관리 함수들
-  const updateProject = (id: string, updated: Project) => {
-    setState(prev => ({ ...prev, projects: prev.projects.map(p => p.id === id ? updated : p) }));
+  const cancelAuth = () => {
+    navigate(HOME_ROUTE, { replace: true });
   };
 
-  const addProject = (project: Project) => {
-    setState(prev => ({ ...prev, projects: [project, ...prev.projects] }));
+  // 일정 시간 입력이 없으면 세션 만료 후 인증 화면으로 되돌린다.
+  useIdleTimeout(isAdmin, SESSION_TIMEOUT_MS, () => {
+    setIsAdmin(false);
+  });
+
+  const setCredential = (credential: Credential) => {
+    setState(prev => withAudit({ ...prev, credential }, [{
+      action: prev.credential ? 'UPDATE' : 'CREATE', recordType: 'settings', recordId: 'credential', label: 'PASSKEY',
+      changes: [{ field: 'credential', before: prev.credential ? '••••••' : undefined, after: '••••••' }]
+    }]), { record: false });
   };
 
-  const deleteProject = (id: string) => {
-    if (window.confirm(`CONFIRM_DELETION: ${id}?`)) {
-      setState(prev => ({ ...prev, projects: prev.projects.filter(p => p.id !== id) }));
-    }
+  // CONFIG 탭의 패스키 변경: 실패 사유 문자열을 반환, 성공 시 null
+  const changePasskey = async (current: string, next: string, confirm: string): Promise<string | null> => {
+    if (!state.credential || !(await verifyCredential(current, state.credential))) return 'CURRENT_PASSKEY_INVALID';
+    const invalid = validateNewPasskey(next, confirm);
+    if (invalid) return invalid;
+    setCredential(await createCredential(next));
+    return null;
   };
 
-  const updateArchiveItem = (id: string, updated: ArchiveItem) => {
-    setState(prev => ({ ...prev, archiveItems: prev.archiveItems.map(item => item.id === id ? updated : item) }));
+  // 데이터 관리 함수들 (추가/수정 시 updatedAt 기록: 백업 병합의 기준, 모든 변경은 auditLog에 기록)
+  const stamp = <T extends { updatedAt?: string }>(record: T): T => ({ ...record, updatedAt: new Date().toISOString() });
+
+  // 서비스 번호(01, 02...)는 목록 순서에서 자동으로 다시 매긴다.
+  const renumberServices = (services: Service[]): Service[] =>
+    services.map((s, idx) => ({ ...s, number: String(idx + 1).padStart(2, '0') }));
+
+  type AnyRecord = Project | ArchiveItem | Service | Client;
+
+  const withCollection = (prev: AppState, collection: CollectionKey, list: AnyRecord[]): AppState => ({
+    ...prev,
+    [collection]: collection === 'services' ? renumberServices(list as Service[]) : list
+  });
+
+  // 같은 ID가 이미 있으면 저장하지 않는다. 그대로 두면 다음 로드 때 검증에서 한쪽이 DUPLICATE_ID로 빠진다.
+  const saveRecord = (collection: CollectionKey, id: string | null, record: AnyRecord): boolean => {
+    if ((state[collection] as AnyRecord[]).some(r => r.id === record.id && r.id !== id)) {
+      alert(`ERROR: ID_CONFLICT (${record.id})\n같은 ID의 레코드가 이미 존재합니다.`);
+      return false;
+    }
+    setState(prev => {
+      const list = prev[collection] as AnyRecord[];
+      const before = id ? list.find(r => r.id === id) : undefined;
+      const saved = stamp(record);
+      const nextList = !id ? (collection === 'services' ? [...list, saved] : [saved, ...list])
+        : list.map(r => r.id === id ? saved : r);
+      return withAudit(withCollection(prev, collection, nextList), [recordDraft(id ? 'UPDATE' : 'CREATE', collection, before, saved)]);
+    });
+    return true;
   };
 
-  const addArchiveItem = (item: ArchiveItem) => {
-    setState(prev => ({ ...prev, archiveItems: [item, ...prev.archiveItems] }));
+  // 삭제는 휴지통으로 이동 (원래 위치를 기억해 두었다가 복원)
+  const moveToTrash = (collection: TrashEntry['collection'], id: string) => {
+    setState(prev => {
+      const list = prev[collection] as AnyRecord[];
+      const index = list.findIndex(r => r.id === id);
+      if (index < 0) return prev;
+      const entry = { entryId: `${collection}:${id}:${Date.now()}`, collection, record: list[index], index, deletedAt: new Date().toISOString() } as TrashEntry;
+      const next = withCollection(prev, collection, list.filter(r => r.id !== id));
+      return withAudit({ ...next, trash: [entry, ...prev.trash] }, [recordDraft('DELETE', collection, list[index], undefined)]);
+    });
   };
 
-  const deleteArchiveItem = (id: string) => {
-    if (window.confirm("CONFIRM_DELETION_OF_LOG_RECORD?")) {
-      setState(prev => ({ ...prev, archiveItems: prev.archiveItems.filter(item => item.id !== id) }));
+  const restoreFromTrash = (entryId: string) => {
+    const entry = state.trash.find(e => e.entryId === entryId);
+    if (!entry) return;
+    if ((state[entry.collection] as AnyRecord[]).some(r => r.id === entry.record.id)) {
+      alert(`ERROR: ID_CONFLICT (${entry.record.id})\n같은 ID의 레코드가 이미 존재합니다.`);
+      return;
     }
+    setState(prev => {
+      const list = [...(prev[entry.collection] as AnyRecord[])];
+      list.splice(Math.min(entry.index, list.length), 0, entry.record);
+      const next = withCollection(prev, entry.collection, list);
+      return withAudit({ ...next, trash: prev.trash.filter(e => e.entryId !== entryId) }, [recordDraft('RESTORE', entry.collection, undefined, entry.record)]);
+    });
+  };
+
+  const purgeFromTrash = (entryId?: string) => {
+    const message = entryId ? `PERMANENTLY_DELETE: ${entryId}?` : `PERMANENTLY_DELETE ALL ${state.trash.length} RECORD(S)?`;
+    if (!window.confirm(message)) return;
+    const isPurged = (e: TrashEntry) => !entryId || e.entryId === entryId;
+    // 다른 레코드가 쓰지 않는 파일은 IndexedDB에서도 지운다. undo로 휴지통 항목을 되살려도 파일은 돌아오지 않는다.
+    const unused = unusedAssetRefs(state, { ...state, trash: state.trash.filter(e => !isPurged(e)) });
+    setState(prev => {
+      const purged = prev.trash.filter(isPurged);
+      return withAudit(
+        { ...prev, trash: prev.trash.filter(e => !purged.includes(e)) },
+        purged.map(e => ({ action: 'PURGE' as const, recordType: RECORD_TYPES[e.collection], recordId: e.record.id, label: recordLabel(e.record) }))
+      );
+    });
+    unused.forEach(ref => deleteAsset(ref).catch(e => console.warn("SYSTEM: ASSET_CLEANUP_FAILED", e)));
+  };
+
+  // 이력 패널에서 선택한 과거 버전으로 되돌림 (삭제된 레코드면 다시 추가)
+  const revertRecord = (collection: CollectionKey, snapshot: AnyRecord) => {
+    setState(prev => {
+      const list = prev[collection] as AnyRecord[];
+      const before = list.find(r => r.id === snapshot.id);
+      const restored = stamp(snapshot);
+      const nextList = before ? list.map(r => r.id === snapshot.id ? restored : r) : [...list, restored];
+      return withAudit(withCollection(prev, collection, nextList), [recordDraft('REVERT', collection, before, restored)]);
+    });
+  };
+
+  const updateProject = (id: string, updated: Project) => saveRecord('projects', id, updated);
+  const addProject = (project: Project) => saveRecord('projects', null, project);
+  const deleteProject = (id: string) => moveToTrash('projects', id);
+
+  const updateArchiveItem = (id: string, updated: ArchiveItem) => saveRecord('archiveItems', id, updated);
+  const addArchiveItem = (item: ArchiveItem) => saveRecord('archiveItems', null, item);
+  const deleteArchiveItem = (id: string) => moveToTrash('archiveItems', id);
+
+  const updateService = (id: string, updated: Service) => saveRecord('services', id, updated);
+  const addService = (service: Service) => saveRecord('services', null, service);
+  const deleteService = (id: string) => moveToTrash('services', id);
+
+  const updateClient = (id: string, updated: Client) => saveRecord('clients', id, updated);
+  const addClient = (client: Client) => saveRecord('clients', null, client);
+  const deleteClient = (id: string) => moveToTrash('clients', id);
+
+  // 고객사 연결 검토 결과 반영: 레코드를 확정한 고객사에 연결하고 검토 목록에서 뺀다.
+  // SPLIT으로 새로 만든 고객사는 newClients로 함께 추가한다.
+  const resolveClientMatches = (resolutions: { match: ClientMatch; clientId: string }[], newClients: Client[] = []) => {
+    setState(prev => {
+      const byKey = new Map(resolutions.map(r => [matchKey(r.match), r.clientId]));
+      const relink = <T extends Project | ArchiveItem>(collection: ClientMatch['collection']) => (record: T): T => {
+        const clientId = byKey.get(matchKey({ collection, recordId: record.id }));
+        return clientId && clientId !== record.clientId ? stamp({ ...record, clientId }) : record;
+      };
+      const next = {
+        ...prev,
+        clients: [...prev.clients, ...newClients.map(stamp)],
+        projects: prev.projects.map(relink<Project>('projects')),
+        archiveItems: prev.archiveItems.map(relink<ArchiveItem>('archiveItems')),
+        clientReview: prev.clientReview.filter(m => !byKey.has(matchKey(m)))
+      };
+      return withAudit(next, draftsFromStateDiff(prev, next, 'UPDATE'));
+    });
+  };
+
+  // 목록 순서 변경 (드래그 앤 드롭, 서비스 ▲▼). 서비스 번호는 순서에 맞춰 다시 매긴다.
+  const moveRecord = (collection: CollectionKey, id: string, toIndex: number) => {
+    setState(prev => {
+      const list = prev[collection] as AnyRecord[];
+      const from = list.findIndex(r => r.id === id);
+      if (from < 0 || toIndex < 0 || toIndex >= list.length || from === toIndex) return prev;
+      const nextList = [...list];
+      const [moved] = nextList.splice(from, 1);
+      nextList.splice(toIndex, 0, moved);
+      const position = (idx: number) => String(idx + 1).padStart(2, '0');
+      return withAudit(withCollection(prev, collection, nextList), [{
+        action: 'REORDER', recordType: RECORD_TYPES[collection], recordId: id, label: recordLabel(moved),
+        changes: [{ field: collection === 'services' ? 'number' : 'position', before: position(from), after: position(toIndex) }]
+      }]);
+    });
+  };
+
+  // 백업 복원 결과 반영 (패스키는 RestorePanel에서 현재 값을 유지)
+  const restoreState = (next: AppState) => {
+    setState(prev => {
+      const restored = { ...next, services: renumberServices(next.services) };
+      return withAudit(restored, draftsFromStateDiff(prev, restored, 'IMPORT'));
+    });
   };
 
-  const updateSettings = (siteTitle: string, tagline: string) => {
-    setState(prev => ({ ...prev, siteTitle, tagline }));
+  const updateSettings = (siteTitle: string, tagline: string, taglineTranslations: AppState['taglineTranslations']) => {
+    setState(prev => {
+      const changes = diffFields(
+        { siteTitle: prev.siteTitle, tagline: prev.tagline, taglineTranslations: prev.taglineTranslations || {} },
+        { siteTitle, tagline, taglineTranslations }
+      );
+      if (changes.length === 0) return prev;
+      return withAudit(
+        { ...prev, siteTitle, tagline, taglineTranslations, settingsUpdatedAt: new Date().toISOString() },
+        [{ action: 'UPDATE', recordType: 'settings', recordId: 'site', label: 'SITE_SETTINGS', changes }]
+      );
+    });
+  };
+
+  const updateContactSettings = (contactSettings: ContactSettings) => {
+    setState(prev => {
+      const changes = diffFields({ contactSettings: contactSettingsOf(prev.contactSettings) }, { contactSettings });
+      if (changes.length === 0) return prev;
+      return withAudit(
+        { ...prev, contactSettings, settingsUpdatedAt: new Date().toISOString() },
+        [{ action: 'UPDATE', recordType: 'settings', recordId: 'contact', label: 'CONTACT_GATEWAY', changes }]
+      );
+    });
+  };
+
+  const updateSiteConfig = (siteConfig: SiteConfig) => {
+    setState(prev => {
+      const changes = diffFields({ siteConfig: siteConfigOf(prev.siteConfig) }, { siteConfig });
+      if (changes.length === 0) return prev;
+      return withAudit(
+        { ...prev, siteConfig, settingsUpdatedAt: new Date().toISOString() },
+        [{ action: 'UPDATE', recordType: 'settings', recordId: 'site-config', label: 'SITE_CONFIG', changes }]
+      );
+    });
+  };
+
+  const updateThemeSettings = (themeSettings: ThemeSettings) => {
+    setState(prev => {
+      const changes = diffFields({ themeSettings: themeSettingsOf(prev.themeSettings) }, { themeSettings });
+      if (changes.length === 0) return prev;
+      return withAudit(
+        { ...prev, themeSettings, settingsUpdatedAt: new Date().toISOString() },
+        [{ action: 'UPDATE', recordType: 'settings', recordId: 'theme', label: 'THEME', changes }]
+      );
+    });
+  };
+
+  // 분야 목록 변경. 합치거나 지운 분야를 쓰던 프로젝트(휴지통 포함)는 reassign에 따라 옮긴다.
+  const updateCategories = (categories: CategoryTerm[], reassign: Record<string, string> = {}) => {
+    setState(prev => {
+      const projects = prev.projects.map(p => {
+        const moved = reassignCategory(p, reassign);
+        return moved === p ? p : stamp(moved);
+      });
+      const trash = prev.trash.map(e => (e.collection === 'projects' ? { ...e, record: reassignCategory(e.record, reassign) } : e));
+      const next = { ...prev, categories, projects, trash, settingsUpdatedAt: new Date().toISOString() };
+      return withAudit(next, draftsFromStateDiff(prev, next, 'UPDATE'));
+    });
+  };
+
+  // 문의함은 undo 히스토리와 변경 이력에 남기지 않는다.
+  const receiveSubmissions = (submissions: ContactSubmission[]) => {
+    setState(prev => {
+      const inbox = mergeInbox(prev.inbox, submissions);
+      return inbox === prev.inbox ? prev : { ...prev, inbox };
+    }, { record: false });
+  };
+
+  const updateInboxMessage = (id: string, patch: Partial<Pick<InboxMessage, 'read' | 'archived' | 'projectId'>>) => {
+    setState(prev => ({ ...prev, inbox: prev.inbox.map(m => (m.id === id ? { ...m, ...patch } : m)) }), { record: false });
   };
 
   return (
-    <div className="min-h-screen bg-white text-black font-mono selection:bg-black selection:text-white">
+    <div className="min-h-screen bg-white text-black font-mono selection:bg-accent selection:text-white">
       {/* CMS Access Button */}
       <button 
         onClick={handleAdminToggle}
         className="fixed bottom-4 right-4 z-50 px-3 py-1.5 border border-black/20 text-[9px] uppercase hover:bg-black hover:text-white transition-all bg-white/80 backdrop-blur-sm shadow-sm font-bold"
       >
-        {isAdmin ? '[ EXIT_CMS ]' : '[ ACCESS_CMS ]'}
+        {showAdmin ? '[ EXIT_CMS ]' : '[ ACCESS_CMS ]'}
       </button>
 
       {/* Sync Status for Admin */}
-      {isAdmin && isSyncing && (
+      {showAdmin && isSyncing && (
         <div className="fixed bottom-12 right-4 z-50 text-[8px] font-black uppercase text-black animate-pulse">
           [ SYNCING_TO_STORAGE... ]
         </div>
@@ -125,28 +349,15 @@ const App: React.FC = () => {
 
       {/* Auth Overlay */}
       {isAuthenticating && (
-        <div className="fixed inset-0 z-[100] bg-white/95 flex items-center justify-center p-4 backdrop-blur-sm">
-          <div className="w-full max-w-xs border-2 border-black p-8 bg-white shadow-2xl">
-            <div className="text-[8px] opacity-40 mb-8 uppercase font-bold text-center tracking-widest">AUTHENTICATION_PROTOCOL</div>
-            <form onSubmit={handleAuth} className="space-y-6">
-              <input 
-                autoFocus
-                type="password"
-                value={password}
-                onChange={(e) => { setPassword(e.target.value); setError(false); }}
-                className={`w-full bg-transparent border-b ${error ? 'border-red-500' : 'border-black'} p-3 text-center text-sm outline-none uppercase font-black tracking-[0.5em]`}
-                placeholder="PASSKEY"
-              />
-              <div className="flex gap-2">
-                <button type="submit" className="flex-grow bg-black text-white py-3 text-[10px] font-black uppercase border border-black hover:invert transition-all">CONNECT</button>
-                <button type="button" onClick={() => setIsAuthenticating(false)} className="px-4 border border-black text-[9px] uppercase font-bold">CANCEL</button>
-              </div>
-            </form>
-          </div>
-        </div>
+        <AuthOverlay
+          credential={state.credential}
+          onSetup={setCredential}
+          onSuccess={() => setIsAdmin(true)}
+          onCancel={cancelAuth}
+        />
       )}
 
-      {isAdmin ? (
+      {showAdmin ? (
         <AdminView 
           state={state} 
           updateProject={updateProject} 
@@ -155,10 +366,35 @@ const App: React.FC = () => {
           updateArchiveItem={updateArchiveItem}
           addArchiveItem={addArchiveItem}
           deleteArchiveItem={deleteArchiveItem}
+          updateService={updateService}
+          addService={addService}
+          deleteService={deleteService}
+          moveRecord={moveRecord}
           updateSettings={updateSettings}
+          updateContactSettings={updateContactSettings}
+          updateSiteConfig={updateSiteConfig}
+          updateThemeSettings={updateThemeSettings}
+          updateCategories={updateCategories}
+          updateClient={updateClient}
+          addClient={addClient}
+          deleteClient={deleteClient}
+          resolveClientMatches={resolveClientMatches}
+          receiveSubmissions={receiveSubmissions}
+          updateInboxMessage={updateInboxMessage}
+          changePasskey={changePasskey}
+          loadReport={initialLoad}
+          restoreState={restoreState}
+          restoreFromTrash={restoreFromTrash}
+          revertRecord={revertRecord}
+          purgeFromTrash={purgeFromTrash}
+          undo={undo}
+          redo={redo}
+          canUndo={canUndo}
+          canRedo={canRedo}
+          onUnsavedChange={setHasUnsavedForms}
         />
       ) : (
-        <PublicView state={state} />
+        <PublicView state={state} route={route} navigate={navigate} theme={theme} onThemeChange={setTheme} />
       )}
     </div>
   );
@@ -1,108 +1,235 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { AppState, Category, Project, ArchiveItem } from '../types.ts';
-
-// 초고효율 압축 함수 (600px, 0.4 quality로 대폭 축소하여 LocalStorage 용량 확보)
-const compressImage = (base64Str: string, maxWidth = 600, quality = 0.4): Promise<string> => {
-  return new Promise((resolve) => {
-    const img = new Image();
-    img.src = base64Str;
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      let width = img.width;
-      let height = img.height;
-
-      if (width > maxWidth) {
-        height = Math.round((height * maxWidth) / width);
-        width = maxWidth;
-      }
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { AppState, CategoryTerm, Client, ClientMatch, DateRange, Project, ArchiveItem, Service, AuditEntry, AuditRecordType, MediaItem, Locale, TranslationLocale, Translations, ContactSettings, ContactSubmission, InboxMessage, SiteConfig, ThemeSettings } from '../types.ts';
+import { storeImageFile, storeVideoFile, exportAssets, importAssets, migrateInlineImages, remapImageRefs, describeStaticAssets } from '../services/assetStore.ts';
+import { FEED_FORMATS, FeedFormat, renderFeed } from '../services/feeds.ts';
+import AssetImage from './AssetImage.tsx';
+import ImageAssetEditor from './ImageAssetEditor.tsx';
+import LocaleTabs from './LocaleTabs.tsx';
+import { DEFAULT_LOCALE, setTranslation, hasTranslation } from '../services/i18n.ts';
+import { createImageAsset, createMediaItem, focalStyle, mediaPoster } from '../services/imageAsset.ts';
+import { parseEmbedUrl, fetchEmbedPoster } from '../services/embeds.ts';
+import RestorePanel from './RestorePanel.tsx';
+import ContactGatewayPanel from './ContactGatewayPanel.tsx';
+import SiteConfigPanel from './SiteConfigPanel.tsx';
+import ThemePanel from './ThemePanel.tsx';
+import InboxPanel from './InboxPanel.tsx';
+import TaxonomyPanel from './TaxonomyPanel.tsx';
+import TagInput from './TagInput.tsx';
+import ClientPicker from './ClientPicker.tsx';
+import ClientReviewPanel from './ClientReviewPanel.tsx';
+import { clientName, createClientId } from '../services/clients.ts';
+import { formatDateRange, isDateRange, parseDateRange } from '../services/dateRange.ts';
+import { ArchiveFilter, DEFAULT_ARCHIVE_FILTER, queryArchive, groupArchiveByYear, isCuratedOrder } from '../services/archiveQuery.ts';
+import ArchiveControls from './ArchiveControls.tsx';
+import { collectTags } from '../services/taxonomy.ts';
+import { projectFromInquiry } from '../services/inbox.ts';
+import ActivityLog, { RecordHistory } from './AuditLog.tsx';
+import { getActor, setActor, recordLabel } from '../services/audit.ts';
+import { CollectionKey } from '../services/backupMerge.ts';
+import { loadState, LoadResult } from '../services/schema.ts';
+import { PersistedLoad, acknowledgeSeed } from '../services/storage.ts';
+import { INITIAL_STATE } from '../constants.tsx';
+import { draftKey, loadDraft, clearDraft } from '../services/drafts.ts';
+import { useDraft, DraftControls } from '../hooks/useDraft.ts';
+import { useDragReorder } from '../hooks/useDragReorder.ts';
 
-      canvas.width = width;
-      canvas.height = height;
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.fillStyle = "#FFFFFF";
-        ctx.fillRect(0, 0, width, height);
-        ctx.drawImage(img, 0, 0, width, height);
-      }
-      resolve(canvas.toDataURL('image/jpeg', quality));
-    };
-    img.onerror = () => resolve('');
-  });
+const MAX_IMAGE_BYTES = 25 * 1024 * 1024;
+const MAX_VIDEO_BYTES = 200 * 1024 * 1024;
+
+type DirtyChangeHandler = (key: string, dirty: boolean) => void;
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// 제목·설명의 언어별 편집: EN은 원문 필드, 그 외 언어는 translations에 저장
+type LocalizedField = 'title' | 'description';
+type LocalizedForm = Partial<Record<LocalizedField, string>> & { translations?: Translations<LocalizedField> };
+const LOCALIZED_FIELDS: LocalizedField[] = ['title', 'description'];
+
+const localizedValue = (data: LocalizedForm, locale: Locale, field: LocalizedField): string =>
+  locale === 'en' ? data[field] || '' : data.translations?.[locale]?.[field] || '';
+
+const withLocalizedValue = <T extends LocalizedForm>(data: T, locale: Locale, field: LocalizedField, value: string): T =>
+  locale === 'en' ? { ...data, [field]: value } : { ...data, translations: setTranslation(data.translations, locale, field, value) };
+
+// 폼의 변경 여부를 상위(AdminView)에 알려 이탈 가드에 사용
+const useReportDirty = (key: string, isDirty: boolean, onDirtyChange?: DirtyChangeHandler) => {
+  useEffect(() => {
+    onDirtyChange?.(key, isDirty);
+  }, [key, isDirty, onDirtyChange]);
+  useEffect(() => () => onDirtyChange?.(key, false), [key, onDirtyChange]);
+};
+
+const confirmDiscard = (draft: DraftControls): boolean => {
+  if (!draft.isDirty) return true;
+  if (!confirm("DISCARD UNSAVED CHANGES?")) return false;
+  draft.discard();
+  return true;
+};
+
+const DraftStatus: React.FC<{ draft: DraftControls }> = ({ draft }) => {
+  if (!draft.restoredAt && !draft.isDirty) return null;
+  return (
+    <div className="flex justify-between items-center border border-dashed border-black px-3 py-2 text-[9px] font-black uppercase">
+      <span>
+        {draft.restoredAt ? `DRAFT_RESTORED: ${draft.restoredAt.replace('T', ' ').slice(0, 19)}` : 'UNSAVED_CHANGES'}
+        {draft.isDirty && <span className="opacity-40 ml-2">(AUTOSAVED)</span>}
+      </span>
+      {draft.isDirty && (
+        <button type="button" onClick={draft.discard} className="underline">[ DISCARD_DRAFT ]</button>
+      )}
+    </div>
+  );
 };
 
 interface ProjectFormProps {
   project: Partial<Project>;
-  onSave: (p: Project) => void;
+  categories: CategoryTerm[];
+  clients: Client[];
+  tagSuggestions: string[];
+  /** 저장되면 true (ID 충돌 등으로 거부되면 폼을 닫지 않는다) */
+  onSave: (p: Project) => boolean;
+  onCreateClient: (client: Client) => void;
   onCancel: () => void;
+  onDirtyChange?: DirtyChangeHandler;
 }
 
-const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSave, onCancel }) => {
-  const [formData, setFormData] = useState<Partial<Project>>({
+const ProjectForm: React.FC<ProjectFormProps> = ({ project, categories, clients, tagSuggestions, onSave, onCreateClient, onCancel, onDirtyChange }) => {
+  const key = draftKey('project', project.id);
+  const [formData, setFormData, draft] = useDraft<Partial<Project>>(key, {
     id: '',
     title: '',
-    category: Category.BRANDING,
-    client: '',
+    category: categories[0]?.id,
+    tags: [],
     status: 'IN_PROGRESS',
     date: new Date().toISOString().split('T')[0],
     description: '',
-    imageUrls: [],
+    media: [],
     ...project
   });
+  useReportDirty(key, draft.isDirty, onDirtyChange);
 
   const [isProcessing, setIsProcessing] = useState(false);
+  const [editingMedia, setEditingMedia] = useState<number | null>(null);
+  const [editLocale, setEditLocale] = useState<Locale>(DEFAULT_LOCALE);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const posterInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (!files) return;
 
     setIsProcessing(true);
-    const newUrls: string[] = [];
+    const newMedia: MediaItem[] = [];
     
     for (let i = 0; i < files.length; i++) {
       const file = files[i];
-      if (file.size > 10 * 1024 * 1024) {
-        alert("SKIP: FILE_TOO_LARGE (>10MB)");
+      const isVideo = file.type.startsWith('video/');
+      if (file.size > (isVideo ? MAX_VIDEO_BYTES : MAX_IMAGE_BYTES)) {
+        alert(`SKIP: FILE_TOO_LARGE (>${isVideo ? '200' : '25'}MB)`);
         continue;
       }
 
-      const base64 = await new Promise<string>((resolve) => {
-        const reader = new FileReader();
-        reader.onloadend = () => resolve(reader.result as string);
-        reader.readAsDataURL(file);
-      });
-      
-      const compressed = await compressImage(base64);
-      if (compressed) newUrls.push(compressed);
+      try {
+        if (isVideo) {
+          const { src, poster } = await storeVideoFile(file);
+          newMedia.push(createMediaItem('video', src, { poster }));
+        } else {
+          newMedia.push(createMediaItem('image', await storeImageFile(file)));
+        }
+      } catch (err) {
+        alert(`SKIP: ASSET_WRITE_FAILED (${file.name})`);
+      }
     }
 
     setFormData(prev => ({
       ...prev,
-      imageUrls: [...(prev.imageUrls || []), ...newUrls]
+      media: [...(prev.media || []), ...newMedia]
     }));
     setIsProcessing(false);
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
-  const removeImage = (index: number) => {
+  const addEmbed = async () => {
+    const url = prompt("VIMEO / YOUTUBE URL:")?.trim();
+    if (!url) return;
+    const embed = parseEmbedUrl(url);
+    if (!embed) {
+      alert("ERROR: UNSUPPORTED_EMBED_URL");
+      return;
+    }
+    setIsProcessing(true);
+    const poster = await fetchEmbedPoster(embed);
+    setFormData(prev => ({
+      ...prev,
+      media: [...(prev.media || []), createMediaItem('embed', url, poster ? { poster } : {})]
+    }));
+    setIsProcessing(false);
+  };
+
+  const removeMedia = (index: number) => {
+    setFormData(prev => ({
+      ...prev,
+      media: (prev.media || []).filter((_, i) => i !== index)
+    }));
+    setEditingMedia(null);
+  };
+
+  const updateMedia = (index: number, item: MediaItem) => {
     setFormData(prev => ({
       ...prev,
-      imageUrls: (prev.imageUrls || []).filter((_, i) => i !== index)
+      media: (prev.media || []).map((m, i) => (i === index ? item : m))
     }));
   };
 
+  const editingItem = editingMedia !== null ? formData.media?.[editingMedia] : undefined;
+
+  const handlePosterChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || !editingItem || editingMedia === null) return;
+    setIsProcessing(true);
+    try {
+      updateMedia(editingMedia, { ...editingItem, poster: await storeImageFile(file) });
+    } catch (err) {
+      alert("ERROR: ASSET_WRITE_FAILED");
+    }
+    setIsProcessing(false);
+    if (posterInputRef.current) posterInputRef.current.value = '';
+  };
+
+  // 첫 번째 미디어가 커버. 드래그로 순서를 바꾼다.
+  const mediaDrag = useDragReorder((key, toIndex) => {
+    setFormData(prev => {
+      const media = [...(prev.media || [])];
+      const [moved] = media.splice(Number(key), 1);
+      media.splice(toIndex, 0, moved);
+      return { ...prev, media };
+    });
+    setEditingMedia(null);
+  });
+
   const handleSave = (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.id || !formData.title) {
       alert("ERROR: MANDATORY_DATA_MISSING");
       return;
     }
-    onSave(formData as Project);
+    // v7 이전에 저장된 초안에는 tags가 없고, v8 이전 초안에는 자유 입력 client 문자열이 남아 있다.
+    const { client: _legacy, ...rest } = formData as Partial<Project> & { client?: string };
+    if (onSave({ ...rest, tags: rest.tags || [] } as Project)) draft.commit();
   };
 
   return (
     <form onSubmit={handleSave} className="border-2 border-black p-6 bg-white space-y-4 text-xs font-mono text-black">
+      <DraftStatus draft={draft} />
+      <LocaleTabs active={editLocale} onChange={setEditLocale} isTranslated={l => hasTranslation(formData.translations, l, LOCALIZED_FIELDS)} />
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
         <div className="flex flex-col">
           <label className="text-[10px] opacity-40 font-bold mb-1 uppercase">ID_REF</label>
@@ -113,73 +240,115 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSave, onCancel })
           />
         </div>
         <div className="flex flex-col">
-          <label className="text-[10px] opacity-40 font-bold mb-1 uppercase">TITLE_STRING</label>
+          <label className="text-[10px] opacity-40 font-bold mb-1 uppercase">TITLE_STRING{editLocale !== 'en' && ` [${editLocale}]`}</label>
           <input 
-            value={formData.title} 
-            onChange={e => setFormData({...formData, title: e.target.value.toUpperCase()})}
-            className="border border-black p-2 outline-none focus:bg-gray-50 font-bold uppercase"
+            lang={editLocale}
+            value={localizedValue(formData, editLocale, 'title')} 
+            placeholder={editLocale !== 'en' ? formData.title : undefined}
+            onChange={e => setFormData(prev => withLocalizedValue(prev, editLocale, 'title', e.target.value))}
+            className="border border-black p-2 outline-none focus:bg-gray-50 font-bold placeholder:opacity-30"
           />
         </div>
         <div className="flex flex-col">
           <label className="text-[10px] opacity-40 font-bold mb-1 uppercase">CAT_NODE</label>
           <select 
             value={formData.category} 
-            onChange={e => setFormData({...formData, category: e.target.value as Category})}
+            onChange={e => setFormData({...formData, category: e.target.value})}
             className="border border-black p-2 outline-none font-bold cursor-pointer"
           >
-            {Object.values(Category).map(c => <option key={c} value={c}>{c}</option>)}
+            {/* 목록에서 지워진 분야를 쓰던 레코드(복원·이력 되돌리기)도 값이 사라지지 않게 보여준다 */}
+            {formData.category && !categories.some(c => c.id === formData.category) && <option value={formData.category}>{formData.category} (REMOVED)</option>}
+            {categories.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
           </select>
         </div>
       </div>
 
+      <div className="flex flex-col">
+        <label className="text-[10px] opacity-40 font-bold mb-1 uppercase">TAGS</label>
+        <TagInput tags={formData.tags || []} onChange={tags => setFormData(prev => ({ ...prev, tags }))} suggestions={tagSuggestions} />
+      </div>
+
       <div className="flex flex-col">
         <label className="text-[10px] opacity-40 font-bold mb-2 uppercase">
           VISUAL_BUFFER {isProcessing && <span className="text-black animate-pulse">[ PROCESSING... ]</span>}
         </label>
         <div className="flex flex-wrap gap-2 p-3 border border-dashed border-black/30 bg-gray-50">
-          {formData.imageUrls?.map((url, idx) => (
-            <div key={idx} className="relative w-20 h-20 border border-black">
-              <img src={url} className="w-full h-full object-cover grayscale" />
+          {formData.media?.map((item, idx) => (
+            <div
+              key={`${idx}:${item.src}`}
+              {...mediaDrag.itemProps(String(idx), idx)}
+              onClick={() => setEditingMedia(prev => (prev === idx ? null : idx))}
+              title="CLICK TO EDIT // DRAG TO REORDER"
+              className={`relative w-20 h-20 border border-black cursor-move bg-black/5 ${editingMedia === idx ? 'outline outline-2 outline-offset-2 outline-black' : ''} ${mediaDrag.dragKey === String(idx) ? 'opacity-30' : ''} ${mediaDrag.overKey === String(idx) && mediaDrag.dragKey !== String(idx) ? 'outline outline-2 outline-offset-2 outline-black' : ''}`}
+            >
+              <AssetImage assetRef={mediaPoster(item)} alt={item.alt} style={focalStyle(item)} className="w-full h-full object-cover grayscale pointer-events-none" />
+              {idx === 0 && <span className="absolute bottom-0 left-0 bg-black text-white px-1 text-[7px] font-black">COVER</span>}
+              {item.kind !== 'image' && <span className="absolute bottom-0 right-0 bg-white text-black border-l border-t border-black px-1 text-[7px] font-black uppercase">▶ {item.kind}</span>}
+              {!item.alt.trim() && <span className="absolute top-0 left-0 bg-yellow-500 text-black px-1 text-[7px] font-black">NO_ALT</span>}
               <button 
                 type="button"
-                onClick={() => removeImage(idx)}
+                onClick={(e) => { e.stopPropagation(); removeMedia(idx); }}
                 className="absolute top-0 right-0 bg-black text-white w-5 h-5 flex items-center justify-center text-[8px]"
               >✕</button>
             </div>
           ))}
           {!isProcessing && (
-            <button 
-              type="button"
-              onClick={() => fileInputRef.current?.click()}
-              className="w-20 h-20 border border-black flex items-center justify-center text-xl hover:bg-black hover:text-white transition-all"
-            >+</button>
+            <>
+              <button 
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                title="UPLOAD IMAGE / VIDEO"
+                className="w-20 h-20 border border-black flex items-center justify-center text-xl hover:bg-black hover:text-white transition-all"
+              >+</button>
+              <button
+                type="button"
+                onClick={addEmbed}
+                title="VIMEO / YOUTUBE"
+                className="w-20 h-20 border border-black flex items-center justify-center text-[9px] font-black uppercase hover:bg-black hover:text-white transition-all"
+              >+ EMBED</button>
+            </>
           )}
         </div>
-        <input type="file" ref={fileInputRef} onChange={handleFileChange} multiple accept="image/*" className="hidden" />
+        <input type="file" ref={fileInputRef} onChange={handleFileChange} multiple accept="image/*,video/*" className="hidden" />
+        <input type="file" ref={posterInputRef} onChange={handlePosterChange} accept="image/*" className="hidden" />
+        {editingMedia !== null && editingItem && (
+          <div className="mt-2 space-y-2">
+            {editingItem.kind !== 'image' && (
+              <div className="flex justify-between items-center gap-4 text-[9px] font-black uppercase">
+                <span className="truncate opacity-40">{editingItem.kind === 'embed' ? editingItem.src : 'UPLOADED_VIDEO'}</span>
+                <button type="button" onClick={() => posterInputRef.current?.click()} className="underline shrink-0">[ REPLACE_POSTER ]</button>
+              </div>
+            )}
+            {/* 영상·임베드는 포스터 이미지를 기준으로 메타데이터와 초점을 편집 */}
+            <ImageAssetEditor
+              image={{ ...editingItem, src: mediaPoster(editingItem) || '' }}
+              onChange={(meta) => updateMedia(editingMedia, { ...editingItem, ...meta, src: editingItem.src })}
+              onClose={() => setEditingMedia(null)}
+            />
+          </div>
+        )}
       </div>
 
       <div className="flex flex-col">
         <label className="text-[10px] opacity-40 font-bold mb-1 uppercase">CLIENT_REF</label>
-        <input 
-          value={formData.client} 
-          onChange={e => setFormData({...formData, client: e.target.value.toUpperCase()})}
-          className="border border-black p-2 outline-none font-bold"
-        />
+        <ClientPicker clientId={formData.clientId} clients={clients} onChange={clientId => setFormData(prev => ({ ...prev, clientId }))} onCreate={onCreateClient} />
       </div>
 
       <div className="flex flex-col">
-        <label className="text-[10px] opacity-40 font-bold mb-1 uppercase">DESC_BLOCK</label>
+        <label className="text-[10px] opacity-40 font-bold mb-1 uppercase">DESC_BLOCK{editLocale !== 'en' && ` [${editLocale}]`}</label>
         <textarea 
           rows={3}
-          value={formData.description} 
-          onChange={e => setFormData({...formData, description: e.target.value.toUpperCase()})}
-          className="border border-black p-2 outline-none resize-none font-bold uppercase leading-relaxed"
+          lang={editLocale}
+          value={localizedValue(formData, editLocale, 'description')} 
+          placeholder={editLocale !== 'en' ? formData.description : undefined}
+          onChange={e => setFormData(prev => withLocalizedValue(prev, editLocale, 'description', e.target.value))}
+          className="border border-black p-2 outline-none resize-none font-bold leading-relaxed placeholder:opacity-30"
         />
       </div>
 
       <div className="flex gap-2 pt-4">
         <button type="submit" className="flex-grow py-4 bg-black text-white font-black uppercase hover:invert transition-all">[ SAVE_PROJECT_DATA ]</button>
-        <button type="button" onClick={onCancel} className="px-6 py-4 border border-black font-black uppercase">CANCEL</button>
+        <button type="button" onClick={() => confirmDiscard(draft) && onCancel()} className="px-6 py-4 border border-black font-black uppercase">CANCEL</button>
       </div>
     </form>
   );
@@ -187,22 +356,27 @@ const ProjectForm: React.FC<ProjectFormProps> = ({ project, onSave, onCancel })
 
 interface ArchiveFormProps {
   item: Partial<ArchiveItem>;
-  onSave: (p: ArchiveItem) => void;
+  clients: Client[];
+  tagSuggestions: string[];
+  onSave: (p: ArchiveItem) => boolean;
+  onCreateClient: (client: Client) => void;
   onCancel: () => void;
+  onDirtyChange?: DirtyChangeHandler;
 }
 
-const ArchiveForm: React.FC<ArchiveFormProps> = ({ item, onSave, onCancel }) => {
-  const [formData, setFormData] = useState<Partial<ArchiveItem>>({
+const ArchiveForm: React.FC<ArchiveFormProps> = ({ item, clients, tagSuggestions, onSave, onCreateClient, onCancel, onDirtyChange }) => {
+  const key = draftKey('archive', item.id);
+  const [formData, setFormData, draft] = useDraft<Partial<ArchiveItem>>(key, {
     id: Date.now().toString(),
-    year: '',
-    company: '',
-    category: '',
+    period: { start: '' },
+    tags: [],
     project: '',
-    imageUrl: '',
     ...item
   });
+  useReportDirty(key, draft.isDirty, onDirtyChange);
 
   const [isProcessing, setIsProcessing] = useState(false);
+  const [isEditingImage, setIsEditingImage] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -210,49 +384,243 @@ const ArchiveForm: React.FC<ArchiveFormProps> = ({ item, onSave, onCancel }) =>
     if (!file) return;
 
     setIsProcessing(true);
-    const base64 = await new Promise<string>((resolve) => {
-      const reader = new FileReader();
-      reader.onloadend = () => resolve(reader.result as string);
-      reader.readAsDataURL(file);
-    });
-    
-    const compressed = await compressImage(base64);
-    setFormData(prev => ({ ...prev, imageUrl: compressed }));
+    try {
+      const assetId = await storeImageFile(file);
+      setFormData(prev => ({ ...prev, image: createImageAsset(assetId) }));
+    } catch (err) {
+      alert("ERROR: ASSET_WRITE_FAILED");
+    }
     setIsProcessing(false);
+    if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  // v9 이전 초안에는 기간 대신 year 문자열이 남아 있을 수 있다.
+  const period: DateRange = formData.period ?? parseDateRange((formData as { year?: string }).year || '') ?? { start: '' };
+  const setPeriod = (patch: Partial<DateRange>) => setFormData(prev => ({ ...prev, period: { ...period, ...patch } }));
+
   const handleSave = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!formData.year || !formData.company) return;
-    onSave(formData as ArchiveItem);
+    if (!period.start || !formData.clientId) {
+      alert("ERROR: MANDATORY_DATA_MISSING");
+      return;
+    }
+    if (!isDateRange(period)) {
+      alert("ERROR: INVALID_PERIOD (YYYY OR YYYY-MM, END NOT BEFORE START)");
+      return;
+    }
+    // 이전 버전 초안의 category(v7), company(v8), year(v9) 문자열은 버린다.
+    const { category: _category, company: _company, year: _year, ...rest } = formData as Partial<ArchiveItem> & { category?: string; company?: string; year?: string };
+    if (onSave({ ...rest, period, tags: rest.tags || [] } as ArchiveItem)) draft.commit();
   };
 
   return (
     <form onSubmit={handleSave} className="border-2 border-black p-6 bg-white space-y-4 text-xs font-mono text-black">
+      <DraftStatus draft={draft} />
       <div className="grid grid-cols-2 gap-4">
         <div className="flex flex-col">
-          <label className="text-[10px] opacity-40 font-bold mb-1 uppercase">STAMP</label>
-          <input value={formData.year} onChange={e => setFormData({...formData, year: e.target.value.toUpperCase()})} className="border border-black p-2 outline-none font-bold" />
+          <label className="text-[10px] opacity-40 font-bold mb-1 uppercase">PERIOD (YYYY / YYYY-MM)</label>
+          <div className="flex items-center gap-2">
+            <input value={period.start} onChange={e => setPeriod({ start: e.target.value.trim() })} placeholder="START" className="w-24 border border-black p-2 outline-none font-bold placeholder:opacity-30" />
+            <span className="opacity-40">-</span>
+            <input value={period.ongoing ? '' : period.end || ''} disabled={period.ongoing} onChange={e => setPeriod({ end: e.target.value.trim() || undefined })} placeholder={period.ongoing ? 'PRESENT' : 'END'} className="w-24 border border-black p-2 outline-none font-bold placeholder:opacity-30 disabled:opacity-40" />
+            <label className="flex items-center gap-1 text-[9px] font-black uppercase cursor-pointer">
+              <input type="checkbox" checked={!!period.ongoing} onChange={e => setPeriod({ ongoing: e.target.checked || undefined, end: undefined })} />
+              ONGOING
+            </label>
+          </div>
         </div>
         <div className="flex flex-col">
-          <label className="text-[10px] opacity-40 font-bold mb-1 uppercase">COMPANY</label>
-          <input value={formData.company} onChange={e => setFormData({...formData, company: e.target.value.toUpperCase()})} className="border border-black p-2 outline-none font-bold" />
+          <label className="text-[10px] opacity-40 font-bold mb-1 uppercase">CLIENT</label>
+          <ClientPicker clientId={formData.clientId} clients={clients} onChange={clientId => setFormData(prev => ({ ...prev, clientId }))} onCreate={onCreateClient} />
         </div>
       </div>
       <div className="flex items-center gap-4">
         <div className="w-12 h-12 border border-black shrink-0 overflow-hidden bg-gray-50">
-          {formData.imageUrl && <img src={formData.imageUrl} className="w-full h-full object-cover grayscale" />}
+          {formData.image && <AssetImage assetRef={formData.image.src} alt={formData.image.alt} style={focalStyle(formData.image)} className="w-full h-full object-cover grayscale" />}
         </div>
-        <button type="button" onClick={() => fileInputRef.current?.click()} className="border border-black px-3 py-1 font-bold text-[9px] uppercase hover:bg-black hover:text-white transition-all">[ ATTACH_ASSET ]</button>
+        <button type="button" disabled={isProcessing} onClick={() => fileInputRef.current?.click()} className="border border-black px-3 py-1 font-bold text-[9px] uppercase hover:bg-black hover:text-white transition-all disabled:opacity-30">{isProcessing ? '[ PROCESSING... ]' : '[ ATTACH_ASSET ]'}</button>
+        {formData.image && (
+          <>
+            <button type="button" onClick={() => setIsEditingImage(prev => !prev)} className="border border-black px-3 py-1 font-bold text-[9px] uppercase hover:bg-black hover:text-white transition-all">[ EDIT_META ]</button>
+            <button type="button" onClick={() => { setFormData(prev => ({ ...prev, image: undefined })); setIsEditingImage(false); }} className="text-[9px] font-black underline uppercase text-red-500">REMOVE</button>
+            {!formData.image.alt.trim() && <span className="bg-yellow-500 text-black px-1 text-[7px] font-black">NO_ALT</span>}
+          </>
+        )}
         <input type="file" ref={fileInputRef} onChange={handleFileChange} accept="image/*" className="hidden" />
       </div>
+      {isEditingImage && formData.image && (
+        <ImageAssetEditor
+          image={formData.image}
+          onChange={(image) => setFormData(prev => ({ ...prev, image }))}
+          onClose={() => setIsEditingImage(false)}
+        />
+      )}
       <div className="flex flex-col">
         <label className="text-[10px] opacity-40 font-bold mb-1 uppercase">LOG_SUMMARY</label>
-        <input value={formData.project} onChange={e => setFormData({...formData, project: e.target.value.toUpperCase()})} className="border border-black p-2 outline-none font-bold" />
+        <input value={formData.project} onChange={e => setFormData({...formData, project: e.target.value})} className="border border-black p-2 outline-none font-bold" />
+      </div>
+      <div className="flex flex-col">
+        <label className="text-[10px] opacity-40 font-bold mb-1 uppercase">TAGS (INDUSTRY, SECTOR ...)</label>
+        <TagInput tags={formData.tags || []} onChange={tags => setFormData(prev => ({ ...prev, tags }))} suggestions={tagSuggestions} />
       </div>
       <div className="flex gap-2 pt-4">
         <button type="submit" className="flex-grow py-3 bg-black text-white font-black uppercase hover:invert transition-all">[ SAVE_LOG ]</button>
-        <button type="button" onClick={onCancel} className="px-4 py-3 border border-black font-black uppercase">CANCEL</button>
+        <button type="button" onClick={() => confirmDiscard(draft) && onCancel()} className="px-4 py-3 border border-black font-black uppercase">CANCEL</button>
+      </div>
+    </form>
+  );
+};
+
+interface ClientFormProps {
+  client: Partial<Client>;
+  clients: Client[];
+  onSave: (c: Client) => boolean;
+  onCancel: () => void;
+  onDirtyChange?: DirtyChangeHandler;
+}
+
+const ClientForm: React.FC<ClientFormProps> = ({ client, clients, onSave, onCancel, onDirtyChange }) => {
+  const key = draftKey('client', client.id);
+  const [formData, setFormData, draft] = useDraft<Partial<Client>>(key, {
+    name: '',
+    sector: '',
+    region: '',
+    website: '',
+    ...client
+  });
+  useReportDirty(key, draft.isDirty, onDirtyChange);
+
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isEditingLogo, setIsEditingLogo] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setIsProcessing(true);
+    try {
+      const assetId = await storeImageFile(file);
+      setFormData(prev => ({ ...prev, logo: createImageAsset(assetId, { alt: `${prev.name || ''} logo`.trim() }) }));
+    } catch (err) {
+      alert("ERROR: ASSET_WRITE_FAILED");
+    }
+    setIsProcessing(false);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = formData.name?.trim();
+    if (!name) {
+      alert("ERROR: MANDATORY_DATA_MISSING");
+      return;
+    }
+    if (clients.some(c => c.id !== formData.id && c.name.toLowerCase() === name.toLowerCase())) {
+      alert("ERROR: CLIENT_EXISTS");
+      return;
+    }
+    // ID는 처음 저장할 때 이름에서 만들고, 이후 이름을 바꿔도 유지한다 (공개 URL에 쓰인다).
+    if (onSave({ ...formData, name, id: formData.id || createClientId(name, clients) } as Client)) draft.commit();
+  };
+
+  return (
+    <form onSubmit={handleSave} className="border-2 border-black p-6 bg-white space-y-4 text-xs font-mono text-black">
+      <DraftStatus draft={draft} />
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="flex flex-col">
+          <label className="text-[10px] opacity-40 font-bold mb-1 uppercase">CLIENT_NAME</label>
+          <input value={formData.name} onChange={e => setFormData({ ...formData, name: e.target.value })} className="border border-black p-2 outline-none font-bold normal-case" />
+        </div>
+        <div className="flex flex-col">
+          <label className="text-[10px] opacity-40 font-bold mb-1 uppercase">WEBSITE</label>
+          <input type="url" value={formData.website} onChange={e => setFormData({ ...formData, website: e.target.value.trim() })} placeholder="https://" className="border border-black p-2 outline-none font-bold normal-case placeholder:opacity-30" />
+        </div>
+        <div className="flex flex-col">
+          <label className="text-[10px] opacity-40 font-bold mb-1 uppercase">SECTOR</label>
+          <input value={formData.sector} onChange={e => setFormData({ ...formData, sector: e.target.value })} className="border border-black p-2 outline-none font-bold normal-case" />
+        </div>
+        <div className="flex flex-col">
+          <label className="text-[10px] opacity-40 font-bold mb-1 uppercase">REGION</label>
+          <input value={formData.region} onChange={e => setFormData({ ...formData, region: e.target.value })} className="border border-black p-2 outline-none font-bold normal-case" />
+        </div>
+      </div>
+      <div className="flex items-center gap-4">
+        <div className="w-12 h-12 border border-black shrink-0 overflow-hidden bg-gray-50">
+          {formData.logo && <AssetImage assetRef={formData.logo.src} alt={formData.logo.alt} style={focalStyle(formData.logo)} className="w-full h-full object-contain" />}
+        </div>
+        <button type="button" disabled={isProcessing} onClick={() => fileInputRef.current?.click()} className="border border-black px-3 py-1 font-bold text-[9px] uppercase hover:bg-black hover:text-white transition-all disabled:opacity-30">{isProcessing ? '[ PROCESSING... ]' : '[ ATTACH_LOGO ]'}</button>
+        {formData.logo && (
+          <>
+            <button type="button" onClick={() => setIsEditingLogo(prev => !prev)} className="border border-black px-3 py-1 font-bold text-[9px] uppercase hover:bg-black hover:text-white transition-all">[ EDIT_META ]</button>
+            <button type="button" onClick={() => { setFormData(prev => ({ ...prev, logo: undefined })); setIsEditingLogo(false); }} className="text-[9px] font-black underline uppercase text-red-500">REMOVE</button>
+          </>
+        )}
+        <input type="file" ref={fileInputRef} onChange={handleFileChange} accept="image/*" className="hidden" />
+      </div>
+      {isEditingLogo && formData.logo && (
+        <ImageAssetEditor
+          image={formData.logo}
+          onChange={(logo) => setFormData(prev => ({ ...prev, logo }))}
+          onClose={() => setIsEditingLogo(false)}
+        />
+      )}
+      <div className="flex gap-2 pt-4">
+        <button type="submit" className="flex-grow py-3 bg-black text-white font-black uppercase hover:invert transition-all">[ SAVE_CLIENT ]</button>
+        <button type="button" onClick={() => confirmDiscard(draft) && onCancel()} className="px-4 py-3 border border-black font-black uppercase">CANCEL</button>
+      </div>
+    </form>
+  );
+};
+
+interface ServiceFormProps {
+  service: Partial<Service>;
+  onSave: (s: Service) => boolean;
+  onCancel: () => void;
+  onDirtyChange?: DirtyChangeHandler;
+}
+
+const ServiceForm: React.FC<ServiceFormProps> = ({ service, onSave, onCancel, onDirtyChange }) => {
+  const key = draftKey('service', service.id);
+  const [formData, setFormData, draft] = useDraft<Partial<Service>>(key, {
+    id: `S-${Date.now().toString(36).toUpperCase()}`,
+    number: '',
+    title: '',
+    description: '',
+    ...service
+  });
+  useReportDirty(key, draft.isDirty, onDirtyChange);
+  const [editLocale, setEditLocale] = useState<Locale>(DEFAULT_LOCALE);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.title) {
+      alert("ERROR: MANDATORY_DATA_MISSING");
+      return;
+    }
+    if (onSave(formData as Service)) draft.commit();
+  };
+
+  return (
+    <form onSubmit={handleSave} className="border-2 border-black p-6 bg-white space-y-4 text-xs font-mono text-black">
+      <DraftStatus draft={draft} />
+      <LocaleTabs active={editLocale} onChange={setEditLocale} isTranslated={l => hasTranslation(formData.translations, l, LOCALIZED_FIELDS)} />
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="flex flex-col">
+          <label className="text-[10px] opacity-40 font-bold mb-1 uppercase">NODE_REF</label>
+          <input value={formData.id} disabled className="border border-black/20 p-2 outline-none font-bold uppercase opacity-40" />
+        </div>
+        <div className="flex flex-col md:col-span-2">
+          <label className="text-[10px] opacity-40 font-bold mb-1 uppercase">TITLE_STRING{editLocale !== 'en' && ` [${editLocale}]`}</label>
+          <input lang={editLocale} value={localizedValue(formData, editLocale, 'title')} placeholder={editLocale !== 'en' ? formData.title : undefined} onChange={e => setFormData(prev => withLocalizedValue(prev, editLocale, 'title', e.target.value))} className="border border-black p-2 outline-none focus:bg-gray-50 font-bold placeholder:opacity-30" />
+        </div>
+      </div>
+      <div className="flex flex-col">
+        <label className="text-[10px] opacity-40 font-bold mb-1 uppercase">DESC_BLOCK{editLocale !== 'en' && ` [${editLocale}]`}</label>
+        <textarea rows={3} lang={editLocale} value={localizedValue(formData, editLocale, 'description')} placeholder={editLocale !== 'en' ? formData.description : undefined} onChange={e => setFormData(prev => withLocalizedValue(prev, editLocale, 'description', e.target.value))} className="border border-black p-2 outline-none resize-none font-bold leading-relaxed placeholder:opacity-30" />
+      </div>
+      <div className="flex gap-2 pt-4">
+        <button type="submit" className="flex-grow py-3 bg-black text-white font-black uppercase hover:invert transition-all">[ SAVE_SERVICE_NODE ]</button>
+        <button type="button" onClick={() => confirmDiscard(draft) && onCancel()} className="px-4 py-3 border border-black font-black uppercase">CANCEL</button>
       </div>
     </form>
   );
@@ -260,56 +628,242 @@ const ArchiveForm: React.FC<ArchiveFormProps> = ({ item, onSave, onCancel }) =>
 
 interface AdminViewProps {
   state: AppState;
-  updateProject: (id: string, updated: Project) => void;
-  addProject: (project: Project) => void;
+  updateProject: (id: string, updated: Project) => boolean;
+  addProject: (project: Project) => boolean;
   deleteProject: (id: string) => void;
-  updateArchiveItem: (id: string, updated: ArchiveItem) => void;
-  addArchiveItem: (item: ArchiveItem) => void;
+  updateArchiveItem: (id: string, updated: ArchiveItem) => boolean;
+  addArchiveItem: (item: ArchiveItem) => boolean;
   deleteArchiveItem: (id: string) => void;
-  updateSettings: (siteTitle: string, tagline: string) => void;
+  updateService: (id: string, updated: Service) => boolean;
+  addService: (service: Service) => boolean;
+  deleteService: (id: string) => void;
+  moveRecord: (collection: CollectionKey, id: string, toIndex: number) => void;
+  updateSettings: (siteTitle: string, tagline: string, taglineTranslations: Partial<Record<TranslationLocale, string>>) => void;
+  updateContactSettings: (settings: ContactSettings) => void;
+  updateSiteConfig: (config: SiteConfig) => void;
+  updateThemeSettings: (settings: ThemeSettings) => void;
+  updateCategories: (categories: CategoryTerm[], reassign?: Record<string, string>) => void;
+  updateClient: (id: string, updated: Client) => boolean;
+  addClient: (client: Client) => boolean;
+  deleteClient: (id: string) => void;
+  resolveClientMatches: (resolutions: { match: ClientMatch; clientId: string }[], newClients?: Client[]) => void;
+  receiveSubmissions: (submissions: ContactSubmission[]) => void;
+  updateInboxMessage: (id: string, patch: Partial<Pick<InboxMessage, 'read' | 'archived' | 'projectId'>>) => void;
+  changePasskey: (current: string, next: string, confirm: string) => Promise<string | null>;
+  loadReport: PersistedLoad;
+  restoreState: (next: AppState) => void;
+  restoreFromTrash: (entryId: string) => void;
+  revertRecord: (collection: CollectionKey, snapshot: Project | ArchiveItem | Service | Client) => void;
+  purgeFromTrash: (entryId?: string) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUnsavedChange?: (unsaved: boolean) => void;
+}
+
+type AdminTab = 'PROJECTS' | 'ARCHIVE' | 'SERVICES' | 'CLIENTS' | 'TAXONOMY' | 'INBOX' | 'TRASH' | 'LOG' | 'SETTINGS';
+
+interface PendingRestore extends LoadResult {
+  fileName: string;
+  assets?: Record<string, string>;
+  /** 새 정적 빌드의 데이터를 검토하는 경우 그 publishedAt */
+  seedPublishedAt?: string;
 }
 
 const AdminView: React.FC<AdminViewProps> = ({ 
   state, updateProject, addProject, deleteProject,
   updateArchiveItem, addArchiveItem, deleteArchiveItem,
-  updateSettings
+  updateService, addService, deleteService, moveRecord,
+  updateSettings, updateContactSettings, updateSiteConfig, updateThemeSettings, updateCategories, updateClient, addClient, deleteClient, resolveClientMatches, receiveSubmissions, updateInboxMessage, changePasskey, loadReport, restoreState,
+  restoreFromTrash, revertRecord, purgeFromTrash, undo, redo, canUndo, canRedo,
+  onUnsavedChange
 }) => {
-  const [activeTab, setActiveTab] = useState<'PROJECTS' | 'ARCHIVE' | 'SETTINGS'>('PROJECTS');
+  const [activeTab, setActiveTab] = useState<AdminTab>('PROJECTS');
+  const [dirtyForms, setDirtyForms] = useState<Record<string, boolean>>({});
+  const [historyKey, setHistoryKey] = useState<string | null>(null);
+  const [operator, setOperator] = useState(getActor);
   const [editingProjectId, setEditingProjectId] = useState<string | null>(null);
   const [newProjectForm, setNewProjectForm] = useState(false);
+  // 문의함에서 프로젝트로 전환할 때 새 프로젝트 폼에 채울 값
+  const [projectPrefill, setProjectPrefill] = useState<{ inquiryId: string; project: Partial<Project> } | null>(null);
   const [editingArchiveId, setEditingArchiveId] = useState<string | null>(null);
   const [newArchiveForm, setNewArchiveForm] = useState(false);
+  const [editingServiceId, setEditingServiceId] = useState<string | null>(null);
+  const [newServiceForm, setNewServiceForm] = useState(false);
+  const [editingClientId, setEditingClientId] = useState<string | null>(null);
+  const [newClientForm, setNewClientForm] = useState(false);
   const [siteTitle, setSiteTitle] = useState(state.siteTitle || '');
   const [tagline, setTagline] = useState(state.tagline || '');
+  const [taglineTranslations, setTaglineTranslations] = useState(state.taglineTranslations || {});
+  const [taglineLocale, setTaglineLocale] = useState<Locale>(DEFAULT_LOCALE);
+  const [feedCategory, setFeedCategory] = useState('');
+
+  const hasUnsaved = Object.values(dirtyForms).some(Boolean);
+  const tagSuggestions = collectTags([...state.projects, ...state.archiveItems]).map(t => t.tag);
+
+  const projectDrag = useDragReorder((id, toIndex) => moveRecord('projects', id, toIndex));
+  const archiveDrag = useDragReorder((id, toIndex) => moveRecord('archiveItems', id, toIndex));
+  const [archiveFilter, setArchiveFilter] = useState<ArchiveFilter>(DEFAULT_ARCHIVE_FILTER);
+  const archiveCurated = isCuratedOrder(archiveFilter);
+  const archiveRows = queryArchive(state.archiveItems, archiveFilter, state.clients);
+  const archiveGroups = archiveFilter.groupByYear ? groupArchiveByYear(archiveRows) : [{ year: null, items: archiveRows }];
+
+  const dragRowClass = (drag: ReturnType<typeof useDragReorder>, id: string) =>
+    drag.dragKey === id ? 'opacity-30' : drag.overKey === id && drag.dragKey !== null ? 'border-t-4' : '';
 
-  const handleExport = () => {
-    const dataStr = JSON.stringify(state, null, 2);
-    const blob = new Blob([dataStr], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `ODEMIND_DATABASE_${new Date().toISOString().split('T')[0]}.json`;
-    link.click();
+  const clientUsage = (id: string) =>
+    state.projects.filter(p => p.clientId === id).length + state.archiveItems.filter(a => a.clientId === id).length;
+
+  // 저장이 거부되면(ID 충돌) 폼을 열어 둔다.
+  const closeOnSave = (saved: boolean, close: () => void): boolean => {
+    if (saved) close();
+    return saved;
+  };
+
+  const toggleFeatured = (project: Project) => updateProject(project.id, { ...project, featured: !project.featured });
+
+  const handleDirtyChange = useCallback((key: string, dirty: boolean) => {
+    setDirtyForms(prev => (!!prev[key] === dirty ? prev : { ...prev, [key]: dirty }));
+  }, []);
+
+  // 열린 폼을 닫는 모든 경로에서 확인. 떠나도 초안은 남아 다음에 다시 열 때 복원된다.
+  const confirmLeave = () =>
+    !hasUnsaved || confirm("UNSAVED_CHANGES: LEAVE THIS FORM? THE DRAFT WILL BE KEPT.");
+
+  const switchTab = (tab: AdminTab) => {
+    if (tab !== activeTab && !confirmLeave()) return;
+    setActiveTab(tab);
+  };
+
+  const unreadCount = state.inbox.filter(m => !m.read && !m.archived).length;
+
+  const handleConvertInquiry = (message: InboxMessage) => {
+    if (!confirmLeave()) return;
+    const newDraftKey = draftKey('project');
+    if (loadDraft(newDraftKey)) {
+      if (!confirm("REPLACE THE SAVED NEW-PROJECT DRAFT?")) return;
+      clearDraft(newDraftKey);
+    }
+    setProjectPrefill({ inquiryId: message.id, project: projectFromInquiry(message, state.categories, state.clients) });
+    setEditingProjectId(null);
+    setNewProjectForm(true);
+    setActiveTab('PROJECTS');
+  };
+
+  useEffect(() => {
+    onUnsavedChange?.(hasUnsaved);
+  }, [hasUnsaved, onUnsavedChange]);
+  useEffect(() => () => onUnsavedChange?.(false), [onUnsavedChange]);
+
+  useEffect(() => {
+    if (!hasUnsaved) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [hasUnsaved]);
+
+  const toggleHistory = (recordType: AuditRecordType, id: string) => {
+    const key = `${recordType}:${id}`;
+    setHistoryKey(prev => (prev === key ? null : key));
+  };
+
+  const renderHistory = (recordType: AuditRecordType, collection: CollectionKey, id: string) => {
+    if (historyKey !== `${recordType}:${id}`) return null;
+    const entries = state.auditLog.filter(e => e.recordType === recordType && e.recordId === id);
+    const handleRevert = (entry: AuditEntry) => {
+      if (entry.snapshot && confirm(`RESTORE VERSION FROM ${entry.at.replace('T', ' ').slice(0, 19)}?`)) {
+        revertRecord(collection, entry.snapshot);
+      }
+    };
+    return <RecordHistory entries={entries} onRevert={handleRevert} />;
+  };
+
+  // undo/redo나 복원으로 설정값이 바뀌면 입력 필드도 맞춘다.
+  useEffect(() => {
+    setSiteTitle(state.siteTitle || '');
+    setTagline(state.tagline || '');
+    setTaglineTranslations(state.taglineTranslations || {});
+  }, [state.siteTitle, state.tagline, state.taglineTranslations]);
+
+  // Ctrl/Cmd+Z: undo, Ctrl/Cmd+Shift+Z 또는 Ctrl+Y: redo (입력 필드 안에서는 브라우저 기본 동작 유지)
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [undo, redo]);
+  const [passkeyForm, setPasskeyForm] = useState({ current: '', next: '', confirm: '' });
+  const [passkeyStatus, setPasskeyStatus] = useState<string | null>(null);
+  const [pendingRestore, setPendingRestore] = useState<PendingRestore | null>(null);
+  const [pendingSeed, setPendingSeed] = useState(loadReport.pendingSeed);
+
+  const handlePasskeyChange = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const error = await changePasskey(passkeyForm.current, passkeyForm.next, passkeyForm.confirm);
+    setPasskeyStatus(error ? `ERROR: ${error}` : 'PASSKEY_UPDATED');
+    if (!error) setPasskeyForm({ current: '', next: '', confirm: '' });
+  };
+
+  const handleExport = async () => {
+    const assets = await exportAssets(state);
+    const dataStr = JSON.stringify({ ...state, assets }, null, 2);
+    downloadBlob(new Blob([dataStr], { type: 'application/json' }), `ODEMIND_DATABASE_${new Date().toISOString().split('T')[0]}.json`);
+  };
+
+  // 피드 링크·이미지 주소는 현재 사이트 주소에 정적 빌드를 배포했다고 보고 만든다.
+  const handleFeedDownload = async (format: FeedFormat) => {
+    const siteUrl = `${window.location.origin}${window.location.pathname.replace(/[^/]*$/, '')}`;
+    const assets = await describeStaticAssets(state);
+    const content = renderFeed(format, state, { siteUrl, assets, category: feedCategory || undefined });
+    const { mimeType, fileName } = FEED_FORMATS.find(f => f.format === format)!;
+    downloadBlob(new Blob([content], { type: mimeType }), `ODEMIND_${feedCategory || 'ALL'}_${fileName}`);
   };
 
   const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
+    e.target.value = '';
     const reader = new FileReader();
     reader.onload = (event) => {
       try {
-        const json = JSON.parse(event.target?.result as string);
-        if (json.projects) {
-          if (confirm("OVERWRITE CURRENT DATABASE?")) {
-            localStorage.setItem('odemind_archive_v5_final', JSON.stringify(json));
-            window.location.reload();
-          }
-        }
-      } catch (err) { alert("ERROR: INVALID_DATA_STRUCTURE"); }
+        const { assets, ...json } = JSON.parse(event.target?.result as string);
+        // 이전 버전 백업도 현재 스키마로 변환·검증한 뒤 차이를 미리 보여준다.
+        setPendingRestore({ ...loadState(json, INITIAL_STATE), fileName: file.name, assets });
+      } catch (err) { alert(`ERROR: ${err instanceof Error ? err.message : 'INVALID_DATA_STRUCTURE'}`); }
     };
     reader.readAsText(file);
   };
 
+  const applyRestore = async (next: AppState) => {
+    if (pendingRestore?.assets) await importAssets(pendingRestore.assets);
+    if (pendingRestore?.seedPublishedAt) {
+      acknowledgeSeed(pendingRestore.seedPublishedAt);
+      setPendingSeed(undefined);
+    }
+    // 구버전 백업의 base64 이미지는 복원과 동시에 에셋 저장소로 옮긴다.
+    restoreState(remapImageRefs(next, await migrateInlineImages(next)));
+    setSiteTitle(next.siteTitle);
+    setTagline(next.tagline);
+    setTaglineTranslations(next.taglineTranslations || {});
+    setPendingRestore(null);
+    alert("RESTORE_COMPLETE");
+  };
+
   return (
     <div className="max-w-6xl mx-auto p-6 md:p-16 pb-32 animate-in fade-in duration-500 text-black">
       <header className="border-b-4 border-black pb-8 mb-12 flex flex-col md:flex-row justify-between items-start md:items-end gap-6">
@@ -318,42 +872,77 @@ const AdminView: React.FC<AdminViewProps> = ({
           <p className="text-[10px] opacity-40 font-bold uppercase mt-4 tracking-[0.4em]">DATABASE_MANAGEMENT_STATION</p>
         </div>
         <div className="flex gap-3">
-          <button onClick={() => { setActiveTab('PROJECTS'); setNewProjectForm(true); setEditingProjectId(null); }} className="bg-black text-white px-6 py-4 font-black text-[10px] uppercase border border-black hover:invert transition-all">[ ADD_PROJECT ]</button>
-          <button onClick={() => { setActiveTab('ARCHIVE'); setNewArchiveForm(true); setEditingArchiveId(null); }} className="border-2 border-black px-6 py-4 font-black text-[10px] uppercase hover:bg-black hover:text-white transition-all">[ LOG_ARCHIVE ]</button>
+          <button onClick={undo} disabled={!canUndo} title="CTRL+Z" className="border-2 border-black px-4 py-4 font-black text-[10px] uppercase hover:bg-black hover:text-white transition-all disabled:opacity-20 disabled:pointer-events-none">↶ UNDO</button>
+          <button onClick={redo} disabled={!canRedo} title="CTRL+SHIFT+Z" className="border-2 border-black px-4 py-4 font-black text-[10px] uppercase hover:bg-black hover:text-white transition-all disabled:opacity-20 disabled:pointer-events-none">↷ REDO</button>
+          <button onClick={() => { if (!confirmLeave()) return; setActiveTab('PROJECTS'); setNewProjectForm(true); setProjectPrefill(null); setEditingProjectId(null); }} className="bg-black text-white px-6 py-4 font-black text-[10px] uppercase border border-black hover:invert transition-all">[ ADD_PROJECT ]</button>
+          <button onClick={() => { if (!confirmLeave()) return; setActiveTab('ARCHIVE'); setNewArchiveForm(true); setEditingArchiveId(null); }} className="border-2 border-black px-6 py-4 font-black text-[10px] uppercase hover:bg-black hover:text-white transition-all">[ LOG_ARCHIVE ]</button>
         </div>
       </header>
 
       <nav className="flex gap-12 mb-12 border-b-2 border-black pb-4 text-xs font-black uppercase tracking-widest">
-        <button onClick={() => setActiveTab('PROJECTS')} className={activeTab === 'PROJECTS' ? 'underline decoration-4 underline-offset-8' : 'opacity-20 hover:opacity-100'}>PROJECTS</button>
-        <button onClick={() => setActiveTab('ARCHIVE')} className={activeTab === 'ARCHIVE' ? 'underline decoration-4 underline-offset-8' : 'opacity-20 hover:opacity-100'}>ARCHIVE</button>
-        <button onClick={() => setActiveTab('SETTINGS')} className={activeTab === 'SETTINGS' ? 'underline decoration-4 underline-offset-8' : 'opacity-20 hover:opacity-100'}>CONFIG</button>
+        <button onClick={() => switchTab('PROJECTS')} className={activeTab === 'PROJECTS' ? 'underline decoration-4 underline-offset-8' : 'opacity-20 hover:opacity-100'}>PROJECTS</button>
+        <button onClick={() => switchTab('ARCHIVE')} className={activeTab === 'ARCHIVE' ? 'underline decoration-4 underline-offset-8' : 'opacity-20 hover:opacity-100'}>ARCHIVE</button>
+        <button onClick={() => switchTab('SERVICES')} className={activeTab === 'SERVICES' ? 'underline decoration-4 underline-offset-8' : 'opacity-20 hover:opacity-100'}>SERVICES</button>
+        <button onClick={() => switchTab('CLIENTS')} className={activeTab === 'CLIENTS' ? 'underline decoration-4 underline-offset-8' : 'opacity-20 hover:opacity-100'}>CLIENTS{state.clientReview.length > 0 ? ` (${state.clientReview.length})` : ''}</button>
+        <button onClick={() => switchTab('TAXONOMY')} className={activeTab === 'TAXONOMY' ? 'underline decoration-4 underline-offset-8' : 'opacity-20 hover:opacity-100'}>TAXONOMY</button>
+        <button onClick={() => switchTab('INBOX')} className={activeTab === 'INBOX' ? 'underline decoration-4 underline-offset-8' : 'opacity-20 hover:opacity-100'}>INBOX{unreadCount > 0 ? ` (${unreadCount})` : ''}</button>
+        <button onClick={() => switchTab('TRASH')} className={activeTab === 'TRASH' ? 'underline decoration-4 underline-offset-8' : 'opacity-20 hover:opacity-100'}>TRASH{state.trash.length > 0 ? ` (${state.trash.length})` : ''}</button>
+        <button onClick={() => switchTab('LOG')} className={activeTab === 'LOG' ? 'underline decoration-4 underline-offset-8' : 'opacity-20 hover:opacity-100'}>LOG</button>
+        <button onClick={() => switchTab('SETTINGS')} className={activeTab === 'SETTINGS' ? 'underline decoration-4 underline-offset-8' : 'opacity-20 hover:opacity-100'}>CONFIG{pendingSeed ? ' (1)' : ''}</button>
       </nav>
 
       <div className="space-y-12">
         {activeTab === 'PROJECTS' && (
           <div className="space-y-6">
-            {newProjectForm && <ProjectForm project={{}} onSave={(p) => { addProject(p); setNewProjectForm(false); }} onCancel={() => setNewProjectForm(false)} />}
-            {state.projects.map(p => (
-              <div key={p.id} className="border border-black p-4 group hover:bg-black hover:text-white transition-all">
+            <p className="text-[9px] opacity-40 font-bold uppercase tracking-widest">DRAG ⠿ TO REORDER // PINNED PROJECTS DRIVE THE HOME PAGE (FIRST 3 IF NONE)</p>
+            {newProjectForm && (
+              <ProjectForm
+                key={projectPrefill?.inquiryId || 'new'}
+                project={projectPrefill?.project || {}}
+                categories={state.categories}
+                clients={state.clients}
+                tagSuggestions={tagSuggestions}
+                onCreateClient={addClient}
+                onSave={(p) => {
+                  if (!addProject(p)) return false;
+                  if (projectPrefill) updateInboxMessage(projectPrefill.inquiryId, { projectId: p.id });
+                  setNewProjectForm(false);
+                  setProjectPrefill(null);
+                  return true;
+                }}
+                onCancel={() => { setNewProjectForm(false); setProjectPrefill(null); }}
+                onDirtyChange={handleDirtyChange}
+              />
+            )}
+            {state.projects.map((p, idx) => (
+              <div
+                key={p.id}
+                {...(editingProjectId === p.id ? {} : projectDrag.itemProps(p.id, idx))}
+                className={`border border-black p-4 group hover:bg-black hover:text-white transition-all ${dragRowClass(projectDrag, p.id)}`}
+              >
                 {editingProjectId === p.id ? (
-                  <ProjectForm project={p} onSave={(upd) => { updateProject(p.id, upd); setEditingProjectId(null); }} onCancel={() => setEditingProjectId(null)} />
+                  <ProjectForm project={p} categories={state.categories} clients={state.clients} tagSuggestions={tagSuggestions} onCreateClient={addClient} onSave={(upd) => closeOnSave(updateProject(p.id, upd), () => setEditingProjectId(null))} onCancel={() => setEditingProjectId(null)} onDirtyChange={handleDirtyChange} />
                 ) : (
                   <div className="flex flex-col md:flex-row justify-between items-center gap-6">
                     <div className="flex items-center gap-6 flex-grow">
+                      <span className="cursor-move opacity-30 select-none" title="DRAG TO REORDER">⠿</span>
                       <div className="w-16 h-16 border border-black grayscale overflow-hidden">
-                        {p.imageUrls?.[0] && <img src={p.imageUrls[0]} className="w-full h-full object-cover" />}
+                        {p.media?.[0] && <AssetImage assetRef={mediaPoster(p.media[0])} alt={p.media[0].alt} style={focalStyle(p.media[0])} className="w-full h-full object-cover" />}
                       </div>
                       <div>
-                        <div className="text-[10px] opacity-40 font-bold">{p.id}</div>
+                        <div className="text-[10px] opacity-40 font-bold">{p.id}{p.featured && <span className="ml-3 opacity-100">★ FEATURED</span>}</div>
                         <div className="text-lg font-black italic uppercase tracking-tighter">{p.title}</div>
                       </div>
                     </div>
                     <div className="flex gap-6 items-center shrink-0">
-                      <button onClick={() => setEditingProjectId(p.id)} className="text-[10px] font-black underline uppercase">EDIT</button>
+                      <button onClick={() => toggleFeatured(p)} className="text-[10px] font-black underline uppercase">{p.featured ? 'UNPIN' : 'PIN'}</button>
+                      <button onClick={() => toggleHistory('project', p.id)} className="text-[10px] font-black underline uppercase">HISTORY</button>
+                      <button onClick={() => confirmLeave() && setEditingProjectId(p.id)} className="text-[10px] font-black underline uppercase">EDIT</button>
                       <button onClick={() => deleteProject(p.id)} className="text-[10px] font-black underline uppercase text-red-500">DELETE</button>
                     </div>
                   </div>
                 )}
+                {renderHistory('project', 'projects', p.id)}
               </div>
             ))}
           </div>
@@ -361,42 +950,257 @@ const AdminView: React.FC<AdminViewProps> = ({
 
         {activeTab === 'ARCHIVE' && (
           <div className="space-y-6">
-            {newArchiveForm && <ArchiveForm item={{}} onSave={(i) => { addArchiveItem(i); setNewArchiveForm(false); }} onCancel={() => setNewArchiveForm(false)} />}
-            {state.archiveItems.map(item => (
-              <div key={item.id} className="border border-black p-4 group hover:bg-black hover:text-white transition-all">
-                {editingArchiveId === item.id ? (
-                  <ArchiveForm item={item} onSave={(upd) => { updateArchiveItem(item.id, upd); setEditingArchiveId(null); }} onCancel={() => setEditingArchiveId(null)} />
+            {newArchiveForm && <ArchiveForm item={{}} clients={state.clients} tagSuggestions={tagSuggestions} onCreateClient={addClient} onSave={(i) => closeOnSave(addArchiveItem(i), () => setNewArchiveForm(false))} onCancel={() => setNewArchiveForm(false)} onDirtyChange={handleDirtyChange} />}
+            <ArchiveControls items={state.archiveItems} filter={archiveFilter} onChange={setArchiveFilter} resultCount={archiveRows.length} locale="en" />
+            {!archiveCurated && <div className="text-[9px] font-bold opacity-40 uppercase tracking-widest">SORTED / FILTERED VIEW // CLEAR SORT, FILTERS AND GROUPING TO REORDER</div>}
+            {archiveGroups.map(group => (
+              <div key={group.year ?? 'undated'} className="space-y-6">
+                {archiveFilter.groupByYear && (
+                  <div className="text-[10px] font-black uppercase border-b-2 border-black pb-1">{group.year ?? 'UNDATED'} ({group.items.length})</div>
+                )}
+                {group.items.map(item => (
+                  <div
+                    key={item.id}
+                    {...(editingArchiveId === item.id || !archiveCurated ? {} : archiveDrag.itemProps(item.id, archiveRows.indexOf(item)))}
+                    className={`border border-black p-4 group hover:bg-black hover:text-white transition-all ${dragRowClass(archiveDrag, item.id)}`}
+                  >
+                    {editingArchiveId === item.id ? (
+                      <ArchiveForm item={item} clients={state.clients} tagSuggestions={tagSuggestions} onCreateClient={addClient} onSave={(upd) => closeOnSave(updateArchiveItem(item.id, upd), () => setEditingArchiveId(null))} onCancel={() => setEditingArchiveId(null)} onDirtyChange={handleDirtyChange} />
+                    ) : (
+                      <div className="flex justify-between items-center">
+                        <div>
+                          {archiveCurated && <span className="cursor-move opacity-30 select-none mr-4" title="DRAG TO REORDER">⠿</span>}
+                          {item.period.start
+                            ? <span className="text-[10px] opacity-40 font-bold mr-4">{formatDateRange(item.period)}</span>
+                            : <span className="text-[10px] font-bold mr-4 bg-yellow-500 text-black px-1" title="PERIOD COULD NOT BE PARSED // EDIT TO SET">UNDATED</span>}
+                          <span className="text-sm font-black italic uppercase tracking-tighter">{clientName(state.clients, item.clientId) || item.project}</span>
+                        </div>
+                        <div className="flex gap-6">
+                          <button onClick={() => toggleHistory('archive', item.id)} className="text-[10px] font-black underline uppercase">HISTORY</button>
+                          <button onClick={() => confirmLeave() && setEditingArchiveId(item.id)} className="text-[10px] font-black underline uppercase">EDIT</button>
+                          <button onClick={() => deleteArchiveItem(item.id)} className="text-[10px] font-black underline uppercase text-red-500">DELETE</button>
+                        </div>
+                      </div>
+                    )}
+                    {renderHistory('archive', 'archiveItems', item.id)}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {activeTab === 'SERVICES' && (
+          <div className="space-y-6">
+            {newServiceForm ? (
+              <ServiceForm service={{}} onSave={(sv) => closeOnSave(addService(sv), () => setNewServiceForm(false))} onCancel={() => setNewServiceForm(false)} onDirtyChange={handleDirtyChange} />
+            ) : (
+              <button onClick={() => { if (!confirmLeave()) return; setNewServiceForm(true); setEditingServiceId(null); }} className="w-full py-4 border-2 border-dashed border-black font-black text-[10px] uppercase hover:bg-black hover:text-white transition-all">[ ADD_SERVICE_NODE ]</button>
+            )}
+            {state.services.map((service, idx) => (
+              <div key={service.id} className="border border-black p-4 group hover:bg-black hover:text-white transition-all">
+                {editingServiceId === service.id ? (
+                  <ServiceForm service={service} onSave={(upd) => closeOnSave(updateService(service.id, upd), () => setEditingServiceId(null))} onCancel={() => setEditingServiceId(null)} onDirtyChange={handleDirtyChange} />
+                ) : (
+                  <div className="flex flex-col md:flex-row justify-between items-center gap-6">
+                    <div className="flex items-center gap-6 flex-grow">
+                      <div className="text-3xl font-black italic opacity-20 w-14">{service.number}</div>
+                      <div>
+                        <div className="text-[10px] opacity-40 font-bold">{service.id}</div>
+                        <div className="text-lg font-black italic uppercase tracking-tighter">{service.title}</div>
+                      </div>
+                    </div>
+                    <div className="flex gap-6 items-center shrink-0">
+                      <button disabled={idx === 0} onClick={() => moveRecord('services', service.id, idx - 1)} className="text-[10px] font-black uppercase disabled:opacity-20">↑</button>
+                      <button disabled={idx === state.services.length - 1} onClick={() => moveRecord('services', service.id, idx + 1)} className="text-[10px] font-black uppercase disabled:opacity-20">↓</button>
+                      <button onClick={() => confirmLeave() && setEditingServiceId(service.id)} className="text-[10px] font-black underline uppercase">EDIT</button>
+                      <button onClick={() => deleteService(service.id)} className="text-[10px] font-black underline uppercase text-red-500">DELETE</button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {activeTab === 'TRASH' && (
+          <div className="space-y-6">
+            {state.trash.length === 0 ? (
+              <div className="py-20 text-center text-[10px] font-black uppercase tracking-[0.4em] opacity-20">--- TRASH_EMPTY ---</div>
+            ) : (
+              <>
+                <div className="flex justify-between items-center">
+                  <div className="text-[10px] font-black uppercase opacity-40">{state.trash.length} RECORD(S) PENDING_PURGE</div>
+                  <button onClick={() => purgeFromTrash()} className="text-[10px] font-black underline uppercase text-red-500">[ EMPTY_TRASH ]</button>
+                </div>
+                {state.trash.map(entry => (
+                  <div key={entry.entryId} className="border border-black p-4 group hover:bg-black hover:text-white transition-all">
+                    <div className="flex flex-col md:flex-row justify-between items-center gap-6">
+                      <div className="flex-grow">
+                        <div className="text-[10px] opacity-40 font-bold uppercase">
+                          [{entry.collection === 'archiveItems' ? 'ARCHIVE' : entry.collection.toUpperCase()}] {entry.record.id} / DELETED {entry.deletedAt.replace('T', ' ').slice(0, 16)}
+                        </div>
+                        <div className="text-lg font-black italic uppercase tracking-tighter">
+                          {recordLabel(entry.record)}
+                        </div>
+                      </div>
+                      <div className="flex gap-6 items-center shrink-0">
+                        <button onClick={() => restoreFromTrash(entry.entryId)} className="text-[10px] font-black underline uppercase">RESTORE</button>
+                        <button onClick={() => purgeFromTrash(entry.entryId)} className="text-[10px] font-black underline uppercase text-red-500">PURGE</button>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+        )}
+
+        {activeTab === 'INBOX' && (
+          <InboxPanel messages={state.inbox} onUpdate={updateInboxMessage} onImport={receiveSubmissions} onConvert={handleConvertInquiry} />
+        )}
+
+        {activeTab === 'CLIENTS' && (
+          <div className="space-y-6">
+            {state.clientReview.length > 0 && (
+              <ClientReviewPanel matches={state.clientReview} clients={state.clients} projects={state.projects} archiveItems={state.archiveItems} onResolve={resolveClientMatches} />
+            )}
+            {newClientForm ? (
+              <ClientForm client={{}} clients={state.clients} onSave={(c) => closeOnSave(addClient(c), () => setNewClientForm(false))} onCancel={() => setNewClientForm(false)} onDirtyChange={handleDirtyChange} />
+            ) : (
+              <button onClick={() => { if (!confirmLeave()) return; setNewClientForm(true); setEditingClientId(null); }} className="w-full py-4 border-2 border-dashed border-black font-black text-[10px] uppercase hover:bg-black hover:text-white transition-all">[ ADD_CLIENT ]</button>
+            )}
+            {state.clients.map(client => (
+              <div key={client.id} className="border border-black p-4 group hover:bg-black hover:text-white transition-all">
+                {editingClientId === client.id ? (
+                  <ClientForm client={client} clients={state.clients} onSave={(upd) => closeOnSave(updateClient(client.id, upd), () => setEditingClientId(null))} onCancel={() => setEditingClientId(null)} onDirtyChange={handleDirtyChange} />
                 ) : (
-                  <div className="flex justify-between items-center">
-                    <div>
-                      <span className="text-[10px] opacity-40 font-bold mr-4">{item.year}</span>
-                      <span className="text-sm font-black italic uppercase tracking-tighter">{item.company}</span>
+                  <div className="flex flex-col md:flex-row justify-between items-center gap-6">
+                    <div className="flex items-center gap-6 flex-grow">
+                      <div className="w-12 h-12 border border-black overflow-hidden bg-white shrink-0">
+                        {client.logo && <AssetImage assetRef={client.logo.src} alt={client.logo.alt} className="w-full h-full object-contain" />}
+                      </div>
+                      <div>
+                        <div className="text-[10px] opacity-40 font-bold">{client.id} / {clientUsage(client.id)} RECORD(S)</div>
+                        <div className="text-lg font-black italic tracking-tighter normal-case">{client.name}</div>
+                        <div className="text-[9px] font-bold opacity-60 normal-case">{[client.sector, client.region].filter(Boolean).join(' / ')}</div>
+                      </div>
                     </div>
-                    <div className="flex gap-6">
-                      <button onClick={() => setEditingArchiveId(item.id)} className="text-[10px] font-black underline uppercase">EDIT</button>
-                      <button onClick={() => deleteArchiveItem(item.id)} className="text-[10px] font-black underline uppercase text-red-500">DELETE</button>
+                    <div className="flex gap-6 items-center shrink-0">
+                      <button onClick={() => toggleHistory('client', client.id)} className="text-[10px] font-black underline uppercase">HISTORY</button>
+                      <button onClick={() => confirmLeave() && setEditingClientId(client.id)} className="text-[10px] font-black underline uppercase">EDIT</button>
+                      {/* 연결된 레코드가 있으면 삭제하지 않는다 (먼저 다른 고객사로 옮기거나 연결을 끊는다) */}
+                      <button disabled={clientUsage(client.id) > 0} title={clientUsage(client.id) > 0 ? 'IN USE' : undefined} onClick={() => deleteClient(client.id)} className="text-[10px] font-black underline uppercase text-red-500 disabled:opacity-20">DELETE</button>
                     </div>
                   </div>
                 )}
+                {renderHistory('client', 'clients', client.id)}
               </div>
             ))}
           </div>
         )}
 
+        {activeTab === 'TAXONOMY' && (
+          <TaxonomyPanel categories={state.categories} projects={state.projects} archiveItems={state.archiveItems} onSave={updateCategories} />
+        )}
+
+        {activeTab === 'LOG' && <ActivityLog entries={state.auditLog} />}
+
         {activeTab === 'SETTINGS' && (
           <div className="max-w-xl space-y-12">
-            <form onSubmit={(e) => { e.preventDefault(); updateSettings(siteTitle, tagline); alert("SYNCED_OK"); }} className="space-y-8 p-10 border-4 border-black">
+            <form onSubmit={(e) => { e.preventDefault(); updateSettings(siteTitle, tagline, taglineTranslations); alert("SYNCED_OK"); }} className="space-y-8 p-10 border-4 border-black">
               <div className="flex flex-col">
                 <label className="text-[10px] opacity-40 font-black mb-2 uppercase underline">SITE_TITLE</label>
-                <input value={siteTitle} onChange={e => setSiteTitle(e.target.value.toUpperCase())} className="border-b-2 border-black p-2 text-2xl font-black italic outline-none uppercase" />
+                <input value={siteTitle} onChange={e => setSiteTitle(e.target.value)} className="border-b-2 border-black p-2 text-2xl font-black italic outline-none" />
               </div>
               <div className="flex flex-col">
-                <label className="text-[10px] opacity-40 font-black mb-2 uppercase underline">TAGLINE_LOG</label>
-                <textarea rows={4} value={tagline} onChange={e => setTagline(e.target.value.toUpperCase())} className="border border-black p-4 text-xs font-bold outline-none uppercase resize-none leading-relaxed" />
+                <label className="text-[10px] opacity-40 font-black mb-2 uppercase underline">TAGLINE_LOG{taglineLocale !== 'en' && ` [${taglineLocale}]`}</label>
+                <div className="mb-2">
+                  <LocaleTabs active={taglineLocale} onChange={setTaglineLocale} isTranslated={l => !!taglineTranslations[l]?.trim()} />
+                </div>
+                {taglineLocale === 'en' ? (
+                  <textarea rows={4} value={tagline} onChange={e => setTagline(e.target.value)} className="border border-black p-4 text-xs font-bold outline-none resize-none leading-relaxed" />
+                ) : (
+                  <textarea
+                    rows={4}
+                    lang={taglineLocale}
+                    value={taglineTranslations[taglineLocale] || ''}
+                    placeholder={tagline}
+                    onChange={e => {
+                      const value = e.target.value;
+                      setTaglineTranslations(prev => {
+                        const next = { ...prev };
+                        if (value.trim()) next[taglineLocale] = value; else delete next[taglineLocale];
+                        return next;
+                      });
+                    }}
+                    className="border border-black p-4 text-xs font-bold outline-none resize-none leading-relaxed placeholder:opacity-30"
+                  />
+                )}
               </div>
               <button type="submit" className="w-full py-5 bg-black text-white font-black uppercase text-xs tracking-widest">[ PERSIST_CONFIG ]</button>
             </form>
 
+            <SiteConfigPanel config={state.siteConfig} onSave={updateSiteConfig} />
+
+            <ThemePanel settings={state.themeSettings} onSave={updateThemeSettings} />
+
+            <ContactGatewayPanel settings={state.contactSettings} siteConfig={state.siteConfig} onSave={updateContactSettings} />
+
+            <div className="pt-10 border-t-2 border-dashed border-black/10">
+              <h3 className="text-[11px] font-black uppercase mb-6 opacity-40 underline">OPERATOR_LABEL</h3>
+              <div className="flex gap-2">
+                <input
+                  value={operator}
+                  onChange={e => setOperator(e.target.value.toUpperCase())}
+                  placeholder="ADMIN"
+                  className="flex-grow border border-black p-2 text-xs font-bold outline-none uppercase"
+                />
+                <button type="button" onClick={() => { setActor(operator); setOperator(getActor()); alert("SYNCED_OK"); }} className="px-4 border-2 border-black font-black text-[10px] uppercase hover:invert transition-all">[ SET ]</button>
+              </div>
+              <p className="text-[9px] font-bold uppercase opacity-40 mt-2">RECORDED AS THE ACTOR OF CHANGES MADE ON THIS DEVICE.</p>
+            </div>
+
+            <form onSubmit={handlePasskeyChange} className="pt-10 border-t-2 border-dashed border-black/10 space-y-4">
+              <h3 className="text-[11px] font-black uppercase mb-6 opacity-40 underline">ACCESS_CONTROL</h3>
+              {(['current', 'next', 'confirm'] as const).map(field => (
+                <div key={field} className="flex flex-col">
+                  <label className="text-[10px] opacity-40 font-black mb-1 uppercase">{field === 'current' ? 'CURRENT_PASSKEY' : field === 'next' ? 'NEW_PASSKEY' : 'CONFIRM_PASSKEY'}</label>
+                  <input
+                    type="password"
+                    autoComplete={field === 'current' ? 'current-password' : 'new-password'}
+                    value={passkeyForm[field]}
+                    onChange={e => { setPasskeyForm({ ...passkeyForm, [field]: e.target.value }); setPasskeyStatus(null); }}
+                    className="border border-black p-2 text-xs font-bold outline-none tracking-[0.3em]"
+                  />
+                </div>
+              ))}
+              {passkeyStatus && (
+                <p className={`text-[9px] font-bold tracking-widest ${passkeyStatus.startsWith('ERROR') ? 'text-red-500' : ''}`}>{passkeyStatus}</p>
+              )}
+              <button type="submit" className="w-full py-4 border-2 border-black font-black text-[10px] uppercase hover:invert transition-all">[ ROTATE_PASSKEY ]</button>
+            </form>
+
+            <div className="pt-10 border-t-2 border-dashed border-black/10">
+              <h3 className="text-[11px] font-black uppercase mb-6 opacity-40 underline">DATA_INTEGRITY</h3>
+              <div className="text-[10px] font-bold uppercase mb-4">SCHEMA: v{state.schemaVersion}</div>
+              {loadReport.issues.length === 0 ? (
+                <div className="text-[10px] font-bold uppercase opacity-40">ALL_RECORDS_VALID</div>
+              ) : (
+                <div className="border-2 border-red-500 p-4 space-y-3">
+                  <div className="text-[10px] font-black uppercase text-red-500">{loadReport.issues.length} ISSUE(S) DETECTED AT LOAD — AFFECTED RECORDS WERE EXCLUDED</div>
+                  {loadReport.quarantineKey && (
+                    <div className="text-[9px] font-bold uppercase opacity-60">ORIGINAL_PAYLOAD: localStorage["{loadReport.quarantineKey}"]</div>
+                  )}
+                  <ul className="text-[9px] font-mono space-y-1 max-h-48 overflow-y-auto custom-scrollbar">
+                    {loadReport.issues.map((issue, idx) => (
+                      <li key={idx}><span className="font-black">{issue.path}</span> <span className="opacity-60">{issue.message}</span></li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+
             <div className="pt-10 border-t-2 border-dashed border-black/10">
                <h3 className="text-[11px] font-black uppercase mb-6 opacity-40 underline">DATABASE_IO</h3>
                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
@@ -406,6 +1210,44 @@ const AdminView: React.FC<AdminViewProps> = ({
                     <input type="file" className="hidden" accept=".json" onChange={handleImport} />
                   </label>
                </div>
+               <div className="mt-6 flex flex-wrap items-center gap-2 text-[10px] font-black uppercase">
+                  <span className="opacity-40 mr-2">FEEDS:</span>
+                  <select value={feedCategory} onChange={e => setFeedCategory(e.target.value)} className="border border-black p-2 outline-none font-black bg-white">
+                    <option value="">ALL_CATEGORIES</option>
+                    {state.categories.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+                  </select>
+                  {FEED_FORMATS.map(({ format, label }) => (
+                    <button key={format} onClick={() => handleFeedDownload(format)} className="px-3 py-2 border border-black hover:invert transition-all">↓ {label}</button>
+                  ))}
+               </div>
+               {pendingSeed && !pendingRestore && (
+                 <div className="mt-6 border-2 border-black p-4 space-y-3">
+                   <div className="text-[10px] font-black uppercase">NEW_PUBLISHED_BUILD: {pendingSeed.publishedAt.replace('T', ' ').slice(0, 16)}</div>
+                   <p className="text-[9px] font-bold uppercase opacity-60">LOCAL DATA WAS KEPT. REVIEW THE PUBLISHED DATA TO MERGE IT, OR DISMISS TO KEEP LOCAL DATA ONLY.</p>
+                   <div className="flex gap-2 text-[9px] font-black uppercase">
+                     <button
+                       onClick={() => setPendingRestore({ state: pendingSeed.state, fromVersion: pendingSeed.state.schemaVersion, issues: [], fileName: `PUBLISHED_BUILD ${pendingSeed.publishedAt}`, seedPublishedAt: pendingSeed.publishedAt })}
+                       className="px-4 py-2 bg-black text-white"
+                     >
+                       [ REVIEW_PUBLISHED_DATA ]
+                     </button>
+                     <button onClick={() => { acknowledgeSeed(pendingSeed.publishedAt); setPendingSeed(undefined); }} className="px-4 py-2 border border-black">[ DISMISS ]</button>
+                   </div>
+                 </div>
+               )}
+               {pendingRestore && (
+                 <div className="mt-6">
+                   <RestorePanel
+                     current={state}
+                     incoming={pendingRestore.state}
+                     fileName={pendingRestore.fileName}
+                     fromVersion={pendingRestore.fromVersion}
+                     issues={pendingRestore.issues}
+                     onApply={applyRestore}
+                     onCancel={() => setPendingRestore(null)}
+                   />
+                 </div>
+               )}
             </div>
           </div>
         )}
@@ -0,0 +1,96 @@
+import React from 'react';
+import { ArchiveItem, Locale } from '../types.ts';
+import { translator, UiKey } from '../services/i18n.ts';
+import { collectTags, hasTag } from '../services/taxonomy.ts';
+import {
+  ArchiveFilter, ArchiveSortKey, DEFAULT_ARCHIVE_FILTER,
+  archiveYears, isArchiveFilterActive, toggleArchiveSort
+} from '../services/archiveQuery.ts';
+
+interface ArchiveControlsProps {
+  items: ArchiveItem[];
+  filter: ArchiveFilter;
+  onChange: (filter: ArchiveFilter) => void;
+  resultCount: number;
+  locale: Locale;
+  /** 정렬 버튼 표시 (공개 표는 열 머리글로 정렬하므로 끈다) */
+  showSort?: boolean;
+}
+
+export const ARCHIVE_SORT_KEYS: { key: ArchiveSortKey; label: UiKey }[] = [
+  { key: 'PERIOD', label: 'archive.year' },
+  { key: 'CLIENT', label: 'archive.company' },
+  { key: 'TYPE', label: 'archive.type' },
+  { key: 'PROJECT', label: 'archive.project' }
+];
+
+export const sortMark = (filter: ArchiveFilter, key: ArchiveSortKey): string =>
+  filter.sortKey === key ? (filter.sortDir === 'ASC' ? ' ↑' : ' ↓') : '';
+
+// 아카이브 표의 분류(태그)·연도 범위 필터, 연도별 묶기, 정렬
+const ArchiveControls: React.FC<ArchiveControlsProps> = ({ items, filter, onChange, resultCount, locale, showSort = true }) => {
+  const t = translator(locale);
+  const years = archiveYears(items);
+  const tags = collectTags(items);
+  const update = (patch: Partial<ArchiveFilter>) => onChange({ ...filter, ...patch });
+
+  const filterBtn = (active: boolean) =>
+    `text-[8px] border px-2 py-0.5 transition-all uppercase font-mono font-bold tracking-widest ${active ? 'bg-black text-white border-black' : 'border-black/20 hover:bg-black hover:text-white text-black'}`;
+  const fieldClass = "bg-transparent border border-black/20 focus:border-black px-2 py-1 text-[8px] outline-none uppercase font-mono font-bold tracking-widest text-black cursor-pointer";
+
+  return (
+    <div className="space-y-3 mb-4 font-mono text-black">
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <button onClick={() => update({ tags: [] })} className={filterBtn(filter.tags.length === 0)}>[{t('content.all')}]</button>
+          {tags.map(({ tag, count }) => {
+            const active = hasTag(filter.tags, tag);
+            return (
+              <button
+                key={tag.toLowerCase()}
+                onClick={() => update({ tags: active ? filter.tags.filter(f => f.toLowerCase() !== tag.toLowerCase()) : [...filter.tags, tag] })}
+                className={`${filterBtn(active)} normal-case`}
+              >
+                [{tag}:{String(count).padStart(2, '0')}]
+              </button>
+            );
+          })}
+        </div>
+      )}
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-1.5 text-[8px] font-bold">
+          <span className="opacity-40">{t('content.year')}</span>
+          <select value={filter.yearFrom ?? ''} onChange={e => update({ yearFrom: e.target.value ? Number(e.target.value) : null })} className={fieldClass}>
+            <option value="">{t('content.from')}</option>
+            {years.map(y => <option key={y} value={y}>{y}</option>)}
+          </select>
+          <span className="opacity-40">-</span>
+          <select value={filter.yearTo ?? ''} onChange={e => update({ yearTo: e.target.value ? Number(e.target.value) : null })} className={fieldClass}>
+            <option value="">{t('content.to')}</option>
+            {years.map(y => <option key={y} value={y}>{y}</option>)}
+          </select>
+        </div>
+        <button onClick={() => update({ groupByYear: !filter.groupByYear })} className={filterBtn(filter.groupByYear)}>{t('archive.groupByYear')}</button>
+        {showSort && (
+          <div className="flex items-center gap-1.5">
+            <span className="text-[8px] font-bold opacity-40">{t('archive.sort')}</span>
+            <button onClick={() => update({ sortKey: null })} className={filterBtn(filter.sortKey === null)}>{t('archive.sortCurated')}</button>
+            {ARCHIVE_SORT_KEYS.map(({ key, label }) => (
+              <button key={key} onClick={() => onChange(toggleArchiveSort(filter, key))} className={filterBtn(filter.sortKey === key)}>
+                {t(label)}{sortMark(filter, key)}
+              </button>
+            ))}
+          </div>
+        )}
+        <div className="ml-auto flex items-center gap-3 text-[8px] font-bold uppercase tracking-widest">
+          <span className="opacity-40">{t('content.match')} {String(resultCount).padStart(2, '0')}/{String(items.length).padStart(2, '0')}</span>
+          {isArchiveFilterActive(filter) && (
+            <button onClick={() => onChange({ ...DEFAULT_ARCHIVE_FILTER, sortKey: filter.sortKey, sortDir: filter.sortDir, groupByYear: filter.groupByYear })} className="underline hover:opacity-50">{t('content.reset')}</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ArchiveControls;
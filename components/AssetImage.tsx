@@ -0,0 +1,16 @@
+import React from 'react';
+import { useAssetUrl } from '../hooks/useAssetUrl.ts';
+
+interface AssetImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> {
+  assetRef?: string;
+  fallbackSrc?: string;
+}
+
+const AssetImage: React.FC<AssetImageProps> = ({ assetRef, fallbackSrc, loading = 'lazy', ...rest }) => {
+  const url = useAssetUrl(assetRef);
+  const src = assetRef ? url : fallbackSrc;
+  if (!src) return null;
+  return <img src={src} loading={loading} {...rest} />;
+};
+
+export default AssetImage;
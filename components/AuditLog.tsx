@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { AuditEntry, AuditRecordType } from '../types.ts';
+import { formatAuditValue } from '../services/audit.ts';
+
+const RECORD_TYPE_LABELS: Record<AuditRecordType, string> = {
+  project: 'PROJECT',
+  archive: 'ARCHIVE',
+  service: 'SERVICE',
+  client: 'CLIENT',
+  settings: 'SETTINGS'
+};
+
+const formatTime = (iso: string) => iso.replace('T', ' ').slice(0, 19);
+
+interface AuditEntryRowProps {
+  entry: AuditEntry;
+  showRecord?: boolean;
+  onRevert?: (entry: AuditEntry) => void;
+}
+
+const AuditEntryRow: React.FC<AuditEntryRowProps> = ({ entry, showRecord = true, onRevert }) => (
+  <li className="py-3 space-y-1">
+    <div className="flex flex-wrap justify-between items-baseline gap-2 text-[10px]">
+      <div className="flex flex-wrap gap-3 items-baseline">
+        <span className="opacity-40 font-bold">{formatTime(entry.at)}</span>
+        <span className="font-black px-1 bg-black text-white">{entry.action}</span>
+        {showRecord && (
+          <span className="font-black uppercase">
+            [{RECORD_TYPE_LABELS[entry.recordType]}] {entry.label} <span className="opacity-40 font-bold">{entry.recordId}</span>
+          </span>
+        )}
+        <span className="opacity-40 font-bold uppercase">BY {entry.actor}</span>
+      </div>
+      {onRevert && entry.snapshot && (
+        <button type="button" onClick={() => onRevert(entry)} className="text-[9px] font-black underline uppercase shrink-0">RESTORE_THIS_VERSION</button>
+      )}
+    </div>
+    {entry.changes.length > 0 && (
+      <ul className="text-[9px] font-mono pl-4 border-l border-black/20 space-y-0.5">
+        {entry.changes.map(change => (
+          <li key={change.field} className="break-all">
+            <span className="font-black">{change.field}:</span>{' '}
+            <span className="line-through opacity-40">{formatAuditValue(change.before)}</span>{' → '}
+            <span>{formatAuditValue(change.after)}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </li>
+);
+
+interface RecordHistoryProps {
+  entries: AuditEntry[];
+  onRevert: (entry: AuditEntry) => void;
+}
+
+// 단일 레코드의 변경 이력 (AdminView 목록 행 아래에 펼쳐짐)
+export const RecordHistory: React.FC<RecordHistoryProps> = ({ entries, onRevert }) => (
+  <div className="mt-4 p-4 border border-black bg-white text-black">
+    <div className="text-[10px] font-black uppercase opacity-40 underline mb-2">CHANGE_HISTORY ({entries.length})</div>
+    {entries.length === 0 ? (
+      <div className="text-[10px] font-bold uppercase opacity-30 py-4">NO_RECORDED_CHANGES</div>
+    ) : (
+      <ul className="divide-y divide-black/10 max-h-80 overflow-y-auto custom-scrollbar pr-2">
+        {entries.map(entry => (
+          <AuditEntryRow key={entry.id} entry={entry} showRecord={false} onRevert={onRevert} />
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+interface ActivityLogProps {
+  entries: AuditEntry[];
+}
+
+// 전체 변경 이력: 날짜 범위와 레코드 유형으로 필터
+const ActivityLog: React.FC<ActivityLogProps> = ({ entries }) => {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [recordType, setRecordType] = useState<AuditRecordType | ''>('');
+
+  const filtered = entries.filter(entry => {
+    const day = entry.at.slice(0, 10);
+    if (from && day < from) return false;
+    if (to && day > to) return false;
+    if (recordType && entry.recordType !== recordType) return false;
+    return true;
+  });
+
+  const fieldClass = "border border-black p-2 text-[10px] font-bold outline-none uppercase bg-white";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="flex flex-col">
+          <label className="text-[10px] opacity-40 font-bold mb-1 uppercase">FROM</label>
+          <input type="date" value={from} onChange={e => setFrom(e.target.value)} className={fieldClass} />
+        </div>
+        <div className="flex flex-col">
+          <label className="text-[10px] opacity-40 font-bold mb-1 uppercase">TO</label>
+          <input type="date" value={to} onChange={e => setTo(e.target.value)} className={fieldClass} />
+        </div>
+        <div className="flex flex-col">
+          <label className="text-[10px] opacity-40 font-bold mb-1 uppercase">RECORD_TYPE</label>
+          <select value={recordType} onChange={e => setRecordType(e.target.value as AuditRecordType | '')} className={`${fieldClass} cursor-pointer`}>
+            <option value="">ALL</option>
+            {(Object.keys(RECORD_TYPE_LABELS) as AuditRecordType[]).map(type => (
+              <option key={type} value={type}>{RECORD_TYPE_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+        {(from || to || recordType) && (
+          <button type="button" onClick={() => { setFrom(''); setTo(''); setRecordType(''); }} className="text-[10px] font-black underline uppercase pb-2">[ RESET ]</button>
+        )}
+        <div className="ml-auto text-[10px] font-black uppercase opacity-40 pb-2">{filtered.length}/{entries.length} ENTRIES</div>
+      </div>
+      {filtered.length === 0 ? (
+        <div className="py-20 text-center text-[10px] font-black uppercase tracking-[0.4em] opacity-20">--- NO_ACTIVITY ---</div>
+      ) : (
+        <ul className="divide-y divide-black/10 border-y-2 border-black">
+          {filtered.map(entry => <AuditEntryRow key={entry.id} entry={entry} />)}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ActivityLog;
@@ -0,0 +1,137 @@
+import React, { useState, useEffect } from 'react';
+import { Credential } from '../types.ts';
+import {
+  createCredential, verifyCredential, validateNewPasskey,
+  readLockout, registerFailure, clearLockout, lockoutRemaining, MAX_FAILED_ATTEMPTS
+} from '../services/auth.ts';
+
+interface AuthOverlayProps {
+  credential?: Credential;
+  onSetup: (credential: Credential) => void;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+const AuthOverlay: React.FC<AuthOverlayProps> = ({ credential, onSetup, onSuccess, onCancel }) => {
+  const isSetup = !credential;
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [lockout, setLockout] = useState(readLockout);
+  const [now, setNow] = useState(Date.now());
+
+  const remainingMs = lockoutRemaining(lockout, now);
+  const isLocked = remainingMs > 0;
+
+  // 잠금 중에는 남은 시간을 1초 단위로 갱신
+  useEffect(() => {
+    if (!isLocked) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isLocked]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isVerifying || isLocked) return;
+
+    if (isSetup) {
+      const invalid = validateNewPasskey(password, confirm);
+      if (invalid) {
+        setError(invalid);
+        return;
+      }
+      setIsVerifying(true);
+      try {
+        onSetup(await createCredential(password));
+      } catch (err) {
+        console.warn("SYSTEM: CREDENTIAL_SETUP_FAILED", err);
+        setError('CREDENTIAL_SETUP_FAILED');
+        setIsVerifying(false);
+        return;
+      }
+      clearLockout();
+      onSuccess();
+      return;
+    }
+
+    setIsVerifying(true);
+    let ok: boolean;
+    try {
+      ok = await verifyCredential(password, credential);
+    } catch (err) {
+      // 저장된 자격 증명을 읽을 수 없음. 실패 횟수로 세지 않는다.
+      console.warn("SYSTEM: CREDENTIAL_CORRUPT", err);
+      setError('CREDENTIAL_CORRUPT');
+      return;
+    } finally {
+      setIsVerifying(false);
+      setPassword('');
+    }
+
+    if (ok) {
+      clearLockout();
+      onSuccess();
+      return;
+    }
+
+    const next = registerFailure();
+    setNow(Date.now());
+    setLockout(next);
+    const left = MAX_FAILED_ATTEMPTS - next.failures;
+    setError(left > 0 ? `ACCESS_DENIED (${left} ATTEMPTS LEFT)` : 'ACCESS_DENIED');
+  };
+
+  const formatRemaining = (ms: number) => {
+    const total = Math.ceil(ms / 1000);
+    return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+  };
+
+  const inputClass = `w-full bg-transparent border-b ${error ? 'border-red-500' : 'border-black'} p-3 text-center text-sm outline-none uppercase font-black tracking-[0.5em] disabled:opacity-30`;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-white/95 flex items-center justify-center p-4 backdrop-blur-sm">
+      <div className="w-full max-w-xs border-2 border-black p-8 bg-white shadow-2xl">
+        <div className="text-[8px] opacity-40 mb-8 uppercase font-bold text-center tracking-widest">
+          {isSetup ? 'INITIAL_PASSKEY_SETUP' : 'AUTHENTICATION_PROTOCOL'}
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <input 
+            autoFocus
+            type="password"
+            autoComplete={isSetup ? 'new-password' : 'current-password'}
+            value={password}
+            disabled={isLocked || isVerifying}
+            onChange={(e) => { setPassword(e.target.value); setError(null); }}
+            className={inputClass}
+            placeholder={isSetup ? 'NEW_PASSKEY' : 'PASSKEY'}
+          />
+          {isSetup && (
+            <input 
+              type="password"
+              autoComplete="new-password"
+              value={confirm}
+              disabled={isVerifying}
+              onChange={(e) => { setConfirm(e.target.value); setError(null); }}
+              className={inputClass}
+              placeholder="CONFIRM"
+            />
+          )}
+          {isLocked ? (
+            <p className="text-red-500 text-[8px] text-center font-bold tracking-widest">LOCKED: RETRY_IN {formatRemaining(remainingMs)}</p>
+          ) : error && (
+            <p className="text-red-500 text-[8px] text-center font-bold tracking-widest">ERROR: {error}</p>
+          )}
+          <div className="flex gap-2">
+            <button type="submit" disabled={isLocked || isVerifying} className="flex-grow bg-black text-white py-3 text-[10px] font-black uppercase border border-black hover:invert transition-all disabled:opacity-30">
+              {isVerifying ? 'VERIFYING...' : isSetup ? 'INITIALIZE' : 'CONNECT'}
+            </button>
+            <button type="button" onClick={onCancel} className="px-4 border border-black text-[9px] uppercase font-bold">CANCEL</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default AuthOverlay;
@@ -0,0 +1,117 @@
+import React from 'react';
+import { ArchiveItem, CategoryTerm, Client, Locale, Project } from '../types.ts';
+import TicketCard from './TicketCard.tsx';
+import AssetImage from './AssetImage.tsx';
+import Barcode from './Barcode.tsx';
+import { translator } from '../services/i18n.ts';
+import { categoryLabel } from '../services/taxonomy.ts';
+import { focalStyle, imageAlt } from '../services/imageAsset.ts';
+import { formatDateRange } from '../services/dateRange.ts';
+import { DEFAULT_ARCHIVE_FILTER, queryArchive } from '../services/archiveQuery.ts';
+
+interface ClientDetailProps {
+  clientId: string;
+  clients: Client[];
+  projects: Project[];
+  archiveItems: ArchiveItem[];
+  categories: CategoryTerm[];
+  locale: Locale;
+  onOpenProject: (project: Project) => void;
+  onBack: () => void;
+}
+
+// 고객사 페이지: 프로필과 해당 고객사의 프로젝트·아카이브 기록
+const ClientDetail: React.FC<ClientDetailProps> = ({ clientId, clients, projects, archiveItems, categories, locale, onOpenProject, onBack }) => {
+  const t = translator(locale);
+  const client = clients.find(c => c.id === clientId);
+
+  if (!client) {
+    return (
+      <div className="animate-in fade-in duration-500 p-10 flex flex-col items-center justify-center min-h-[50vh] text-black font-mono">
+        <div className="text-[30px] font-black italic opacity-80 leading-none mb-4">404</div>
+        <div className="text-[9px] font-bold uppercase tracking-[0.4em] mb-8 border-y border-black/20 py-2">{t('client.notFound')} {clientId}</div>
+        <button onClick={onBack} className="px-6 py-3 bg-black text-white text-[10px] font-black uppercase tracking-widest hover:invert transition-all border border-black">
+          {t('detail.return')}
+        </button>
+      </div>
+    );
+  }
+
+  const clientProjects = projects.filter(p => p.clientId === client.id);
+  // 협업 기록은 최신순
+  const clientArchive = queryArchive(archiveItems.filter(a => a.clientId === client.id), { ...DEFAULT_ARCHIVE_FILTER, sortKey: 'PERIOD' });
+  const profileRows: [string, React.ReactNode][] = [
+    ['UID', client.id],
+    ...(client.sector ? [[t('client.sector'), client.sector] as [string, React.ReactNode]] : []),
+    ...(client.region ? [[t('client.region'), client.region] as [string, React.ReactNode]] : []),
+    ...(client.website ? [[t('client.website'), (
+      <a href={client.website} target="_blank" rel="noopener noreferrer" className="underline decoration-dotted hover:bg-black hover:text-white normal-case">
+        {client.website.replace(/^https?:\/\//, '').replace(/\/$/, '')}
+      </a>
+    )] as [string, React.ReactNode]] : [])
+  ];
+
+  return (
+    <div className="animate-in slide-in-from-bottom-4 duration-500 bg-white text-black font-mono">
+      <div className="flex justify-between items-center px-4 md:px-6 py-3 border-b border-black text-[8px] font-black uppercase tracking-widest">
+        <button onClick={onBack} className="hover:bg-black hover:text-white px-1 -ml-1 transition-all">{t('detail.back')}</button>
+        <span className="opacity-30">{t('client.profile')}</span>
+      </div>
+
+      <section className="grid grid-cols-1 md:grid-cols-3 border-b border-black">
+        <div className="p-6 md:border-r border-black flex items-center gap-6">
+          <div className="w-20 h-20 border border-black/10 bg-gray-50/50 shrink-0 overflow-hidden">
+            {client.logo && <AssetImage assetRef={client.logo.src} alt={imageAlt(client.logo, client.name)} style={focalStyle(client.logo)} className="w-full h-full object-contain grayscale" />}
+          </div>
+          <h1 className="text-2xl md:text-3xl font-black italic tracking-tighter leading-none normal-case">{client.name}</h1>
+        </div>
+        <dl className="md:col-span-2 p-6 text-[8px] font-bold uppercase divide-y divide-black/10 self-center">
+          {profileRows.map(([label, value]) => (
+            <div key={label} className="flex justify-between gap-4 py-1.5">
+              <dt className="opacity-40">{label}:</dt>
+              <dd className="text-right tracking-widest normal-case">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      </section>
+
+      <section className="p-6 border-b border-black">
+        <div className="text-[9px] opacity-30 mb-6 font-bold uppercase underline tracking-widest">{t('client.projects')} ({clientProjects.length})</div>
+        {clientProjects.length === 0 ? (
+          <div className="py-10 text-center text-[9px] font-bold uppercase tracking-[0.4em] opacity-20">{t('client.empty')}</div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+            {clientProjects.map(project => (
+              <TicketCard key={project.id} project={project} locale={locale} categoryLabel={categoryLabel(categories, project.category, locale)} clientName={client.name} onSelect={onOpenProject} />
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="p-6">
+        <div className="text-[9px] opacity-30 mb-6 font-bold uppercase underline tracking-widest">{t('client.archive')} ({clientArchive.length})</div>
+        {clientArchive.length === 0 ? (
+          <div className="py-10 text-center text-[9px] font-bold uppercase tracking-[0.4em] opacity-20">{t('client.empty')}</div>
+        ) : (
+          <ul className="border-t border-black/10 divide-y divide-black/10">
+            {clientArchive.map(item => (
+              <li key={item.id} className="flex items-center gap-4 py-3 text-[9px]">
+                <div className="w-10 h-14 border border-black/10 bg-gray-50 shrink-0 overflow-hidden">
+                  {item.image && <AssetImage assetRef={item.image.src} alt={imageAlt(item.image, item.project)} style={focalStyle(item.image)} className="w-full h-full object-cover grayscale" />}
+                </div>
+                <span className="font-bold opacity-40 w-28 shrink-0">{item.period.start ? formatDateRange(item.period, t('archive.present')) : t('archive.undated')}</span>
+                <span className="font-black italic uppercase tracking-tighter flex-grow">{item.project}</span>
+                <span className="italic opacity-40 hidden sm:inline">[{item.tags.join(', ')}]</span>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="mt-8 pt-4 border-t border-black/10 flex justify-end opacity-20">
+          <Barcode className="h-3" />
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default ClientDetail;
@@ -0,0 +1,84 @@
+import React, { useId, useState } from 'react';
+import { Client } from '../types.ts';
+import { createClient, findClient, matchClient, normalizeClientName } from '../services/clients.ts';
+
+interface ClientPickerProps {
+  clientId?: string;
+  clients: Client[];
+  onChange: (clientId: string | undefined) => void;
+  /** 목록에 없는 이름으로 새 고객사를 만들 때 (레지스트리에 바로 추가) */
+  onCreate: (client: Client) => void;
+}
+
+// CMS 폼의 고객사 선택. 이름을 입력하면 같은 고객사를 고르고, 비슷한 이름이 있으면 먼저 제안한다.
+const ClientPicker: React.FC<ClientPickerProps> = ({ clientId, clients, onChange, onCreate }) => {
+  const [text, setText] = useState('');
+  const listId = useId();
+  const selected = findClient(clients, clientId);
+
+  const name = text.trim();
+  const exact = name ? clients.find(c => normalizeClientName(c.name) === normalizeClientName(name)) : undefined;
+  const suggestion = name && !exact ? matchClient(name, clients) : null;
+
+  const pick = (id: string) => {
+    onChange(id);
+    setText('');
+  };
+
+  const handleCreate = () => {
+    const client = createClient(name, clients);
+    onCreate(client);
+    pick(client.id);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    if (exact) pick(exact.id);
+  };
+
+  if (clientId) {
+    return (
+      <div className="flex items-center justify-between gap-2 border border-black p-2">
+        <span className="font-bold normal-case">
+          {selected ? selected.name : <span className="text-red-500">{clientId} (REMOVED)</span>}
+          {selected && <span className="ml-2 text-[9px] opacity-40 uppercase">{selected.id}</span>}
+        </span>
+        <button type="button" onClick={() => onChange(undefined)} className="text-[9px] font-black underline uppercase">CHANGE</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      <input
+        value={text}
+        list={listId}
+        onChange={e => {
+          setText(e.target.value);
+          const hit = clients.find(c => c.name === e.target.value);
+          if (hit) pick(hit.id);
+        }}
+        onKeyDown={handleKeyDown}
+        placeholder="SEARCH_CLIENT ..."
+        className="w-full border border-black p-2 outline-none font-bold normal-case placeholder:opacity-30"
+      />
+      <datalist id={listId}>
+        {clients.map(c => <option key={c.id} value={c.name} />)}
+      </datalist>
+      {name && (
+        <div className="flex flex-wrap gap-4 text-[9px] font-black uppercase">
+          {exact && <button type="button" onClick={() => pick(exact.id)} className="underline">USE <span className="normal-case">{exact.name}</span></button>}
+          {suggestion && (
+            <button type="button" onClick={() => pick(suggestion.client.id)} className="underline">
+              DID YOU MEAN <span className="normal-case">{suggestion.client.name}</span>? ({Math.round(suggestion.score * 100)}%)
+            </button>
+          )}
+          {!exact && <button type="button" onClick={handleCreate} className="underline opacity-60 hover:opacity-100">+ CREATE_CLIENT "<span className="normal-case">{name}</span>"</button>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ClientPicker;
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { ArchiveItem, Client, ClientMatch, Project } from '../types.ts';
+import { createClient, findClient, matchKey } from '../services/clients.ts';
+
+interface ClientReviewPanelProps {
+  matches: ClientMatch[];
+  clients: Client[];
+  projects: Project[];
+  archiveItems: ArchiveItem[];
+  onResolve: (resolutions: { match: ClientMatch; clientId: string }[], newClients?: Client[]) => void;
+}
+
+// v8 마이그레이션에서 자유 입력 문자열을 고객사에 연결한 결과 검토.
+// 연결은 이미 적용되어 있으므로 CONFIRM은 목록에서 빼기만 하고, REASSIGN·SPLIT은 연결을 바꾼다.
+const ClientReviewPanel: React.FC<ClientReviewPanelProps> = ({ matches, clients, projects, archiveItems, onResolve }) => {
+  const [targets, setTargets] = useState<Record<string, string>>({});
+
+  // 확신이 낮은(유사도로 묶인) 항목을 먼저 보여준다.
+  const sorted = [...matches].sort((a, b) => a.score - b.score);
+  const exact = matches.filter(m => m.score === 1);
+
+  const recordTitle = (match: ClientMatch) => match.collection === 'projects'
+    ? projects.find(p => p.id === match.recordId)?.title
+    : archiveItems.find(a => a.id === match.recordId)?.project;
+
+  const handleSplit = (match: ClientMatch) => {
+    const client = createClient(match.source, clients);
+    if (!confirm(`CREATE NEW CLIENT "${client.name}" (${client.id}) FOR THIS RECORD?`)) return;
+    onResolve([{ match, clientId: client.id }], [client]);
+  };
+
+  return (
+    <section className="border-2 border-black p-6 space-y-4">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4">
+        <div>
+          <h3 className="text-[11px] font-black uppercase underline">CLIENT_MATCH_REVIEW ({matches.length})</h3>
+          <p className="text-[9px] opacity-40 font-bold uppercase tracking-widest mt-1">FREE-TEXT CLIENT NAMES WERE LINKED AUTOMATICALLY // FUZZY MATCHES FIRST</p>
+        </div>
+        {exact.length > 0 && (
+          <button onClick={() => onResolve(exact.map(match => ({ match, clientId: match.clientId })))} className="px-4 py-2 border-2 border-black text-[9px] font-black uppercase hover:invert transition-all shrink-0">
+            [ CONFIRM_ALL_EXACT ({exact.length}) ]
+          </button>
+        )}
+      </div>
+      <ul className="border-t border-black">
+        {sorted.map(match => {
+          const key = matchKey(match);
+          const target = targets[key] || match.clientId;
+          return (
+            <li key={key} className="border-b border-black py-3 flex flex-col lg:flex-row justify-between lg:items-center gap-3 text-[10px]">
+              <div className="space-y-1">
+                <div className="text-[9px] font-bold opacity-40 uppercase">
+                  [{match.collection === 'projects' ? 'PROJECT' : 'ARCHIVE'}] {match.recordId} {recordTitle(match) && <span className="normal-case">— {recordTitle(match)}</span>}
+                </div>
+                <div className="font-black">
+                  <span className="normal-case">"{match.source}"</span>
+                  <span className="mx-2 opacity-40">→</span>
+                  <span className="normal-case">{findClient(clients, match.clientId)?.name || match.clientId}</span>
+                  <span className={`ml-2 text-[9px] ${match.score < 1 ? 'bg-yellow-500 px-1' : 'opacity-40'}`}>{match.score < 1 ? `FUZZY ${Math.round(match.score * 100)}%` : 'EXACT'}</span>
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-2 text-[9px] font-black uppercase shrink-0">
+                <button onClick={() => onResolve([{ match, clientId: match.clientId }])} className="px-3 py-2 bg-black text-white">CONFIRM</button>
+                <select value={target} onChange={e => setTargets(prev => ({ ...prev, [key]: e.target.value }))} className="border border-black p-2 outline-none bg-white normal-case">
+                  {clients.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+                <button disabled={target === match.clientId} onClick={() => onResolve([{ match, clientId: target }])} className="px-3 py-2 border border-black disabled:opacity-20">REASSIGN</button>
+                <button onClick={() => handleSplit(match)} title="CREATE A SEPARATE CLIENT FROM THIS NAME" className="px-3 py-2 border border-black">SPLIT</button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
+
+export default ClientReviewPanel;
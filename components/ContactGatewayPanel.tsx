@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { ContactSettings, SiteConfig } from '../types.ts';
+import { CONTACT_ADAPTERS, MOCK_WEBHOOK_URL, contactSettingsOf, readLocalSubmissions, clearLocalSubmissions, readOutbox } from '../services/contact.ts';
+import { useContactOutbox } from '../hooks/useContactOutbox.ts';
+import { OPTIONAL_FIELDS, isFieldEnabled } from '../services/contactGuard.ts';
+import { siteConfigOf } from '../services/siteConfig.ts';
+
+interface ContactGatewayPanelProps {
+  settings?: ContactSettings;
+  /** MAILTO 주소를 비웠을 때 쓰이는 사이트 이메일 표시용 */
+  siteConfig?: SiteConfig;
+  onSave: (settings: ContactSettings) => void;
+}
+
+// CONFIG 탭: 문의 폼 전송 방식과 이 브라우저의 재전송 대기열
+const ContactGatewayPanel: React.FC<ContactGatewayPanelProps> = ({ settings, siteConfig, onSave }) => {
+  const [form, setForm] = useState<ContactSettings>(() => contactSettingsOf(settings));
+  const [localCount, setLocalCount] = useState(() => readLocalSubmissions().length);
+  const outbox = useContactOutbox(settings);
+
+  // undo/redo나 복원으로 설정이 바뀌면 입력값도 맞춘다.
+  useEffect(() => setForm(contactSettingsOf(settings)), [settings]);
+
+  const field = (key: 'formspreeId' | 'webhookUrl' | 'mailtoAddress', label: string, placeholder: string) => (
+    <div className="flex flex-col">
+      <label className="text-[10px] opacity-40 font-black mb-1 uppercase">{label}</label>
+      <input
+        value={form[key]}
+        onChange={e => setForm({ ...form, [key]: e.target.value })}
+        placeholder={placeholder}
+        className="border border-black p-2 text-xs font-bold outline-none normal-case"
+      />
+    </div>
+  );
+
+  return (
+    <form
+      onSubmit={e => { e.preventDefault(); onSave(form); alert("SYNCED_OK"); }}
+      className="pt-10 border-t-2 border-dashed border-black/10 space-y-4"
+    >
+      <h3 className="text-[11px] font-black uppercase mb-6 opacity-40 underline">CONTACT_GATEWAY</h3>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {CONTACT_ADAPTERS.map(adapter => (
+          <button
+            key={adapter.kind}
+            type="button"
+            aria-pressed={form.adapter === adapter.kind}
+            onClick={() => setForm({ ...form, adapter: adapter.kind })}
+            className={`py-2 border border-black text-[9px] font-black uppercase transition-all ${form.adapter === adapter.kind ? 'bg-black text-white' : 'hover:bg-black/5'}`}
+          >
+            {adapter.label}
+          </button>
+        ))}
+      </div>
+
+      {form.adapter === 'formspree' && field('formspreeId', 'FORMSPREE_FORM_ID', 'xbdlpppr')}
+      {form.adapter === 'webhook' && (
+        <>
+          {field('webhookUrl', 'WEBHOOK_URL (JSON POST)', 'https://example.com/hooks/contact')}
+          <button type="button" onClick={() => setForm({ ...form, webhookUrl: MOCK_WEBHOOK_URL })} className="text-[9px] font-black uppercase underline opacity-60">
+            USE_DEV_MOCK ({MOCK_WEBHOOK_URL})
+          </button>
+        </>
+      )}
+      {form.adapter === 'mailto' && field('mailtoAddress', 'MAILTO_ADDRESS (EMPTY = SITE_CONFIG EMAIL)', siteConfigOf(siteConfig).email)}
+      {form.adapter === 'local' && (
+        <div className="flex justify-between items-center text-[9px] font-bold uppercase border border-black/20 p-3">
+          <span>STORED IN THIS BROWSER ONLY: {localCount} MESSAGE(S)</span>
+          {localCount > 0 && (
+            <button type="button" onClick={() => { if (confirm("CLEAR_LOCAL_QUEUE?")) { clearLocalSubmissions(); setLocalCount(0); } }} className="underline">CLEAR</button>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <label className="text-[10px] opacity-40 font-black uppercase">OPTIONAL_FORM_FIELDS</label>
+        <div className="grid grid-cols-3 gap-2">
+          {OPTIONAL_FIELDS.map(({ field, label }) => {
+            const enabled = isFieldEnabled(form, field);
+            return (
+              <button
+                key={field}
+                type="button"
+                aria-pressed={enabled}
+                onClick={() => setForm({
+                  ...form,
+                  optionalFields: enabled ? (form.optionalFields || []).filter(f => f !== field) : [...(form.optionalFields || []), field]
+                })}
+                className={`py-2 border border-black text-[9px] font-black uppercase transition-all ${enabled ? 'bg-black text-white' : 'hover:bg-black/5'}`}
+              >
+                {enabled ? '☑' : '☐'} {label}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {outbox.pending > 0 && (
+        <div className="border-2 border-black p-3 space-y-2 text-[9px] font-bold uppercase">
+          <div className="flex justify-between items-center">
+            <span className="font-black">OUTBOX: {outbox.pending} AWAITING RETRANSMISSION</span>
+            <button type="button" onClick={() => outbox.flush(true)} className="underline font-black">RETRY_NOW</button>
+          </div>
+          <ul className="opacity-60 space-y-1">
+            {readOutbox().map(entry => (
+              <li key={entry.submission.id}>
+                {entry.submission.createdAt.replace('T', ' ').slice(0, 16)} / {entry.submission.email} / {entry.lastError} / ATTEMPTS {entry.attempts}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <button type="submit" className="w-full py-4 border-2 border-black font-black text-[10px] uppercase hover:invert transition-all">[ SAVE_GATEWAY ]</button>
+    </form>
+  );
+};
+
+export default ContactGatewayPanel;
@@ -0,0 +1,95 @@
+import React from 'react';
+import { ImageAsset } from '../types.ts';
+import { focalStyle, withFocalPoint } from '../services/imageAsset.ts';
+import AssetImage from './AssetImage.tsx';
+
+interface ImageAssetEditorProps {
+  image: ImageAsset;
+  onChange: (image: ImageAsset) => void;
+  onClose?: () => void;
+}
+
+// 공개 화면에서 쓰이는 크롭 비율 미리보기
+const CROP_PREVIEWS: [label: string, aspect: string][] = [
+  ['CARD 16:10', 'aspect-[16/10]'],
+  ['PANEL 3:4', 'aspect-[3/4]'],
+  ['THUMB 1:1', 'aspect-square']
+];
+
+const KEY_STEP = 5;
+
+// 이미지 메타데이터 편집: 원본을 클릭(또는 방향키)해 초점을 지정하고 크롭 결과를 미리 본다.
+const ImageAssetEditor: React.FC<ImageAssetEditorProps> = ({ image, onChange, onClose }) => {
+  const setFocus = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onChange(withFocalPoint(image, ((e.clientX - rect.left) / rect.width) * 100, ((e.clientY - rect.top) / rect.height) * 100));
+  };
+
+  const handleKey = (e: React.KeyboardEvent) => {
+    const delta: Record<string, [number, number]> = {
+      ArrowLeft: [-KEY_STEP, 0], ArrowRight: [KEY_STEP, 0], ArrowUp: [0, -KEY_STEP], ArrowDown: [0, KEY_STEP]
+    };
+    if (!delta[e.key]) return;
+    e.preventDefault();
+    const [dx, dy] = delta[e.key];
+    onChange(withFocalPoint(image, image.focalX + dx, image.focalY + dy));
+  };
+
+  const field = (key: 'alt' | 'caption' | 'credit', label: string, placeholder: string) => (
+    <div className="flex flex-col">
+      <label className="text-[10px] opacity-40 font-bold mb-1 uppercase">{label}</label>
+      <input
+        value={image[key]}
+        onChange={e => onChange({ ...image, [key]: e.target.value })}
+        placeholder={placeholder}
+        className="border border-black p-2 outline-none font-bold"
+      />
+    </div>
+  );
+
+  return (
+    <div className="border border-black p-4 bg-white space-y-4">
+      <div className="flex justify-between items-center text-[10px] font-black uppercase">
+        <span>ASSET_META // FOCAL: {image.focalX}% {image.focalY}%</span>
+        <div className="flex gap-4">
+          <button type="button" onClick={() => onChange(withFocalPoint(image, 50, 50))} className="underline">RESET_FOCUS</button>
+          {onClose && <button type="button" onClick={onClose} className="underline">CLOSE</button>}
+        </div>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div
+          role="slider"
+          tabIndex={0}
+          aria-label="FOCAL POINT"
+          aria-valuetext={`${image.focalX}% ${image.focalY}%`}
+          onClick={setFocus}
+          onKeyDown={handleKey}
+          className="relative cursor-crosshair border border-black/20 bg-gray-50 focus:outline-none focus-visible:border-black self-start"
+        >
+          <AssetImage assetRef={image.src} alt="" loading="eager" className="w-full h-auto block pointer-events-none select-none" />
+          <div
+            className="absolute w-5 h-5 -ml-2.5 -mt-2.5 border-2 border-white rounded-full shadow-[0_0_0_1px_black] pointer-events-none"
+            style={{ left: `${image.focalX}%`, top: `${image.focalY}%` }}
+          />
+        </div>
+        <div className="space-y-3">
+          {field('alt', 'ALT_TEXT *', 'Describe the image for screen readers')}
+          {field('caption', 'CAPTION', 'Shown under the image')}
+          {field('credit', 'CREDIT', 'Photographer / source')}
+          <div className="grid grid-cols-3 gap-2 items-start">
+            {CROP_PREVIEWS.map(([label, aspect]) => (
+              <div key={label}>
+                <div className={`${aspect} overflow-hidden border border-black/20`}>
+                  <AssetImage assetRef={image.src} alt="" style={focalStyle(image)} className="w-full h-full object-cover grayscale" />
+                </div>
+                <div className="text-[7px] opacity-40 font-bold uppercase mt-1">{label}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageAssetEditor;
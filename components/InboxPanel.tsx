@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { ContactAttachment, ContactSubmission, InboxMessage } from '../types.ts';
+import { fetchMockSubmissions, readLocalSubmissions, storeAttachments } from '../services/contact.ts';
+import { replyMailto } from '../services/inbox.ts';
+import { useAssetUrl } from '../hooks/useAssetUrl.ts';
+
+interface InboxPanelProps {
+  messages: InboxMessage[];
+  onUpdate: (id: string, patch: Partial<Pick<InboxMessage, 'read' | 'archived'>>) => void;
+  onImport: (submissions: ContactSubmission[]) => void;
+  onConvert: (message: InboxMessage) => void;
+}
+
+type InboxFilter = 'OPEN' | 'ARCHIVED';
+
+const formatTime = (iso: string) => iso.replace('T', ' ').slice(0, 16);
+
+const AttachmentLink: React.FC<{ file: ContactAttachment }> = ({ file }) => {
+  const url = useAssetUrl(file.data);
+  return url
+    ? <a href={url} download={file.name} className="underline normal-case">↓ {file.name}</a>
+    : <span className="normal-case opacity-40">{file.name} (MISSING)</span>;
+};
+
+// INBOX 탭: 문의 목록. 펼치면 읽음 처리된다.
+const InboxPanel: React.FC<InboxPanelProps> = ({ messages, onUpdate, onImport, onConvert }) => {
+  const [filter, setFilter] = useState<InboxFilter>('OPEN');
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const visible = messages.filter(m => m.archived === (filter === 'ARCHIVED'));
+  const unread = messages.filter(m => !m.read && !m.archived).length;
+
+  const toggle = (message: InboxMessage) => {
+    setOpenId(openId === message.id ? null : message.id);
+    if (!message.read) onUpdate(message.id, { read: true });
+  };
+
+  // 로컬 대기열(LOCAL_QUEUE 어댑터)과 개발용 목 서버에 쌓인 문의를 가져온다.
+  const handleSync = async () => {
+    setIsSyncing(true);
+    const known = new Set(messages.map(m => m.id));
+    const fresh = [...readLocalSubmissions(), ...(await fetchMockSubmissions())].filter(s => !known.has(s.id));
+    const added = new Set(fresh.map(s => s.id)).size;
+    onImport(await Promise.all(fresh.map(storeAttachments)));
+    setIsSyncing(false);
+    alert(`SYNCED: ${added} NEW MESSAGE(S)`);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-4 text-[10px] font-black uppercase">
+        <div className="flex gap-4">
+          {(['OPEN', 'ARCHIVED'] as InboxFilter[]).map(f => (
+            <button key={f} onClick={() => setFilter(f)} className={filter === f ? 'underline decoration-2 underline-offset-4' : 'opacity-30 hover:opacity-100'}>
+              {f === 'OPEN' ? `INBOX (${unread} UNREAD)` : `ARCHIVED (${messages.filter(m => m.archived).length})`}
+            </button>
+          ))}
+        </div>
+        <button onClick={handleSync} disabled={isSyncing} className="px-4 py-2 border-2 border-black hover:invert transition-all disabled:opacity-30">
+          {isSyncing ? '[ SYNCING... ]' : '↻ [ SYNC_LOCAL_BACKEND ]'}
+        </button>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="text-[10px] font-bold uppercase opacity-40 py-12 text-center">--- NO_MESSAGES ---</div>
+      ) : (
+        <ul className="border-t border-black">
+          {visible.map(message => (
+            <li key={message.id} className="border-b border-black">
+              <button
+                onClick={() => toggle(message)}
+                aria-expanded={openId === message.id}
+                className="w-full grid grid-cols-[1rem_8rem_1fr_6rem] gap-4 items-center px-2 py-3 text-left text-[10px] uppercase hover:bg-black hover:text-white transition-all"
+              >
+                <span>{message.read ? '' : '●'}</span>
+                <span className="font-mono opacity-60">{formatTime(message.createdAt)}</span>
+                <span className={`truncate ${message.read ? 'font-bold' : 'font-black'}`}>{message.name} &lt;{message.email}&gt;</span>
+                <span className="text-right font-black">[{message.subject}]</span>
+              </button>
+              {openId === message.id && (
+                <div className="px-8 pb-6 pt-2 space-y-4 animate-in fade-in">
+                  <p className="text-xs font-bold leading-relaxed whitespace-pre-wrap normal-case">{message.message}</p>
+                  {(message.budget || message.timeline) && (
+                    <div className="flex gap-6 text-[9px] font-black uppercase opacity-60">
+                      {message.budget && <span>BUDGET: {message.budget}</span>}
+                      {message.timeline && <span>TIMELINE: {message.timeline}</span>}
+                    </div>
+                  )}
+                  {message.attachments && message.attachments.length > 0 && (
+                    <ul className="text-[9px] font-bold space-y-1">
+                      {message.attachments.map((file, i) => (
+                        <li key={i}>
+                          <AttachmentLink file={file} />
+                          <span className="opacity-40 ml-2">{Math.ceil(file.size / 1024)}KB</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <div className="flex flex-wrap gap-2 text-[9px] font-black uppercase">
+                    <a href={replyMailto(message)} className="px-3 py-2 bg-black text-white border border-black hover:invert transition-all">REPLY_VIA_MAIL</a>
+                    <button onClick={() => onUpdate(message.id, { read: !message.read })} className="px-3 py-2 border border-black hover:bg-black hover:text-white">
+                      {message.read ? 'MARK_UNREAD' : 'MARK_READ'}
+                    </button>
+                    <button onClick={() => { onUpdate(message.id, { archived: !message.archived }); setOpenId(null); }} className="px-3 py-2 border border-black hover:bg-black hover:text-white">
+                      {message.archived ? 'UNARCHIVE' : 'ARCHIVE'}
+                    </button>
+                    {message.projectId ? (
+                      <span className="px-3 py-2 border border-dashed border-black opacity-60">PROJECT: {message.projectId}</span>
+                    ) : (
+                      <button onClick={() => onConvert(message)} className="px-3 py-2 border border-black hover:bg-black hover:text-white">→ CONVERT_TO_PROJECT</button>
+                    )}
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default InboxPanel;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { Locale, TranslationLocale } from '../types.ts';
+import { LOCALES } from '../services/i18n.ts';
+
+interface LocaleTabsProps {
+  active: Locale;
+  onChange: (locale: Locale) => void;
+  /** 번역 완료 여부 (미완료 언어는 영어로 대체되어 표시됨) */
+  isTranslated: (locale: TranslationLocale) => boolean;
+}
+
+// CMS 폼의 언어별 편집 탭. EN이 원문, 나머지는 번역
+const LocaleTabs: React.FC<LocaleTabsProps> = ({ active, onChange, isTranslated }) => (
+  <div className="flex flex-wrap items-center gap-1 text-[9px] font-black uppercase">
+    {LOCALES.map(({ code, label, name }) => (
+      <button
+        key={code}
+        type="button"
+        title={name}
+        onClick={() => onChange(code)}
+        className={`px-2 py-1 border border-black transition-all ${active === code ? 'bg-black text-white' : 'hover:bg-black/5'}`}
+      >
+        {label}
+        {code !== 'en' && <span className="ml-1">{isTranslated(code) ? '●' : '○'}</span>}
+      </button>
+    ))}
+    {active !== 'en' && <span className="ml-2 opacity-40">EMPTY FIELDS FALL BACK TO EN</span>}
+  </div>
+);
+
+export default LocaleTabs;
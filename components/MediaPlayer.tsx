@@ -0,0 +1,70 @@
+import React from 'react';
+import { MediaItem } from '../types.ts';
+import { useAssetUrl } from '../hooks/useAssetUrl.ts';
+import { embedPlayerUrl, parseEmbedUrl } from '../services/embeds.ts';
+import { focalStyle, imageAlt, mediaPoster } from '../services/imageAsset.ts';
+import AssetImage from './AssetImage.tsx';
+
+interface MediaPlayerProps {
+  item: MediaItem;
+  /** alt가 없을 때 쓸 설명 */
+  label: string;
+  autoPlay?: boolean;
+  /** 카드 안 인라인 재생: 영역을 가득 채움 */
+  fill?: boolean;
+}
+
+// 미디어 종류별 재생기: 이미지는 그대로, 영상은 <video>, Vimeo/YouTube는 iframe 플레이어
+const MediaPlayer: React.FC<MediaPlayerProps> = ({ item, label, autoPlay = false, fill = false }) => {
+  const videoUrl = useAssetUrl(item.kind === 'video' ? item.src : undefined);
+  const posterUrl = useAssetUrl(item.kind === 'image' ? undefined : mediaPoster(item));
+  const frameClass = fill ? 'w-full h-full' : 'w-full aspect-video';
+
+  if (item.kind === 'image') {
+    return (
+      <AssetImage
+        assetRef={item.src}
+        alt={imageAlt(item, label)}
+        style={fill ? focalStyle(item) : undefined}
+        className={fill ? 'w-full h-full object-cover' : 'w-full h-auto object-contain'}
+      />
+    );
+  }
+
+  if (item.kind === 'video') {
+    return (
+      <video
+        src={videoUrl || undefined}
+        poster={posterUrl || undefined}
+        aria-label={imageAlt(item, label)}
+        controls
+        playsInline
+        autoPlay={autoPlay}
+        muted={autoPlay}
+        preload={autoPlay ? 'auto' : 'metadata'}
+        className={`${frameClass} bg-black ${fill ? 'object-cover' : 'object-contain'}`}
+      />
+    );
+  }
+
+  const embed = parseEmbedUrl(item.src);
+  if (!embed) {
+    return (
+      <div className={`${frameClass} flex items-center justify-center bg-black/5 text-[8px] opacity-30 font-mono uppercase`}>
+        UNSUPPORTED_EMBED
+      </div>
+    );
+  }
+  return (
+    <iframe
+      src={embedPlayerUrl(embed, autoPlay)}
+      title={imageAlt(item, label)}
+      allow="autoplay; fullscreen; picture-in-picture; encrypted-media"
+      allowFullScreen
+      loading="lazy"
+      className={`${frameClass} border-0 bg-black`}
+    />
+  );
+};
+
+export default MediaPlayer;
@@ -0,0 +1,150 @@
+import React, { useEffect } from 'react';
+import { CategoryTerm, Client, Locale, Project } from '../types.ts';
+import MediaPlayer from './MediaPlayer.tsx';
+import Barcode from './Barcode.tsx';
+import { localize, translator } from '../services/i18n.ts';
+import { categoryLabel } from '../services/taxonomy.ts';
+import { findClient } from '../services/clients.ts';
+
+interface ProjectDetailProps {
+  projectId: string;
+  projects: Project[];
+  categories: CategoryTerm[];
+  clients: Client[];
+  onSelect: (id: string) => void;
+  onOpenClient: (clientId: string) => void;
+  onBack: () => void;
+  locale: Locale;
+}
+
+const ProjectDetail: React.FC<ProjectDetailProps> = ({ projectId, projects, categories, clients, onSelect, onOpenClient, onBack, locale }) => {
+  const t = translator(locale);
+  const index = projects.findIndex(p => p.id === projectId);
+  const project = index >= 0 ? projects[index] : null;
+  const prev = index > 0 ? projects[index - 1] : null;
+  const next = index >= 0 && index < projects.length - 1 ? projects[index + 1] : null;
+
+  // 좌우 방향키로 이전/다음 레코드 이동
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      // 영상 컨트롤의 방향키(탐색)는 그대로 둔다
+      if (target.closest('input, textarea, select, video')) return;
+      if (e.key === 'ArrowLeft' && prev) onSelect(prev.id);
+      if (e.key === 'ArrowRight' && next) onSelect(next.id);
+      if (e.key === 'Escape') onBack();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [prev, next, onSelect, onBack]);
+
+  if (!project) {
+    return (
+      <div className="animate-in fade-in duration-500 p-10 flex flex-col items-center justify-center min-h-[50vh] text-black font-mono">
+        <div className="text-[30px] font-black italic opacity-80 leading-none mb-4">404</div>
+        <div className="text-[9px] font-bold uppercase tracking-[0.4em] mb-8 border-y border-black/20 py-2">{t('detail.notFound')} {projectId}</div>
+        <button onClick={onBack} className="px-6 py-3 bg-black text-white text-[10px] font-black uppercase tracking-widest hover:invert transition-all border border-black">
+          {t('detail.return')}
+        </button>
+      </div>
+    );
+  }
+
+  const media = project.media || [];
+  const title = localize(project, 'title', locale);
+
+  const client = findClient(clients, project.clientId);
+
+  const specRows: [string, React.ReactNode][] = [
+    ['UID', project.id],
+    ['CLIENT_ID', client
+      ? <button onClick={() => onOpenClient(client.id)} className="underline decoration-dotted hover:bg-black hover:text-white uppercase">{client.name}</button>
+      : '—'],
+    ['DATE_STAMP', project.date?.replace(/-/g, '.') || '0000.00.00'],
+    ['CAT_NODE', `[${categoryLabel(categories, project.category, locale)}]`],
+    ...(project.tags.length > 0 ? [['TAGS', project.tags.map(tag => `#${tag}`).join(' ')] as [string, React.ReactNode]] : []),
+    ['STATUS', `[${project.status}]`],
+    ['ASSET_COUNT', String(media.length).padStart(2, '0')]
+  ];
+
+  return (
+    <div className="animate-in slide-in-from-bottom-4 duration-500 bg-white text-black font-mono">
+      <div className="flex justify-between items-center px-4 md:px-6 py-3 border-b border-black text-[8px] font-black uppercase tracking-widest">
+        <button onClick={onBack} className="hover:bg-black hover:text-white px-1 -ml-1 transition-all">{t('detail.back')}</button>
+        <span className="opacity-30">{t('detail.record')} {String(index + 1).padStart(2, '0')}/{String(projects.length).padStart(2, '0')}</span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3">
+        <div className="lg:col-span-2 border-b lg:border-b-0 lg:border-r border-black p-4 md:p-6 space-y-4">
+          {media.map((item, idx) => (
+            <figure key={idx} className="border border-black/10 bg-gray-50/50">
+              <MediaPlayer item={item} label={`${title} — ${item.kind} ${idx + 1} of ${media.length}`} />
+              <figcaption className="px-2 py-1 border-t border-black/10 text-[7px] font-bold uppercase tracking-widest">
+                {item.caption && <p className="normal-case tracking-normal text-[9px] font-medium opacity-70 py-1">{item.caption}</p>}
+                <div className="flex justify-between gap-4 opacity-40">
+                  <span>{item.kind === 'image' ? 'IMG' : 'VID'}_REF: {idx + 1}/{media.length}</span>
+                  <span>{item.credit ? `CREDIT: ${item.credit}` : project.id}</span>
+                </div>
+              </figcaption>
+            </figure>
+          ))}
+          {media.length === 0 && (
+            <div className="aspect-[16/10] flex items-center justify-center bg-black/5 text-[8px] opacity-10">
+              NO_VISUAL_ASSETS
+            </div>
+          )}
+        </div>
+
+        <aside className="p-4 md:p-6">
+          <div className="lg:sticky lg:top-40 relative border border-black/10 p-5 bg-gray-50/50 shadow-sm flex flex-col gap-5">
+            {/* Receipt Punch Holes */}
+            <div className="absolute top-1/2 -left-2.5 w-3 h-3 bg-white border border-black/10 rounded-full -translate-y-1/2"></div>
+            <div className="absolute top-1/2 -right-2.5 w-3 h-3 bg-white border border-black/10 rounded-full -translate-y-1/2"></div>
+
+            <div className="text-[7px] opacity-30 font-bold uppercase tracking-widest underline">{t('detail.spec')}</div>
+            <h2 className="text-sm font-black italic uppercase tracking-tighter leading-tight">{title}</h2>
+
+            <dl className="text-[8px] font-bold uppercase divide-y divide-black/10 border-y border-black/10">
+              {specRows.map(([label, value]) => (
+                <div key={label} className="flex justify-between gap-4 py-1.5">
+                  <dt className="opacity-40">{label}:</dt>
+                  <dd className={`text-right tracking-widest ${label === 'STATUS' && project.status === 'IN_PROGRESS' ? 'bg-yellow-500 px-1' : ''}`}>{value}</dd>
+                </div>
+              ))}
+            </dl>
+
+            <div className="border-t border-dashed border-black/10 pt-4">
+              <div className="text-[7px] opacity-30 font-bold uppercase tracking-widest mb-2">{t('detail.description')}</div>
+              <p className="text-[9px] leading-relaxed uppercase opacity-70 font-medium tracking-tight whitespace-pre-line">
+                {localize(project, 'description', locale)}
+              </p>
+            </div>
+
+            <Barcode className="h-4 opacity-30" />
+          </div>
+        </aside>
+      </div>
+
+      <nav className="grid grid-cols-2 border-t border-black text-[8px] font-black uppercase tracking-widest">
+        <button
+          disabled={!prev}
+          onClick={() => prev && onSelect(prev.id)}
+          className="p-4 md:p-6 text-left border-r border-black hover:bg-black hover:text-white transition-all disabled:opacity-20 disabled:pointer-events-none"
+        >
+          <div className="opacity-40 mb-1">{t('detail.prev')}</div>
+          <div className="italic tracking-tighter truncate">{prev ? localize(prev, 'title', locale) : 'NULL'}</div>
+        </button>
+        <button
+          disabled={!next}
+          onClick={() => next && onSelect(next.id)}
+          className="p-4 md:p-6 text-right hover:bg-black hover:text-white transition-all disabled:opacity-20 disabled:pointer-events-none"
+        >
+          <div className="opacity-40 mb-1">{t('detail.next')}</div>
+          <div className="italic tracking-tighter truncate">{next ? localize(next, 'title', locale) : 'NULL'}</div>
+        </button>
+      </nav>
+    </div>
+  );
+};
+
+export default ProjectDetail;
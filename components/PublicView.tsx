@@ -1,52 +1,135 @@
-import React, { useState } from 'react';
-import { AppState, Category, ArchiveItem } from '../types.ts';
+import React, { useEffect, useRef, useState } from 'react';
+import { AppState, ArchiveItem, Project, ThemeId } from '../types.ts';
+import { Route, ViewType, routeView } from '../services/router.ts';
+import { Navigate } from '../hooks/useHashRoute.ts';
+import {
+  ProjectFilter, PROJECT_STATUSES, DEFAULT_PROJECT_FILTER,
+  parseProjectFilter, serializeProjectFilter, isFilterActive,
+  queryProjects, countByCategory, projectYears, featuredProjects
+} from '../services/projectQuery.ts';
 import TicketCard from './TicketCard.tsx';
 import Barcode from './Barcode.tsx';
+import AssetImage from './AssetImage.tsx';
+import { focalStyle, imageAlt } from '../services/imageAsset.ts';
+import ProjectDetail from './ProjectDetail.tsx';
+import ClientDetail from './ClientDetail.tsx';
+import { useLocale } from '../hooks/useLocale.ts';
+import { LOCALES, translator, localize, localizeTagline } from '../services/i18n.ts';
+import { createSubmission, deliverySettingsOf, submitContact } from '../services/contact.ts';
+import { copyrightLine, mapUrl, siteConfigOf, visibleSocialLinks } from '../services/siteConfig.ts';
+import { THEMES } from '../services/theme.ts';
+import { useContactOutbox } from '../hooks/useContactOutbox.ts';
+import { categoryLabel, collectTags, hasTag } from '../services/taxonomy.ts';
+import { clientName } from '../services/clients.ts';
+import { formatDateRange } from '../services/dateRange.ts';
+import { ArchiveFilter, DEFAULT_ARCHIVE_FILTER, queryArchive, groupArchiveByYear, toggleArchiveSort } from '../services/archiveQuery.ts';
+import ArchiveControls, { ARCHIVE_SORT_KEYS, sortMark } from './ArchiveControls.tsx';
+import {
+  HONEYPOT_FIELD, ATTACHMENT_LIMITS, BUDGET_OPTIONS, TIMELINE_OPTIONS, ContactFieldErrors, ContactFieldName,
+  isLikelyBot, rateLimitWait, recordAttempt, validateContactFields, readAttachments, isFieldEnabled
+} from '../services/contactGuard.ts';
 
 interface PublicViewProps {
   state: AppState;
+  route: Route;
+  navigate: Navigate;
+  /** 지금 적용된 테마와 방문자 전환 (App의 useTheme) */
+  theme?: ThemeId;
+  onThemeChange?: (theme: ThemeId) => void;
 }
 
-type ViewType = 'HOME' | 'CONTENT' | 'SERVICES' | 'CONTACT';
-type FormStatus = 'IDLE' | 'SUBMITTING' | 'SUCCESS' | 'ERROR';
+type FormStatus = 'IDLE' | 'SUBMITTING' | 'SUCCESS' | 'QUEUED' | 'ERROR';
 
-const PublicView: React.FC<PublicViewProps> = ({ state }) => {
-  const [currentView, setCurrentView] = useState<ViewType>('HOME');
+const PublicView: React.FC<PublicViewProps> = ({ state, route, navigate, theme = 'default', onThemeChange }) => {
+  const currentView = routeView(route);
+  const setCurrentView = (view: ViewType) => navigate({ name: view });
+  const openProject = (project: Project) => navigate({ name: 'PROJECT', projectId: project.id });
+  const openClient = (clientId: string) => navigate({ name: 'CLIENT', clientId });
   const [formStatus, setFormStatus] = useState<FormStatus>('IDLE');
+  const [fieldErrors, setFieldErrors] = useState<ContactFieldErrors>({});
+  const [retryAfter, setRetryAfter] = useState(0);
+  const formOpenedAt = useRef(Date.now());
   const [selectedArchive, setSelectedArchive] = useState<ArchiveItem | null>(null);
   const [hoveredArchive, setHoveredArchive] = useState<ArchiveItem | null>(null);
+  const [archiveFilter, setArchiveFilter] = useState<ArchiveFilter>(DEFAULT_ARCHIVE_FILTER);
   const [mousePos, setMousePos] = useState({ x: 0, y: 0 });
+  const [locale, setLocale] = useLocale();
+  const t = translator(locale);
+  const tagline = localizeTagline(state, locale);
+  const outbox = useContactOutbox(state.contactSettings);
+  const contactSettings = deliverySettingsOf(state.contactSettings, state.siteConfig);
+  const site = siteConfigOf(state.siteConfig);
+  const socialLinks = visibleSocialLinks(site);
 
-  const categories = Object.values(Category);
-  const instagramUrl = "https://www.instagram.com/onedayearly.mind/?igsh=dHJobnplYTR2bmt3&utm_source=qr#";
+  // 작성 시간 검사는 문의 화면에 들어온 시점부터 잰다.
+  useEffect(() => {
+    if (currentView === 'CONTACT') formOpenedAt.current = Date.now();
+  }, [currentView]);
+
+  const categories = state.categories;
+  const categoryName = (id: string) => categoryLabel(categories, id, locale);
+  const clientOf = (record: { clientId?: string }) => clientName(state.clients, record.clientId);
+  const filter = parseProjectFilter(route.name === 'CONTENT' ? route.query : undefined, categories);
+
+  const updateFilter = (patch: Partial<ProjectFilter>, options?: { replace?: boolean }) => {
+    navigate({ name: 'CONTENT', query: serializeProjectFilter({ ...filter, ...patch }) }, options);
+  };
+
+  const toggleInList = <T,>(list: T[], value: T): T[] =>
+    list.includes(value) ? list.filter(v => v !== value) : [...list, value];
 
   const handleFormSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    setFormStatus('SUBMITTING');
     const form = e.currentTarget;
     const formData = new FormData(form);
-    
+    const field = (name: string) => String(formData.get(name) || '').trim();
+    const files = formData.getAll('attachments').filter((f): f is File => f instanceof File && f.size > 0);
+
+    const errors = validateContactFields({ name: field('name'), email: field('email'), message: field('message'), files });
+    setFieldErrors(errors);
+    const firstInvalid = (Object.keys(errors) as ContactFieldName[])[0];
+    if (firstInvalid) {
+      (form.elements.namedItem(firstInvalid) as HTMLElement | null)?.focus();
+      return;
+    }
+
+    if (isLikelyBot(field(HONEYPOT_FIELD), formOpenedAt.current)) {
+      setFormStatus('SUCCESS');
+      return;
+    }
+    const wait = rateLimitWait();
+    if (wait > 0) {
+      setRetryAfter(Math.ceil(wait / 1000));
+      setFormStatus('ERROR');
+      return;
+    }
+
+    setRetryAfter(0);
+    setFormStatus('SUBMITTING');
     try {
-      const response = await fetch("https://formspree.io/f/xbdlpppr", {
-        method: "POST",
-        body: formData,
-        headers: {
-          'Accept': 'application/json'
-        }
+      const submission = createSubmission({
+        name: field('name'),
+        email: field('email'),
+        subject: field('subject'),
+        message: field('message'),
+        ...(field('budget') ? { budget: field('budget') } : {}),
+        ...(field('timeline') ? { timeline: field('timeline') } : {}),
+        ...(files.length > 0 ? { attachments: await readAttachments(files) } : {})
       });
-      
-      if (response.ok) {
-        setFormStatus('SUCCESS');
-      } else {
-        setFormStatus('ERROR');
-      }
+      // 일시적인 실패는 브라우저 대기열에 저장되고 자동으로 재전송된다.
+      const result = await submitContact(submission, contactSettings);
+      recordAttempt();
+      if (result === 'QUEUED') outbox.refresh();
+      setFormStatus(result === 'QUEUED' ? 'QUEUED' : 'SUCCESS');
     } catch (error) {
+      console.warn("SYSTEM: CONTACT_SUBMIT_FAILED", error);
       setFormStatus('ERROR');
     }
   };
 
   const resetFormAndGoHome = () => {
     setFormStatus('IDLE');
+    setFieldErrors({});
     setCurrentView('HOME');
   };
 
@@ -55,11 +138,66 @@ const PublicView: React.FC<PublicViewProps> = ({ state }) => {
   };
 
   const handleArchiveClick = (item: ArchiveItem) => {
-    if (item.imageUrl) {
+    if (item.image) {
       setSelectedArchive(item);
     }
   };
 
+  const periodLabel = (item: ArchiveItem) =>
+    item.period.start ? formatDateRange(item.period, t('archive.present')) : t('archive.undated');
+
+  const renderArchiveRow = (item: ArchiveItem) => (
+    <tr
+      key={item.id}
+      className={`transition-colors group cursor-pointer ${selectedArchive?.id === item.id ? 'bg-black text-white' : 'hover:bg-black/5'}`}
+      onMouseEnter={() => setHoveredArchive(item)}
+      onMouseLeave={() => setHoveredArchive(null)}
+      onClick={() => handleArchiveClick(item)}
+    >
+      <td className={`py-2.5 pr-4 font-bold whitespace-nowrap ${selectedArchive?.id === item.id ? 'opacity-100' : 'opacity-40 group-hover:opacity-100'}`}>{periodLabel(item)}</td>
+      <td className="py-2.5 pr-4 font-black uppercase tracking-tighter">{clientOf(item) || '—'}</td>
+      <td className={`py-2.5 pr-4 italic ${selectedArchive?.id === item.id ? 'opacity-100' : 'opacity-40 group-hover:opacity-100'}`}>[{item.tags.join(', ')}]</td>
+      <td className={`py-2.5 tracking-tight ${selectedArchive?.id === item.id ? 'opacity-100' : 'opacity-40 group-hover:opacity-100'}`}>{item.project}</td>
+    </tr>
+  );
+
+  const renderArchiveTable = () => {
+    const rows = queryArchive(state.archiveItems, archiveFilter, state.clients);
+    return (
+      <>
+        <ArchiveControls items={state.archiveItems} filter={archiveFilter} onChange={setArchiveFilter} resultCount={rows.length} locale={locale} showSort={false} />
+        <table className="w-full text-left font-mono text-[8px] border-collapse text-black">
+          <thead>
+            <tr className="border-b border-black/30 text-black/30 font-bold uppercase">
+              {ARCHIVE_SORT_KEYS.map(({ key, label }) => (
+                <th key={key} className="py-2 pr-4 tracking-tighter" aria-sort={archiveFilter.sortKey === key ? (archiveFilter.sortDir === 'ASC' ? 'ascending' : 'descending') : undefined}>
+                  <button onClick={() => setArchiveFilter(toggleArchiveSort(archiveFilter, key))} className={`uppercase hover:text-black ${archiveFilter.sortKey === key ? 'text-black' : ''}`}>
+                    {t(label)}{sortMark(archiveFilter, key)}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          {archiveFilter.groupByYear ? (
+            groupArchiveByYear(rows).map(group => (
+              <tbody key={group.year ?? 'undated'} className="divide-y divide-black/5">
+                <tr className="border-b border-black/30">
+                  <th colSpan={4} className="pt-4 pb-1 text-[9px] font-black italic tracking-tighter">{group.year ?? t('archive.undated')} <span className="opacity-30 not-italic">({String(group.items.length).padStart(2, '0')})</span></th>
+                </tr>
+                {group.items.map(renderArchiveRow)}
+              </tbody>
+            ))
+          ) : (
+            <tbody className="divide-y divide-black/5">{rows.map(renderArchiveRow)}</tbody>
+          )}
+        </table>
+        {rows.length === 0 && (
+          <div className="py-10 text-center text-[8px] font-bold uppercase tracking-[0.4em] opacity-30 text-black">{t('archive.empty')}</div>
+        )}
+      </>
+    );
+  };
+
   const renderHome = () => (
     <div className="animate-in fade-in duration-500 relative">
       <section className="grid grid-cols-1 md:grid-cols-2 border-b border-black">
@@ -67,11 +205,11 @@ const PublicView: React.FC<PublicViewProps> = ({ state }) => {
           <div className="text-[9px] opacity-30 mb-4 font-bold uppercase tracking-widest font-mono underline decoration-black/10">SYS_OVERVIEW_LOG_V2.2</div>
           <h2 className="text-sm font-black italic uppercase leading-none mb-4 font-mono tracking-tighter text-black">{state.siteTitle || 'ONE DAY EARLY'}</h2>
           <p className="text-[9px] leading-relaxed opacity-60 uppercase font-mono max-w-sm text-black">
-            {state.tagline}
+            {tagline}
           </p>
           <div className="mt-8 flex gap-3">
             <button onClick={() => setCurrentView('CONTENT')} className="px-3 py-1 bg-black text-white text-[9px] font-bold uppercase border border-black transition-all font-mono hover:bg-transparent hover:text-black">
-              [ ACCESS_DATABASE ]
+              {t('home.access')}
             </button>
           </div>
         </div>
@@ -80,7 +218,7 @@ const PublicView: React.FC<PublicViewProps> = ({ state }) => {
           <div className="flex justify-between items-start z-10">
             <div className="text-[8px] font-bold opacity-30 font-mono tracking-widest uppercase text-black">NODE_STATUS: STABLE</div>
             <div className="text-right font-mono">
-              <div className="text-2xl font-black italic leading-none opacity-80 group-hover:opacity-100 transition-opacity text-black">100%</div>
+              <div className="text-2xl font-black italic leading-none opacity-80 group-hover:opacity-100 transition-opacity text-accent">100%</div>
               <div className="text-[7px] opacity-40 uppercase font-mono tracking-[0.2em] text-black">RELIABILITY</div>
             </div>
           </div>
@@ -91,7 +229,7 @@ const PublicView: React.FC<PublicViewProps> = ({ state }) => {
             </div>
             <div className="flex justify-between border-b border-black/10 pb-1 uppercase">
               <span className="opacity-40">STATION_REF:</span>
-              <span className="font-bold">SEOUL_HQ</span>
+              <span className="font-bold">{site.location.station}</span>
             </div>
             <div className="flex justify-between border-b border-black/10 pb-1 uppercase">
               <span className="opacity-40">ENCRYPTION:</span>
@@ -107,20 +245,20 @@ const PublicView: React.FC<PublicViewProps> = ({ state }) => {
       
       <section className="p-6 border-b border-black bg-white">
         <div className="flex justify-between items-center mb-6">
-           <div className="text-[9px] opacity-30 font-bold uppercase underline font-mono tracking-widest text-black">RECENT_TRANSMISSIONS</div>
+           <div className="text-[9px] opacity-30 font-bold uppercase underline font-mono tracking-widest text-black">{t('home.recent')}</div>
            <div className="text-[7px] opacity-15 font-mono uppercase text-black">ID: {new Date().getTime()}</div>
         </div>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {state.projects.slice(0, 3).map(project => (
-            <TicketCard key={project.id} project={project} />
+          {featuredProjects(state.projects).map(project => (
+            <TicketCard key={project.id} project={project} locale={locale} categoryLabel={categoryName(project.category)} clientName={clientOf(project)} onSelect={openProject} />
           ))}
         </div>
       </section>
 
       <section className="p-6 bg-white relative" onMouseMove={handleMouseMove}>
-        <div className="text-[9px] opacity-30 mb-6 font-bold uppercase underline font-mono tracking-widest text-black">TRANSMISSION_HISTORY_LOG</div>
+        <div className="text-[9px] opacity-30 mb-6 font-bold uppercase underline font-mono tracking-widest text-black">{t('home.history')}</div>
         
-        {hoveredArchive && hoveredArchive.imageUrl && !selectedArchive && (
+        {hoveredArchive && hoveredArchive.image && !selectedArchive && (
           <div 
             className="fixed z-50 pointer-events-none animate-in fade-in duration-200 border border-black/20 bg-white/80 backdrop-blur-sm"
             style={{ 
@@ -129,37 +267,18 @@ const PublicView: React.FC<PublicViewProps> = ({ state }) => {
               width: '150px'
             }}
           >
-            <img src={hoveredArchive.imageUrl} className="w-full grayscale brightness-75" />
+            <AssetImage
+              assetRef={hoveredArchive.image.src}
+              alt={imageAlt(hoveredArchive.image, clientOf(hoveredArchive))}
+              loading="eager"
+              style={focalStyle(hoveredArchive.image)}
+              className="w-full aspect-[3/4] object-cover grayscale brightness-75"
+            />
           </div>
         )}
 
         <div className="overflow-x-auto border border-black/10 p-4 bg-gray-50/20">
-          <table className="w-full text-left font-mono text-[8px] border-collapse text-black">
-            <thead>
-              <tr className="border-b border-black/30 text-black/30 font-bold uppercase">
-                <th className="py-2 pr-4 tracking-tighter">YEAR_STAMP</th>
-                <th className="py-2 pr-4 tracking-tighter">COMPANY_ID</th>
-                <th className="py-2 pr-4 tracking-tighter">TYPE_CAT</th>
-                <th className="py-2 tracking-tighter">PROJECT_REF</th>
-              </tr>
-            </thead>
-            <tbody className="divide-y divide-black/5">
-              {(state.archiveItems || []).map((item) => (
-                <tr 
-                  key={item.id} 
-                  className={`transition-colors group cursor-pointer ${selectedArchive?.id === item.id ? 'bg-black text-white' : 'hover:bg-black/5'}`}
-                  onMouseEnter={() => setHoveredArchive(item)}
-                  onMouseLeave={() => setHoveredArchive(null)}
-                  onClick={() => handleArchiveClick(item)}
-                >
-                  <td className={`py-2.5 pr-4 font-bold ${selectedArchive?.id === item.id ? 'opacity-100' : 'opacity-40 group-hover:opacity-100'}`}>{item.year}</td>
-                  <td className="py-2.5 pr-4 font-black uppercase tracking-tighter">{item.company}</td>
-                  <td className={`py-2.5 pr-4 italic ${selectedArchive?.id === item.id ? 'opacity-100' : 'opacity-40 group-hover:opacity-100'}`}>[{item.category}]</td>
-                  <td className={`py-2.5 tracking-tight ${selectedArchive?.id === item.id ? 'opacity-100' : 'opacity-40 group-hover:opacity-100'}`}>{item.project}</td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
+          {renderArchiveTable()}
           <div className="mt-8 pt-4 border-t border-black/10 flex justify-between items-center opacity-20">
              <span className="text-[7px] font-bold tracking-[0.6em] uppercase text-black">--- EOF DATA_STREAM ---</span>
              <Barcode className="h-3" />
@@ -171,7 +290,7 @@ const PublicView: React.FC<PublicViewProps> = ({ state }) => {
             className="fixed right-6 top-[20%] z-[60] w-[320px] bg-white border border-black shadow-2xl animate-in slide-in-from-right-10 duration-500"
           >
             <div className="flex justify-between items-center px-4 py-2 border-b border-black bg-black text-white">
-              <span className="text-[10px] font-black italic tracking-tighter uppercase">{selectedArchive.company}</span>
+              <span className="text-[10px] font-black italic tracking-tighter uppercase">{clientOf(selectedArchive) || '—'}</span>
               <button 
                 onClick={() => setSelectedArchive(null)}
                 className="text-[10px] font-bold hover:scale-125 transition-transform px-1"
@@ -181,23 +300,35 @@ const PublicView: React.FC<PublicViewProps> = ({ state }) => {
             </div>
             <div className="p-1">
               <div className="aspect-[3/4] overflow-hidden bg-gray-100">
-                <img 
-                  src={selectedArchive.imageUrl} 
-                  alt={selectedArchive.company}
+                <AssetImage 
+                  assetRef={selectedArchive.image?.src} 
+                  alt={imageAlt(selectedArchive.image, clientOf(selectedArchive))}
+                  style={focalStyle(selectedArchive.image)}
                   className="w-full h-full object-cover grayscale transition-all duration-700 hover:grayscale-0"
                 />
               </div>
+              {(selectedArchive.image?.caption || selectedArchive.image?.credit) && (
+                <div className="px-2 py-1 text-[7px] text-black font-mono">
+                  {selectedArchive.image.caption && <p className="opacity-70">{selectedArchive.image.caption}</p>}
+                  {selectedArchive.image.credit && <p className="opacity-30 font-bold uppercase tracking-widest">CREDIT: {selectedArchive.image.credit}</p>}
+                </div>
+              )}
             </div>
             <div className="p-4 bg-white border-t border-black/10 text-black">
               <div className="text-[7px] opacity-30 uppercase font-bold tracking-widest mb-1">PROJECT_ARCHIVE_DATA:</div>
               <div className="text-[10px] font-black italic uppercase tracking-tighter mb-4 leading-tight">{selectedArchive.project}</div>
               <div className="flex justify-between items-end">
                 <div className="text-[7px] opacity-40 uppercase font-mono">
-                  CAT: {selectedArchive.category}<br/>
-                  STAMP: {selectedArchive.year}
+                  TAGS: {selectedArchive.tags.join(', ')}<br/>
+                  STAMP: {periodLabel(selectedArchive)}
                 </div>
                 <Barcode className="h-3 opacity-30" />
               </div>
+              {selectedArchive.clientId && (
+                <button onClick={() => { openClient(selectedArchive.clientId!); setSelectedArchive(null); }} className="mt-4 w-full py-2 border border-black text-[8px] font-black uppercase tracking-widest hover:bg-black hover:text-white transition-all">
+                  {t('client.open')}
+                </button>
+              )}
             </div>
           </div>
         )}
@@ -205,148 +336,328 @@ const PublicView: React.FC<PublicViewProps> = ({ state }) => {
     </div>
   );
 
-  const renderContent = () => (
-    <div className="animate-in slide-in-from-bottom-4 duration-500 p-4 md:p-6 bg-white">
-      <div className="flex flex-col md:flex-row justify-between items-start md:items-end mb-10 border-b border-black pb-6 gap-6">
-        <div>
-          <h2 className="text-xs font-black italic tracking-tighter uppercase font-mono text-black">CONTENT_DATABASE</h2>
-          <p className="text-[8px] opacity-40 uppercase font-mono mt-1 tracking-widest text-black">ACCESSING ARCHIVE NODES...</p>
-        </div>
-        <div className="flex flex-wrap gap-1.5">
-          {categories.map(cat => (
-            <button key={cat} className="text-[8px] border border-black/20 px-2 py-0.5 hover:bg-black hover:text-white transition-all uppercase font-mono font-bold tracking-widest text-black">
-              [{cat}]
+  const renderContent = () => {
+    const results = queryProjects(state.projects, filter, state.clients);
+    const categoryCounts = countByCategory(state.projects, filter, state.clients);
+    const tags = collectTags(state.projects);
+    const years = projectYears(state.projects);
+    const filterBtn = (active: boolean) =>
+      `text-[8px] border px-2 py-0.5 transition-all uppercase font-mono font-bold tracking-widest ${active ? 'bg-black text-white border-black' : 'border-black/20 hover:bg-black hover:text-white text-black'}`;
+    const fieldClass = "bg-transparent border border-black/20 focus:border-black px-2 py-1 text-[8px] outline-none uppercase font-mono font-bold tracking-widest text-black";
+
+    return (
+      <div className="animate-in slide-in-from-bottom-4 duration-500 p-4 md:p-6 bg-white">
+        <div className="flex flex-col md:flex-row justify-between items-start md:items-end mb-6 border-b border-black pb-6 gap-6">
+          <div>
+            <h2 className="text-xs font-black italic tracking-tighter uppercase font-mono text-black">{t('content.title')}</h2>
+            <p className="text-[8px] opacity-40 uppercase font-mono mt-1 tracking-widest text-black">{t('content.subtitle')}</p>
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            <button onClick={() => updateFilter({ categories: [] })} className={filterBtn(filter.categories.length === 0)}>
+              [{t('content.all')}]
             </button>
+            {categories.map(({ id }) => (
+              <button
+                key={id}
+                onClick={() => updateFilter({ categories: toggleInList(filter.categories, id) })}
+                className={`${filterBtn(filter.categories.includes(id))} ${!categoryCounts[id] && !filter.categories.includes(id) ? 'opacity-30' : ''}`}
+              >
+                [{categoryName(id)}:{String(categoryCounts[id] || 0).padStart(2, '0')}]
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 mb-10 pb-6 border-b border-dashed border-black/10 font-mono text-black">
+          <input
+            type="search"
+            value={filter.search}
+            onChange={e => updateFilter({ search: e.target.value }, { replace: true })}
+            placeholder={t('content.search')}
+            className={`${fieldClass} flex-grow min-w-[200px] placeholder:opacity-30`}
+          />
+          <div className="flex gap-1.5">
+            {PROJECT_STATUSES.map(status => (
+              <button key={status} onClick={() => updateFilter({ statuses: toggleInList(filter.statuses, status) })} className={filterBtn(filter.statuses.includes(status))}>
+                {status}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1.5 text-[8px] font-bold">
+            <span className="opacity-40">{t('content.year')}</span>
+            <select value={filter.yearFrom ?? ''} onChange={e => updateFilter({ yearFrom: e.target.value ? Number(e.target.value) : null })} className={`${fieldClass} cursor-pointer`}>
+              <option value="">{t('content.from')}</option>
+              {years.map(y => <option key={y} value={y}>{y}</option>)}
+            </select>
+            <span className="opacity-40">-</span>
+            <select value={filter.yearTo ?? ''} onChange={e => updateFilter({ yearTo: e.target.value ? Number(e.target.value) : null })} className={`${fieldClass} cursor-pointer`}>
+              <option value="">{t('content.to')}</option>
+              {years.map(y => <option key={y} value={y}>{y}</option>)}
+            </select>
+          </div>
+          <select value={filter.sort} onChange={e => updateFilter({ sort: e.target.value as ProjectFilter['sort'] })} className={`${fieldClass} cursor-pointer`}>
+            <option value="CURATED">{t('content.sortCurated')}</option>
+            <option value="DATE_DESC">{t('content.sortDateDesc')}</option>
+            <option value="DATE_ASC">{t('content.sortDateAsc')}</option>
+            <option value="TITLE_ASC">{t('content.sortTitleAsc')}</option>
+            <option value="TITLE_DESC">{t('content.sortTitleDesc')}</option>
+          </select>
+          <div className="ml-auto flex items-center gap-3 text-[8px] font-bold uppercase tracking-widest">
+            <span className="opacity-40">{t('content.match')} {String(results.length).padStart(2, '0')}/{String(state.projects.length).padStart(2, '0')}</span>
+            {isFilterActive(filter) && (
+              <button onClick={() => updateFilter({ ...DEFAULT_PROJECT_FILTER, sort: filter.sort })} className="underline hover:opacity-50">{t('content.reset')}</button>
+            )}
+          </div>
+        </div>
+
+        {tags.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1.5 -mt-4 mb-10 font-mono text-black">
+            <span className="text-[8px] font-bold opacity-40 mr-1">{t('content.tags')}</span>
+            {tags.map(({ tag }) => {
+              const active = hasTag(filter.tags, tag);
+              return (
+                <button
+                  key={tag.toLowerCase()}
+                  onClick={() => updateFilter({ tags: active ? filter.tags.filter(t => t.toLowerCase() !== tag.toLowerCase()) : [...filter.tags, tag] })}
+                  className={`${filterBtn(active)} normal-case`}
+                >
+                  #{tag}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          {results.map(project => (
+            <TicketCard key={project.id} project={project} locale={locale} categoryLabel={categoryName(project.category)} clientName={clientOf(project)} onSelect={openProject} />
           ))}
         </div>
+        {results.length === 0 && (
+          <div className="py-20 text-center text-[8px] font-mono font-bold uppercase tracking-[0.4em] opacity-30 text-black">
+            {t('content.empty')}
+          </div>
+        )}
       </div>
-      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
-        {state.projects.map(project => (
-          <TicketCard key={project.id} project={project} />
-        ))}
-      </div>
-    </div>
-  );
+    );
+  };
 
-  const renderServices = () => (
-    <div className="animate-in slide-in-from-right-4 duration-500 bg-white">
-      <div className="grid grid-cols-1 lg:grid-cols-2 border-b border-black">
-        {state.services.map((service, idx) => (
-          <div key={service.id} className={`p-10 border-black group hover:bg-black hover:text-white transition-all flex flex-col justify-between min-h-[350px] ${idx % 2 === 0 ? 'lg:border-r' : ''} border-b relative overflow-hidden text-black`}>
-            <div className="absolute -bottom-6 -right-3 text-[120px] font-black italic opacity-[0.03] group-hover:opacity-10 transition-opacity pointer-events-none font-mono text-black">
-              {service.number}
-            </div>
-            <div className="z-10">
-              <div className="text-[9px] mb-8 font-bold font-mono uppercase tracking-[0.3em] opacity-30 group-hover:opacity-100">NODE_{service.number}</div>
-              <h2 className="text-xs font-black mb-4 uppercase italic font-mono tracking-tighter">{service.title}</h2>
-              <p className="text-[9px] leading-relaxed opacity-60 group-hover:opacity-100 max-w-xs uppercase font-mono font-medium tracking-tight">
-                {service.description}
-              </p>
-            </div>
-            <div className="mt-10 flex justify-between items-end z-10 text-[8px] font-bold opacity-20 group-hover:opacity-40 font-mono italic uppercase">
-               <span>[{service.id}]</span>
-               <span className="tracking-widest">{idx + 1}/04</span>
-            </div>
+  const renderServices = () => {
+    const total = state.services.length;
+    const pad = (n: number) => String(n).padStart(2, '0');
+
+    return (
+      <div className="animate-in slide-in-from-right-4 duration-500 bg-white">
+        {total === 0 && (
+          <div className="py-20 text-center text-[8px] font-mono font-bold uppercase tracking-[0.4em] opacity-30 text-black border-b border-black">
+            {t('services.empty')}
           </div>
-        ))}
+        )}
+        <div className="grid grid-cols-1 lg:grid-cols-2 border-b border-black">
+          {state.services.map((service, idx) => {
+            // 홀수 개일 때 마지막 노드는 두 칸을 모두 차지
+            const spansRow = total % 2 === 1 && idx === total - 1;
+            return (
+              <div key={service.id} className={`p-10 border-black group hover:bg-black hover:text-white transition-all flex flex-col justify-between min-h-[350px] ${spansRow ? 'lg:col-span-2' : idx % 2 === 0 ? 'lg:border-r' : ''} border-b relative overflow-hidden text-black`}>
+                <div className="absolute -bottom-6 -right-3 text-[120px] font-black italic opacity-[0.03] group-hover:opacity-10 transition-opacity pointer-events-none font-mono text-black">
+                  {service.number}
+                </div>
+                <div className="z-10">
+                  <div className="text-[9px] mb-8 font-bold font-mono uppercase tracking-[0.3em] opacity-30 group-hover:opacity-100">NODE_{service.number}</div>
+                  <h2 className="text-xs font-black mb-4 uppercase italic font-mono tracking-tighter">{localize(service, 'title', locale)}</h2>
+                  <p className="text-[9px] leading-relaxed opacity-60 group-hover:opacity-100 max-w-xs uppercase font-mono font-medium tracking-tight">
+                    {localize(service, 'description', locale)}
+                  </p>
+                </div>
+                <div className="mt-10 flex justify-between items-end z-10 text-[8px] font-bold opacity-20 group-hover:opacity-40 font-mono italic uppercase">
+                   <span>[{service.id}]</span>
+                   <span className="tracking-widest">{pad(idx + 1)}/{pad(total)}</span>
+                </div>
+              </div>
+            );
+          })}
+        </div>
       </div>
-    </div>
-  );
+    );
+  };
+
+  // 필드별 검증 메시지. 입력을 고치면 다음 제출 때 다시 검사한다.
+  const fieldA11y = (name: ContactFieldName) => ({
+    'aria-invalid': fieldErrors[name] ? true : undefined,
+    'aria-describedby': fieldErrors[name] ? `contact-${name}-error` : undefined
+  });
+  const fieldBorder = (name: ContactFieldName) => (fieldErrors[name] ? 'border-red-500' : 'border-black/10');
+  const fieldError = (name: ContactFieldName) => {
+    const key = fieldErrors[name];
+    return key && (
+      <p id={`contact-${name}-error`} className="text-red-500 text-[8px] font-bold tracking-widest mt-1 font-mono">{t(key)}</p>
+    );
+  };
 
   const renderContact = () => (
     <div className="animate-in zoom-in-95 duration-500 bg-white">
       <div className="grid grid-cols-1 lg:grid-cols-2 border-b border-black min-h-[60vh]">
         <div className="p-8 md:p-10 border-r border-black flex flex-col justify-between text-black">
           <div className="space-y-12">
+            {site.email && (
+              <div>
+                <div className="text-[8px] opacity-30 mb-4 uppercase font-bold tracking-widest underline font-mono">{t('contact.email')}</div>
+                <a href={`mailto:${site.email}`} className="text-sm font-black uppercase tracking-tighter hover:bg-black hover:text-white transition-all px-1 -ml-1 underline decoration-dashed font-mono italic">{site.email}</a>
+              </div>
+            )}
+            {site.phone && (
+              <div>
+                <div className="text-[8px] opacity-30 mb-4 uppercase font-bold tracking-widest underline font-mono">{t('contact.phone')}</div>
+                <a href={`tel:${site.phone.replace(/[^\d+]/g, '')}`} className="text-sm font-black uppercase tracking-tighter hover:bg-black hover:text-white transition-all px-1 -ml-1 underline decoration-dashed font-mono italic">{site.phone}</a>
+              </div>
+            )}
             <div>
-              <div className="text-[8px] opacity-30 mb-4 uppercase font-bold tracking-widest underline font-mono">EMAIL_GATEWAY</div>
-              <a href="mailto:info@odemind.co.kr" className="text-sm font-black uppercase tracking-tighter hover:bg-black hover:text-white transition-all px-1 -ml-1 underline decoration-dashed font-mono italic">info@odemind.co.kr</a>
-            </div>
-            <div>
-              <div className="text-[8px] opacity-30 mb-4 uppercase font-bold tracking-widest underline font-mono">COORDINATES</div>
+              <div className="text-[8px] opacity-30 mb-4 uppercase font-bold tracking-widest underline font-mono">{t('contact.coordinates')}</div>
               <a 
-                href="https://www.google.com/maps/search/?api=1&query=Seodaemun-gu+Seoul+Korea" 
+                href={mapUrl(site)} 
                 target="_blank" 
                 rel="noopener noreferrer"
                 className="text-sm font-black uppercase italic hover:bg-black hover:text-white transition-all px-1 -ml-1 underline decoration-solid block font-mono tracking-tighter mb-4"
               >
-                SEOUL_KOR / SEODAEMUN-GU
+                {site.location.address}
               </a>
               <Barcode className="h-3 opacity-20" />
             </div>
           </div>
           <div className="mt-16 flex flex-wrap gap-6 font-mono font-black text-[9px]">
-            <a href={instagramUrl} target="_blank" rel="noopener noreferrer" className="border-b border-black/40 hover:opacity-50 uppercase tracking-widest transition-opacity italic">INSTAGRAM</a>
-            <a href="#" className="border-b border-black/40 hover:opacity-50 uppercase tracking-widest italic">VIMEO</a>
-            <a href="#" className="border-b border-black/40 hover:opacity-50 uppercase tracking-widest italic">PINTEREST</a>
+            {socialLinks.map(link => (
+              <a key={link.id} href={link.url} target="_blank" rel="noopener noreferrer" className="border-b border-black/40 hover:opacity-50 uppercase tracking-widest transition-opacity italic">{link.label}</a>
+            ))}
           </div>
         </div>
 
         <div className="p-8 md:p-10 bg-gray-50 border-l border-black/5 text-black">
-          {formStatus === 'SUCCESS' ? (
+          {formStatus === 'SUCCESS' || formStatus === 'QUEUED' ? (
             <div className="h-full flex flex-col items-center justify-center text-center animate-in zoom-in-95 font-mono">
-              <div className="text-[40px] font-black italic mb-4 opacity-80 leading-none">SUCCESS</div>
+              <div className="text-[40px] font-black italic mb-4 opacity-80 leading-none">{t(formStatus === 'QUEUED' ? 'contact.queued' : 'contact.success')}</div>
               <div className="text-[9px] font-bold uppercase tracking-[0.4em] mb-8 border-y border-black/20 py-2">
-                DATA_TRANSMITTED_SUCCESSFULLY
+                {t(formStatus === 'QUEUED' ? 'contact.queuedLine' : 'contact.successLine')}
               </div>
               <p className="text-[8px] opacity-60 uppercase max-w-[200px] mb-12">
-                YOUR LOG HAS BEEN SECURELY RECORDED IN OUR SYSTEMS. A RESPONSE WILL BE INITIATED SHORTLY.
+                {t(formStatus === 'QUEUED' ? 'contact.queuedBody' : 'contact.successBody')}
               </p>
               <button 
                 onClick={resetFormAndGoHome}
                 className="px-6 py-3 bg-black text-white text-[10px] font-black uppercase tracking-widest hover:invert transition-all border border-black"
               >
-                [ RETURN_TO_HOME ]
+                {t('contact.returnHome')}
               </button>
               <Barcode className="h-4 opacity-20 mt-12" />
             </div>
           ) : (
             <>
-              <div className="text-[9px] opacity-30 uppercase tracking-[0.4em] font-bold underline mb-10 font-mono text-center">INPUT_TERMINAL_V2</div>
-              <form onSubmit={handleFormSubmit} className="space-y-6 max-w-xs mx-auto">
-                <input 
-                  type="text" 
-                  name="name" 
-                  required 
-                  placeholder="USER_IDENT" 
-                  disabled={formStatus === 'SUBMITTING'}
-                  className="w-full bg-transparent border border-black/10 focus:border-black p-2.5 text-[9px] outline-none uppercase placeholder:opacity-20 transition-all font-mono tracking-widest disabled:opacity-30"
-                />
-                <input 
-                  type="email" 
-                  name="email" 
-                  required 
-                  placeholder="RETURN_ADDR" 
-                  disabled={formStatus === 'SUBMITTING'}
-                  className="w-full bg-transparent border border-black/10 focus:border-black p-2.5 text-[9px] outline-none uppercase placeholder:opacity-20 transition-all font-mono tracking-widest disabled:opacity-30"
-                />
+              <div className="text-[9px] opacity-30 uppercase tracking-[0.4em] font-bold underline mb-10 font-mono text-center">{t('contact.terminal')}</div>
+              <form onSubmit={handleFormSubmit} noValidate className="space-y-6 max-w-xs mx-auto">
+                {/* 허니팟: 사람에게는 보이지 않고 봇만 채운다 */}
+                <div aria-hidden="true" className="absolute -left-[9999px] w-px h-px overflow-hidden">
+                  <input type="text" name={HONEYPOT_FIELD} tabIndex={-1} autoComplete="off" defaultValue="" />
+                </div>
+                <div>
+                  <input 
+                    type="text" 
+                    name="name" 
+                    required 
+                    placeholder={t('contact.name')} 
+                    disabled={formStatus === 'SUBMITTING'}
+                    {...fieldA11y('name')}
+                    className={`w-full bg-transparent border ${fieldBorder('name')} focus:border-black p-2.5 text-[9px] outline-none uppercase placeholder:opacity-20 transition-all font-mono tracking-widest disabled:opacity-30`}
+                  />
+                  {fieldError('name')}
+                </div>
+                <div>
+                  <input 
+                    type="email" 
+                    name="email" 
+                    required 
+                    placeholder={t('contact.replyTo')} 
+                    disabled={formStatus === 'SUBMITTING'}
+                    {...fieldA11y('email')}
+                    className={`w-full bg-transparent border ${fieldBorder('email')} focus:border-black p-2.5 text-[9px] outline-none uppercase placeholder:opacity-20 transition-all font-mono tracking-widest disabled:opacity-30`}
+                  />
+                  {fieldError('email')}
+                </div>
                 <select 
                   name="subject" 
+                  aria-label={t('contact.subject')}
                   disabled={formStatus === 'SUBMITTING'}
                   className="w-full bg-white border border-black/10 focus:border-black p-2.5 text-[9px] outline-none uppercase cursor-pointer font-mono font-bold tracking-widest disabled:opacity-30"
                 >
-                  <option value="content">TYPE: CONTENT</option>
-                  <option value="branding">TYPE: BRANDING</option>
-                  <option value="space">TYPE: SPACE</option>
-                  <option value="film">TYPE: FILM</option>
+                  {categories.map(({ id }) => (
+                    <option key={id} value={id.toLowerCase()}>{t('contact.type')} {categoryName(id)}</option>
+                  ))}
                 </select>
-                <textarea 
-                  name="message" 
-                  rows={4} 
-                  required 
-                  placeholder="DESC_PARAMS..." 
-                  disabled={formStatus === 'SUBMITTING'}
-                  className="w-full bg-transparent border border-black/10 focus:border-black p-2.5 text-[9px] outline-none uppercase placeholder:opacity-20 transition-all resize-none font-mono tracking-widest leading-relaxed disabled:opacity-30"
-                />
+                {isFieldEnabled(contactSettings, 'budget') && (
+                  <select 
+                    name="budget" 
+                    aria-label={t('contact.budget')}
+                    disabled={formStatus === 'SUBMITTING'}
+                    className="w-full bg-white border border-black/10 focus:border-black p-2.5 text-[9px] outline-none uppercase cursor-pointer font-mono font-bold tracking-widest disabled:opacity-30"
+                  >
+                    <option value="">{t('contact.budget')} {t('contact.unspecified')}</option>
+                    {BUDGET_OPTIONS.map(option => (
+                      <option key={option} value={option}>{t('contact.budget')} {option}</option>
+                    ))}
+                  </select>
+                )}
+                {isFieldEnabled(contactSettings, 'timeline') && (
+                  <select 
+                    name="timeline" 
+                    aria-label={t('contact.timeline')}
+                    disabled={formStatus === 'SUBMITTING'}
+                    className="w-full bg-white border border-black/10 focus:border-black p-2.5 text-[9px] outline-none uppercase cursor-pointer font-mono font-bold tracking-widest disabled:opacity-30"
+                  >
+                    <option value="">{t('contact.timeline')} {t('contact.unspecified')}</option>
+                    {TIMELINE_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{t('contact.timeline')} {t(option.label)}</option>
+                    ))}
+                  </select>
+                )}
+                <div>
+                  <textarea 
+                    name="message" 
+                    rows={4} 
+                    required 
+                    placeholder={t('contact.message')} 
+                    disabled={formStatus === 'SUBMITTING'}
+                    {...fieldA11y('message')}
+                    className={`w-full bg-transparent border ${fieldBorder('message')} focus:border-black p-2.5 text-[9px] outline-none uppercase placeholder:opacity-20 transition-all resize-none font-mono tracking-widest leading-relaxed disabled:opacity-30`}
+                  />
+                  {fieldError('message')}
+                </div>
+                {isFieldEnabled(contactSettings, 'attachments') && (
+                  <div>
+                    <label className="block text-[8px] font-bold tracking-widest opacity-40 mb-2 font-mono">{t('contact.attachments')}</label>
+                    <input 
+                      type="file" 
+                      name="attachments" 
+                      multiple 
+                      accept={ATTACHMENT_LIMITS.accept}
+                      disabled={formStatus === 'SUBMITTING'}
+                      {...fieldA11y('attachments')}
+                      className="w-full text-[8px] font-mono normal-case file:mr-3 file:px-3 file:py-1.5 file:border file:border-black file:bg-white file:text-[8px] file:font-black file:uppercase disabled:opacity-30"
+                    />
+                    {fieldError('attachments')}
+                  </div>
+                )}
                 <button 
                   type="submit" 
                   disabled={formStatus === 'SUBMITTING'}
                   className="w-full py-3.5 bg-black text-white font-black uppercase tracking-[0.3em] text-[9px] hover:invert border border-black transition-all font-mono disabled:opacity-50"
                 >
-                  {formStatus === 'SUBMITTING' ? '[ TRANSMITTING... ]' : '[ TRANSMIT_LOG ]'}
+                  {formStatus === 'SUBMITTING' ? t('contact.submitting') : t('contact.submit')}
                 </button>
                 {formStatus === 'ERROR' && (
-                  <p className="text-red-500 text-[8px] text-center font-bold tracking-widest">ERROR: TRANSMISSION_FAILED</p>
+                  <p role="alert" className="text-red-500 text-[8px] text-center font-bold tracking-widest">
+                    {retryAfter > 0 ? `${t('contact.rateLimited')} ${retryAfter}` : t('contact.error')}
+                  </p>
+                )}
+                {outbox.pending > 0 && (
+                  <p className="text-[8px] text-center font-bold tracking-widest opacity-40">{t('contact.pending')} {outbox.pending}</p>
                 )}
               </form>
             </>
@@ -357,25 +668,52 @@ const PublicView: React.FC<PublicViewProps> = ({ state }) => {
   );
 
   return (
-    <div className="max-w-[1280px] mx-auto min-h-screen border-x border-black/10 flex flex-col selection:bg-black selection:text-white bg-white text-black">
+    <div className="max-w-[1280px] mx-auto min-h-screen border-x border-black/10 flex flex-col selection:bg-accent selection:text-white bg-white text-black">
       <header className="border-b border-black sticky top-0 bg-white/95 backdrop-blur-sm z-40">
         <div className="grid grid-cols-1 md:grid-cols-3">
           <div className="p-4 border-b md:border-b-0 md:border-r border-black flex flex-col justify-between">
             <div className="text-[8px] text-black/40 uppercase tracking-tighter font-mono font-bold underline decoration-black/5 uppercase">SYS_REF: ODM_LOG_01</div>
-            <div className="text-[8px] mt-2 font-mono font-black tracking-widest uppercase">EST. 2004 / SEOUL_KR</div>
+            <div className="text-[8px] mt-2 font-mono font-black tracking-widest uppercase">EST. {site.foundedYear} / {site.location.regionCode}</div>
           </div>
           <div className="p-4 flex flex-col items-center justify-center border-b md:border-b-0 md:border-r border-black">
             <button onClick={() => setCurrentView('HOME')} className="group text-center">
               <h1 className="text-base font-black tracking-tighter italic mb-0.5 group-hover:scale-105 transition-transform font-mono uppercase leading-none text-black">{state.siteTitle || 'ODEMIND'}</h1>
-              <p className="text-[7px] tracking-[0.4em] opacity-30 uppercase font-mono font-bold group-hover:opacity-100 transition-opacity text-black">{state.tagline?.substring(0, 40)}...</p>
+              <p className="text-[7px] tracking-[0.4em] opacity-30 uppercase font-mono font-bold group-hover:opacity-100 transition-opacity text-black">{tagline.substring(0, 40)}...</p>
             </button>
           </div>
-          <div className="p-4 flex flex-col justify-between items-end">
-            <Barcode className="h-5 hidden md:flex opacity-30" />
+          <div className="p-4 flex flex-col justify-between items-end gap-3">
+            <div className="flex items-center gap-4">
+              <div role="group" aria-label={t('nav.language')} className="flex gap-2 text-[8px] font-mono font-black">
+                {LOCALES.map(l => (
+                  <button
+                    key={l.code}
+                    lang={l.code}
+                    title={l.name}
+                    aria-pressed={locale === l.code}
+                    onClick={() => setLocale(l.code)}
+                    className={locale === l.code ? 'underline decoration-2 underline-offset-4' : 'opacity-30 hover:opacity-100'}
+                  >
+                    {l.label}
+                  </button>
+                ))}
+              </div>
+              {onThemeChange && (
+                <button
+                  onClick={() => onThemeChange(theme === 'terminal' ? 'default' : 'terminal')}
+                  aria-pressed={theme === 'terminal'}
+                  aria-label={`${t('nav.theme')}: ${THEMES[theme === 'terminal' ? 'default' : 'terminal'].label}`}
+                  title={t('nav.theme')}
+                  className="text-[8px] font-mono font-black opacity-30 hover:opacity-100 transition-opacity"
+                >
+                  [{theme === 'terminal' ? '◑' : '◐'} {THEMES[theme].label}]
+                </button>
+              )}
+              <Barcode className="h-5 hidden md:flex opacity-30" />
+            </div>
             <nav className="flex gap-4 text-[9px] uppercase font-black font-mono tracking-widest">
-              <button onClick={() => setCurrentView('CONTENT')} className={`${currentView === 'CONTENT' ? 'line-through opacity-100' : 'opacity-30 hover:opacity-100'}`}>[ CONTENT ]</button>
-              <button onClick={() => setCurrentView('SERVICES')} className={`${currentView === 'SERVICES' ? 'line-through opacity-100' : 'opacity-30 hover:opacity-100'}`}>[ SERVICES ]</button>
-              <button onClick={() => setCurrentView('CONTACT')} className={`${currentView === 'CONTACT' ? 'line-through opacity-100' : 'opacity-30 hover:opacity-100'}`}>[ CONTACT ]</button>
+              <button onClick={() => setCurrentView('CONTENT')} className={`${currentView === 'CONTENT' ? 'line-through decoration-accent decoration-2 opacity-100' : 'opacity-30 hover:opacity-100'}`}>{t('nav.content')}</button>
+              <button onClick={() => setCurrentView('SERVICES')} className={`${currentView === 'SERVICES' ? 'line-through decoration-accent decoration-2 opacity-100' : 'opacity-30 hover:opacity-100'}`}>{t('nav.services')}</button>
+              <button onClick={() => setCurrentView('CONTACT')} className={`${currentView === 'CONTACT' ? 'line-through decoration-accent decoration-2 opacity-100' : 'opacity-30 hover:opacity-100'}`}>{t('nav.contact')}</button>
             </nav>
           </div>
         </div>
@@ -388,7 +726,7 @@ const PublicView: React.FC<PublicViewProps> = ({ state }) => {
         </div>
         <div className="p-2.5 border-b md:border-b-0 md:border-r border-black/10">
           <div className="opacity-40 mb-0.5 underline uppercase">COORDS:</div>
-          <div className="text-[8px]">39.916°N 116.273°E</div>
+          <div className="text-[8px]">{site.location.coordinates}</div>
         </div>
         <div className="p-2.5 border-b md:border-b-0 md:border-r border-black/10">
           <div className="opacity-40 mb-0.5 underline uppercase">TIMESTAMP:</div>
@@ -405,7 +743,31 @@ const PublicView: React.FC<PublicViewProps> = ({ state }) => {
 
       <main className="flex-grow font-mono bg-white">
         {currentView === 'HOME' && renderHome()}
-        {currentView === 'CONTENT' && renderContent()}
+        {route.name === 'CONTENT' && renderContent()}
+        {route.name === 'PROJECT' && (
+          <ProjectDetail
+            projectId={route.projectId}
+            projects={state.projects}
+            categories={categories}
+            clients={state.clients}
+            locale={locale}
+            onSelect={(id) => navigate({ name: 'PROJECT', projectId: id })}
+            onOpenClient={openClient}
+            onBack={() => setCurrentView('CONTENT')}
+          />
+        )}
+        {route.name === 'CLIENT' && (
+          <ClientDetail
+            clientId={route.clientId}
+            clients={state.clients}
+            projects={state.projects}
+            archiveItems={state.archiveItems}
+            categories={categories}
+            locale={locale}
+            onOpenProject={openProject}
+            onBack={() => setCurrentView('CONTENT')}
+          />
+        )}
         {currentView === 'SERVICES' && renderServices()}
         {currentView === 'CONTACT' && renderContact()}
       </main>
@@ -414,23 +776,23 @@ const PublicView: React.FC<PublicViewProps> = ({ state }) => {
         <div className="grid grid-cols-1 md:grid-cols-2">
           <div className="p-8 border-b md:border-b-0 md:border-r border-black flex flex-col justify-between min-h-[300px]">
             <div>
-              <h3 className="text-[8px] mb-6 opacity-30 underline font-bold tracking-[0.3em] uppercase">DIRECT_INQUIRY</h3>
-              <a href="mailto:info@odemind.co.kr" className="text-xs font-black uppercase tracking-tighter leading-none italic hover:bg-black hover:text-white p-1 -ml-1 transition-all inline-block underline decoration-dotted font-mono">INFO@ODEMIND.CO.KR</a>
-              <p className="text-[9px] mt-8 opacity-60 uppercase leading-relaxed max-w-sm font-medium tracking-tight font-mono">{state.tagline}</p>
+              <h3 className="text-[8px] mb-6 opacity-30 underline font-bold tracking-[0.3em] uppercase">{t('footer.inquiry')}</h3>
+              {site.email && <a href={`mailto:${site.email}`} className="text-xs font-black uppercase tracking-tighter leading-none italic hover:bg-black hover:text-white p-1 -ml-1 transition-all inline-block underline decoration-dotted font-mono">{site.email}</a>}
+              <p className="text-[9px] mt-8 opacity-60 uppercase leading-relaxed max-w-sm font-medium tracking-tight font-mono">{tagline}</p>
             </div>
             <div className="mt-10 flex items-center gap-6">
                <Barcode className="h-4 opacity-30" />
-               <div className="text-[7px] opacity-30 uppercase tracking-[0.2em] font-bold border-l border-black/10 pl-4 font-mono uppercase">NODE: SEOUL_HQ<br/>GMT+9</div>
+               <div className="text-[7px] opacity-30 uppercase tracking-[0.2em] font-bold border-l border-black/10 pl-4 font-mono uppercase">NODE: {site.location.station}<br/>{site.location.timezone}</div>
             </div>
           </div>
           <div className="p-8 flex flex-col justify-between">
             <div className="flex justify-between items-start">
               <div className="space-y-6">
-                <h3 className="text-[8px] opacity-30 underline font-bold uppercase tracking-[0.3em]">SOCIAL_NODES</h3>
+                <h3 className="text-[8px] opacity-30 underline font-bold uppercase tracking-[0.3em]">{t('footer.social')}</h3>
                 <div className="flex flex-col gap-2.5 font-black text-[9px] font-mono">
-                   <a href={instagramUrl} target="_blank" rel="noopener noreferrer" className="hover:bg-black hover:text-white transition-all px-1 -ml-1 uppercase tracking-widest w-fit italic">INSTAGRAM_OFFICIAL</a>
-                   <a href="#" className="hover:bg-black hover:text-white transition-all px-1 -ml-1 uppercase tracking-widest w-fit italic">VIMEO_TRANS</a>
-                   <a href="#" className="hover:bg-black hover:text-white transition-all px-1 -ml-1 uppercase tracking-widest w-fit italic">PINTEREST_ARC</a>
+                   {socialLinks.map(link => (
+                     <a key={link.id} href={link.url} target="_blank" rel="noopener noreferrer" className="hover:bg-black hover:text-white transition-all px-1 -ml-1 uppercase tracking-widest w-fit italic">{link.label}</a>
+                   ))}
                 </div>
               </div>
               <div className="text-right hidden sm:block">
@@ -438,7 +800,7 @@ const PublicView: React.FC<PublicViewProps> = ({ state }) => {
               </div>
             </div>
             <div className="mt-16 pt-4 border-t border-black/5 flex justify-between text-[7px] opacity-30 uppercase tracking-[0.3em] font-bold font-mono">
-              <span>(C) 2004-2025 {state.siteTitle || 'ODEMIND'} ARCHIVE</span>
+              <span>{copyrightLine(site)}</span>
               <div className="flex gap-4"><span>V.2.4.0_PROD</span><span>ENC: AES</span></div>
             </div>
           </div>
@@ -0,0 +1,156 @@
+import React, { useMemo, useState } from 'react';
+import { AppState } from '../types.ts';
+import { ValidationIssue } from '../services/schema.ts';
+import { diffStates, selectionForMode, applyMerge, MergeMode, ChangeKind, RecordChange } from '../services/backupMerge.ts';
+
+interface RestorePanelProps {
+  current: AppState;
+  incoming: AppState;
+  fileName: string;
+  fromVersion: number;
+  issues: ValidationIssue[];
+  onApply: (next: AppState) => Promise<void>;
+  onCancel: () => void;
+}
+
+const KIND_MARK: Record<ChangeKind, string> = { ADDED: '+', CHANGED: '~', REMOVED: '-' };
+
+const GROUP_LABELS: Record<RecordChange['collection'], string> = {
+  projects: 'PROJECTS',
+  archiveItems: 'ARCHIVE_LOGS',
+  services: 'SERVICES',
+  clients: 'CLIENTS',
+  settings: 'SETTINGS'
+};
+
+const RestorePanel: React.FC<RestorePanelProps> = ({ current, incoming, fileName, fromVersion, issues, onApply, onCancel }) => {
+  const diff = useMemo(() => diffStates(current, incoming), [current, incoming]);
+  const [mode, setMode] = useState<MergeMode>('KEEP_NEWER');
+  const [manual, setManual] = useState<Set<string>>(() => selectionForMode(diff, 'KEEP_NEWER'));
+  const [isApplying, setIsApplying] = useState(false);
+
+  const selected = mode === 'SELECT' ? manual : selectionForMode(diff, mode);
+
+  const switchMode = (next: MergeMode) => {
+    // 개별 선택으로 전환할 때는 직전 모드의 선택을 출발점으로 삼는다.
+    if (next === 'SELECT' && mode !== 'SELECT') setManual(selectionForMode(diff, mode));
+    setMode(next);
+  };
+
+  const toggle = (key: string) => {
+    setManual(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    // 에셋 이관 등이 실패해도 패널을 다시 쓸 수 있게 상태를 되돌린다. 선택한 변경은 그대로 남는다.
+    try {
+      await onApply(applyMerge(current, incoming, diff, selected));
+    } catch (err) {
+      console.warn("SYSTEM: RESTORE_APPLY_FAILED", err);
+      alert(`ERROR: RESTORE_FAILED (${err instanceof Error ? err.message : 'UNKNOWN_ERROR'})`);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const count = (kind: ChangeKind) => diff.changes.filter(c => c.kind === kind).length;
+  const groups = (Object.keys(GROUP_LABELS) as RecordChange['collection'][])
+    .map(collection => ({ collection, changes: diff.changes.filter(c => c.collection === collection) }))
+    .filter(g => g.changes.length > 0);
+
+  return (
+    <div className="border-4 border-black p-6 space-y-6 text-black">
+      <div className="flex justify-between items-start gap-4">
+        <div>
+          <h3 className="text-[11px] font-black uppercase underline">RESTORE_PREVIEW</h3>
+          <div className="text-[9px] font-bold uppercase opacity-40 mt-1 break-all">{fileName} / SCHEMA v{fromVersion}</div>
+        </div>
+        <div className="text-[10px] font-black uppercase text-right tracking-widest">
+          <span className="text-green-600">+{count('ADDED')}</span>{' '}
+          <span>~{count('CHANGED')}</span>{' '}
+          <span className="text-red-500">-{count('REMOVED')}</span>
+          <div className="text-[8px] opacity-40">{diff.unchanged} UNCHANGED</div>
+        </div>
+      </div>
+
+      {issues.length > 0 && (
+        <div className="border border-red-500 p-3 text-[9px] font-bold uppercase text-red-500">
+          {issues.length} MALFORMED FIELD(S) IN BACKUP — AFFECTED RECORDS ARE EXCLUDED FROM THIS PREVIEW
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-2 text-[9px] font-black uppercase">
+        {([['REPLACE', 'REPLACE_ALL'], ['KEEP_NEWER', 'MERGE (KEEP NEWER)'], ['SELECT', 'SELECT_RECORDS']] as [MergeMode, string][]).map(([value, label]) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => switchMode(value)}
+            className={`py-3 border-2 border-black transition-all ${mode === value ? 'bg-black text-white' : 'hover:bg-black/5'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {diff.changes.length === 0 ? (
+        <div className="text-[10px] font-bold uppercase opacity-40 text-center py-6">NO_DIFFERENCES — BACKUP MATCHES CURRENT DATABASE</div>
+      ) : (
+        <div className="space-y-4 max-h-[50vh] overflow-y-auto custom-scrollbar pr-2">
+          {groups.map(group => (
+            <div key={group.collection}>
+              <div className="text-[9px] font-black uppercase opacity-40 mb-2 underline">{GROUP_LABELS[group.collection]}</div>
+              <ul className="divide-y divide-black/10 border-y border-black/10">
+                {group.changes.map(change => (
+                  <li key={change.key}>
+                    <label className={`flex items-start gap-3 py-2 text-[10px] ${mode === 'SELECT' ? 'cursor-pointer' : ''}`}>
+                      <input
+                        type="checkbox"
+                        checked={selected.has(change.key)}
+                        disabled={mode !== 'SELECT'}
+                        onChange={() => toggle(change.key)}
+                        className="mt-0.5 accent-black"
+                      />
+                      <span className={`font-black w-3 ${change.kind === 'ADDED' ? 'text-green-600' : change.kind === 'REMOVED' ? 'text-red-500' : ''}`}>{KIND_MARK[change.kind]}</span>
+                      <span className="flex-grow">
+                        <span className="font-black uppercase">{change.label}</span>
+                        <span className="opacity-40 ml-2">{change.id}</span>
+                        {change.fields.length > 0 && (
+                          <span className="block text-[8px] opacity-50 uppercase">FIELDS: {change.fields.join(', ')}</span>
+                        )}
+                      </span>
+                      {change.kind === 'CHANGED' && (
+                        <span className="text-[8px] font-bold uppercase opacity-50 shrink-0">{change.incomingIsNewer ? 'BACKUP_NEWER' : 'LOCAL_NEWER'}</span>
+                      )}
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <p className="text-[8px] font-bold uppercase opacity-40">CHECKED ENTRIES TAKE THE BACKUP VERSION. THE CURRENT PASSKEY IS ALWAYS KEPT.</p>
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          disabled={isApplying || selected.size === 0}
+          onClick={handleApply}
+          className="flex-grow py-4 bg-black text-white font-black text-[10px] uppercase hover:invert transition-all disabled:opacity-30"
+        >
+          {isApplying ? '[ APPLYING... ]' : `[ APPLY ${selected.size} CHANGE(S) ]`}
+        </button>
+        <button type="button" onClick={onCancel} className="px-6 py-4 border-2 border-black font-black text-[10px] uppercase">CANCEL</button>
+      </div>
+    </div>
+  );
+};
+
+export default RestorePanel;
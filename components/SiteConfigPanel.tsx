@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+import { SiteConfig, SiteLocation, SocialLink } from '../types.ts';
+import { copyrightLine, createSocialLinkId, mapUrl, siteConfigOf } from '../services/siteConfig.ts';
+
+interface SiteConfigPanelProps {
+  config?: SiteConfig;
+  onSave: (config: SiteConfig) => void;
+}
+
+const LOCATION_FIELDS: { key: keyof SiteLocation; label: string; placeholder: string }[] = [
+  { key: 'address', label: 'ADDRESS', placeholder: 'SEOUL_KOR / SEODAEMUN-GU' },
+  { key: 'mapQuery', label: 'MAP_QUERY (EMPTY = ADDRESS)', placeholder: 'Seodaemun-gu Seoul Korea' },
+  { key: 'coordinates', label: 'COORDINATES', placeholder: '39.916°N 116.273°E' },
+  { key: 'station', label: 'STATION_REF', placeholder: 'SEOUL_HQ' },
+  { key: 'regionCode', label: 'REGION_CODE', placeholder: 'SEOUL_KR' },
+  { key: 'timezone', label: 'TIMEZONE', placeholder: 'GMT+9' }
+];
+
+// CONFIG 탭: 공개 화면의 연락처·소셜 링크·위치·푸터 표기
+const SiteConfigPanel: React.FC<SiteConfigPanelProps> = ({ config, onSave }) => {
+  const [form, setForm] = useState<SiteConfig>(() => siteConfigOf(config));
+
+  // undo/redo나 복원으로 설정이 바뀌면 입력값도 맞춘다.
+  useEffect(() => setForm(siteConfigOf(config)), [config]);
+
+  const setLocation = (key: keyof SiteLocation, value: string) => setForm({ ...form, location: { ...form.location, [key]: value } });
+  const setLink = (id: string, patch: Partial<SocialLink>) =>
+    setForm({ ...form, socialLinks: form.socialLinks.map(link => (link.id === id ? { ...link, ...patch } : link)) });
+  const moveLink = (index: number, offset: number) => {
+    const links = [...form.socialLinks];
+    const [link] = links.splice(index, 1);
+    links.splice(index + offset, 0, link);
+    setForm({ ...form, socialLinks: links });
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const email = form.email.trim();
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      alert("ERROR: INVALID_EMAIL");
+      return;
+    }
+    if (!Number.isInteger(form.foundedYear) || form.foundedYear < 1000 || form.foundedYear > new Date().getFullYear()) {
+      alert("ERROR: INVALID_FOUNDED_YEAR");
+      return;
+    }
+    // 이름과 주소를 모두 비운 행은 버린다.
+    const socialLinks = form.socialLinks
+      .map(link => ({ ...link, label: link.label.trim(), url: link.url.trim() }))
+      .filter(link => link.label || link.url);
+    if (socialLinks.some(link => !link.label || !/^(https?:|mailto:)/.test(link.url))) {
+      alert("ERROR: SOCIAL_LINK_NEEDS_LABEL_AND_URL (HTTP/HTTPS/MAILTO)");
+      return;
+    }
+    onSave({ ...form, email, phone: form.phone.trim(), socialLinks, footerText: form.footerText.trim() });
+    alert("SYNCED_OK");
+  };
+
+  const labelClass = "text-[10px] opacity-40 font-black mb-1 uppercase";
+  const inputClass = "border border-black p-2 text-xs font-bold outline-none normal-case";
+
+  return (
+    <form onSubmit={handleSave} className="pt-10 border-t-2 border-dashed border-black/10 space-y-6">
+      <h3 className="text-[11px] font-black uppercase mb-6 opacity-40 underline">SITE_CONFIG</h3>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="flex flex-col">
+          <label className={labelClass}>PUBLIC_EMAIL</label>
+          <input type="email" value={form.email} onChange={e => setForm({ ...form, email: e.target.value })} placeholder="info@odemind.co.kr" className={inputClass} />
+        </div>
+        <div className="flex flex-col">
+          <label className={labelClass}>PHONE (EMPTY = HIDDEN)</label>
+          <input value={form.phone} onChange={e => setForm({ ...form, phone: e.target.value })} placeholder="+82 2 000 0000" className={inputClass} />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>LOCATION</label>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {LOCATION_FIELDS.map(({ key, label, placeholder }) => (
+            <div key={key} className="flex flex-col">
+              <label className={labelClass}>{label}</label>
+              <input value={form.location[key]} onChange={e => setLocation(key, e.target.value)} placeholder={placeholder} className={inputClass} />
+            </div>
+          ))}
+        </div>
+        <a href={mapUrl(form)} target="_blank" rel="noopener noreferrer" className="inline-block text-[9px] font-black uppercase underline opacity-60">TEST_MAP_LINK</a>
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>SOCIAL_LINKS ({form.socialLinks.length})</label>
+        {form.socialLinks.map((link, idx) => (
+          <div key={link.id} className="flex gap-2">
+            <input value={link.label} onChange={e => setLink(link.id, { label: e.target.value.toUpperCase() })} placeholder="LABEL" className="w-40 border border-black p-2 text-xs font-bold outline-none uppercase" />
+            <input value={link.url} onChange={e => setLink(link.id, { url: e.target.value })} placeholder="https://" className={`flex-grow ${inputClass}`} />
+            <button type="button" disabled={idx === 0} onClick={() => moveLink(idx, -1)} className="px-2 border border-black text-[10px] font-black disabled:opacity-20">↑</button>
+            <button type="button" disabled={idx === form.socialLinks.length - 1} onClick={() => moveLink(idx, 1)} className="px-2 border border-black text-[10px] font-black disabled:opacity-20">↓</button>
+            <button type="button" onClick={() => setForm({ ...form, socialLinks: form.socialLinks.filter(l => l.id !== link.id) })} className="px-3 border border-black text-[9px] font-black uppercase text-red-500">REMOVE</button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setForm({ ...form, socialLinks: [...form.socialLinks, { id: createSocialLinkId(), label: '', url: '' }] })}
+          className="w-full py-2 border border-dashed border-black text-[9px] font-black uppercase hover:bg-black hover:text-white transition-all"
+        >
+          + ADD_LINK
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="flex flex-col">
+          <label className={labelClass}>FOUNDED_YEAR</label>
+          <input type="number" value={form.foundedYear} onChange={e => setForm({ ...form, foundedYear: Number(e.target.value) })} className={inputClass} />
+        </div>
+        <div className="flex flex-col md:col-span-2">
+          <label className={labelClass}>FOOTER_TEXT</label>
+          <input value={form.footerText} onChange={e => setForm({ ...form, footerText: e.target.value })} placeholder="ODEMIND ARCHIVE" className={inputClass} />
+        </div>
+      </div>
+      <div className="text-[9px] font-bold uppercase opacity-40">PREVIEW: {copyrightLine(form)}</div>
+
+      <button type="submit" className="w-full py-4 border-2 border-black font-black text-[10px] uppercase hover:invert transition-all">[ SAVE_SITE_CONFIG ]</button>
+    </form>
+  );
+};
+
+export default SiteConfigPanel;
@@ -0,0 +1,55 @@
+import React, { useId, useState } from 'react';
+import { normalizeTags, parseTags } from '../services/taxonomy.ts';
+
+interface TagInputProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  /** 자동 완성 후보 (다른 레코드에서 쓰인 태그) */
+  suggestions?: string[];
+}
+
+// CMS 폼의 태그 입력. Enter·쉼표로 추가, 빈 입력에서 Backspace로 마지막 태그 삭제
+const TagInput: React.FC<TagInputProps> = ({ tags, onChange, suggestions = [] }) => {
+  const [text, setText] = useState('');
+  const listId = useId();
+
+  const commit = () => {
+    if (!text.trim()) return;
+    onChange(normalizeTags([...tags, ...parseTags(text)]));
+    setText('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      commit();
+    } else if (e.key === 'Backspace' && text === '' && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 border border-black p-1.5 focus-within:bg-gray-50">
+      {tags.map(tag => (
+        <span key={tag.toLowerCase()} className="flex items-center gap-1 px-2 py-0.5 bg-black text-white text-[9px] font-black normal-case">
+          #{tag}
+          <button type="button" onClick={() => onChange(tags.filter(t => t !== tag))} aria-label={`REMOVE ${tag}`} className="opacity-60 hover:opacity-100">×</button>
+        </span>
+      ))}
+      <input
+        value={text}
+        list={listId}
+        onChange={e => setText(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={commit}
+        placeholder={tags.length === 0 ? 'TAG, TAG ...' : ''}
+        className="flex-grow min-w-[8rem] p-1 outline-none bg-transparent font-bold normal-case placeholder:opacity-30"
+      />
+      <datalist id={listId}>
+        {suggestions.filter(s => !tags.some(t => t.toLowerCase() === s.toLowerCase())).map(s => <option key={s} value={s} />)}
+      </datalist>
+    </div>
+  );
+};
+
+export default TagInput;
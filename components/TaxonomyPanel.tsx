@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { ArchiveItem, CategoryTerm, Locale, Project } from '../types.ts';
+import LocaleTabs from './LocaleTabs.tsx';
+import { DEFAULT_LOCALE, setTranslation, hasTranslation } from '../services/i18n.ts';
+import { collectTags, createCategoryId } from '../services/taxonomy.ts';
+
+interface TaxonomyPanelProps {
+  categories: CategoryTerm[];
+  projects: Project[];
+  archiveItems: ArchiveItem[];
+  /** 새 목록과, 합치거나 지운 분야 ID -> 옮겨 갈 분야 ID */
+  onSave: (categories: CategoryTerm[], reassign?: Record<string, string>) => void;
+}
+
+type PendingAction = { id: string; mode: 'MERGE' | 'DELETE'; target: string };
+
+// TAXONOMY 탭: 분야 추가·이름 변경·순서·합치기·삭제, 사용 중인 태그 현황
+const TaxonomyPanel: React.FC<TaxonomyPanelProps> = ({ categories, projects, archiveItems, onSave }) => {
+  const [newLabel, setNewLabel] = useState('');
+  const [editing, setEditing] = useState<CategoryTerm | null>(null);
+  const [editLocale, setEditLocale] = useState<Locale>(DEFAULT_LOCALE);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+
+  const usage = (id: string) => projects.filter(p => p.category === id).length;
+  const tags = collectTags([...projects, ...archiveItems]);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const label = newLabel.trim();
+    if (!label) return;
+    if (categories.some(c => c.label.toLowerCase() === label.toLowerCase())) {
+      alert("ERROR: CATEGORY_EXISTS");
+      return;
+    }
+    onSave([...categories, { id: createCategoryId(label, categories), label }]);
+    setNewLabel('');
+  };
+
+  const move = (idx: number, toIndex: number) => {
+    const next = [...categories];
+    const [moved] = next.splice(idx, 1);
+    next.splice(toIndex, 0, moved);
+    onSave(next);
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing || !editing.label.trim()) return;
+    onSave(categories.map(c => (c.id === editing.id ? { ...editing, label: editing.label.trim() } : c)));
+    setEditing(null);
+  };
+
+  const startAction = (id: string, mode: PendingAction['mode']) => {
+    setEditing(null);
+    setPending({ id, mode, target: categories.find(c => c.id !== id)!.id });
+  };
+
+  // 합치기와 (사용 중인 분야의) 삭제는 모두 레코드를 다른 분야로 옮긴 뒤 목록에서 뺀다.
+  const handleConfirm = () => {
+    if (!pending) return;
+    const source = categories.find(c => c.id === pending.id)!;
+    const target = categories.find(c => c.id === pending.target)!;
+    const count = usage(pending.id);
+    const message = pending.mode === 'MERGE'
+      ? `MERGE ${source.label} INTO ${target.label}? ${count} PROJECT(S) WILL MOVE.`
+      : count > 0 ? `DELETE ${source.label}? ${count} PROJECT(S) WILL MOVE TO ${target.label}.` : `DELETE ${source.label}?`;
+    if (!confirm(message)) return;
+    onSave(categories.filter(c => c.id !== pending.id), count > 0 || pending.mode === 'MERGE' ? { [pending.id]: pending.target } : {});
+    setPending(null);
+  };
+
+  const editingValue = (term: CategoryTerm) =>
+    editLocale === 'en' ? term.label : term.translations?.[editLocale]?.label || '';
+
+  const setEditingValue = (value: string) => {
+    if (!editing) return;
+    setEditing(editLocale === 'en'
+      ? { ...editing, label: value }
+      : { ...editing, translations: setTranslation(editing.translations, editLocale, 'label', value) });
+  };
+
+  return (
+    <div className="space-y-12">
+      <section className="space-y-4">
+        <h3 className="text-[11px] font-black uppercase opacity-40 underline">PROJECT_CATEGORIES</h3>
+        <p className="text-[9px] opacity-40 font-bold uppercase tracking-widest">ORDER HERE DRIVES THE PUBLIC FILTER AND THE CONTACT SUBJECT LIST // IDS NEVER CHANGE ON RENAME</p>
+        <ul className="border-t border-black">
+          {categories.map((term, idx) => (
+            <li key={term.id} className="border-b border-black">
+              <div className="flex flex-col md:flex-row justify-between md:items-center gap-4 px-2 py-3">
+                <div className="flex items-baseline gap-4">
+                  <span className="text-[10px] font-mono opacity-30">{String(idx + 1).padStart(2, '0')}</span>
+                  <span className="text-sm font-black italic uppercase tracking-tighter">{term.label}</span>
+                  <span className="text-[9px] font-bold opacity-40">{term.id} / {usage(term.id)} PROJECT(S)</span>
+                </div>
+                <div className="flex gap-4 items-center text-[10px] font-black uppercase shrink-0">
+                  <button disabled={idx === 0} onClick={() => move(idx, idx - 1)} className="disabled:opacity-20">↑</button>
+                  <button disabled={idx === categories.length - 1} onClick={() => move(idx, idx + 1)} className="disabled:opacity-20">↓</button>
+                  <button onClick={() => { setPending(null); setEditLocale(DEFAULT_LOCALE); setEditing(term); }} className="underline">RENAME</button>
+                  <button disabled={categories.length < 2} onClick={() => startAction(term.id, 'MERGE')} className="underline disabled:opacity-20">MERGE</button>
+                  <button disabled={categories.length < 2} onClick={() => startAction(term.id, 'DELETE')} className="underline text-red-500 disabled:opacity-20">DELETE</button>
+                </div>
+              </div>
+
+              {editing?.id === term.id && (
+                <form onSubmit={handleRename} className="px-2 pb-4 space-y-2">
+                  <LocaleTabs active={editLocale} onChange={setEditLocale} isTranslated={l => hasTranslation(editing.translations, l, ['label'])} />
+                  <div className="flex gap-2">
+                    <input
+                      autoFocus
+                      lang={editLocale}
+                      value={editingValue(editing)}
+                      placeholder={editLocale !== 'en' ? editing.label : undefined}
+                      onChange={e => setEditingValue(e.target.value)}
+                      className="flex-grow border border-black p-2 text-xs font-bold outline-none normal-case placeholder:opacity-30"
+                    />
+                    <button type="submit" className="px-4 bg-black text-white text-[9px] font-black uppercase">SAVE</button>
+                    <button type="button" onClick={() => setEditing(null)} className="px-4 border border-black text-[9px] font-black uppercase">CANCEL</button>
+                  </div>
+                </form>
+              )}
+
+              {pending?.id === term.id && (
+                <div className="px-2 pb-4 flex flex-wrap items-center gap-2 text-[9px] font-black uppercase">
+                  <span>{pending.mode === 'MERGE' ? 'MERGE_INTO:' : usage(term.id) > 0 ? 'MOVE_PROJECTS_TO:' : 'UNUSED // NO PROJECTS TO MOVE'}</span>
+                  {(pending.mode === 'MERGE' || usage(term.id) > 0) && (
+                    <select value={pending.target} onChange={e => setPending({ ...pending, target: e.target.value })} className="border border-black p-2 outline-none bg-white">
+                      {categories.filter(c => c.id !== term.id).map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+                    </select>
+                  )}
+                  <button onClick={handleConfirm} className={`px-3 py-2 text-white ${pending.mode === 'DELETE' ? 'bg-red-500' : 'bg-black'}`}>
+                    {pending.mode === 'MERGE' ? 'CONFIRM_MERGE' : 'CONFIRM_DELETE'}
+                  </button>
+                  <button onClick={() => setPending(null)} className="px-3 py-2 border border-black">CANCEL</button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <input
+            value={newLabel}
+            onChange={e => setNewLabel(e.target.value)}
+            placeholder="NEW_CATEGORY (E.G. EXHIBITION)"
+            className="flex-grow border border-black p-2 text-xs font-bold outline-none"
+          />
+          <button type="submit" disabled={!newLabel.trim()} className="px-6 border-2 border-black text-[10px] font-black uppercase hover:invert transition-all disabled:opacity-30">[ ADD ]</button>
+        </form>
+      </section>
+
+      <section className="space-y-4">
+        <h3 className="text-[11px] font-black uppercase opacity-40 underline">TAG_INDEX (PROJECTS + ARCHIVE)</h3>
+        {tags.length === 0 ? (
+          <div className="text-[10px] font-bold uppercase opacity-40">--- NO_TAGS ---</div>
+        ) : (
+          <div className="flex flex-wrap gap-2 text-[9px] font-black">
+            {tags.map(({ tag, count }) => (
+              <span key={tag.toLowerCase()} className="px-2 py-1 border border-black normal-case">#{tag} <span className="opacity-40">{count}</span></span>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default TaxonomyPanel;
@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { ThemePreference, ThemeSettings } from '../types.ts';
+import { THEMES, THEME_IDS, isHexColor, themeSettingsOf, themeTokens } from '../services/theme.ts';
+
+interface ThemePanelProps {
+  settings?: ThemeSettings;
+  onSave: (settings: ThemeSettings) => void;
+}
+
+const PREFERENCES: { value: ThemePreference; label: string }[] = [
+  { value: 'system', label: 'FOLLOW_SYSTEM' },
+  ...THEME_IDS.map(id => ({ value: id, label: THEMES[id].label }))
+];
+
+// CONFIG 탭: 방문자가 테마를 고르지 않았을 때의 기본 테마와 강조색
+const ThemePanel: React.FC<ThemePanelProps> = ({ settings, onSave }) => {
+  const [form, setForm] = useState<ThemeSettings>(() => themeSettingsOf(settings));
+
+  // undo/redo나 복원으로 설정이 바뀌면 입력값도 맞춘다.
+  useEffect(() => setForm(themeSettingsOf(settings)), [settings]);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const accent = form.accent.trim().toLowerCase();
+    if (accent && !isHexColor(accent)) {
+      alert("ERROR: ACCENT_MUST_BE_#RRGGBB");
+      return;
+    }
+    onSave({ ...form, accent });
+    alert("SYNCED_OK");
+  };
+
+  return (
+    <form onSubmit={handleSave} className="pt-10 border-t-2 border-dashed border-black/10 space-y-4">
+      <h3 className="text-[11px] font-black uppercase mb-6 opacity-40 underline">THEME</h3>
+
+      <div className="space-y-2">
+        <label className="text-[10px] opacity-40 font-black uppercase">DEFAULT_THEME (VISITORS CAN STILL SWITCH)</label>
+        <div className="grid grid-cols-3 gap-2">
+          {PREFERENCES.map(({ value, label }) => (
+            <button
+              key={value}
+              type="button"
+              aria-pressed={form.defaultTheme === value}
+              onClick={() => setForm({ ...form, defaultTheme: value })}
+              className={`py-2 border border-black text-[9px] font-black uppercase transition-all ${form.defaultTheme === value ? 'bg-black text-white' : 'hover:bg-black/5'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-[10px] opacity-40 font-black uppercase">ACCENT_COLOUR (EMPTY = THEME DEFAULT, APPLIES TO ALL THEMES)</label>
+        <div className="flex gap-2">
+          <input
+            type="color"
+            value={isHexColor(form.accent) ? form.accent : THEMES.default.accent}
+            onChange={e => setForm({ ...form, accent: e.target.value })}
+            className="w-12 h-10 border border-black bg-transparent cursor-pointer"
+          />
+          <input
+            value={form.accent}
+            onChange={e => setForm({ ...form, accent: e.target.value })}
+            placeholder="#RRGGBB"
+            className="flex-grow border border-black p-2 text-xs font-bold outline-none normal-case"
+          />
+          <button type="button" disabled={!form.accent} onClick={() => setForm({ ...form, accent: '' })} className="px-3 border border-black text-[9px] font-black uppercase disabled:opacity-20">RESET</button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {THEME_IDS.map(id => {
+          const tokens = themeTokens(id, { ...form, accent: isHexColor(form.accent) ? form.accent : '' });
+          return (
+            <div key={id} style={{ background: tokens.paper, color: tokens.ink, borderColor: tokens.ink }} className="border p-3 text-[9px] font-black uppercase flex justify-between items-center">
+              <span>{tokens.label}</span>
+              <span style={{ background: tokens.accent, color: tokens.paper }} className="px-2 py-0.5">ACCENT</span>
+            </div>
+          );
+        })}
+      </div>
+
+      <button type="submit" className="w-full py-4 border-2 border-black font-black text-[10px] uppercase hover:invert transition-all">[ SAVE_THEME ]</button>
+    </form>
+  );
+};
+
+export default ThemePanel;
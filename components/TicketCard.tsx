@@ -1,31 +1,47 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Project } from '../types';
+import { Locale, Project } from '../types';
+import AssetImage from './AssetImage.tsx';
+import MediaPlayer from './MediaPlayer.tsx';
+import { focalStyle, imageAlt, mediaPoster } from '../services/imageAsset.ts';
+import { DEFAULT_LOCALE, localize, translate } from '../services/i18n.ts';
 
 interface TicketCardProps {
   project: Project;
+  onSelect?: (project: Project) => void;
+  locale?: Locale;
+  /** 분야 표시 이름. 없으면 분야 ID */
+  categoryLabel?: string;
+  /** 고객사 이름 (Project에는 고객사 ID만 있다) */
+  clientName?: string;
 }
 
-const TicketCard: React.FC<TicketCardProps> = ({ project }) => {
+const TicketCard: React.FC<TicketCardProps> = ({ project, onSelect, locale = DEFAULT_LOCALE, categoryLabel, clientName }) => {
+  const title = localize(project, 'title', locale);
   const [imgIndex, setImgIndex] = useState(0);
   const [isHovered, setIsHovered] = useState(false);
-  const hasMultipleImages = project.imageUrls && project.imageUrls.length > 1;
+  const [playingIdx, setPlayingIdx] = useState<number | null>(null);
+  const media = project.media || [];
+  const hasMultipleImages = media.length > 1;
   const timeoutRef = useRef<ReturnType<typeof setInterval> | null>(null);
 
   const nextImg = (e?: React.MouseEvent) => {
     e?.stopPropagation();
-    if (!project.imageUrls) return;
-    setImgIndex((prev) => (prev + 1) % project.imageUrls.length);
+    if (media.length === 0) return;
+    setPlayingIdx(null);
+    setImgIndex((prev) => (prev + 1) % media.length);
   };
 
   const prevImg = (e?: React.MouseEvent) => {
     e?.stopPropagation();
-    if (!project.imageUrls) return;
-    setImgIndex((prev) => (prev - 1 + project.imageUrls.length) % project.imageUrls.length);
+    if (media.length === 0) return;
+    setPlayingIdx(null);
+    setImgIndex((prev) => (prev - 1 + media.length) % media.length);
   };
 
   useEffect(() => {
-    if (isHovered && hasMultipleImages) {
+    // 재생 중에는 자동 넘김을 멈춘다.
+    if (isHovered && hasMultipleImages && playingIdx === null) {
       timeoutRef.current = setInterval(() => {
         nextImg();
       }, 2500);
@@ -35,13 +51,17 @@ const TicketCard: React.FC<TicketCardProps> = ({ project }) => {
     return () => {
       if (timeoutRef.current) clearInterval(timeoutRef.current);
     };
-  }, [isHovered, hasMultipleImages]);
+  }, [isHovered, hasMultipleImages, playingIdx]);
 
   return (
     <div 
-      className="group relative border border-black/10 p-4 hover:border-black transition-all flex flex-col gap-3 overflow-hidden bg-gray-50/50 backdrop-blur-sm shadow-sm"
+      className={`group relative border border-black/10 p-4 hover:border-accent transition-all flex flex-col gap-3 overflow-hidden bg-gray-50/50 backdrop-blur-sm shadow-sm ${onSelect ? 'cursor-pointer focus:outline-none focus-visible:border-black' : ''}`}
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
+      onClick={onSelect ? () => onSelect(project) : undefined}
+      onKeyDown={onSelect ? (e) => { if (e.key === 'Enter' || e.key === ' ') { e.preventDefault(); onSelect(project); } } : undefined}
+      role={onSelect ? 'link' : undefined}
+      tabIndex={onSelect ? 0 : undefined}
     >
       {/* Receipt Punch Holes */}
       <div className="absolute top-1/2 -left-2.5 w-3 h-3 bg-white border border-black/10 rounded-full -translate-y-1/2 z-20"></div>
@@ -50,7 +70,7 @@ const TicketCard: React.FC<TicketCardProps> = ({ project }) => {
       {/* Header Info */}
       <div className="flex justify-between items-start text-[7px] text-black/40 font-mono font-black uppercase tracking-widest">
         <span className="bg-black/5 px-1">UID: {project.id}</span>
-        <span>CAT: [{project.category}]</span>
+        <span>CAT: [{categoryLabel || project.category}]</span>
       </div>
 
       {/* Slider Container */}
@@ -59,16 +79,36 @@ const TicketCard: React.FC<TicketCardProps> = ({ project }) => {
           className="flex h-full transition-transform duration-700 ease-[cubic-bezier(0.23,1,0.32,1)]"
           style={{ transform: `translateX(-${imgIndex * 100}%)` }}
         >
-          {project.imageUrls?.map((url, idx) => (
-            <div key={idx} className="min-w-full h-full">
-              <img 
-                src={url || 'https://via.placeholder.com/600x400?text=ASSET_NULL'} 
-                alt={`${project.title} - ${idx}`}
-                className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity grayscale group-hover:grayscale-0"
-              />
+          {media.map((item, idx) => (
+            <div key={idx} className="min-w-full h-full relative">
+              {playingIdx === idx ? (
+                <div className="w-full h-full" onClick={(e) => e.stopPropagation()} onKeyDown={(e) => e.stopPropagation()}>
+                  <MediaPlayer item={item} label={`${title} — ${item.kind} ${idx + 1} of ${media.length}`} autoPlay fill />
+                </div>
+              ) : (
+                <>
+                  <AssetImage 
+                    assetRef={mediaPoster(item)}
+                    fallbackSrc="https://via.placeholder.com/600x400?text=ASSET_NULL" 
+                    alt={imageAlt(item, `${title} — ${item.kind} ${idx + 1} of ${media.length}`)}
+                    style={focalStyle(item)}
+                    className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity grayscale group-hover:grayscale-0"
+                  />
+                  {item.kind !== 'image' && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); setPlayingIdx(idx); }}
+                      onKeyDown={(e) => e.stopPropagation()}
+                      aria-label={`PLAY ${imageAlt(item, title)}`}
+                      className="absolute inset-0 m-auto w-10 h-10 bg-black text-white border border-black flex items-center justify-center text-[10px] font-black hover:bg-white hover:text-black transition-all z-10"
+                    >
+                      ▶
+                    </button>
+                  )}
+                </>
+              )}
             </div>
           ))}
-          {(!project.imageUrls || project.imageUrls.length === 0) && (
+          {media.length === 0 && (
             <div className="min-w-full h-full flex items-center justify-center bg-black/5 text-[8px] opacity-10">
               NO_VISUAL_ASSETS
             </div>
@@ -94,7 +134,7 @@ const TicketCard: React.FC<TicketCardProps> = ({ project }) => {
             </div>
             
             <div className="absolute bottom-2 left-1/2 -translate-x-1/2 flex gap-1 z-10">
-              {project.imageUrls.map((_, idx) => (
+              {media.map((_, idx) => (
                 <div 
                   key={idx} 
                   className={`h-[1px] transition-all duration-300 ${idx === imgIndex ? 'w-4 bg-black' : 'w-2 bg-black/10'}`}
@@ -103,7 +143,7 @@ const TicketCard: React.FC<TicketCardProps> = ({ project }) => {
             </div>
 
             <div className="absolute top-2 right-2 bg-black text-white border border-black px-1 py-0.5 text-[6px] font-black font-mono shadow-md uppercase z-10">
-              IMG_REF: {imgIndex + 1}/{project.imageUrls.length}
+              {media[imgIndex]?.kind === 'image' ? 'IMG' : 'VID'}_REF: {imgIndex + 1}/{media.length}
             </div>
           </>
         )}
@@ -112,7 +152,7 @@ const TicketCard: React.FC<TicketCardProps> = ({ project }) => {
       {/* Project Details */}
       <div className="flex flex-col gap-0.5">
         <h3 className="text-[9px] font-black italic uppercase tracking-tighter leading-none transition-all font-mono underline decoration-black/10 group-hover:bg-black group-hover:text-white w-fit p-1 -ml-1">
-          {project.title}
+          {title}
         </h3>
         <span className="text-[7px] text-black/40 font-mono tracking-widest font-bold uppercase">
           {project.date?.replace(/-/g, '.') || '0000.00.00'}
@@ -121,12 +161,12 @@ const TicketCard: React.FC<TicketCardProps> = ({ project }) => {
 
       <div className="mt-auto border-t border-dashed border-black/10 pt-3 flex flex-col gap-2">
         <p className="text-[8px] leading-relaxed line-clamp-2 uppercase opacity-60 font-mono tracking-tight font-medium">
-          {project.description}
+          {localize(project, 'description', locale)}
         </p>
         <div className="flex justify-between items-end text-[7px] font-mono font-bold uppercase">
           <div className="flex flex-col">
-            <span className="opacity-15">CLIENT_ID:</span>
-            <span className="text-black/60 tracking-widest">{project.client}</span>
+            <span className="opacity-15">{translate(locale, 'card.client')}</span>
+            <span className="text-black/60 tracking-widest">{clientName || '—'}</span>
           </div>
           <span className={`px-1 py-0.5 ${project.status === 'IN_PROGRESS' ? 'bg-yellow-500 text-black animate-pulse' : 'bg-black/10 text-black/40'}`}>
             [{project.status}]
@@ -1,35 +1,69 @@
 
-import { Category, Project, Service, ArchiveItem } from './types.ts';
+import { CategoryTerm, Client, Project, Service, ArchiveItem, AppState } from './types.ts';
+import { SCHEMA_VERSION } from './services/schema.ts';
+import { createImageAsset, createMediaItem } from './services/imageAsset.ts';
+
+export const INITIAL_CATEGORIES: CategoryTerm[] = [
+  { id: 'CONTENT', label: 'CONTENT' },
+  { id: 'BRANDING', label: 'BRANDING' },
+  { id: 'SPACE', label: 'SPACE' },
+  { id: 'FILM', label: 'FILM' },
+  { id: 'PERFORMING_ARTS', label: 'PERFORMING ARTS' }
+];
+
+export const INITIAL_CLIENTS: Client[] = [
+  { id: 'CL-NEO-SEOUL-CO', name: 'NEO-SEOUL CO.', sector: 'Technology', region: 'Seoul, KR', website: '' },
+  { id: 'CL-VOID-ATELIER', name: 'VOID ATELIER', sector: 'Retail', region: 'Seoul, KR', website: '' },
+  { id: 'CL-LE-LABO', name: 'Le Labo', sector: 'Beauty', region: 'New York, US', website: 'https://www.lelabofragrances.com' },
+  { id: 'CL-HUCKBERRY', name: 'Huckberry', sector: 'Apparel', region: 'San Francisco, US', website: 'https://huckberry.com' }
+];
 
 export const INITIAL_PROJECTS: Project[] = [
   {
     id: 'ODM-PRJ-2004-001',
     title: 'CYBER-PUNK BRANDING',
-    category: Category.BRANDING,
+    category: 'BRANDING',
+    tags: ['Identity', 'Tech'],
     date: '2004-03-12',
     description: 'Visual identity system for a futuristic tech startup based in Seoul.',
-    imageUrls: ['https://picsum.photos/seed/odemind1/800/600'],
-    client: 'NEO-SEOUL CO.',
+    media: [createMediaItem('image', 'https://picsum.photos/seed/odemind1/800/600', { alt: 'Cyber-punk brand identity sample' })],
+    clientId: 'CL-NEO-SEOUL-CO',
     status: 'COMPLETED'
   },
   {
     id: 'ODM-PRJ-2004-002',
     title: 'URBAN SPACE DESIGN',
-    category: Category.SPACE,
+    category: 'SPACE',
+    tags: ['Interior', 'Retail'],
     date: '2004-02-15',
     description: 'Minimalist industrial interior design for a flagship concept store.',
-    imageUrls: ['https://picsum.photos/seed/odemind2/800/600'],
-    client: 'VOID ATELIER',
+    media: [createMediaItem('image', 'https://picsum.photos/seed/odemind2/800/600', { alt: 'Urban concept store interior' })],
+    clientId: 'CL-VOID-ATELIER',
     status: 'COMPLETED'
   }
 ];
 
 export const INITIAL_ARCHIVE: ArchiveItem[] = [
-  { id: '1', year: '2015 - Present', company: 'Le Labo', category: 'Retail, Beauty', project: 'Ecommerce & Photography', imageUrl: 'https://picsum.photos/seed/lelabo/400/600' },
-  { id: '2', year: '2019 - Present', company: 'Huckberry', category: 'Retail, Apparel', project: 'Headless Ecommerce Launch', imageUrl: 'https://picsum.photos/seed/huckberry/400/600' }
+  { id: '1', period: { start: '2015', ongoing: true }, clientId: 'CL-LE-LABO', tags: ['Retail', 'Beauty'], project: 'Ecommerce & Photography', image: createImageAsset('https://picsum.photos/seed/lelabo/400/600', { alt: 'Le Labo product photography' }) },
+  { id: '2', period: { start: '2019', ongoing: true }, clientId: 'CL-HUCKBERRY', tags: ['Retail', 'Apparel'], project: 'Headless Ecommerce Launch', image: createImageAsset('https://picsum.photos/seed/huckberry/400/600', { alt: 'Huckberry storefront' }) }
 ];
 
 export const INITIAL_SERVICES: Service[] = [
   { id: 'S-01', number: '01', title: 'CONTENT ARCHITECTURE', description: 'Optimizing brand positioning through strategic planning that evolves with the times.' },
   { id: 'S-02', number: '02', title: 'BRANDING SYSTEMS', description: 'Mastering brand positioning through strategic planning and evolved visual identity' }
 ];
+
+export const INITIAL_STATE: AppState = {
+  schemaVersion: SCHEMA_VERSION,
+  projects: INITIAL_PROJECTS,
+  archiveItems: INITIAL_ARCHIVE,
+  services: INITIAL_SERVICES,
+  clients: INITIAL_CLIENTS,
+  clientReview: [],
+  categories: INITIAL_CATEGORIES,
+  trash: [],
+  inbox: [],
+  auditLog: [],
+  siteTitle: 'ODEMIND',
+  tagline: 'ODEMIND OPERATES AS AN ASIAN CONTENT AND DISTRIBUTION HUB, COLLABORATING WITH STRATEGIC PARTNERS ACROSS CHINA, TAIWAN, HONG KONG, AND INDONESIA.'
+};
@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+import { isAssetRef, resolveAssetUrl } from '../services/assetStore.ts';
+
+// 에셋 ID는 렌더 시점에 IndexedDB에서 비동기로 풀어낸다. 외부 URL은 즉시 반환.
+export const useAssetUrl = (ref?: string): string => {
+  const [url, setUrl] = useState(() => (ref && !isAssetRef(ref) ? ref : ''));
+
+  useEffect(() => {
+    if (!ref) {
+      setUrl('');
+      return;
+    }
+    if (!isAssetRef(ref)) {
+      setUrl(ref);
+      return;
+    }
+    let cancelled = false;
+    resolveAssetUrl(ref).then(resolved => {
+      if (!cancelled) setUrl(resolved);
+    });
+    return () => { cancelled = true; };
+  }, [ref]);
+
+  return url;
+};
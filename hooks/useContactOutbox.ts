@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ContactSettings } from '../types.ts';
+import { contactSettingsOf, flushOutbox, readOutbox } from '../services/contact.ts';
+
+const RETRY_POLL_MS = 15 * 1000;
+
+// 전송에 실패해 대기 중인 문의를 주기적으로, 그리고 네트워크가 돌아오면 즉시 다시 보낸다.
+export const useContactOutbox = (settings?: ContactSettings) => {
+  const [pending, setPending] = useState(() => readOutbox().length);
+
+  const flush = useCallback(async (force = false) => {
+    setPending(await flushOutbox(contactSettingsOf(settings), force));
+  }, [settings]);
+
+  useEffect(() => {
+    flush();
+    const timer = setInterval(() => flush(), RETRY_POLL_MS);
+    const handleOnline = () => flush(true);
+    window.addEventListener('online', handleOnline);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [flush]);
+
+  // 새 항목이 대기열에 들어간 직후 개수를 맞춘다.
+  const refresh = useCallback(() => setPending(readOutbox().length), []);
+
+  return { pending, flush, refresh };
+};
@@ -0,0 +1,58 @@
+import { useEffect, useRef, useState, Dispatch, SetStateAction } from 'react';
+import { loadDraft, saveDraft, clearDraft } from '../services/drafts.ts';
+
+const AUTOSAVE_DELAY_MS = 400;
+
+export interface DraftControls {
+  isDirty: boolean;
+  /** 폼을 열 때 이전 초안을 불러온 경우 그 저장 시각 */
+  restoredAt: string | null;
+  /** 초안을 지우고 원래 값으로 되돌림 */
+  discard: () => void;
+  /** 저장 완료 후 초안 제거 */
+  commit: () => void;
+}
+
+// 폼 상태 + 초안 자동 저장. 원래 값과 같아지면 초안을 지운다.
+export const useDraft = <T>(key: string, initial: T): [T, Dispatch<SetStateAction<T>>, DraftControls] => {
+  const initialRef = useRef(initial);
+  const [restoredAt, setRestoredAt] = useState<string | null>(() => loadDraft<T>(key)?.savedAt ?? null);
+  const [data, setData] = useState<T>(() => loadDraft<T>(key)?.data ?? initial);
+  const committed = useRef(false);
+  // discard() 직후 같은 핸들러에서 폼이 닫히면 초기화가 렌더되기 전에 언마운트된다.
+  const discarded = useRef(false);
+
+  const isDirty = JSON.stringify(data) !== JSON.stringify(initialRef.current);
+  const latest = useRef({ data, isDirty });
+  latest.current = { data, isDirty };
+
+  // 디바운스 대기 중에 폼이 닫혀도 마지막 입력을 남긴다.
+  useEffect(() => () => {
+    if (!committed.current && !discarded.current && latest.current.isDirty) saveDraft(key, latest.current.data);
+  }, [key]);
+
+  useEffect(() => {
+    if (committed.current) return;
+    // 되돌린 뒤 다시 고치기 시작하면 다시 초안으로 남긴다.
+    if (isDirty) discarded.current = false;
+    const timer = setTimeout(() => {
+      if (isDirty) saveDraft(key, data);
+      else clearDraft(key);
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [key, data, isDirty]);
+
+  const discard = () => {
+    discarded.current = true;
+    clearDraft(key);
+    setRestoredAt(null);
+    setData(initialRef.current);
+  };
+
+  const commit = () => {
+    committed.current = true;
+    clearDraft(key);
+  };
+
+  return [data, setData, { isDirty, restoredAt, discard, commit }];
+};
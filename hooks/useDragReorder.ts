@@ -0,0 +1,48 @@
+import { useState, DragEvent } from 'react';
+
+export interface DragItemProps {
+  draggable: boolean;
+  onDragStart: (e: DragEvent) => void;
+  onDragOver: (e: DragEvent) => void;
+  onDrop: (e: DragEvent) => void;
+  onDragEnd: () => void;
+}
+
+// HTML5 드래그 앤 드롭으로 목록 순서 변경. 항목을 다른 항목 위에 놓으면 그 위치로 이동한다.
+export const useDragReorder = (onMove: (key: string, toIndex: number) => void) => {
+  const [dragKey, setDragKey] = useState<string | null>(null);
+  const [overKey, setOverKey] = useState<string | null>(null);
+
+  const reset = () => {
+    setDragKey(null);
+    setOverKey(null);
+  };
+
+  const itemProps = (key: string, index: number): DragItemProps => ({
+    draggable: true,
+    onDragStart: (e) => {
+      e.stopPropagation();
+      e.dataTransfer.effectAllowed = 'move';
+      e.dataTransfer.setData('text/plain', key);
+      setDragKey(key);
+    },
+    onDragOver: (e) => {
+      // 다른 목록에서 끌어온 항목은 받지 않는다.
+      if (dragKey === null) return;
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer.dropEffect = 'move';
+      if (overKey !== key) setOverKey(key);
+    },
+    onDrop: (e) => {
+      if (dragKey === null) return;
+      e.preventDefault();
+      e.stopPropagation();
+      if (dragKey !== key) onMove(dragKey, index);
+      reset();
+    },
+    onDragEnd: reset
+  });
+
+  return { dragKey, overKey, itemProps };
+};
@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Route, parseRoute, parsePath, formatRoute } from '../services/router.ts';
+
+export type Navigate = (route: Route, options?: { replace?: boolean }) => void;
+
+// 정적 페이지(/project/<ID>/ 등)로 들어오면 사이트 루트의 해시 주소로 바꿔 이후 이동을 해시 라우팅에 맡긴다.
+const initialRoute = (): Route => {
+  const fromPath = window.location.hash ? null : parsePath(window.location.pathname);
+  if (!fromPath) return parseRoute(window.location.hash);
+  window.history.replaceState(null, '', `${fromPath.base}${formatRoute(fromPath.route)}`);
+  return fromPath.route;
+};
+
+export const useHashRoute = (): [Route, Navigate] => {
+  const [route, setRoute] = useState<Route>(initialRoute);
+
+  useEffect(() => {
+    const handleHashChange = () => setRoute(parseRoute(window.location.hash));
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  const navigate = useCallback<Navigate>((next, options) => {
+    const hash = formatRoute(next);
+    if (hash === window.location.hash) return;
+    const samePath = hash.split('?')[0] === window.location.hash.split('?')[0];
+    if (options?.replace) {
+      // replaceState는 hashchange를 발생시키지 않으므로 직접 동기화
+      window.history.replaceState(null, '', hash);
+      setRoute(parseRoute(hash));
+    } else {
+      window.location.hash = hash;
+    }
+    // 같은 화면 안에서 쿼리(필터)만 바뀐 경우에는 스크롤을 유지
+    if (!samePath) window.scrollTo(0, 0);
+  }, []);
+
+  return [route, navigate];
+};
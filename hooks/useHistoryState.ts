@@ -0,0 +1,73 @@
+import { useCallback, useState } from 'react';
+
+interface History<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+export interface HistoryOptions<T> {
+  limit?: number;
+  /** undo/redo 시 되돌리지 않을 값을 현재 상태에서 옮겨 담는다 (예: 패스키, 변경 이력) */
+  carry?: (current: T, restored: T, direction: 'UNDO' | 'REDO') => T;
+}
+
+export interface HistoryControls<T> {
+  state: T;
+  /** record: false면 히스토리에 남기지 않는다 (마이그레이션 등 시스템 변경) */
+  setState: (updater: (prev: T) => T, options?: { record?: boolean }) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export const useHistoryState = <T>(initial: T | (() => T), { limit = 50, carry }: HistoryOptions<T> = {}): HistoryControls<T> => {
+  const [history, setHistory] = useState<History<T>>(() => ({
+    past: [],
+    present: typeof initial === 'function' ? (initial as () => T)() : initial,
+    future: []
+  }));
+
+  const setState = useCallback((updater: (prev: T) => T, options?: { record?: boolean }) => {
+    setHistory(h => {
+      const next = updater(h.present);
+      if (next === h.present) return h;
+      if (options?.record === false) return { ...h, present: next };
+      return { past: [...h.past, h.present].slice(-limit), present: next, future: [] };
+    });
+  }, [limit]);
+
+  const undo = useCallback(() => {
+    setHistory(h => {
+      if (h.past.length === 0) return h;
+      const restored = h.past[h.past.length - 1];
+      return {
+        past: h.past.slice(0, -1),
+        present: carry ? carry(h.present, restored, 'UNDO') : restored,
+        future: [h.present, ...h.future]
+      };
+    });
+  }, [carry]);
+
+  const redo = useCallback(() => {
+    setHistory(h => {
+      if (h.future.length === 0) return h;
+      const [restored, ...future] = h.future;
+      return {
+        past: [...h.past, h.present].slice(-limit),
+        present: carry ? carry(h.present, restored, 'REDO') : restored,
+        future
+      };
+    });
+  }, [carry, limit]);
+
+  return {
+    state: history.present,
+    setState,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  };
+};
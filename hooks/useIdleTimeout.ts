@@ -0,0 +1,23 @@
+import { useEffect, useRef } from 'react';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'scroll', 'touchstart'] as const;
+
+// active인 동안 사용자 입력이 timeoutMs 이상 없으면 onTimeout 호출
+export const useIdleTimeout = (active: boolean, timeoutMs: number, onTimeout: () => void) => {
+  const onTimeoutRef = useRef(onTimeout);
+  onTimeoutRef.current = onTimeout;
+
+  useEffect(() => {
+    if (!active) return;
+    let timer = setTimeout(() => onTimeoutRef.current(), timeoutMs);
+    const reset = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => onTimeoutRef.current(), timeoutMs);
+    };
+    ACTIVITY_EVENTS.forEach(evt => window.addEventListener(evt, reset, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(evt => window.removeEventListener(evt, reset));
+    };
+  }, [active, timeoutMs]);
+};
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { Locale } from '../types.ts';
+import { detectLocale, isLocale } from '../services/i18n.ts';
+
+const LOCALE_KEY = 'odemind_locale';
+
+const readLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(LOCALE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch (e) {
+    // 저장소 접근 불가 시 브라우저 언어 사용
+  }
+  return detectLocale();
+};
+
+// 방문자가 고른 언어는 다음 방문에도 유지한다. <html lang>도 맞춰 CJK 글꼴이 올바르게 선택되도록 한다.
+export const useLocale = (): [Locale, (locale: Locale) => void] => {
+  const [locale, setLocale] = useState<Locale>(readLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    try {
+      localStorage.setItem(LOCALE_KEY, locale);
+    } catch (e) {
+      console.warn("SYSTEM: FAILED_TO_PERSIST_LOCALE", e);
+    }
+  }, [locale]);
+
+  return [locale, setLocale];
+};
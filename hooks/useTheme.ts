@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react';
+import { ThemeId, ThemeSettings } from '../types.ts';
+import { applyTheme, isThemeId, resolveTheme, themeSettingsOf, themeTokens } from '../services/theme.ts';
+
+const THEME_KEY = 'odemind_theme';
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+const readVisitorTheme = (): ThemeId | null => {
+  try {
+    const stored = localStorage.getItem(THEME_KEY);
+    if (isThemeId(stored)) return stored;
+  } catch (e) {
+    // 저장소 접근 불가 시 기본 테마 사용
+  }
+  return null;
+};
+
+const prefersDark = () => typeof window !== 'undefined' && !!window.matchMedia?.(DARK_QUERY).matches;
+
+// 방문자가 고른 테마는 다음 방문에도 유지한다. 고르지 않았으면 CMS 기본값, 그것도 system이면 OS 설정을 따른다.
+export const useTheme = (settings?: ThemeSettings): [ThemeId, (theme: ThemeId) => void] => {
+  const [visitorTheme, setVisitorTheme] = useState<ThemeId | null>(readVisitorTheme);
+  const [systemDark, setSystemDark] = useState(prefersDark);
+  const resolved = themeSettingsOf(settings);
+  const theme = resolveTheme(visitorTheme, resolved, systemDark);
+
+  useEffect(() => {
+    const media = window.matchMedia?.(DARK_QUERY);
+    if (!media) return;
+    const onChange = (e: MediaQueryListEvent) => setSystemDark(e.matches);
+    media.addEventListener('change', onChange);
+    return () => media.removeEventListener('change', onChange);
+  }, []);
+
+  useEffect(() => {
+    applyTheme(theme, themeTokens(theme, resolved));
+  }, [theme, resolved.accent]);
+
+  const chooseTheme = (next: ThemeId) => {
+    setVisitorTheme(next);
+    try {
+      localStorage.setItem(THEME_KEY, next);
+    } catch (e) {
+      console.warn("SYSTEM: FAILED_TO_PERSIST_THEME", e);
+    }
+  };
+
+  return [theme, chooseTheme];
+};
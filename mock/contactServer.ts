@@ -0,0 +1,52 @@
+import type { Plugin } from 'vite';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { MOCK_WEBHOOK_URL } from '../services/contact.ts';
+
+// 개발 서버 전용 문의 수신 목 엔드포인트. CMS에서 JSON_WEBHOOK 주소를 /__mock/contact로 두면 된다.
+//   POST /__mock/contact  수신 (터미널에 출력)
+//   GET  /__mock/contact  지금까지 받은 문의 목록
+// MOCK_CONTACT_FAIL_RATE=0.5 처럼 주면 그 비율로 503을 돌려 재전송 대기열을 시험할 수 있다.
+const REQUIRED_FIELDS = ['id', 'name', 'email', 'subject', 'message', 'createdAt'];
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+export const contactMockPlugin = (failRate = 0): Plugin => {
+  const received: Record<string, unknown>[] = [];
+  return {
+    name: 'odemind-contact-mock',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use(MOCK_WEBHOOK_URL, async (req, res) => {
+        if (req.method === 'GET') return sendJson(res, 200, received);
+        if (req.method !== 'POST') return sendJson(res, 405, { error: 'METHOD_NOT_ALLOWED' });
+        if (Math.random() < failRate) return sendJson(res, 503, { error: 'SIMULATED_OUTAGE' });
+
+        let payload: Record<string, unknown>;
+        try {
+          payload = JSON.parse(await readBody(req));
+        } catch (e) {
+          return sendJson(res, 400, { error: 'INVALID_JSON' });
+        }
+        const missing = REQUIRED_FIELDS.filter(field => typeof payload?.[field] !== 'string');
+        if (missing.length > 0) return sendJson(res, 422, { error: 'MISSING_FIELDS', fields: missing });
+
+        // 재전송으로 같은 문의가 두 번 올 수 있으므로 id로 중복을 거른다.
+        if (!received.some(r => r.id === payload.id)) received.unshift(payload);
+        server.config.logger.info(`[contact-mock] ${payload.createdAt} ${payload.name} <${payload.email}> [${payload.subject}]`, { timestamp: true });
+        sendJson(res, 200, { ok: true });
+      });
+    }
+  };
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { ArchiveItem } from '../types.ts';
+import { archiveItem, client } from '../test/fixtures.ts';
+import {
+  DEFAULT_ARCHIVE_FILTER, ArchiveFilter, archiveYears, groupArchiveByYear, isCuratedOrder, queryArchive, toggleArchiveSort
+} from './archiveQuery.ts';
+
+const ITEMS = [
+  archiveItem('A-OLD', { period: { start: '2012', end: '2014' }, clientId: 'CL-B', tags: ['Retail'], project: 'Store' }),
+  archiveItem('A-UNKNOWN', { project: 'Booth' }),
+  archiveItem('A-NOW', { period: { start: '2020-03', ongoing: true }, clientId: 'CL-A', tags: ['Beauty'], project: 'Campaign' }),
+  archiveItem('A-2020', { period: { start: '2020' }, tags: ['retail'], project: 'Archive' })
+];
+const CLIENTS = [client('CL-A', 'Aesop'), client('CL-B', 'Byredo')];
+
+const filter = (patch: Partial<ArchiveFilter>): ArchiveFilter => ({ ...DEFAULT_ARCHIVE_FILTER, ...patch });
+const ids = (items: ArchiveItem[]) => items.map(i => i.id);
+
+describe('queryArchive', () => {
+  it('keeps the curated order without a sort key', () => {
+    expect(ids(queryArchive(ITEMS, DEFAULT_ARCHIVE_FILTER))).toEqual(['A-OLD', 'A-UNKNOWN', 'A-NOW', 'A-2020']);
+    expect(isCuratedOrder(DEFAULT_ARCHIVE_FILTER)).toBe(true);
+    expect(isCuratedOrder(filter({ tags: ['Retail'] }))).toBe(false);
+  });
+
+  it('sorts by period in both directions with unknown dates last', () => {
+    expect(ids(queryArchive(ITEMS, filter({ sortKey: 'PERIOD', sortDir: 'DESC' })))).toEqual(['A-NOW', 'A-2020', 'A-OLD', 'A-UNKNOWN']);
+    expect(ids(queryArchive(ITEMS, filter({ sortKey: 'PERIOD', sortDir: 'ASC' })))).toEqual(['A-OLD', 'A-2020', 'A-NOW', 'A-UNKNOWN']);
+  });
+
+  it('sorts by client name', () => {
+    expect(ids(queryArchive(ITEMS, filter({ sortKey: 'CLIENT', sortDir: 'ASC' }), CLIENTS))).toEqual(['A-2020', 'A-NOW', 'A-OLD', 'A-UNKNOWN']);
+  });
+
+  it('matches any selected tag and ranges that overlap the years', () => {
+    expect(ids(queryArchive(ITEMS, filter({ tags: ['RETAIL'] })))).toEqual(['A-OLD', 'A-2020']);
+    expect(ids(queryArchive(ITEMS, filter({ yearFrom: 2013, yearTo: 2019 })))).toEqual(['A-OLD']);
+    expect(ids(queryArchive(ITEMS, filter({ yearFrom: 2021 })))).toEqual(['A-NOW']);
+  });
+});
+
+describe('toggleArchiveSort', () => {
+  it('starts periods newest first and flips the direction on the same column', () => {
+    const byPeriod = toggleArchiveSort(DEFAULT_ARCHIVE_FILTER, 'PERIOD');
+    expect([byPeriod.sortKey, byPeriod.sortDir]).toEqual(['PERIOD', 'DESC']);
+    expect(toggleArchiveSort(byPeriod, 'PERIOD').sortDir).toBe('ASC');
+    expect(toggleArchiveSort(byPeriod, 'PROJECT').sortDir).toBe('ASC');
+  });
+});
+
+describe('groupArchiveByYear / archiveYears', () => {
+  it('groups by start year in list order', () => {
+    const sorted = queryArchive(ITEMS, filter({ groupByYear: true }));
+    expect(groupArchiveByYear(sorted).map(g => [g.year, ids(g.items)])).toEqual([
+      [2020, ['A-NOW', 'A-2020']],
+      [2012, ['A-OLD']],
+      [null, ['A-UNKNOWN']]
+    ]);
+  });
+
+  it('lists every year a record spans', () => {
+    expect(archiveYears([ITEMS[0], ITEMS[1], ITEMS[3]])).toEqual([2020, 2014, 2013, 2012]);
+  });
+});
@@ -0,0 +1,99 @@
+import { ArchiveItem, Client } from '../types.ts';
+import { hasTag } from './taxonomy.ts';
+import { clientName } from './clients.ts';
+import { compareDateRanges, rangeYears } from './dateRange.ts';
+
+// 아카이브(협업 이력) 표의 정렬·필터·연도별 묶기. 공개 화면과 CMS 목록이 함께 쓴다.
+
+export type ArchiveSortKey = 'PERIOD' | 'CLIENT' | 'TYPE' | 'PROJECT';
+export type SortDirection = 'ASC' | 'DESC';
+
+export interface ArchiveFilter {
+  /** null이면 CMS에서 정한 목록 순서 */
+  sortKey: ArchiveSortKey | null;
+  sortDir: SortDirection;
+  /** 기간이 이 범위와 겹치면 일치 */
+  yearFrom: number | null;
+  yearTo: number | null;
+  /** 하나라도 일치 (업종 등 분류 태그) */
+  tags: string[];
+  /** 시작 연도별로 묶어 보여준다 */
+  groupByYear: boolean;
+}
+
+export const DEFAULT_ARCHIVE_FILTER: ArchiveFilter = {
+  sortKey: null,
+  sortDir: 'DESC',
+  yearFrom: null,
+  yearTo: null,
+  tags: [],
+  groupByYear: false
+};
+
+export const isArchiveFilterActive = (filter: ArchiveFilter): boolean =>
+  filter.yearFrom !== null || filter.yearTo !== null || filter.tags.length > 0;
+
+/** 목록 순서 그대로인지 (드래그로 순서를 바꿀 수 있는 상태) */
+export const isCuratedOrder = (filter: ArchiveFilter): boolean =>
+  filter.sortKey === null && !filter.groupByYear && !isArchiveFilterActive(filter);
+
+// 같은 열을 다시 누르면 방향만 바꾼다. 기간은 최신순, 나머지는 가나다순부터.
+export const toggleArchiveSort = (filter: ArchiveFilter, key: ArchiveSortKey): ArchiveFilter =>
+  filter.sortKey === key
+    ? { ...filter, sortDir: filter.sortDir === 'ASC' ? 'DESC' : 'ASC' }
+    : { ...filter, sortKey: key, sortDir: key === 'PERIOD' ? 'DESC' : 'ASC' };
+
+const matchesArchiveFilter = (item: ArchiveItem, filter: ArchiveFilter): boolean => {
+  if (filter.tags.length && !filter.tags.some(tag => hasTag(item.tags, tag))) return false;
+  if (filter.yearFrom === null && filter.yearTo === null) return true;
+  const years = rangeYears(item.period);
+  if (!years) return false;
+  return (filter.yearFrom === null || years.to >= filter.yearFrom) && (filter.yearTo === null || years.from <= filter.yearTo);
+};
+
+const compareArchive = (key: ArchiveSortKey, clients: Client[]) => (a: ArchiveItem, b: ArchiveItem): number => {
+  switch (key) {
+    case 'PERIOD': return compareDateRanges(a.period, b.period);
+    case 'CLIENT': return clientName(clients, a.clientId).localeCompare(clientName(clients, b.clientId));
+    case 'TYPE': return (a.tags[0] || '').localeCompare(b.tags[0] || '');
+    case 'PROJECT': return a.project.localeCompare(b.project);
+  }
+};
+
+/** clients: 고객사 이름순 정렬용 */
+export const queryArchive = (items: ArchiveItem[], filter: ArchiveFilter, clients: Client[] = []): ArchiveItem[] => {
+  const results = items.filter(item => matchesArchiveFilter(item, filter));
+  // 연도별로 묶을 때는 묶음 순서가 흐트러지지 않도록 기간순을 기본으로 한다.
+  const key = filter.sortKey ?? (filter.groupByYear ? 'PERIOD' : null);
+  if (!key) return results;
+  const compare = compareArchive(key, clients);
+  const direction = filter.sortDir === 'ASC' ? 1 : -1;
+  // 날짜 미상은 방향과 관계없이 맨 뒤
+  return results.sort((a, b) => (!a.period.start !== !b.period.start ? (a.period.start ? -1 : 1) : direction * compare(a, b)));
+};
+
+export interface ArchiveGroup {
+  /** 시작 연도. 날짜 미상은 null */
+  year: number | null;
+  items: ArchiveItem[];
+}
+
+/** 정렬된 목록을 시작 연도별로 묶는다 (묶음 순서는 목록에 처음 나온 순서) */
+export const groupArchiveByYear = (items: ArchiveItem[]): ArchiveGroup[] => {
+  const groups = new Map<number | null, ArchiveItem[]>();
+  items.forEach(item => {
+    const year = rangeYears(item.period)?.from ?? null;
+    groups.set(year, [...(groups.get(year) || []), item]);
+  });
+  return [...groups].map(([year, grouped]) => ({ year, items: grouped }));
+};
+
+/** 필터 선택지: 기록이 걸친 모든 연도 (최신순) */
+export const archiveYears = (items: ArchiveItem[]): number[] => {
+  const years = new Set<number>();
+  items.forEach(item => {
+    const range = rangeYears(item.period);
+    if (range) for (let y = range.from; y <= range.to; y++) years.add(y);
+  });
+  return [...years].sort((a, b) => b - a);
+};
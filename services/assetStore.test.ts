@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { appState, mediaItem, project } from '../test/fixtures.ts';
+import { unusedAssetRefs } from './assetStore.ts';
+
+describe('unusedAssetRefs', () => {
+  const trashed = project('P-OLD', { media: [mediaItem('asset:gone'), mediaItem('asset:shared'), mediaItem('https://img/external.jpg')] });
+  const before = appState({
+    projects: [project('P-1', { media: [mediaItem('asset:shared')] })],
+    trash: [{ entryId: 'T-1', collection: 'projects', record: trashed, index: 0, deletedAt: '2024-01-01' }]
+  });
+
+  it('lists only asset refs that nothing else uses after a purge', () => {
+    expect(unusedAssetRefs(before, { ...before, trash: [] })).toEqual(['asset:gone']);
+  });
+
+  it('keeps assets that an audit snapshot can still restore', () => {
+    const after = appState({
+      projects: before.projects,
+      auditLog: [{ id: 'E-1', at: '2024-01-01', actor: 'ADMIN', action: 'DELETE', recordType: 'project', recordId: 'P-OLD', label: '', changes: [], snapshot: trashed }]
+    });
+    expect(unusedAssetRefs(before, after)).toEqual([]);
+  });
+});
@@ -0,0 +1,264 @@
+import { AppState, ImageAsset, MediaItem } from '../types.ts';
+
+// 업로드 이미지는 IndexedDB에 Blob으로 저장하고, AppState에는 `asset:<uuid>` 형태의 ID만 남긴다.
+// 외부 URL(시드 데이터 등)은 그대로 통과시킨다.
+const DB_NAME = 'odemind_assets';
+const DB_VERSION = 1;
+const STORE_NAME = 'blobs';
+
+export const ASSET_PREFIX = 'asset:';
+
+const MAX_IMAGE_WIDTH = 2400;
+const IMAGE_QUALITY = 0.9;
+
+export const isAssetRef = (ref?: string | null): ref is string =>
+  !!ref && ref.startsWith(ASSET_PREFIX);
+
+export const isInlineImage = (ref?: string | null): ref is string =>
+  !!ref && ref.startsWith('data:');
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const createAssetId = () => `${ASSET_PREFIX}${crypto.randomUUID()}`;
+
+export const putAsset = async (blob: Blob, id: string = createAssetId()): Promise<string> => {
+  await withStore('readwrite', store => store.put(blob, id));
+  return id;
+};
+
+export const getAsset = (id: string): Promise<Blob | undefined> =>
+  withStore<Blob | undefined>('readonly', store => store.get(id));
+
+// 같은 에셋을 여러 컴포넌트가 참조하므로 Object URL은 세션 동안 캐시한다.
+const urlCache = new Map<string, Promise<string>>();
+
+export const deleteAsset = async (id: string): Promise<void> => {
+  const cached = urlCache.get(id);
+  urlCache.delete(id);
+  cached?.then(url => { if (url) URL.revokeObjectURL(url); });
+  await withStore('readwrite', store => store.delete(id));
+};
+
+export const resolveAssetUrl = (ref: string): Promise<string> => {
+  if (!isAssetRef(ref)) return Promise.resolve(ref);
+  let cached = urlCache.get(ref);
+  if (!cached) {
+    cached = getAsset(ref)
+      .then(blob => (blob ? URL.createObjectURL(blob) : ''))
+      .catch(() => '');
+    urlCache.set(ref, cached);
+  }
+  return cached;
+};
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// 원본 비율 유지, 긴 변 기준이 아닌 가로폭 기준으로만 축소 (기존 compressImage와 동일한 규칙)
+const normalizeImage = (file: Blob): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      let width = img.width;
+      let height = img.height;
+      if (width > MAX_IMAGE_WIDTH) {
+        height = Math.round((height * MAX_IMAGE_WIDTH) / width);
+        width = MAX_IMAGE_WIDTH;
+      }
+
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (ctx) {
+        ctx.fillStyle = "#FFFFFF";
+        ctx.fillRect(0, 0, width, height);
+        ctx.drawImage(img, 0, 0, width, height);
+      }
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('ENCODE_FAILED'))), 'image/jpeg', IMAGE_QUALITY);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('DECODE_FAILED'));
+    };
+    img.src = url;
+  });
+};
+
+export const storeImageFile = async (file: File): Promise<string> => putAsset(await normalizeImage(file));
+
+// 영상 앞부분(최대 1초 지점)의 프레임을 JPEG 포스터로 추출
+const captureVideoPoster = (blob: Blob): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => {
+      video.currentTime = Math.min(1, (video.duration || 0) / 2);
+    };
+    video.onseeked = () => {
+      const scale = Math.min(1, MAX_IMAGE_WIDTH / (video.videoWidth || MAX_IMAGE_WIDTH));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(poster => (poster ? resolve(poster) : reject(new Error('ENCODE_FAILED'))), 'image/jpeg', IMAGE_QUALITY);
+    };
+    video.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('DECODE_FAILED'));
+    };
+    video.src = url;
+  });
+
+// 영상은 원본 그대로 저장하고, 추출 가능한 경우 포스터 프레임도 함께 저장한다.
+export const storeVideoFile = async (file: File): Promise<{ src: string; poster?: string }> => {
+  const src = await putAsset(file);
+  try {
+    return { src, poster: await putAsset(await captureVideoPoster(file)) };
+  } catch (e) {
+    console.warn("SYSTEM: POSTER_CAPTURE_FAILED", e);
+    return { src };
+  }
+};
+
+const mediaRefs = (media: MediaItem[] = []): string[] =>
+  media.flatMap(item => [item.kind === 'embed' ? '' : item.src, item.poster || '']);
+
+const collectImageRefs = (state: Pick<AppState, 'projects' | 'archiveItems'> & Partial<Pick<AppState, 'trash' | 'inbox'>>): string[] => [
+  ...state.projects.flatMap(p => mediaRefs(p.media)),
+  ...(state.archiveItems || []).map(item => item.image?.src || ''),
+  // 휴지통 레코드도 복원될 수 있으므로 백업 대상에 포함
+  ...(state.trash || []).flatMap(entry =>
+    entry.collection === 'projects' ? mediaRefs(entry.record.media)
+      : entry.collection === 'archiveItems' ? [entry.record.image?.src || '']
+      : []
+  ),
+  // 문의 첨부 파일도 같은 저장소를 쓴다.
+  ...(state.inbox || []).flatMap(message => (message.attachments || []).map(file => file.data))
+].filter(Boolean);
+
+// 변경 이력의 스냅샷으로 되돌릴 수 있으므로 스냅샷이 가리키는 에셋도 사용 중으로 본다.
+const snapshotRefs = (state: Pick<AppState, 'auditLog'>): string[] =>
+  state.auditLog.flatMap(({ snapshot }) =>
+    !snapshot ? [] : 'media' in snapshot ? mediaRefs(snapshot.media) : 'image' in snapshot ? [snapshot.image?.src || ''] : []
+  );
+
+/** before가 참조하던 에셋 중 after에서 더 이상 쓰이지 않는 것 (휴지통 영구 삭제 후 정리용) */
+export const unusedAssetRefs = (before: AppState, after: AppState): string[] => {
+  const inUse = new Set([...collectImageRefs(after), ...snapshotRefs(after)]);
+  return [...new Set(collectImageRefs(before))].filter(ref => isAssetRef(ref) && !inUse.has(ref));
+};
+
+export const remapImageRefs = <T extends Pick<AppState, 'projects' | 'archiveItems'> & Partial<Pick<AppState, 'inbox'>>>(state: T, mapping: Map<string, string>): T => {
+  if (mapping.size === 0) return state;
+  const remap = <I extends ImageAsset>(image: I): I => ({ ...image, src: mapping.get(image.src) ?? image.src });
+  const remapMedia = (item: MediaItem): MediaItem =>
+    remap(item.poster ? { ...item, poster: mapping.get(item.poster) ?? item.poster } : item);
+  return {
+    ...state,
+    projects: state.projects.map(p => ({ ...p, media: (p.media || []).map(remapMedia) })),
+    archiveItems: (state.archiveItems || []).map(item => (item.image ? { ...item, image: remap(item.image) } : item)),
+    ...(state.inbox ? {
+      inbox: state.inbox.map(message => (message.attachments
+        ? { ...message, attachments: message.attachments.map(file => ({ ...file, data: mapping.get(file.data) ?? file.data })) }
+        : message))
+    } : {})
+  };
+};
+
+// 이전 버전의 base64 이미지와 문의 첨부를 IndexedDB로 옮기고, data URL -> 에셋 ID 매핑을 돌려준다.
+export const migrateInlineImages = async (state: Pick<AppState, 'projects' | 'archiveItems'> & Partial<Pick<AppState, 'inbox'>>): Promise<Map<string, string>> => {
+  const mapping = new Map<string, string>();
+  for (const ref of collectImageRefs(state)) {
+    if (!isInlineImage(ref) || mapping.has(ref)) continue;
+    try {
+      mapping.set(ref, await putAsset(await dataUrlToBlob(ref)));
+    } catch (e) {
+      console.warn("SYSTEM: ASSET_MIGRATION_FAILED", e);
+    }
+  }
+  return mapping;
+};
+
+// 정적 배포(prerender)와 피드에서 에셋을 가리키는 파일 정보. 경로는 사이트 루트 기준
+export interface StaticAsset {
+  path: string;
+  type: string;
+  size: number;
+}
+
+export const staticAssetPath = (ref: string, type: string): string => {
+  const ext = (type.split('/')[1] || 'bin').replace('jpeg', 'jpg').replace(/\+.*$/, '');
+  return `media/${ref.slice(ASSET_PREFIX.length)}.${ext}`;
+};
+
+// 현재 브라우저의 IndexedDB 에셋을 정적 배포 시의 파일 경로로 대응시킨다 (CMS 피드 다운로드용)
+export const describeStaticAssets = async (state: AppState): Promise<Map<string, StaticAsset>> => {
+  const assets = new Map<string, StaticAsset>();
+  for (const ref of collectImageRefs(state)) {
+    if (!isAssetRef(ref) || assets.has(ref)) continue;
+    const blob = await getAsset(ref);
+    if (blob) assets.set(ref, { path: staticAssetPath(ref, blob.type), type: blob.type, size: blob.size });
+  }
+  return assets;
+};
+
+// 백업 파일에는 참조된 에셋을 data URL로 함께 담는다.
+export const exportAssets = async (state: AppState): Promise<Record<string, string>> => {
+  const assets: Record<string, string> = {};
+  for (const ref of collectImageRefs(state)) {
+    if (!isAssetRef(ref) || assets[ref]) continue;
+    const blob = await getAsset(ref);
+    if (blob) assets[ref] = await blobToDataUrl(blob);
+  }
+  return assets;
+};
+
+export const importAssets = async (assets: Record<string, string>): Promise<void> => {
+  for (const [id, dataUrl] of Object.entries(assets)) {
+    if (!isAssetRef(id) || !isInlineImage(dataUrl)) continue;
+    urlCache.delete(id);
+    await putAsset(await dataUrlToBlob(dataUrl), id);
+  }
+};
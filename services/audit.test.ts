@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { appState, installMemoryStorage, service } from '../test/fixtures.ts';
+import { MAX_AUDIT_SNAPSHOTS, diffFields, draftsFromStateDiff, setActor, withAudit } from './audit.ts';
+
+beforeEach(() => {
+  installMemoryStorage();
+});
+
+describe('diffFields', () => {
+  it('lists changed, added and removed fields but not updatedAt', () => {
+    const before = { title: 'A', description: 'same', number: '01', updatedAt: '2024-01-01' };
+    const after = { title: 'B', description: 'same', tags: ['x'], updatedAt: '2024-02-01' };
+
+    expect(diffFields(before, after)).toEqual([
+      { field: 'title', before: 'A', after: 'B' },
+      { field: 'number', before: '01', after: undefined },
+      { field: 'tags', before: undefined, after: ['x'] }
+    ]);
+  });
+
+  it('treats a missing side as empty', () => {
+    expect(diffFields(undefined, { id: 'S-1' })).toEqual([{ field: 'id', before: undefined, after: 'S-1' }]);
+    expect(diffFields(undefined, undefined)).toEqual([]);
+  });
+});
+
+describe('draftsFromStateDiff', () => {
+  it('records settings changes with their before and after values', () => {
+    const drafts = draftsFromStateDiff(appState(), appState({ tagline: 'NEW TAGLINE' }), 'UNDO');
+
+    expect(drafts).toEqual([{
+      action: 'UNDO',
+      recordType: 'settings',
+      recordId: 'tagline',
+      label: expect.any(String),
+      changes: [{ field: 'tagline', before: 'TAGLINE', after: 'NEW TAGLINE' }]
+    }]);
+  });
+
+  it('records record changes with a snapshot of the record', () => {
+    const before = appState({ services: [service('S-1'), service('S-2')] });
+    const after = appState({ services: [service('S-1', { title: 'Renamed' })] });
+
+    const drafts = draftsFromStateDiff(before, after, 'IMPORT');
+
+    expect(drafts.map(d => [d.recordType, d.recordId, d.label, d.changes?.map(c => c.field)])).toEqual([
+      ['service', 'S-1', 'Renamed', ['title']],
+      ['service', 'S-2', 'S-2', ['id', 'number', 'title', 'description']]
+    ]);
+    expect(drafts[1].snapshot).toEqual(service('S-2'));
+  });
+});
+
+describe('withAudit', () => {
+  it('prepends entries stamped with the current operator', () => {
+    setActor('  KIM ');
+    const state = withAudit(appState(), [{ action: 'CREATE', recordType: 'service', recordId: 'S-1', label: 'S-1' }]);
+
+    expect(state.auditLog).toHaveLength(1);
+    expect(state.auditLog[0]).toMatchObject({ actor: 'KIM', action: 'CREATE', changes: [] });
+    expect(withAudit(state, [])).toBe(state);
+  });
+
+  it('keeps only the newest 1000 entries', () => {
+    const drafts = Array.from({ length: 1001 }, (_, i) => ({ action: 'UPDATE' as const, recordType: 'service' as const, recordId: `S-${i}`, label: '' }));
+    const state = withAudit(appState(), drafts);
+
+    expect(state.auditLog).toHaveLength(1000);
+    expect(state.auditLog[0].recordId).toBe('S-0');
+    expect(state.auditLog[999].recordId).toBe('S-999');
+  });
+
+  it('drops record snapshots from all but the newest entries', () => {
+    const drafts = Array.from({ length: MAX_AUDIT_SNAPSHOTS + 1 }, (_, i) => ({ action: 'UPDATE' as const, recordType: 'service' as const, recordId: `S-${i}`, label: '', snapshot: service(`S-${i}`) }));
+    const state = withAudit(appState(), drafts);
+
+    expect(state.auditLog[MAX_AUDIT_SNAPSHOTS - 1].snapshot).toEqual(service(`S-${MAX_AUDIT_SNAPSHOTS - 1}`));
+    expect(state.auditLog[MAX_AUDIT_SNAPSHOTS]).not.toHaveProperty('snapshot');
+    expect(state.auditLog[MAX_AUDIT_SNAPSHOTS].recordId).toBe(`S-${MAX_AUDIT_SNAPSHOTS}`);
+  });
+});
@@ -0,0 +1,105 @@
+import { AppState, AuditAction, AuditEntry, AuditRecordType, FieldChange, Project, ArchiveItem, Service, Client } from '../types.ts';
+import { CollectionKey, SettingsField, diffStates } from './backupMerge.ts';
+
+// 작업자 이름은 기기별로 다르므로 AppState가 아닌 localStorage에 따로 둔다.
+const ACTOR_KEY = 'odemind_operator';
+const DEFAULT_ACTOR = 'ADMIN';
+export const MAX_AUDIT_ENTRIES = 1000;
+// 레코드 전체 스냅샷은 용량이 크므로 최근 항목에만 남긴다. 더 오래된 항목은 변경 필드만 남고 REVERT할 수 없다.
+export const MAX_AUDIT_SNAPSHOTS = 100;
+
+export const getActor = (): string => localStorage.getItem(ACTOR_KEY) || DEFAULT_ACTOR;
+
+export const setActor = (actor: string) => {
+  if (actor.trim()) localStorage.setItem(ACTOR_KEY, actor.trim());
+  else localStorage.removeItem(ACTOR_KEY);
+};
+
+export const RECORD_TYPES: Record<CollectionKey, AuditRecordType> = {
+  projects: 'project',
+  archiveItems: 'archive',
+  services: 'service',
+  clients: 'client'
+};
+
+type AnyRecord = Project | ArchiveItem | Service | Client;
+
+export interface AuditDraft {
+  action: AuditAction;
+  recordType: AuditRecordType;
+  recordId: string;
+  label: string;
+  changes?: FieldChange[];
+  snapshot?: AnyRecord;
+}
+
+export const recordLabel = (record: AnyRecord): string =>
+  'title' in record ? record.title : 'name' in record ? record.name : record.project;
+
+// 필드 단위 비교. updatedAt은 변경 내용이 아니므로 제외한다.
+export const diffFields = (before: object | undefined, after: object | undefined): FieldChange[] => {
+  const a = (before || {}) as Record<string, unknown>;
+  const b = (after || {}) as Record<string, unknown>;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  keys.delete('updatedAt');
+  return [...keys]
+    .filter(k => JSON.stringify(a[k]) !== JSON.stringify(b[k]))
+    .map(field => ({ field, before: a[field], after: b[field] }));
+};
+
+export const recordDraft = (action: AuditAction, collection: CollectionKey, before: AnyRecord | undefined, after: AnyRecord | undefined): AuditDraft => {
+  const record = (after || before)!;
+  return {
+    action,
+    recordType: RECORD_TYPES[collection],
+    recordId: record.id,
+    label: recordLabel(record),
+    changes: diffFields(before, after),
+    snapshot: record
+  };
+};
+
+// 상태 전체 비교로 이력 생성 (undo/redo, 백업 복원처럼 여러 레코드가 한꺼번에 바뀌는 경우)
+export const draftsFromStateDiff = (before: AppState, after: AppState, action: AuditAction): AuditDraft[] =>
+  diffStates(before, after).changes.map(change => {
+    if (change.collection === 'settings') {
+      const field = change.id as SettingsField;
+      return {
+        action,
+        recordType: 'settings',
+        recordId: field,
+        label: change.label,
+        changes: [{ field, before: before[field], after: after[field] }]
+      };
+    }
+    const find = (state: AppState) => (state[change.collection] as AnyRecord[]).find(r => r.id === change.id);
+    return recordDraft(action, change.collection, find(before), find(after));
+  });
+
+export const withAudit = (state: AppState, drafts: AuditDraft[]): AppState => {
+  if (drafts.length === 0) return state;
+  const at = new Date().toISOString();
+  const actor = getActor();
+  const entries: AuditEntry[] = drafts.map(d => ({
+    ...d,
+    id: crypto.randomUUID(),
+    at,
+    actor,
+    changes: d.changes || []
+  }));
+  return { ...state, auditLog: trimAuditLog([...entries, ...state.auditLog]) };
+};
+
+/** 최신순 이력을 MAX_AUDIT_ENTRIES개로 자르고, MAX_AUDIT_SNAPSHOTS번째 이후 항목의 스냅샷을 뺀다. */
+export const trimAuditLog = (log: AuditEntry[]): AuditEntry[] =>
+  log.slice(0, MAX_AUDIT_ENTRIES).map((entry, index) => {
+    if (index < MAX_AUDIT_SNAPSHOTS || !entry.snapshot) return entry;
+    const { snapshot, ...rest } = entry;
+    return rest;
+  });
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '∅';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+};
@@ -0,0 +1,84 @@
+import { beforeEach, afterEach, describe, expect, it, vi } from 'vitest';
+import { installMemoryStorage } from '../test/fixtures.ts';
+import { MAX_FAILED_ATTEMPTS, clearLockout, createCredential, isBase64, lockoutRemaining, readLockout, registerFailure, validateNewPasskey, verifyCredential } from './auth.ts';
+
+describe('createCredential / verifyCredential', () => {
+  it('stores a salted hash that only the original passkey verifies', async () => {
+    const credential = await createCredential('correct horse');
+
+    expect(credential).toMatchObject({ algorithm: 'PBKDF2-SHA256', iterations: 310000 });
+    expect(JSON.stringify(credential)).not.toContain('correct horse');
+    expect(await verifyCredential('correct horse', credential)).toBe(true);
+    expect(await verifyCredential('correct horsE', credential)).toBe(false);
+  });
+
+  it('uses a new salt for every credential', async () => {
+    const [a, b] = await Promise.all([createCredential('same-passkey'), createCredential('same-passkey')]);
+    expect(a.salt).not.toBe(b.salt);
+    expect(a.hash).not.toBe(b.hash);
+  });
+
+  it('rejects a hash of the wrong length', async () => {
+    const credential = await createCredential('passkey');
+    expect(await verifyCredential('passkey', { ...credential, hash: btoa('short') })).toBe(false);
+  });
+
+  it('throws instead of answering when the stored credential is corrupt', async () => {
+    const credential = await createCredential('passkey');
+    await expect(verifyCredential('passkey', { ...credential, salt: '%%%' })).rejects.toThrow();
+    await expect(verifyCredential('passkey', { ...credential, iterations: 0 })).rejects.toThrow();
+  });
+});
+
+describe('validateNewPasskey', () => {
+  it('checks length and confirmation', () => {
+    expect(validateNewPasskey('12345', '12345')).toBe('PASSKEY_TOO_SHORT (MIN 6)');
+    expect(validateNewPasskey('123456', '123457')).toBe('PASSKEY_MISMATCH');
+    expect(validateNewPasskey('123456', '123456')).toBeNull();
+  });
+});
+
+describe('isBase64', () => {
+  it('accepts padded base64 only', () => {
+    expect(isBase64('AAAA')).toBe(true);
+    expect(isBase64('AA==')).toBe(true);
+    expect(isBase64('AA=')).toBe(false);
+    expect(isBase64('A-_A')).toBe(false);
+    expect(isBase64('')).toBe(false);
+  });
+});
+
+describe('registerFailure / lockoutRemaining', () => {
+  beforeEach(() => {
+    installMemoryStorage();
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+  afterEach(() => vi.useRealTimers());
+
+  it('locks after the allowed attempts and doubles the lock on every further failure', () => {
+    const locks: number[] = [];
+    for (let i = 0; i < MAX_FAILED_ATTEMPTS + 2; i++) locks.push(registerFailure().lockedUntil);
+
+    expect(locks.slice(0, MAX_FAILED_ATTEMPTS - 1)).toEqual([0, 0, 0, 0]);
+    expect(locks.slice(MAX_FAILED_ATTEMPTS - 1)).toEqual([30000, 60000, 120000]);
+    expect(readLockout()).toEqual({ failures: MAX_FAILED_ATTEMPTS + 2, lockedUntil: 120000 });
+  });
+
+  it('starts over after clearLockout and ignores a corrupt saved value', () => {
+    registerFailure();
+    clearLockout();
+    expect(readLockout()).toEqual({ failures: 0, lockedUntil: 0 });
+
+    localStorage.setItem('odemind_auth_lockout', '{"failures":"x"');
+    expect(registerFailure()).toEqual({ failures: 1, lockedUntil: 0 });
+  });
+
+  it('counts down the remaining lock and never goes below zero', () => {
+    const lockout = { failures: MAX_FAILED_ATTEMPTS, lockedUntil: 30000 };
+    expect(lockoutRemaining(lockout, 0)).toBe(30000);
+    expect(lockoutRemaining(lockout, 29000)).toBe(1000);
+    expect(lockoutRemaining(lockout, 45000)).toBe(0);
+    expect(lockoutRemaining(readLockout(), Date.now())).toBe(0);
+  });
+});
@@ -0,0 +1,86 @@
+import { Credential } from '../types.ts';
+
+// 관리자 패스키는 PBKDF2(SHA-256) 해시로만 AppState에 보관한다. 평문은 어디에도 저장하지 않는다.
+
+export const MIN_PASSKEY_LENGTH = 6;
+export const MAX_FAILED_ATTEMPTS = 5;
+export const SESSION_TIMEOUT_MS = 15 * 60 * 1000;
+
+const PBKDF2_ITERATIONS = 310000;
+// 백업에서 들여온 자격 증명의 반복 횟수 허용 범위. 너무 크면 확인하는 동안 화면이 멈춘다.
+export const MIN_PBKDF2_ITERATIONS = 100000;
+export const MAX_PBKDF2_ITERATIONS = 2000000;
+const LOCKOUT_BASE_MS = 30 * 1000;
+const LOCKOUT_KEY = 'odemind_auth_lockout';
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (str: string): Uint8Array => Uint8Array.from(atob(str), c => c.charCodeAt(0));
+
+export const isBase64 = (value: string): boolean =>
+  value.length > 0 && value.length % 4 === 0 && /^[A-Za-z0-9+/]+={0,2}$/.test(value);
+
+const derive = async (passkey: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(passkey), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return new Uint8Array(bits);
+};
+
+export const createCredential = async (passkey: string): Promise<Credential> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derive(passkey, salt, PBKDF2_ITERATIONS);
+  return {
+    algorithm: 'PBKDF2-SHA256',
+    iterations: PBKDF2_ITERATIONS,
+    salt: toBase64(salt),
+    hash: toBase64(hash),
+    updatedAt: new Date().toISOString()
+  };
+};
+
+/** 저장된 salt/hash가 base64가 아니거나 반복 횟수가 잘못되면 예외를 던진다. */
+export const verifyCredential = async (passkey: string, credential: Credential): Promise<boolean> => {
+  const expected = fromBase64(credential.hash);
+  const actual = await derive(passkey, fromBase64(credential.salt), credential.iterations);
+  if (actual.length !== expected.length) return false;
+  // 타이밍 차이를 줄이기 위해 전체 바이트를 비교
+  let diff = 0;
+  for (let i = 0; i < actual.length; i++) diff |= actual[i] ^ expected[i];
+  return diff === 0;
+};
+
+export const validateNewPasskey = (passkey: string, confirm: string): string | null => {
+  if (passkey.length < MIN_PASSKEY_LENGTH) return `PASSKEY_TOO_SHORT (MIN ${MIN_PASSKEY_LENGTH})`;
+  if (passkey !== confirm) return 'PASSKEY_MISMATCH';
+  return null;
+};
+
+// 연속 실패 시 잠금: 실패 횟수가 한도를 넘을 때마다 잠금 시간이 두 배로 늘어난다.
+export interface LockoutState {
+  failures: number;
+  lockedUntil: number;
+}
+
+export const readLockout = (): LockoutState => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(LOCKOUT_KEY) || 'null');
+    if (saved && typeof saved.failures === 'number' && typeof saved.lockedUntil === 'number') return saved;
+  } catch (e) {
+    // 손상된 값은 무시
+  }
+  return { failures: 0, lockedUntil: 0 };
+};
+
+export const registerFailure = (): LockoutState => {
+  const prev = readLockout();
+  const failures = prev.failures + 1;
+  const over = failures - MAX_FAILED_ATTEMPTS;
+  const lockedUntil = over >= 0 ? Date.now() + LOCKOUT_BASE_MS * 2 ** over : prev.lockedUntil;
+  const next = { failures, lockedUntil };
+  localStorage.setItem(LOCKOUT_KEY, JSON.stringify(next));
+  return next;
+};
+
+export const lockoutRemaining = (lockout: LockoutState, now: number): number =>
+  Math.max(0, lockout.lockedUntil - now);
+
+export const clearLockout = () => localStorage.removeItem(LOCKOUT_KEY);
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { appState, client, message, project, service } from '../test/fixtures.ts';
+import { applyMerge, diffStates, selectionForMode } from './backupMerge.ts';
+
+const current = appState({
+  services: [
+    service('S-1', { title: 'Mine', updatedAt: '2024-03-01' }),
+    service('S-2', { title: 'Old', updatedAt: '2024-01-01' }),
+    service('S-3')
+  ],
+  credential: { algorithm: 'PBKDF2-SHA256', iterations: 1, salt: 'AA==', hash: 'AA==', updatedAt: '2024-01-01' }
+});
+
+const incoming = appState({
+  services: [
+    service('S-4', { title: 'Added' }),
+    service('S-2', { title: 'New', updatedAt: '2024-02-01' }),
+    service('S-1', { title: 'Theirs', updatedAt: '2024-02-01' })
+  ],
+  siteTitle: 'RENAMED',
+  settingsUpdatedAt: '2024-02-01'
+});
+
+describe('diffStates', () => {
+  it('lists added, changed and removed records and changed settings', () => {
+    const diff = diffStates(current, incoming);
+
+    expect(diff.changes.map(c => [c.key, c.kind, c.fields, c.incomingIsNewer])).toEqual([
+      ['services:S-4', 'ADDED', [], true],
+      ['services:S-2', 'CHANGED', ['title'], true],
+      ['services:S-1', 'CHANGED', ['title'], false],
+      ['services:S-3', 'REMOVED', [], false],
+      ['settings:siteTitle', 'CHANGED', ['siteTitle'], true]
+    ]);
+    expect(diff.changes[0].label).toBe('Added');
+  });
+
+  it('ignores updatedAt when comparing records', () => {
+    const diff = diffStates(appState({ services: [service('S-1', { updatedAt: '2024-01-01' })] }), appState({ services: [service('S-1', { updatedAt: '2025-01-01' })] }));
+    expect(diff.changes).toEqual([]);
+    expect(diff.unchanged).toBeGreaterThan(0);
+  });
+});
+
+describe('selectionForMode', () => {
+  it('selects everything for REPLACE and only additions and newer edits for KEEP_NEWER', () => {
+    const diff = diffStates(current, incoming);
+
+    expect([...selectionForMode(diff, 'REPLACE')]).toHaveLength(diff.changes.length);
+    expect([...selectionForMode(diff, 'KEEP_NEWER')]).toEqual(['services:S-4', 'services:S-2', 'settings:siteTitle']);
+  });
+});
+
+describe('applyMerge', () => {
+  it('keeps local records that are newer and never removes them in KEEP_NEWER', () => {
+    const diff = diffStates(current, incoming);
+    const merged = applyMerge(current, incoming, diff, selectionForMode(diff, 'KEEP_NEWER'));
+
+    expect(merged.services.map(s => [s.id, s.title])).toEqual([['S-1', 'Mine'], ['S-2', 'New'], ['S-3', 'S-3'], ['S-4', 'Added']]);
+    expect(merged.siteTitle).toBe('RENAMED');
+    expect(merged.settingsUpdatedAt).toBe('2024-02-01');
+  });
+
+  it('follows the backup order when every change is selected', () => {
+    const diff = diffStates(current, incoming);
+    const merged = applyMerge(current, incoming, diff, selectionForMode(diff, 'REPLACE'));
+
+    expect(merged.services.map(s => s.id)).toEqual(['S-4', 'S-2', 'S-1']);
+  });
+
+  it('keeps the passkey and the current records when nothing is selected', () => {
+    const diff = diffStates(current, incoming);
+    const merged = applyMerge(current, incoming, diff, new Set());
+
+    expect(merged.credential).toBe(current.credential);
+    expect(merged.services).toEqual(current.services);
+    expect(merged.siteTitle).toBe('ODEMIND');
+  });
+
+  it('merges both audit logs without duplicates, newest first', () => {
+    const entry = (id: string, at: string) => ({ id, at, actor: 'ADMIN', action: 'UPDATE' as const, recordType: 'service' as const, recordId: 'S-1', label: '', changes: [] });
+    const shared = entry('E-1', '2024-01-01');
+    const diff = diffStates(current, incoming);
+    const merged = applyMerge(
+      { ...current, auditLog: [shared] },
+      { ...incoming, auditLog: [entry('E-2', '2024-03-01'), shared] },
+      diff,
+      new Set()
+    );
+
+    expect(merged.auditLog.map(e => e.id)).toEqual(['E-2', 'E-1']);
+  });
+
+  it('adds incoming inbox messages without overwriting local ones', () => {
+    const diff = diffStates(current, incoming);
+    const merged = applyMerge(
+      { ...current, inbox: [message('MSG-1', { read: true })] },
+      { ...incoming, inbox: [message('MSG-2', { createdAt: '2024-02-01T00:00:00.000Z' }), message('MSG-1')] },
+      diff,
+      new Set()
+    );
+
+    expect(merged.inbox.map(m => [m.id, m.read])).toEqual([['MSG-2', false], ['MSG-1', true]]);
+  });
+
+  it('keeps only client review entries that still point at merged records', () => {
+    const review = (recordId: string) => ({ collection: 'projects' as const, recordId, source: 'AESOP', clientId: 'CL-1', score: 1 });
+    const base = appState({ clients: [client('CL-1')], projects: [project('P-1')], clientReview: [review('P-1')] });
+    const diff = diffStates(base, base);
+    const merged = applyMerge(base, { ...base, clientReview: [review('P-1'), review('P-GONE')] }, diff, new Set());
+
+    expect(merged.clientReview).toEqual([review('P-1')]);
+  });
+});
@@ -0,0 +1,158 @@
+import { AppState } from '../types.ts';
+import { matchKey } from './clients.ts';
+
+// 백업 복원 시 현재 상태와 백업 파일의 차이를 계산하고, 선택된 변경만 적용한다.
+export type CollectionKey = 'projects' | 'archiveItems' | 'services' | 'clients';
+export type ChangeKind = 'ADDED' | 'CHANGED' | 'REMOVED';
+export type MergeMode = 'REPLACE' | 'KEEP_NEWER' | 'SELECT';
+
+export const COLLECTIONS: CollectionKey[] = ['projects', 'archiveItems', 'services', 'clients'];
+const SETTINGS_FIELDS = ['siteTitle', 'tagline', 'taglineTranslations', 'contactSettings', 'siteConfig', 'themeSettings', 'categories'] as const;
+export type SettingsField = typeof SETTINGS_FIELDS[number];
+
+export interface RecordChange {
+  /** 선택 상태 키: `projects:<id>` 또는 `settings:<field>` */
+  key: string;
+  collection: CollectionKey | 'settings';
+  id: string;
+  label: string;
+  kind: ChangeKind;
+  /** CHANGED일 때 달라진 필드 목록 */
+  fields: string[];
+  /** 백업 쪽이 더 최근에 수정되었는지 (KEEP_NEWER 기준) */
+  incomingIsNewer: boolean;
+}
+
+export interface BackupDiff {
+  changes: RecordChange[];
+  unchanged: number;
+}
+
+type AnyRecord = { id: string; updatedAt?: string } & Record<string, unknown>;
+
+const recordLabel = (record: AnyRecord): string =>
+  String(record.title || record.name || record.project || record.id);
+
+const changedFields = (a: AnyRecord, b: AnyRecord): string[] => {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  keys.delete('updatedAt');
+  return [...keys].filter(k => JSON.stringify(a[k]) !== JSON.stringify(b[k]));
+};
+
+// 수정 시각이 없는 레코드는 가장 오래된 것으로 취급, 동률이면 현재 데이터를 유지
+const isNewer = (incoming?: string, current?: string): boolean => (incoming || '') > (current || '');
+
+export const diffStates = (current: AppState, incoming: AppState): BackupDiff => {
+  const changes: RecordChange[] = [];
+  let unchanged = 0;
+
+  COLLECTIONS.forEach(collection => {
+    const currentList = current[collection] as unknown as AnyRecord[];
+    const incomingList = incoming[collection] as unknown as AnyRecord[];
+    const currentById = new Map(currentList.map(r => [r.id, r]));
+    const incomingIds = new Set(incomingList.map(r => r.id));
+
+    incomingList.forEach(record => {
+      const existing = currentById.get(record.id);
+      const base = { key: `${collection}:${record.id}`, collection, id: record.id, label: recordLabel(record) };
+      if (!existing) {
+        changes.push({ ...base, kind: 'ADDED', fields: [], incomingIsNewer: true });
+        return;
+      }
+      const fields = changedFields(existing, record);
+      if (fields.length === 0) {
+        unchanged++;
+        return;
+      }
+      changes.push({ ...base, kind: 'CHANGED', fields, incomingIsNewer: isNewer(record.updatedAt, existing.updatedAt) });
+    });
+
+    currentList.filter(r => !incomingIds.has(r.id)).forEach(record => {
+      changes.push({ key: `${collection}:${record.id}`, collection, id: record.id, label: recordLabel(record), kind: 'REMOVED', fields: [], incomingIsNewer: false });
+    });
+  });
+
+  SETTINGS_FIELDS.forEach(field => {
+    if (JSON.stringify(current[field]) === JSON.stringify(incoming[field])) {
+      unchanged++;
+      return;
+    }
+    changes.push({
+      key: `settings:${field}`,
+      collection: 'settings',
+      id: field,
+      label: field.toUpperCase(),
+      kind: 'CHANGED',
+      fields: [field],
+      incomingIsNewer: isNewer(incoming.settingsUpdatedAt, current.settingsUpdatedAt)
+    });
+  });
+
+  return { changes, unchanged };
+};
+
+// 모드별 기본 선택: REPLACE는 모든 변경, KEEP_NEWER는 추가 + 백업 쪽이 최신인 수정 (삭제는 적용하지 않음)
+export const selectionForMode = (diff: BackupDiff, mode: Exclude<MergeMode, 'SELECT'>): Set<string> =>
+  new Set(
+    diff.changes
+      .filter(c => mode === 'REPLACE' || c.kind === 'ADDED' || (c.kind === 'CHANGED' && c.incomingIsNewer))
+      .map(c => c.key)
+  );
+
+// 선택된 변경만 현재 상태에 반영. 패스키(credential)는 항상 현재 값을 유지한다.
+export const applyMerge = (current: AppState, incoming: AppState, diff: BackupDiff, selected: Set<string>): AppState => {
+  const next: AppState = { ...current };
+  const picked = diff.changes.filter(c => selected.has(c.key));
+
+  COLLECTIONS.forEach(collection => {
+    const incomingById = new Map((incoming[collection] as unknown as AnyRecord[]).map(r => [r.id, r]));
+    const mine = picked.filter(c => c.collection === collection);
+    const removeIds = new Set(mine.filter(c => c.kind === 'REMOVED').map(c => c.id));
+    const replaceIds = new Set(mine.filter(c => c.kind === 'CHANGED').map(c => c.id));
+    const addIds = new Set(mine.filter(c => c.kind === 'ADDED').map(c => c.id));
+
+    const merged = (current[collection] as unknown as AnyRecord[])
+      .filter(r => !removeIds.has(r.id))
+      .map(r => (replaceIds.has(r.id) ? incomingById.get(r.id)! : r));
+    // 추가 레코드는 백업 파일에서의 순서대로 뒤에 붙인다.
+    (incoming[collection] as unknown as AnyRecord[]).forEach(r => {
+      if (addIds.has(r.id)) merged.push(r);
+    });
+    (next as unknown as Record<CollectionKey, AnyRecord[]>)[collection] = merged;
+  });
+
+  // 문의함은 덮어쓰지 않고 현재 없는 메시지만 더한다.
+  const inboxIds = new Set(current.inbox.map(m => m.id));
+  next.inbox = [...current.inbox, ...incoming.inbox.filter(m => !inboxIds.has(m.id))]
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  // 고객사 연결 검토 목록도 합치되, 병합 결과에 남은 레코드를 가리키는 항목만 둔다.
+  const reviewKeys = new Set<string>();
+  next.clientReview = [...current.clientReview, ...incoming.clientReview]
+    .filter(m => !reviewKeys.has(matchKey(m)) && !!reviewKeys.add(matchKey(m)))
+    .filter(m => next.clients.some(c => c.id === m.clientId)
+      && (next[m.collection] as { id: string }[]).some(r => r.id === m.recordId));
+
+  const settingsPicked = picked.filter(c => c.collection === 'settings');
+  settingsPicked.forEach(c => {
+    const field = c.id as SettingsField;
+    (next as unknown as Record<SettingsField, unknown>)[field] = incoming[field];
+  });
+  if (settingsPicked.length > 0) next.settingsUpdatedAt = incoming.settingsUpdatedAt;
+
+  // REPLACE 모드에서 전체 선택된 경우 백업의 정렬 순서를 그대로 따른다.
+  COLLECTIONS.forEach(collection => {
+    const keys = diff.changes.filter(c => c.collection === collection).map(c => c.key);
+    if (keys.length > 0 && keys.every(k => selected.has(k))) {
+      (next as unknown as Record<CollectionKey, unknown>)[collection] = incoming[collection];
+    }
+  });
+
+  // 변경 이력은 양쪽 기록을 합친다 (같은 항목은 id로 중복 제거)
+  const seenAudit = new Set<string>();
+  next.auditLog = [...current.auditLog, ...incoming.auditLog]
+    .filter(entry => !seenAudit.has(entry.id) && !!seenAudit.add(entry.id))
+    .sort((a, b) => b.at.localeCompare(a.at));
+
+  return next;
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { client } from '../test/fixtures.ts';
+import { buildClientRegistry, clientName, createClientId, matchClient, nameSimilarity, normalizeClientName } from './clients.ts';
+
+describe('normalizeClientName', () => {
+  it('ignores case, punctuation and legal suffixes', () => {
+    expect(normalizeClientName('Le Labo, Inc.')).toBe('lelabo');
+    expect(normalizeClientName('(주)오드마인드')).toBe('오드마인드');
+    expect(normalizeClientName('ＡＥＳＯＰ Ltd')).toBe('aesop');
+  });
+});
+
+describe('nameSimilarity', () => {
+  it('is 1 for the same normalized name and lower for typos', () => {
+    expect(nameSimilarity('LE LABO', 'Le Labo Inc.')).toBe(1);
+    expect(nameSimilarity('Aesop', 'Aesopp')).toBeCloseTo(5 / 6);
+    expect(nameSimilarity('', 'Aesop')).toBe(0);
+  });
+});
+
+describe('matchClient', () => {
+  const clients = [client('CL-AESOP', 'Aesop'), client('CL-LE-LABO', 'Le Labo')];
+
+  it('returns the closest client above the threshold', () => {
+    expect(matchClient('LE-LABO co.', clients)).toEqual({ client: clients[1], score: 1 });
+    expect(matchClient('Le Laboo', clients)?.client.id).toBe('CL-LE-LABO');
+  });
+
+  it('returns null when nothing is close enough', () => {
+    expect(matchClient('Byredo', clients)).toBeNull();
+    expect(matchClient('Aes', clients)).toBeNull();
+  });
+});
+
+describe('createClientId', () => {
+  it('builds an ID from the name and suffixes it when taken', () => {
+    expect(createClientId('Le Labo', [])).toBe('CL-LE-LABO');
+    expect(createClientId('Le Labo', [client('CL-LE-LABO', 'x'), client('CL-LE-LABO-2', 'y')])).toBe('CL-LE-LABO-3');
+    expect(createClientId('!!!', [])).toBe('CL-CLIENT');
+  });
+});
+
+describe('clientName', () => {
+  it('is empty for a missing or unknown client', () => {
+    const clients = [client('CL-A', 'A')];
+    expect(clientName(clients, 'CL-A')).toBe('A');
+    expect(clientName(clients, 'CL-B')).toBe('');
+    expect(clientName(clients)).toBe('');
+  });
+});
+
+describe('buildClientRegistry', () => {
+  it('groups spellings of the same client and keeps the first spelling as the name', () => {
+    const { clients, matches } = buildClientRegistry([
+      { collection: 'archiveItems', recordId: 'A-1', name: 'Le Labo Inc.' },
+      { collection: 'projects', recordId: 'P-1', name: 'LE LABO' },
+      { collection: 'projects', recordId: 'P-2', name: 'Le Laboo' },
+      { collection: 'projects', recordId: 'P-3', name: ' -- ' }
+    ]);
+
+    expect(clients).toEqual([client('CL-LE-LABO-INC', 'Le Labo Inc.')]);
+    expect(matches.map(m => [m.recordId, m.clientId, m.source])).toEqual([
+      ['A-1', 'CL-LE-LABO-INC', 'Le Labo Inc.'],
+      ['P-1', 'CL-LE-LABO-INC', 'LE LABO'],
+      ['P-2', 'CL-LE-LABO-INC', 'Le Laboo']
+    ]);
+    expect(matches[1].score).toBe(1);
+    expect(matches[2].score).toBeLessThan(1);
+  });
+
+  it('links to existing clients before creating new ones', () => {
+    const existing = [client('CL-AESOP', 'Aesop')];
+    const { clients, matches } = buildClientRegistry([
+      { collection: 'projects', recordId: 'P-1', name: 'AESOP' },
+      { collection: 'projects', recordId: 'P-2', name: 'Byredo' }
+    ], existing);
+
+    expect(clients.map(c => c.id)).toEqual(['CL-AESOP', 'CL-BYREDO']);
+    expect(matches.map(m => m.clientId)).toEqual(['CL-AESOP', 'CL-BYREDO']);
+    expect(existing).toHaveLength(1);
+  });
+});
@@ -0,0 +1,90 @@
+import { Client, ClientMatch } from '../types.ts';
+
+// 고객사 레지스트리. 이름 비교는 대소문자·구두점·법인 표기를 무시하고, 오타 정도의 차이는 유사도로 묶는다.
+
+/** 이 값 이상이면 같은 고객사로 본다. */
+export const CLIENT_MATCH_THRESHOLD = 0.85;
+
+const LEGAL_SUFFIXES = /\b(co|corp|corporation|inc|incorporated|ltd|limited|llc|gmbh|company|pte|plc|sa)\b|\(주\)|㈜|주식회사/g;
+
+export const normalizeClientName = (name: string): string =>
+  name.normalize('NFKC').toLowerCase().replace(LEGAL_SUFFIXES, ' ').replace(/[^\p{L}\p{N}]+/gu, '');
+
+const levenshtein = (a: string, b: string): number => {
+  let row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i];
+    for (let j = 1; j <= b.length; j++) {
+      next[j] = Math.min(row[j] + 1, next[j - 1] + 1, row[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    row = next;
+  }
+  return row[b.length];
+};
+
+/** 0~1. 정규화한 이름이 같으면 1 */
+export const nameSimilarity = (a: string, b: string): number => {
+  const x = normalizeClientName(a);
+  const y = normalizeClientName(b);
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  return 1 - levenshtein(x, y) / Math.max(x.length, y.length);
+};
+
+/** 가장 비슷한 고객사. 기준 미만이면 null */
+export const matchClient = (name: string, clients: Client[]): { client: Client; score: number } | null => {
+  let best: { client: Client; score: number } | null = null;
+  for (const client of clients) {
+    const score = nameSimilarity(name, client.name);
+    if (score >= CLIENT_MATCH_THRESHOLD && (!best || score > best.score)) best = { client, score };
+  }
+  return best;
+};
+
+export const findClient = (clients: Client[], id?: string): Client | undefined =>
+  id ? clients.find(c => c.id === id) : undefined;
+
+export const clientName = (clients: Client[], id?: string): string =>
+  findClient(clients, id)?.name || '';
+
+// "Le Labo" -> CL-LE-LABO. 겹치면 -2, -3 ...
+export const createClientId = (name: string, clients: Client[]): string => {
+  const base = `CL-${name.normalize('NFKC').toUpperCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '') || 'CLIENT'}`;
+  const taken = new Set(clients.map(c => c.id));
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+  return id;
+};
+
+export const createClient = (name: string, clients: Client[]): Client => ({
+  id: createClientId(name, clients),
+  name: name.trim(),
+  sector: '',
+  region: '',
+  website: ''
+});
+
+export interface ClientSource {
+  collection: ClientMatch['collection'];
+  recordId: string;
+  name: string;
+}
+
+// 자유 입력 문자열 -> 고객사 목록과 연결 결과. 먼저 나온 표기가 고객사 이름이 되므로
+// 대소문자가 살아 있는 아카이브(company)를 대문자로 저장된 프로젝트(client)보다 앞에 넘긴다.
+export const buildClientRegistry = (sources: ClientSource[], existing: Client[] = []): { clients: Client[]; matches: ClientMatch[] } => {
+  const clients = [...existing];
+  const matches: ClientMatch[] = [];
+  for (const source of sources) {
+    const name = source.name.trim();
+    if (!normalizeClientName(name)) continue;
+    const found = matchClient(name, clients);
+    const client = found?.client || createClient(name, clients);
+    if (!found) clients.push(client);
+    matches.push({ collection: source.collection, recordId: source.recordId, source: name, clientId: client.id, score: found ? found.score : 1 });
+  }
+  return { clients, matches };
+};
+
+export const matchKey = (match: Pick<ClientMatch, 'collection' | 'recordId'>): string =>
+  `${match.collection}:${match.recordId}`;
@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ContactSettings } from '../types.ts';
+import { installMemoryStorage } from '../test/fixtures.ts';
+import { deleteAsset } from './assetStore.ts';
+import { siteConfigOf } from './siteConfig.ts';
+import { ContactSubmitError, DEFAULT_CONTACT_SETTINGS, createSubmission, deliverySettingsOf, flushOutbox, readLocalSubmissions, readOutbox, submitContact } from './contact.ts';
+
+// IndexedDB 대신 첨부를 돌려주고, 삭제는 호출 여부만 본다.
+vi.mock('./assetStore.ts', async importOriginal => ({
+  ...await importOriginal<typeof import('./assetStore.ts')>(),
+  getAsset: vi.fn().mockResolvedValue(new Blob(['pdf'], { type: 'application/pdf' })),
+  deleteAsset: vi.fn().mockResolvedValue(undefined)
+}));
+
+const SETTINGS: ContactSettings = { ...DEFAULT_CONTACT_SETTINGS, adapter: 'webhook', webhookUrl: 'https://hooks.example.com/contact' };
+const NOW = new Date('2024-05-01T00:00:00.000Z');
+
+const submission = () => createSubmission({ name: 'Kim', email: 'kim@example.com', subject: 'Branding', message: 'Hello' });
+const respond = (...statuses: number[]) => {
+  const fetchMock = vi.fn();
+  statuses.forEach(status => fetchMock.mockResolvedValueOnce(new Response(null, { status })));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+const delays = () => readOutbox().map(e => new Date(e.nextAttemptAt).getTime() - Date.now());
+
+beforeEach(() => {
+  installMemoryStorage();
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('deliverySettingsOf', () => {
+  it('sends mailto to the site email unless an address is set', () => {
+    const siteConfig = { ...siteConfigOf(), email: 'studio@example.com' };
+
+    expect(deliverySettingsOf(undefined).mailtoAddress).toBe(siteConfigOf().email);
+    expect(deliverySettingsOf({ ...DEFAULT_CONTACT_SETTINGS, mailtoAddress: ' ' }, siteConfig).mailtoAddress).toBe('studio@example.com');
+    expect(deliverySettingsOf({ ...DEFAULT_CONTACT_SETTINGS, mailtoAddress: 'inbox@example.com' }, siteConfig).mailtoAddress).toBe('inbox@example.com');
+  });
+});
+
+describe('submitContact', () => {
+  it('sends through the selected adapter', async () => {
+    const fetchMock = respond(200);
+
+    await expect(submitContact(submission(), SETTINGS)).resolves.toBe('SENT');
+    expect(fetchMock).toHaveBeenCalledWith('https://hooks.example.com/contact', expect.objectContaining({ method: 'POST' }));
+    expect(readOutbox()).toEqual([]);
+  });
+
+  it('queues retryable failures and throws the rest', async () => {
+    respond(503, 422);
+
+    await expect(submitContact(submission(), SETTINGS)).resolves.toBe('QUEUED');
+    await expect(submitContact(submission(), SETTINGS)).rejects.toEqual(new ContactSubmitError('HTTP_422', false));
+    await expect(submitContact(submission(), { ...SETTINGS, webhookUrl: ' ' })).rejects.toThrow('WEBHOOK_URL_MISSING');
+    expect(readOutbox().map(e => [e.attempts, e.lastError])).toEqual([[1, 'HTTP_503']]);
+  });
+
+  it('queues network errors', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+
+    await expect(submitContact(submission(), SETTINGS)).resolves.toBe('QUEUED');
+    expect(readOutbox()[0].lastError).toBe('NETWORK_UNREACHABLE');
+  });
+});
+
+describe('flushOutbox', () => {
+  it('doubles the retry delay from 30 seconds up to 30 minutes', async () => {
+    respond(503, ...Array(8).fill(503));
+    await submitContact(submission(), SETTINGS);
+    const seen = [delays()[0]];
+
+    for (let i = 0; i < 8; i++) {
+      await flushOutbox(SETTINGS, true);
+      seen.push(delays()[0]);
+    }
+
+    expect(seen.map(ms => ms / 1000)).toEqual([30, 60, 120, 240, 480, 960, 1800, 1800, 1800]);
+    expect(readOutbox()[0].attempts).toBe(9);
+  });
+
+  it('only retries entries that are due unless forced', async () => {
+    respond(503);
+    await submitContact(submission(), SETTINGS);
+    const fetchMock = respond(200);
+
+    await expect(flushOutbox(SETTINGS)).resolves.toBe(1);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(30 * 1000);
+    await expect(flushOutbox(SETTINGS)).resolves.toBe(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops entries that fail for good and keeps retrying the rest', async () => {
+    respond(503, 503);
+    const [a, b] = [submission(), submission()];
+    await submitContact(a, SETTINGS);
+    await submitContact(b, SETTINGS);
+    respond(422, 500);
+
+    await expect(flushOutbox(SETTINGS, true)).resolves.toBe(1);
+    expect(readOutbox().map(e => [e.submission.id, e.attempts, e.lastError])).toEqual([[b.id, 2, 'HTTP_500']]);
+  });
+
+  it('drops queued entries when the adapter is no longer configured', async () => {
+    respond(503);
+    await submitContact(submission(), SETTINGS);
+
+    await expect(flushOutbox({ ...SETTINGS, webhookUrl: '' }, true)).resolves.toBe(0);
+  });
+
+  it('deletes the stored attachments of dropped entries', async () => {
+    respond(503, 403);
+    const attachments = [{ name: 'brief.pdf', type: 'application/pdf', size: 3, data: 'asset:A-1' }];
+    // Formspree는 첨부를 multipart로 그대로 보낸다.
+    await submitContact({ ...submission(), attachments }, DEFAULT_CONTACT_SETTINGS);
+    await flushOutbox(DEFAULT_CONTACT_SETTINGS, true);
+
+    expect(readOutbox()).toEqual([]);
+    expect(deleteAsset).toHaveBeenCalledWith('asset:A-1');
+  });
+
+  it('hands the queue to the local inbox while the mailto adapter is selected', async () => {
+    respond(503);
+    const queued = submission();
+    await submitContact(queued, SETTINGS);
+
+    await expect(flushOutbox({ ...SETTINGS, adapter: 'mailto' }, true)).resolves.toBe(0);
+    expect(readLocalSubmissions()).toEqual([queued]);
+  });
+});
@@ -0,0 +1,265 @@
+import { ContactAdapterKind, ContactAttachment, ContactSettings, ContactSubmission, SiteConfig } from '../types.ts';
+import { blobToDataUrl, dataUrlToBlob, deleteAsset, getAsset, isAssetRef, putAsset } from './assetStore.ts';
+import { siteConfigOf } from './siteConfig.ts';
+
+// 문의 폼 전송. 전송 방식(어댑터)은 CMS에서 고르고, 일시적인 실패는 브라우저에 쌓아 두었다가 다시 보낸다.
+export const DEFAULT_CONTACT_SETTINGS: ContactSettings = {
+  adapter: 'formspree',
+  formspreeId: 'xbdlpppr',
+  webhookUrl: '',
+  // 비우면 사이트 설정의 이메일로 보낸다 (deliverySettingsOf).
+  mailtoAddress: '',
+  optionalFields: []
+};
+
+export const contactSettingsOf = (settings?: ContactSettings): ContactSettings =>
+  ({ ...DEFAULT_CONTACT_SETTINGS, ...settings });
+
+/** 전송에 쓸 설정. MAILTO 주소를 따로 정하지 않았으면 공개 화면에 표시되는 이메일로 보낸다. */
+export const deliverySettingsOf = (settings: ContactSettings | undefined, siteConfig?: SiteConfig): ContactSettings => {
+  const resolved = contactSettingsOf(settings);
+  return { ...resolved, mailtoAddress: resolved.mailtoAddress.trim() || siteConfigOf(siteConfig).email };
+};
+
+export class ContactSubmitError extends Error {
+  /** 네트워크 오류·5xx처럼 나중에 다시 보내면 성공할 수 있는 실패 */
+  readonly retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.name = 'ContactSubmitError';
+    this.retryable = retryable;
+  }
+}
+
+export interface ContactAdapter {
+  kind: ContactAdapterKind;
+  label: string;
+  send: (submission: ContactSubmission, settings: ContactSettings) => Promise<void>;
+}
+
+const post = async (url: string, body: BodyInit, headers: Record<string, string> = {}) => {
+  let response: Response;
+  try {
+    response = await fetch(url, { method: 'POST', headers: { 'Accept': 'application/json', ...headers }, body });
+  } catch (e) {
+    throw new ContactSubmitError('NETWORK_UNREACHABLE', true);
+  }
+  if (response.ok) return;
+  const retryable = response.status >= 500 || response.status === 429 || response.status === 408;
+  throw new ContactSubmitError(`HTTP_${response.status}`, retryable);
+};
+
+const postJson = (url: string, body: unknown) =>
+  post(url, JSON.stringify(body), { 'Content-Type': 'application/json' });
+
+// --- 첨부 파일 -----------------------------------------------------------------
+
+const attachmentBlob = async (file: ContactAttachment): Promise<Blob> => {
+  if (!isAssetRef(file.data)) return dataUrlToBlob(file.data);
+  const blob = await getAsset(file.data);
+  if (!blob) throw new ContactSubmitError('ATTACHMENT_MISSING', false);
+  return blob;
+};
+
+// JSON으로 보낼 때는 에셋 ID 대신 파일 내용을 담는다.
+const inlineAttachments = async (submission: ContactSubmission): Promise<ContactSubmission> =>
+  submission.attachments?.length
+    ? { ...submission, attachments: await Promise.all(submission.attachments.map(async file => ({ ...file, data: await blobToDataUrl(await attachmentBlob(file)) }))) }
+    : submission;
+
+/** 웹훅으로 받은 문의의 data URL 첨부를 에셋 저장소로 옮긴다. */
+export const storeAttachments = async (submission: ContactSubmission): Promise<ContactSubmission> =>
+  submission.attachments?.some(file => !isAssetRef(file.data))
+    ? { ...submission, attachments: await Promise.all(submission.attachments.map(async file => (isAssetRef(file.data) ? file : { ...file, data: await putAsset(await dataUrlToBlob(file.data)) }))) }
+    : submission;
+
+// 밖으로 보냈거나 버린 문의의 첨부는 이 브라우저에 남길 필요가 없다.
+// LOCAL_QUEUE는 CMS 문의함이 같은 에셋을 가리키므로 지우지 않는다.
+const releaseAttachments = (submission: ContactSubmission) => {
+  for (const file of submission.attachments || []) {
+    if (isAssetRef(file.data)) deleteAsset(file.data).catch(e => console.warn("SYSTEM: ATTACHMENT_CLEANUP_FAILED", e));
+  }
+};
+
+// Formspree는 파일을 multipart로만 받는다. 첨부가 없으면 JSON으로 보낸다.
+const postFormspree = async (url: string, { name, email, subject, message, budget, timeline, attachments }: ContactSubmission) => {
+  const fields = { name, email, subject, message, ...(budget ? { budget } : {}), ...(timeline ? { timeline } : {}) };
+  if (!attachments?.length) return postJson(url, fields);
+  const form = new FormData();
+  Object.entries(fields).forEach(([key, value]) => form.append(key, value));
+  for (const file of attachments) form.append('attachment', await attachmentBlob(file), file.name);
+  return post(url, form);
+};
+
+// 개발 서버(npm run dev)의 목 수신 엔드포인트. mock/contactServer.ts
+export const MOCK_WEBHOOK_URL = '/__mock/contact';
+
+/** 목 서버가 받은 문의 목록. 개발 서버가 아니면 빈 목록 */
+export const fetchMockSubmissions = async (): Promise<ContactSubmission[]> => {
+  try {
+    const response = await fetch(MOCK_WEBHOOK_URL, { headers: { 'Accept': 'application/json' } });
+    if (!response.ok) return [];
+    const data = await response.json();
+    return Array.isArray(data) ? data : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+// 개발·오프라인 테스트용: 이 브라우저의 localStorage에 보관한다.
+const LOCAL_INBOX_KEY = 'odemind_contact_local';
+
+export const readLocalSubmissions = (): ContactSubmission[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LOCAL_INBOX_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const clearLocalSubmissions = () => localStorage.removeItem(LOCAL_INBOX_KEY);
+
+export const CONTACT_ADAPTERS: ContactAdapter[] = [
+  {
+    kind: 'formspree',
+    label: 'FORMSPREE',
+    send: (submission, settings) => {
+      if (!settings.formspreeId.trim()) return Promise.reject(new ContactSubmitError('FORMSPREE_ID_MISSING', false));
+      return postFormspree(`https://formspree.io/f/${encodeURIComponent(settings.formspreeId.trim())}`, submission);
+    }
+  },
+  {
+    kind: 'webhook',
+    label: 'JSON_WEBHOOK',
+    send: (submission, settings) => {
+      if (!settings.webhookUrl.trim()) return Promise.reject(new ContactSubmitError('WEBHOOK_URL_MISSING', false));
+      return inlineAttachments(submission).then(body => postJson(settings.webhookUrl.trim(), body));
+    }
+  },
+  {
+    kind: 'mailto',
+    label: 'MAILTO',
+    // 방문자의 메일 앱을 여는 것까지만 보장된다. 실제 발송 여부는 알 수 없다.
+    // mailto 링크로는 파일을 넘길 수 없어 첨부는 이름만 본문에 남긴다.
+    send: async ({ name, email, subject, message, budget, timeline, attachments }, settings) => {
+      if (!settings.mailtoAddress.trim()) throw new ContactSubmitError('MAILTO_ADDRESS_MISSING', false);
+      const details = [
+        budget && `BUDGET: ${budget}`,
+        timeline && `TIMELINE: ${timeline}`,
+        attachments?.length && `ATTACHMENTS (NOT INCLUDED): ${attachments.map(a => a.name).join(', ')}`
+      ].filter(Boolean);
+      const params = new URLSearchParams({
+        subject: `[${subject.toUpperCase()}] ${name}`,
+        body: `${message}\n\n${details.length ? `${details.join('\n')}\n\n` : ''}--\n${name} <${email}>`
+      }).toString().replace(/\+/g, '%20');
+      window.location.href = `mailto:${settings.mailtoAddress.trim()}?${params}`;
+    }
+  },
+  {
+    kind: 'local',
+    label: 'LOCAL_QUEUE',
+    send: async (submission) => {
+      localStorage.setItem(LOCAL_INBOX_KEY, JSON.stringify([submission, ...readLocalSubmissions()]));
+    }
+  }
+];
+
+const adapterOf = (kind: ContactAdapterKind): ContactAdapter =>
+  CONTACT_ADAPTERS.find(a => a.kind === kind) || CONTACT_ADAPTERS[0];
+
+export const createSubmission = (fields: Omit<ContactSubmission, 'id' | 'createdAt'>): ContactSubmission => ({
+  id: `MSG-${crypto.randomUUID()}`,
+  createdAt: new Date().toISOString(),
+  ...fields
+});
+
+// --- 재전송 대기열 -----------------------------------------------------------
+
+const OUTBOX_KEY = 'odemind_contact_outbox';
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+
+export interface OutboxEntry {
+  submission: ContactSubmission;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError: string;
+}
+
+export const readOutbox = (): OutboxEntry[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(OUTBOX_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const writeOutbox = (entries: OutboxEntry[]) => {
+  if (entries.length === 0) localStorage.removeItem(OUTBOX_KEY);
+  else localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+};
+
+// 30초부터 두 배씩, 최대 30분 간격. 재시도할 수 있는 실패는 성공할 때까지 계속 시도한다.
+const nextAttempt = (attempts: number) =>
+  new Date(Date.now() + Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS)).toISOString();
+
+const enqueue = (submission: ContactSubmission, error: string) => {
+  writeOutbox([...readOutbox(), { submission, attempts: 1, nextAttemptAt: nextAttempt(1), lastError: error }]);
+};
+
+export type SubmitResult = 'SENT' | 'QUEUED';
+
+/** 재시도할 수 없는 실패(설정 누락, 4xx)는 ContactSubmitError로 던진다. */
+export const submitContact = async (submission: ContactSubmission, settings: ContactSettings): Promise<SubmitResult> => {
+  try {
+    await adapterOf(settings.adapter).send(submission, settings);
+    if (settings.adapter !== 'local') releaseAttachments(submission);
+    return 'SENT';
+  } catch (e) {
+    if (!(e instanceof ContactSubmitError) || !e.retryable) {
+      releaseAttachments(submission);
+      throw e;
+    }
+    enqueue(submission, e.message);
+    return 'QUEUED';
+  }
+};
+
+let flushing: Promise<number> | null = null;
+
+/**
+ * 재전송 시각이 된 항목을 현재 설정의 어댑터로 다시 보낸다. `force`면 대기 시간과 무관하게 모두 시도. 남은 개수를 돌려준다.
+ * 재시도할 수 없는 실패(설정 누락, 4xx)는 submitContact와 같이 버린다.
+ */
+export const flushOutbox = (settings: ContactSettings, force = false): Promise<number> => {
+  // 메일 앱은 방문자 동작 없이 열 수 없으므로 mailto일 때는 LOCAL_QUEUE로 넘겨 CMS 문의함에서 받게 한다.
+  const kind: ContactAdapterKind = settings.adapter === 'mailto' ? 'local' : settings.adapter;
+  if (!flushing) {
+    flushing = (async () => {
+      const now = Date.now();
+      for (const entry of readOutbox()) {
+        if (!force && new Date(entry.nextAttemptAt).getTime() > now) continue;
+        let outcome: OutboxEntry | null = null;
+        try {
+          await adapterOf(kind).send(entry.submission, settings);
+          if (kind !== 'local') releaseAttachments(entry.submission);
+        } catch (e) {
+          if (e instanceof ContactSubmitError && !e.retryable) {
+            console.warn("SYSTEM: CONTACT_OUTBOX_DROPPED", entry.submission.id, e.message);
+            releaseAttachments(entry.submission);
+          } else {
+            const attempts = entry.attempts + 1;
+            outcome = { ...entry, attempts, nextAttemptAt: nextAttempt(attempts), lastError: e instanceof Error ? e.message : 'UNKNOWN_ERROR' };
+          }
+        }
+        // 전송 중에 새 항목이 추가될 수 있으므로 매번 다시 읽어 해당 항목만 갱신한다.
+        writeOutbox(readOutbox().flatMap(e => (e.submission.id !== entry.submission.id ? [e] : outcome ? [outcome] : [])));
+      }
+      return readOutbox().length;
+    })().finally(() => { flushing = null; });
+  }
+  return flushing;
+};
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { installMemoryStorage } from '../test/fixtures.ts';
+import { ContactFormFields, isLikelyBot, rateLimitWait, recordAttempt, validateContactFields } from './contactGuard.ts';
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const T0 = Date.UTC(2024, 4, 1);
+
+let storage: Storage;
+
+beforeEach(() => {
+  storage = installMemoryStorage();
+});
+
+describe('isLikelyBot', () => {
+  it('flags a filled honeypot and forms sent within three seconds', () => {
+    expect(isLikelyBot('', T0, T0 + 3 * SECOND)).toBe(false);
+    expect(isLikelyBot('http://spam', T0, T0 + MINUTE)).toBe(true);
+    expect(isLikelyBot('', T0, T0 + 2999)).toBe(true);
+  });
+});
+
+describe('rateLimitWait', () => {
+  it('waits 30 seconds between attempts', () => {
+    expect(rateLimitWait(T0)).toBe(0);
+    recordAttempt(T0);
+
+    expect(rateLimitWait(T0 + 10 * SECOND)).toBe(20 * SECOND);
+    expect(rateLimitWait(T0 + 30 * SECOND)).toBe(0);
+  });
+
+  it('allows three attempts per ten minutes', () => {
+    recordAttempt(T0);
+    recordAttempt(T0 + MINUTE);
+    recordAttempt(T0 + 2 * MINUTE);
+
+    expect(rateLimitWait(T0 + 3 * MINUTE)).toBe(7 * MINUTE);
+    expect(rateLimitWait(T0 + 10 * MINUTE)).toBe(0);
+  });
+
+  it('ignores a corrupt attempt log', () => {
+    storage.setItem('odemind_contact_attempts', '{not json');
+    expect(rateLimitWait(T0)).toBe(0);
+
+    storage.setItem('odemind_contact_attempts', JSON.stringify({ at: T0 }));
+    expect(rateLimitWait(T0)).toBe(0);
+
+    storage.setItem('odemind_contact_attempts', JSON.stringify(['x', null, T0]));
+    expect(rateLimitWait(T0 + 10 * SECOND)).toBe(20 * SECOND);
+    recordAttempt(T0 + MINUTE);
+    expect(JSON.parse(storage.getItem('odemind_contact_attempts')!)).toEqual([T0, T0 + MINUTE]);
+  });
+});
+
+describe('validateContactFields', () => {
+  const file = (type: string, size: number) => new File([new Uint8Array(size)], 'brief', { type });
+  const fields = (patch: Partial<ContactFormFields> = {}): ContactFormFields =>
+    ({ name: 'Kim', email: 'kim@example.com', message: 'We need a new identity.', files: [], ...patch });
+
+  it('accepts a complete form', () => {
+    expect(validateContactFields(fields({ files: [file('image/png', 10), file('application/pdf', 10)] }))).toEqual({});
+  });
+
+  it('checks required fields, lengths and the email format', () => {
+    expect(validateContactFields(fields({ name: '', email: 'kim@', message: 'short' }))).toEqual({
+      name: 'contact.errorRequired',
+      email: 'contact.errorEmail',
+      message: 'contact.errorShort'
+    });
+    expect(validateContactFields(fields({ name: 'K'.repeat(101) }))).toEqual({ name: 'contact.errorLong' });
+  });
+
+  it('limits attachment count, total size and type', () => {
+    const small = file('image/jpeg', 1);
+    expect(validateContactFields(fields({ files: [small, small, small, small] }))).toEqual({ attachments: 'contact.errorFiles' });
+    expect(validateContactFields(fields({ files: [file('image/jpeg', 600 * 1024), file('image/jpeg', 600 * 1024)] }))).toEqual({ attachments: 'contact.errorFiles' });
+    expect(validateContactFields(fields({ files: [file('application/zip', 1)] }))).toEqual({ attachments: 'contact.errorFiles' });
+    expect(validateContactFields(fields({ files: [file('image/jpeg', 1024 * 1024)] }))).toEqual({});
+  });
+});
@@ -0,0 +1,112 @@
+import { ContactAttachment, ContactOptionalField, ContactSettings } from '../types.ts';
+import { UiKey } from './i18n.ts';
+import { putAsset } from './assetStore.ts';
+
+// 공개 문의 폼의 입력 검증과 스팸 방지 (허니팟, 작성 시간, 브라우저별 전송 횟수 제한).
+// 모두 클라이언트 측 장치라 수신 측(Formspree 등)의 필터를 대신하지는 못한다.
+
+/** Formspree가 기본으로 거르는 허니팟 필드 이름과 같다. */
+export const HONEYPOT_FIELD = '_gotcha';
+
+// 폼을 연 뒤 이보다 빨리 제출되면 사람이 아닌 것으로 본다.
+const MIN_FILL_MS = 3000;
+
+/** 봇으로 보이면 실제 전송 없이 성공 화면만 보여준다. 실패를 알려주면 우회 방법을 학습한다. */
+export const isLikelyBot = (honeypot: string, openedAt: number, now: number = Date.now()): boolean =>
+  honeypot !== '' || now - openedAt < MIN_FILL_MS;
+
+// --- 전송 횟수 제한 -------------------------------------------------------------
+
+const ATTEMPTS_KEY = 'odemind_contact_attempts';
+const RATE_WINDOW_MS = 10 * 60 * 1000;
+const RATE_MAX = 3;
+const RATE_MIN_GAP_MS = 30 * 1000;
+
+const readAttempts = (now: number): number[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(ATTEMPTS_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed.filter((t): t is number => typeof t === 'number' && now - t < RATE_WINDOW_MS) : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+/** 다음 전송까지 기다려야 하는 시간(ms). 0이면 바로 보낼 수 있다. 10분에 3건, 연속 전송은 30초 간격. */
+export const rateLimitWait = (now: number = Date.now()): number => {
+  const attempts = readAttempts(now).sort((a, b) => a - b);
+  if (attempts.length === 0) return 0;
+  const gap = attempts[attempts.length - 1] + RATE_MIN_GAP_MS - now;
+  const windowWait = attempts.length >= RATE_MAX ? attempts[attempts.length - RATE_MAX] + RATE_WINDOW_MS - now : 0;
+  return Math.max(gap, windowWait, 0);
+};
+
+export const recordAttempt = (now: number = Date.now()) => {
+  localStorage.setItem(ATTEMPTS_KEY, JSON.stringify([...readAttempts(now), now]));
+};
+
+// --- 입력 검증 ---------------------------------------------------------------
+
+export const NAME_LENGTH = { min: 2, max: 100 };
+export const MESSAGE_LENGTH = { min: 10, max: 5000 };
+
+// 문의는 CMS 상태(localStorage)에 그대로 저장되므로 첨부 용량을 작게 잡는다.
+export const ATTACHMENT_LIMITS = { count: 3, totalBytes: 1024 * 1024, accept: 'image/*,application/pdf' };
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export type ContactFieldName = 'name' | 'email' | 'message' | 'attachments';
+export type ContactFieldErrors = Partial<Record<ContactFieldName, UiKey>>;
+
+export interface ContactFormFields {
+  name: string;
+  email: string;
+  message: string;
+  files: File[];
+}
+
+const lengthError = (value: string, { min, max }: { min: number; max: number }): UiKey | undefined => {
+  if (!value) return 'contact.errorRequired';
+  if (value.length < min) return 'contact.errorShort';
+  if (value.length > max) return 'contact.errorLong';
+  return undefined;
+};
+
+const isAcceptedFile = (file: File) => file.type.startsWith('image/') || file.type === 'application/pdf';
+
+export const validateContactFields = (fields: ContactFormFields): ContactFieldErrors => {
+  const errors: ContactFieldErrors = {
+    name: lengthError(fields.name, NAME_LENGTH),
+    email: !fields.email ? 'contact.errorRequired' : EMAIL_PATTERN.test(fields.email) ? undefined : 'contact.errorEmail',
+    message: lengthError(fields.message, MESSAGE_LENGTH),
+    attachments: fields.files.length > ATTACHMENT_LIMITS.count
+      || fields.files.reduce((sum, f) => sum + f.size, 0) > ATTACHMENT_LIMITS.totalBytes
+      || !fields.files.every(isAcceptedFile)
+      ? 'contact.errorFiles' : undefined
+  };
+  return Object.fromEntries(Object.entries(errors).filter(([, v]) => v)) as ContactFieldErrors;
+};
+
+// 파일 내용은 에셋 저장소에 두고 문의에는 에셋 ID만 담는다 (재전송 대기열이 localStorage를 채우지 않도록).
+export const readAttachments = (files: File[]): Promise<ContactAttachment[]> =>
+  Promise.all(files.map(async file => ({ name: file.name, type: file.type, size: file.size, data: await putAsset(file) })));
+
+// --- 선택 입력 항목 ------------------------------------------------------------
+
+export const OPTIONAL_FIELDS: { field: ContactOptionalField; label: string }[] = [
+  { field: 'budget', label: 'BUDGET' },
+  { field: 'timeline', label: 'TIMELINE' },
+  { field: 'attachments', label: 'ATTACHMENTS' }
+];
+
+export const isFieldEnabled = (settings: ContactSettings, field: ContactOptionalField): boolean =>
+  (settings.optionalFields || []).includes(field);
+
+// 값은 언어와 무관하게 저장하고, 화면에는 번역된 라벨만 보여준다.
+export const BUDGET_OPTIONS = ['< 10M KRW', '10M-30M KRW', '30M-100M KRW', '100M+ KRW'];
+
+export const TIMELINE_OPTIONS: { value: string; label: UiKey }[] = [
+  { value: 'ASAP', label: 'contact.timelineAsap' },
+  { value: '1-3 MONTHS', label: 'contact.timelineShort' },
+  { value: '3-6 MONTHS', label: 'contact.timelineMid' },
+  { value: '6+ MONTHS', label: 'contact.timelineLong' }
+];
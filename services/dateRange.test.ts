@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { DateRange } from '../types.ts';
+import { compareDateRanges, formatDateRange, isDateRange, parseDateRange, rangeYears } from './dateRange.ts';
+
+describe('parseDateRange', () => {
+  it.each([
+    ['2019.03 - 2020.1', { start: '2019-03', end: '2020-01' }],
+    ['2019/3-2019/11', { start: '2019-03', end: '2019-11' }],
+    ['2018–2020', { start: '2018', end: '2020' }],
+    ['2018 — 2020', { start: '2018', end: '2020' }],
+    ['2020 - 2018', { start: '2018', end: '2020' }],
+    ['2019 - 2019', { start: '2019' }],
+    ['2019', { start: '2019' }],
+    ['2019.13', { start: '2019' }]
+  ] as [string, DateRange][])('reads %s', (text, range) => {
+    expect(parseDateRange(text)).toEqual(range);
+  });
+
+  it.each(['2015 - Present', '2015 - 현재', '2015.06 ~ ongoing', '2021 -', '2021~'])('reads %s as ongoing', text => {
+    expect(parseDateRange(text)).toMatchObject({ ongoing: true });
+    expect(parseDateRange(text)).not.toHaveProperty('end');
+  });
+
+  it('returns null for text without a year', () => {
+    expect(parseDateRange('')).toBeNull();
+    expect(parseDateRange('Spring season')).toBeNull();
+    expect(parseDateRange('19.03 - 20.01')).toBeNull();
+  });
+});
+
+describe('isDateRange', () => {
+  it('accepts unknown dates and rejects reversed or contradictory ranges', () => {
+    expect(isDateRange({ start: '' })).toBe(true);
+    expect(isDateRange({ start: '2019-03', end: '2020' })).toBe(true);
+    expect(isDateRange({ start: '2020', end: '2019' })).toBe(false);
+    expect(isDateRange({ start: '2019', end: '2020', ongoing: true })).toBe(false);
+    expect(isDateRange({ start: '2019-13' })).toBe(false);
+    expect(isDateRange('2019')).toBe(false);
+  });
+});
+
+describe('formatDateRange / rangeYears', () => {
+  it('formats stamps with dots and labels ongoing ranges', () => {
+    expect(formatDateRange({ start: '2019-03', end: '2020-01' })).toBe('2019.03 - 2020.01');
+    expect(formatDateRange({ start: '2015', ongoing: true }, '현재')).toBe('2015 - 현재');
+    expect(formatDateRange({ start: '' })).toBe('—');
+  });
+
+  it('extends ongoing ranges to the current year', () => {
+    const now = new Date('2024-06-01');
+    expect(rangeYears({ start: '2015', ongoing: true }, now)).toEqual({ from: 2015, to: 2024 });
+    expect(rangeYears({ start: '2019-03', end: '2020-01' }, now)).toEqual({ from: 2019, to: 2020 });
+    expect(rangeYears({ start: '' }, now)).toBeNull();
+  });
+});
+
+describe('compareDateRanges', () => {
+  it('sorts by start, then by end with ongoing last and unknown dates at the end', () => {
+    const ranges: DateRange[] = [
+      { start: '' },
+      { start: '2019', ongoing: true },
+      { start: '2019', end: '2021' },
+      { start: '2018-05' },
+      { start: '2019' }
+    ];
+
+    expect([...ranges].sort(compareDateRanges).map(r => formatDateRange(r))).toEqual([
+      '2018.05', '2019', '2019 - 2021', '2019 - PRESENT', '—'
+    ]);
+  });
+
+  it('treats two unknown dates as equal', () => {
+    expect(compareDateRanges({ start: '' }, { start: '' })).toBe(0);
+    expect(compareDateRanges({ start: '' }, { start: '2019' })).toBeGreaterThan(0);
+    expect(compareDateRanges({ start: '2019' }, { start: '' })).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,52 @@
+import { DateRange } from '../types.ts';
+
+// 아카이브 기간. 시점은 'YYYY' 또는 'YYYY-MM' 문자열이라 문자열 비교가 곧 시간 순서다.
+
+const STAMP_PATTERN = /^\d{4}(-(0[1-9]|1[0-2]))?$/;
+const ONGOING_PATTERN = /present|now|current|ongoing|today|현재|진행|至今|现在|現在|sekarang/i;
+
+export const isDateStamp = (value: string): boolean => STAMP_PATTERN.test(value);
+
+export const isDateRange = (value: unknown): value is DateRange => {
+  if (!value || typeof value !== 'object') return false;
+  const { start, end, ongoing } = value as Record<string, unknown>;
+  // start가 비어 있으면 날짜 미상 (v9 이전 문자열을 해석하지 못한 기록)
+  if (typeof start !== 'string' || (start !== '' && !isDateStamp(start))) return false;
+  if (end !== undefined && (typeof end !== 'string' || !isDateStamp(end) || end < start)) return false;
+  return ongoing === undefined || (typeof ongoing === 'boolean' && !(ongoing && end !== undefined));
+};
+
+/** 자유 입력 -> 기간: "2015 - Present", "2019", "2019.03 - 2020.1", "2018–2020", "2021 ~" ... 해석 못 하면 null */
+export const parseDateRange = (text: string): DateRange | null => {
+  const stamps = [...text.matchAll(/(\d{4})(?:\s*[./-]\s*(\d{1,2})(?!\d))?/g)]
+    .map(([, year, month]) => (month && Number(month) >= 1 && Number(month) <= 12 ? `${year}-${month.padStart(2, '0')}` : year));
+  if (stamps.length === 0) return null;
+  const [start, end] = stamps;
+  // 끝 날짜 없이 구분자로 끝나면("2021 -", "2021~") 진행 중으로 본다.
+  if (!end) return ONGOING_PATTERN.test(text) || /[-~–—]\s*$/.test(text) ? { start, ongoing: true } : { start };
+  return end < start ? { start: end, end: start } : end === start ? { start } : { start, end };
+};
+
+const formatStamp = (stamp: string) => stamp.replace('-', '.');
+
+/** "2015 - PRESENT", "2019.03 - 2020.01", "2019". 날짜 미상은 '—' */
+export const formatDateRange = (range: DateRange, presentLabel = 'PRESENT'): string => {
+  if (!range.start) return '—';
+  if (range.ongoing) return `${formatStamp(range.start)} - ${presentLabel}`;
+  return range.end ? `${formatStamp(range.start)} - ${formatStamp(range.end)}` : formatStamp(range.start);
+};
+
+/** 기간이 걸친 연도 범위. 진행 중이면 올해까지. 날짜 미상이면 null */
+export const rangeYears = (range: DateRange, now: Date = new Date()): { from: number; to: number } | null => {
+  if (!range.start) return null;
+  const from = Number(range.start.slice(0, 4));
+  const to = range.ongoing ? Math.max(now.getFullYear(), from) : Number((range.end || range.start).slice(0, 4));
+  return { from, to };
+};
+
+/** 시작 순, 같으면 먼저 끝난 순 (진행 중은 가장 늦게 끝난 것으로). 날짜 미상은 맨 뒤 */
+export const compareDateRanges = (a: DateRange, b: DateRange): number => {
+  if (!a.start || !b.start) return (a.start ? 0 : 1) - (b.start ? 0 : 1);
+  const endOf = (r: DateRange) => (r.ongoing ? '9999' : r.end || r.start);
+  return a.start.localeCompare(b.start) || endOf(a).localeCompare(endOf(b));
+};
@@ -0,0 +1,43 @@
+// 편집 중인 폼 내용은 레코드별로 localStorage에 계속 저장한다. (AppState/undo 히스토리와는 별개)
+const DRAFTS_KEY = 'odemind_form_drafts';
+
+export interface Draft<T> {
+  data: T;
+  savedAt: string;
+}
+
+type DraftMap = Record<string, Draft<unknown>>;
+
+const readAll = (): DraftMap => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(DRAFTS_KEY) || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+const writeAll = (drafts: DraftMap) => {
+  try {
+    if (Object.keys(drafts).length === 0) localStorage.removeItem(DRAFTS_KEY);
+    else localStorage.setItem(DRAFTS_KEY, JSON.stringify(drafts));
+  } catch (e) {
+    console.warn("SYSTEM: FAILED_TO_PERSIST_DRAFT", e);
+  }
+};
+
+/** 레코드 종류와 ID로 초안 키 생성. 새 레코드는 `<kind>:new` */
+export const draftKey = (kind: string, id?: string) => `${kind}:${id || 'new'}`;
+
+export const loadDraft = <T>(key: string): Draft<T> | null => (readAll()[key] as Draft<T>) || null;
+
+export const saveDraft = <T>(key: string, data: T) => {
+  writeAll({ ...readAll(), [key]: { data, savedAt: new Date().toISOString() } });
+};
+
+export const clearDraft = (key: string) => {
+  const drafts = readAll();
+  if (!(key in drafts)) return;
+  delete drafts[key];
+  writeAll(drafts);
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { embedPlayerUrl, parseEmbedUrl } from './embeds.ts';
+
+describe('parseEmbedUrl', () => {
+  it.each([
+    ['https://www.youtube.com/watch?v=dQw4w9WgXcQ', 'dQw4w9WgXcQ'],
+    ['https://www.youtube.com/watch?list=L1&v=dQw4w9WgXcQ', 'dQw4w9WgXcQ'],
+    ['https://youtu.be/dQw4w9WgXcQ?t=3', 'dQw4w9WgXcQ'],
+    ['https://www.youtube.com/shorts/dQw4w9WgXcQ', 'dQw4w9WgXcQ']
+  ])('reads the YouTube ID from %s', (url, id) => {
+    expect(parseEmbedUrl(url)).toEqual({ provider: 'youtube', id });
+  });
+
+  it('keeps the hash of unlisted Vimeo videos', () => {
+    expect(parseEmbedUrl('https://vimeo.com/76979871')).toEqual({ provider: 'vimeo', id: '76979871' });
+    expect(parseEmbedUrl('https://vimeo.com/76979871/8272103f6e')).toEqual({ provider: 'vimeo', id: '76979871', hash: '8272103f6e' });
+    expect(parseEmbedUrl('https://player.vimeo.com/video/76979871?h=8272103f6e')).toEqual({ provider: 'vimeo', id: '76979871', hash: '8272103f6e' });
+  });
+
+  it('rejects other URLs', () => {
+    expect(parseEmbedUrl('https://example.com/video.mp4')).toBeNull();
+  });
+});
+
+describe('embedPlayerUrl', () => {
+  it('mutes autoplaying players', () => {
+    expect(embedPlayerUrl({ provider: 'youtube', id: 'dQw4w9WgXcQ' }, true)).toBe('https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ?rel=0&playsinline=1&autoplay=1&mute=1');
+    expect(embedPlayerUrl({ provider: 'vimeo', id: '1', hash: 'ab' })).toBe('https://player.vimeo.com/video/1?dnt=1&h=ab');
+  });
+});
@@ -0,0 +1,45 @@
+// Vimeo / YouTube 페이지 URL을 플레이어 URL과 포스터 이미지로 변환한다.
+export type EmbedProvider = 'youtube' | 'vimeo';
+
+export interface EmbedRef {
+  provider: EmbedProvider;
+  id: string;
+  /** 비공개(unlisted) Vimeo 영상의 해시 */
+  hash?: string;
+}
+
+const YOUTUBE_PATTERN = /(?:youtube(?:-nocookie)?\.com\/(?:watch\?(?:.*&)?v=|embed\/|shorts\/|live\/)|youtu\.be\/)([\w-]{11})/;
+const VIMEO_PATTERN = /vimeo\.com\/(?:video\/|channels\/[\w-]+\/|groups\/[\w-]+\/videos\/)?(\d+)(?:\/([\da-f]+))?/;
+
+export const parseEmbedUrl = (url: string): EmbedRef | null => {
+  const youtube = url.match(YOUTUBE_PATTERN);
+  if (youtube) return { provider: 'youtube', id: youtube[1] };
+  const vimeo = url.match(VIMEO_PATTERN);
+  if (vimeo) {
+    const hash = vimeo[2] || new URL(url, 'https://vimeo.com').searchParams.get('h') || undefined;
+    return { provider: 'vimeo', id: vimeo[1], ...(hash ? { hash } : {}) };
+  }
+  return null;
+};
+
+// 자동 재생은 브라우저 정책상 음소거 상태에서만 허용된다.
+export const embedPlayerUrl = (ref: EmbedRef, autoplay = false): string => {
+  if (ref.provider === 'youtube') {
+    return `https://www.youtube-nocookie.com/embed/${ref.id}?rel=0&playsinline=1${autoplay ? '&autoplay=1&mute=1' : ''}`;
+  }
+  const hash = ref.hash ? `&h=${ref.hash}` : '';
+  return `https://player.vimeo.com/video/${ref.id}?dnt=1${hash}${autoplay ? '&autoplay=1&muted=1' : ''}`;
+};
+
+export const fetchEmbedPoster = async (ref: EmbedRef): Promise<string> => {
+  if (ref.provider === 'youtube') return `https://i.ytimg.com/vi/${ref.id}/hqdefault.jpg`;
+  try {
+    const page = `https://vimeo.com/${ref.id}${ref.hash ? `/${ref.hash}` : ''}`;
+    const response = await fetch(`https://vimeo.com/api/oembed.json?url=${encodeURIComponent(page)}&width=1280`);
+    if (!response.ok) return '';
+    const data = await response.json();
+    return typeof data.thumbnail_url === 'string' ? data.thumbnail_url : '';
+  } catch (e) {
+    return '';
+  }
+};
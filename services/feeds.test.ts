@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { appState, mediaItem, project } from '../test/fixtures.ts';
+import { FeedOptions, feedPath, renderFeed } from './feeds.ts';
+
+const OPTIONS: FeedOptions = {
+  siteUrl: 'https://example.com',
+  assets: new Map([['asset:abc', { path: 'media/abc.jpg', type: 'image/jpeg', size: 2048 }]])
+};
+
+const STATE = appState({
+  siteTitle: 'ODEMIND & CO',
+  projects: [
+    project('P-OLD', { date: '2020-01-01' }),
+    project('P-NEW', { title: 'Shop <New> & "More"', date: '2024-03-01', media: [mediaItem('asset:abc')], updatedAt: '2024-03-05T09:00:00.000Z' }),
+    project('P-FILM', { category: 'FILM', tags: ['Motion & Sound'], date: '2022-06-01', media: [mediaItem('https://youtu.be/x', { kind: 'embed', poster: 'https://img/p.png' })] })
+  ]
+});
+
+const jsonItems = (state = STATE, options = OPTIONS) => JSON.parse(renderFeed('json', state, options)).items;
+
+describe('feedPath', () => {
+  it('places category feeds in their own folder', () => {
+    expect(feedPath('rss')).toBe('feed/rss.xml');
+    expect(feedPath('atom', 'PERFORMING_ARTS')).toBe('feed/performing-arts/atom.xml');
+  });
+});
+
+describe('renderFeed', () => {
+  it('lists projects newest first with their dates', () => {
+    const items = jsonItems();
+
+    expect(items.map((i: { id: string }) => i.id)).toEqual([
+      'https://example.com/project/P-NEW/', 'https://example.com/project/P-FILM/', 'https://example.com/project/P-OLD/'
+    ]);
+    expect(items[0]).toMatchObject({ date_published: '2024-03-01T00:00:00.000Z', date_modified: '2024-03-05T09:00:00.000Z' });
+    expect(items[0].attachments).toEqual([{ url: 'https://example.com/media/abc.jpg', mime_type: 'image/jpeg', size_in_bytes: 2048 }]);
+    expect(items[1].attachments).toEqual([{ url: 'https://img/p.png', mime_type: 'image/png' }]);
+  });
+
+  it('keeps only the newest 50 projects', () => {
+    const many = appState({ projects: Array.from({ length: 51 }, (_, i) => project(`P-${i}`, { date: `${2000 + i}-01-01` })) });
+    const items = jsonItems(many);
+
+    expect(items).toHaveLength(50);
+    expect(items[49].id).toBe('https://example.com/project/P-1/');
+  });
+
+  it('filters by category and points self links at the category feed', () => {
+    const options = { ...OPTIONS, category: 'FILM' };
+    const rss = renderFeed('rss', STATE, options);
+
+    expect(jsonItems(STATE, options).map((i: { tags: string[] }) => i.tags)).toEqual([['Film', 'Motion & Sound']]);
+    expect(rss).toContain('<title>ODEMIND &amp; CO / Film</title>');
+    expect(rss).toContain('<category>Motion &amp; Sound</category>');
+    expect(rss).toContain('<atom:link href="https://example.com/feed/film/rss.xml" rel="self" type="application/rss+xml"/>');
+  });
+
+  it('escapes record text in RSS and Atom', () => {
+    const rss = renderFeed('rss', STATE, OPTIONS);
+    const atom = renderFeed('atom', STATE, OPTIONS);
+
+    expect(rss).toContain('<title>Shop &lt;New&gt; &amp; &quot;More&quot;</title>');
+    expect(rss).toContain('<enclosure url="https://example.com/media/abc.jpg" length="2048" type="image/jpeg"/>');
+    expect(atom).toContain('<title>Shop &lt;New&gt; &amp; &quot;More&quot;</title>');
+    expect(atom).toContain('<updated>2024-03-05T09:00:00.000Z</updated>');
+    expect(atom).not.toContain('<New>');
+  });
+});
@@ -0,0 +1,203 @@
+import { AppState, Project, MediaItem } from '../types.ts';
+import { routePath } from './router.ts';
+import { mediaPoster } from './imageAsset.ts';
+import { ASSET_PREFIX, StaticAsset } from './assetStore.ts';
+import { categoryLabel, categorySlug } from './taxonomy.ts';
+
+// 프로젝트 발행 알림용 피드 (RSS 2.0 / Atom / JSON Feed 1.1). 링크는 정적 빌드의 페이지 경로를 가리킨다.
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export const FEED_FORMATS: { format: FeedFormat; label: string; mimeType: string; fileName: string }[] = [
+  { format: 'rss', label: 'RSS 2.0', mimeType: 'application/rss+xml', fileName: 'rss.xml' },
+  { format: 'atom', label: 'ATOM', mimeType: 'application/atom+xml', fileName: 'atom.xml' },
+  { format: 'json', label: 'JSON FEED', mimeType: 'application/feed+json', fileName: 'feed.json' }
+];
+
+const FEED_LIMIT = 50;
+
+export interface FeedOptions {
+  /** 배포 주소 (예: https://odemind.co.kr) */
+  siteUrl: string;
+  /** 에셋 ID -> 정적 파일 */
+  assets: Map<string, StaticAsset>;
+  /** 카테고리(CategoryTerm.id)별 피드. 없으면 전체 */
+  category?: string;
+}
+
+interface FeedEnclosure {
+  url: string;
+  type: string;
+  size: number;
+}
+
+interface FeedEntry {
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  /** 분야 이름 + 태그 */
+  categories: string[];
+  published: string;
+  updated: string;
+  image?: FeedEnclosure;
+  attachments: FeedEnclosure[];
+}
+
+interface Feed {
+  title: string;
+  author: string;
+  description: string;
+  homeUrl: string;
+  feedUrl: (format: FeedFormat) => string;
+  updated: string;
+  entries: FeedEntry[];
+}
+
+/** 사이트 루트 기준 피드 경로: feed/rss.xml, feed/film/atom.xml ... */
+export const feedPath = (format: FeedFormat, category?: string): string =>
+  `feed/${category ? `${categorySlug(category)}/` : ''}${FEED_FORMATS.find(f => f.format === format)!.fileName}`;
+
+const escapeXml = (value: string): string =>
+  value.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&apos;' }[ch]!));
+
+const EXTENSION_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg', jpeg: 'image/jpeg', png: 'image/png', gif: 'image/gif', webp: 'image/webp', avif: 'image/avif',
+  mp4: 'video/mp4', webm: 'video/webm', mov: 'video/quicktime'
+};
+
+// 프로젝트 date(YYYY-MM-DD)는 시각이 없으므로 UTC 자정으로 본다.
+const toTimestamp = (date: string): string => {
+  const parsed = new Date(/^\d{4}-\d{2}-\d{2}$/.test(date) ? `${date}T00:00:00Z` : date);
+  return Number.isNaN(parsed.getTime()) ? new Date(0).toISOString() : parsed.toISOString();
+};
+
+const buildFeed = (state: AppState, options: FeedOptions): Feed => {
+  const base = new URL(options.siteUrl.replace(/\/?$/, '/'));
+  const absolute = (path: string) => new URL(path, base).href;
+
+  const enclosure = (ref: string): FeedEnclosure | undefined => {
+    if (ref.startsWith(ASSET_PREFIX)) {
+      const asset = options.assets.get(ref);
+      return asset && { url: absolute(asset.path), type: asset.type, size: asset.size };
+    }
+    const ext = ref.split(/[?#]/)[0].split('.').pop()?.toLowerCase() || '';
+    return { url: absolute(ref), type: EXTENSION_TYPES[ext] || 'image/jpeg', size: 0 };
+  };
+  const mediaEnclosures = (item: MediaItem): (FeedEnclosure | undefined)[] =>
+    item.kind === 'embed' ? [item.poster ? enclosure(item.poster) : undefined] : [enclosure(item.src)];
+
+  const projects = state.projects
+    .filter(p => !options.category || p.category === options.category)
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, FEED_LIMIT);
+
+  const entries = projects.map((project: Project): FeedEntry => {
+    const url = absolute(routePath({ name: 'PROJECT', projectId: project.id }).slice(1));
+    const cover = project.media.map(mediaPoster).find(Boolean);
+    const published = toTimestamp(project.date);
+    return {
+      id: url,
+      url,
+      title: project.title,
+      summary: project.description,
+      categories: [categoryLabel(state.categories, project.category), ...project.tags],
+      published,
+      updated: project.updatedAt || published,
+      image: cover ? enclosure(cover) : undefined,
+      attachments: project.media.flatMap(mediaEnclosures).filter((e): e is FeedEnclosure => !!e)
+    };
+  });
+
+  const scope = options.category ? ` / ${categoryLabel(state.categories, options.category)}` : '';
+  return {
+    title: `${state.siteTitle}${scope}`,
+    author: state.siteTitle,
+    description: state.tagline,
+    homeUrl: base.href,
+    feedUrl: format => absolute(feedPath(format, options.category)),
+    updated: entries.map(e => e.updated).sort().pop() || new Date(0).toISOString(),
+    entries
+  };
+};
+
+const renderRss = (feed: Feed): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+  '<channel>',
+  `  <title>${escapeXml(feed.title)}</title>`,
+  `  <link>${escapeXml(feed.homeUrl)}</link>`,
+  `  <description>${escapeXml(feed.description)}</description>`,
+  '  <language>en</language>',
+  `  <lastBuildDate>${new Date(feed.updated).toUTCString()}</lastBuildDate>`,
+  `  <atom:link href="${escapeXml(feed.feedUrl('rss'))}" rel="self" type="application/rss+xml"/>`,
+  ...feed.entries.map(entry => [
+    '  <item>',
+    `    <title>${escapeXml(entry.title)}</title>`,
+    `    <link>${escapeXml(entry.url)}</link>`,
+    `    <guid isPermaLink="true">${escapeXml(entry.id)}</guid>`,
+    `    <description>${escapeXml(entry.summary)}</description>`,
+    ...entry.categories.map(c => `    <category>${escapeXml(c)}</category>`),
+    `    <pubDate>${new Date(entry.published).toUTCString()}</pubDate>`,
+    // RSS 2.0은 항목당 enclosure 하나만 허용하므로 커버 이미지만 싣는다.
+    ...(entry.image ? [`    <enclosure url="${escapeXml(entry.image.url)}" length="${entry.image.size}" type="${entry.image.type}"/>`] : []),
+    '  </item>'
+  ].join('\n')),
+  '</channel>',
+  '</rss>',
+  ''
+].join('\n');
+
+const renderAtom = (feed: Feed): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en">',
+  `  <id>${escapeXml(feed.feedUrl('atom'))}</id>`,
+  `  <title>${escapeXml(feed.title)}</title>`,
+  `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+  `  <updated>${feed.updated}</updated>`,
+  `  <link rel="alternate" type="text/html" href="${escapeXml(feed.homeUrl)}"/>`,
+  `  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.feedUrl('atom'))}"/>`,
+  `  <author><name>${escapeXml(feed.author)}</name></author>`,
+  ...feed.entries.map(entry => [
+    '  <entry>',
+    `    <id>${escapeXml(entry.id)}</id>`,
+    `    <title>${escapeXml(entry.title)}</title>`,
+    `    <link rel="alternate" type="text/html" href="${escapeXml(entry.url)}"/>`,
+    `    <published>${entry.published}</published>`,
+    `    <updated>${entry.updated}</updated>`,
+    `    <summary>${escapeXml(entry.summary)}</summary>`,
+    ...entry.categories.map(c => `    <category term="${escapeXml(c)}"/>`),
+    ...entry.attachments.map(a => `    <link rel="enclosure" type="${a.type}" href="${escapeXml(a.url)}"${a.size ? ` length="${a.size}"` : ''}/>`),
+    '  </entry>'
+  ].join('\n')),
+  '</feed>',
+  ''
+].join('\n');
+
+const renderJsonFeed = (feed: Feed): string => JSON.stringify({
+  version: 'https://jsonfeed.org/version/1.1',
+  title: feed.title,
+  home_page_url: feed.homeUrl,
+  feed_url: feed.feedUrl('json'),
+  description: feed.description,
+  language: 'en',
+  items: feed.entries.map(entry => ({
+    id: entry.id,
+    url: entry.url,
+    title: entry.title,
+    content_text: entry.summary,
+    date_published: entry.published,
+    date_modified: entry.updated,
+    tags: entry.categories,
+    ...(entry.image ? { image: entry.image.url } : {}),
+    ...(entry.attachments.length > 0 ? {
+      attachments: entry.attachments.map(a => ({ url: a.url, mime_type: a.type, ...(a.size ? { size_in_bytes: a.size } : {}) }))
+    } : {})
+  }))
+}, null, 2);
+
+export const renderFeed = (format: FeedFormat, state: AppState, options: FeedOptions): string => {
+  const feed = buildFeed(state, options);
+  if (format === 'rss') return renderRss(feed);
+  if (format === 'atom') return renderAtom(feed);
+  return renderJsonFeed(feed);
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { Service } from '../types.ts';
+import { service } from '../test/fixtures.ts';
+import { detectLocale, hasTranslation, localize, localizeTagline, setTranslation, translate } from './i18n.ts';
+
+describe('detectLocale', () => {
+  it.each([
+    [['zh-TW'], 'zh-Hant'],
+    [['zh-Hant-HK'], 'zh-Hant'],
+    [['zh-CN'], 'zh-Hans'],
+    [['in-ID'], 'id'],
+    [['fr-FR', 'ko-KR'], 'ko'],
+    [['fr-FR'], 'en']
+  ])('maps %j to %s', (languages, locale) => {
+    expect(detectLocale(languages)).toBe(locale);
+  });
+});
+
+describe('localize', () => {
+  const record: Service = service('S-1', { title: 'Branding', translations: { ko: { title: '브랜딩', description: '  ' } } });
+
+  it('falls back to English for missing or blank translations', () => {
+    expect(localize(record, 'title', 'ko')).toBe('브랜딩');
+    expect(localize(record, 'description', 'ko')).toBe('');
+    expect(localize(record, 'title', 'id')).toBe('Branding');
+    expect(localize(record, 'title', 'en')).toBe('Branding');
+  });
+
+  it('falls back to the English tagline', () => {
+    expect(localizeTagline({ tagline: 'HELLO', taglineTranslations: { ko: '안녕' } }, 'ko')).toBe('안녕');
+    expect(localizeTagline({ tagline: 'HELLO', taglineTranslations: { ko: ' ' } }, 'ko')).toBe('HELLO');
+  });
+});
+
+describe('setTranslation', () => {
+  it('removes blank values and empty locales', () => {
+    const withTitle = setTranslation<'title' | 'description'>(undefined, 'ko', 'title', '브랜딩');
+    expect(withTitle).toEqual({ ko: { title: '브랜딩' } });
+    expect(hasTranslation(withTitle, 'ko', ['title'])).toBe(true);
+    expect(hasTranslation(withTitle, 'ko', ['title', 'description'])).toBe(false);
+    expect(setTranslation(withTitle, 'ko', 'title', '  ')).toEqual({});
+  });
+});
+
+describe('translate', () => {
+  it('falls back to the English UI string', () => {
+    expect(translate('ko', 'nav.contact')).toBe('[ 문의 ]');
+    expect(translate('en', 'nav.contact')).toBe('[ CONTACT ]');
+  });
+});
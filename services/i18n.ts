@@ -0,0 +1,527 @@
+import { AppState, Locale, TranslationLocale, Translations } from '../types.ts';
+
+// 공개 화면 다국어 처리. 콘텐츠 번역은 레코드의 translations에, UI 문구는 아래 사전에 둔다.
+// 번역이 없으면 항상 영어(원문)로 대체한다.
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const LOCALES: { code: Locale; label: string; name: string }[] = [
+  { code: 'en', label: 'EN', name: 'English' },
+  { code: 'ko', label: 'KO', name: '한국어' },
+  { code: 'zh-Hant', label: '繁', name: '繁體中文' },
+  { code: 'zh-Hans', label: '简', name: '简体中文' },
+  { code: 'id', label: 'ID', name: 'Bahasa Indonesia' }
+];
+
+export const TRANSLATION_LOCALES = LOCALES.map(l => l.code).filter((c): c is TranslationLocale => c !== DEFAULT_LOCALE);
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.code === value);
+
+// 브라우저 언어로 초기 언어 추정 (zh-TW/HK/MO는 번체, 그 외 zh는 간체)
+export const detectLocale = (languages: readonly string[] = navigator.languages || [navigator.language]): Locale => {
+  for (const lang of languages) {
+    const lower = lang.toLowerCase();
+    if (lower.startsWith('zh')) return /hant|tw|hk|mo/.test(lower) ? 'zh-Hant' : 'zh-Hans';
+    if (lower.startsWith('ko')) return 'ko';
+    if (lower.startsWith('id') || lower.startsWith('in')) return 'id';
+    if (lower.startsWith('en')) return 'en';
+  }
+  return DEFAULT_LOCALE;
+};
+
+// --- 콘텐츠 번역 -----------------------------------------------------------
+
+type Translatable<K extends string> = Record<K, string> & { translations?: Translations<K> };
+
+export const localize = <K extends string>(record: Translatable<K>, field: K, locale: Locale): string => {
+  if (locale === DEFAULT_LOCALE) return record[field];
+  return record.translations?.[locale]?.[field]?.trim() || record[field];
+};
+
+// 빈 문자열은 저장하지 않아 자동으로 영어 대체가 되도록 한다.
+export const setTranslation = <K extends string>(
+  translations: Translations<K> | undefined, locale: TranslationLocale, field: K, value: string
+): Translations<K> => {
+  const forLocale: Partial<Record<K, string>> = { ...translations?.[locale] };
+  if (value.trim()) forLocale[field] = value;
+  else delete forLocale[field];
+  const next: Translations<K> = { ...translations };
+  if (Object.keys(forLocale).length > 0) next[locale] = forLocale;
+  else delete next[locale];
+  return next;
+};
+
+export const localizeTagline = (state: Pick<AppState, 'tagline' | 'taglineTranslations'>, locale: Locale): string =>
+  (locale !== DEFAULT_LOCALE && state.taglineTranslations?.[locale]?.trim()) || state.tagline;
+
+export const hasTranslation = <K extends string>(translations: Translations<K> | undefined, locale: TranslationLocale, fields: K[]): boolean =>
+  fields.every(field => !!translations?.[locale]?.[field]?.trim());
+
+// --- UI 문구 ----------------------------------------------------------------
+
+const EN = {
+  'nav.content': '[ CONTENT ]',
+  'nav.services': '[ SERVICES ]',
+  'nav.contact': '[ CONTACT ]',
+  'nav.language': 'LANG',
+  'nav.theme': 'THEME',
+  'home.access': '[ ACCESS_DATABASE ]',
+  'home.recent': 'RECENT_TRANSMISSIONS',
+  'home.history': 'TRANSMISSION_HISTORY_LOG',
+  'archive.year': 'YEAR_STAMP',
+  'archive.company': 'COMPANY_ID',
+  'archive.type': 'TYPE_CAT',
+  'archive.project': 'PROJECT_REF',
+  'archive.present': 'PRESENT',
+  'archive.undated': 'UNDATED',
+  'archive.groupByYear': '[GROUP_BY_YEAR]',
+  'archive.sort': 'SORT:',
+  'archive.sortCurated': 'CURATED',
+  'archive.empty': '--- NO_MATCHING_LOGS ---',
+  'content.title': 'CONTENT_DATABASE',
+  'content.subtitle': 'ACCESSING ARCHIVE NODES...',
+  'content.all': 'ALL',
+  'content.search': 'QUERY: TITLE / CLIENT / DESC',
+  'content.year': 'YEAR:',
+  'content.from': 'FROM',
+  'content.to': 'TO',
+  'content.sortCurated': 'SORT: CURATED',
+  'content.sortDateDesc': 'SORT: DATE ↓',
+  'content.sortDateAsc': 'SORT: DATE ↑',
+  'content.sortTitleAsc': 'SORT: TITLE A-Z',
+  'content.sortTitleDesc': 'SORT: TITLE Z-A',
+  'content.match': 'MATCH:',
+  'content.reset': '[ RESET ]',
+  'content.empty': '--- NO_MATCHING_RECORDS ---',
+  'content.tags': 'TAGS:',
+  'services.empty': '--- NO_SERVICE_NODES ---',
+  'contact.email': 'EMAIL_GATEWAY',
+  'contact.coordinates': 'COORDINATES',
+  'contact.phone': 'VOICE_LINE',
+  'contact.terminal': 'INPUT_TERMINAL_V2',
+  'contact.name': 'USER_IDENT',
+  'contact.replyTo': 'RETURN_ADDR',
+  'contact.type': 'TYPE:',
+  'contact.message': 'DESC_PARAMS...',
+  'contact.submit': '[ TRANSMIT_LOG ]',
+  'contact.submitting': '[ TRANSMITTING... ]',
+  'contact.error': 'ERROR: TRANSMISSION_FAILED',
+  'contact.success': 'SUCCESS',
+  'contact.successLine': 'DATA_TRANSMITTED_SUCCESSFULLY',
+  'contact.successBody': 'YOUR LOG HAS BEEN SECURELY RECORDED IN OUR SYSTEMS. A RESPONSE WILL BE INITIATED SHORTLY.',
+  'contact.returnHome': '[ RETURN_TO_HOME ]',
+  'contact.queued': 'QUEUED',
+  'contact.queuedLine': 'GATEWAY_UNREACHABLE // LOG_STORED_LOCALLY',
+  'contact.queuedBody': 'YOUR MESSAGE IS SAVED IN THIS BROWSER AND WILL BE RETRANSMITTED AUTOMATICALLY.',
+  'contact.pending': 'AWAITING_RETRANSMISSION:',
+  'contact.subject': 'SUBJECT',
+  'contact.budget': 'BUDGET:',
+  'contact.timeline': 'TIMELINE:',
+  'contact.attachments': 'ATTACH: IMAGE / PDF (MAX 3, 1MB)',
+  'contact.unspecified': 'NOT_SPECIFIED',
+  'contact.errorRequired': 'REQUIRED_FIELD',
+  'contact.errorEmail': 'INVALID_ADDRESS_FORMAT',
+  'contact.errorShort': 'INPUT_TOO_SHORT',
+  'contact.errorLong': 'INPUT_TOO_LONG',
+  'contact.errorFiles': 'ATTACHMENT_REJECTED: MAX 3 FILES / 1MB / IMAGE OR PDF',
+  'contact.rateLimited': 'RATE_LIMITED // RETRY IN (SEC):',
+  'contact.timelineAsap': 'ASAP',
+  'contact.timelineShort': '1-3 MONTHS',
+  'contact.timelineMid': '3-6 MONTHS',
+  'contact.timelineLong': '6+ MONTHS',
+  'footer.inquiry': 'DIRECT_INQUIRY',
+  'footer.social': 'SOCIAL_NODES',
+  'card.client': 'CLIENT_ID:',
+  'detail.back': '<- [ CONTENT_DATABASE ]',
+  'detail.record': 'RECORD',
+  'detail.spec': 'PROJECT_SPEC_SHEET',
+  'detail.description': 'DESC_BLOCK:',
+  'detail.prev': '<- PREV_RECORD',
+  'detail.next': 'NEXT_RECORD ->',
+  'detail.notFound': 'RECORD_NOT_FOUND:',
+  'detail.return': '[ RETURN_TO_DATABASE ]',
+  'client.profile': 'CLIENT_PROFILE',
+  'client.sector': 'SECTOR',
+  'client.region': 'REGION',
+  'client.website': 'WEBSITE',
+  'client.projects': 'PROJECTS',
+  'client.archive': 'ARCHIVE_LOGS',
+  'client.empty': '--- NO_RECORDS ---',
+  'client.notFound': 'CLIENT_NOT_FOUND:',
+  'client.open': '[ CLIENT_PROFILE -> ]'
+};
+
+export type UiKey = keyof typeof EN;
+
+const UI_STRINGS: Record<TranslationLocale, Partial<Record<UiKey, string>>> = {
+  ko: {
+    'nav.content': '[ 콘텐츠 ]',
+    'nav.services': '[ 서비스 ]',
+    'nav.contact': '[ 문의 ]',
+    'nav.language': '언어',
+    'nav.theme': '테마',
+    'home.access': '[ 데이터베이스 열람 ]',
+    'home.recent': '최근 프로젝트',
+    'home.history': '협업 이력',
+    'archive.year': '연도',
+    'archive.company': '클라이언트',
+    'archive.type': '분야',
+    'archive.project': '프로젝트',
+    'archive.present': '현재',
+    'archive.undated': '날짜 미상',
+    'archive.groupByYear': '[연도별 보기]',
+    'archive.sort': '정렬:',
+    'archive.sortCurated': '기본',
+    'archive.empty': '--- 조건에 맞는 기록이 없습니다 ---',
+    'content.title': '콘텐츠 데이터베이스',
+    'content.subtitle': '아카이브를 불러오는 중...',
+    'content.all': '전체',
+    'content.search': '검색: 제목 / 클라이언트 / 설명',
+    'content.year': '연도:',
+    'content.from': '시작',
+    'content.to': '끝',
+    'content.sortCurated': '정렬: 추천순',
+    'content.sortDateDesc': '정렬: 최신순',
+    'content.sortDateAsc': '정렬: 오래된순',
+    'content.sortTitleAsc': '정렬: 제목 오름차순',
+    'content.sortTitleDesc': '정렬: 제목 내림차순',
+    'content.match': '결과:',
+    'content.reset': '[ 초기화 ]',
+    'content.empty': '--- 일치하는 프로젝트가 없습니다 ---',
+    'content.tags': '태그:',
+    'services.empty': '--- 등록된 서비스가 없습니다 ---',
+    'contact.email': '이메일',
+    'contact.coordinates': '위치',
+    'contact.phone': '전화',
+    'contact.terminal': '문의 입력',
+    'contact.name': '이름',
+    'contact.replyTo': '회신 이메일',
+    'contact.type': '분야:',
+    'contact.message': '문의 내용...',
+    'contact.submit': '[ 보내기 ]',
+    'contact.submitting': '[ 전송 중... ]',
+    'contact.error': '오류: 전송에 실패했습니다',
+    'contact.success': '전송 완료',
+    'contact.successLine': '문의가 정상적으로 접수되었습니다',
+    'contact.successBody': '확인 후 빠르게 회신드리겠습니다.',
+    'contact.returnHome': '[ 홈으로 ]',
+    'contact.queued': '전송 대기',
+    'contact.queuedLine': '서버에 연결할 수 없어 임시 저장했습니다',
+    'contact.queuedBody': '문의 내용은 이 브라우저에 보관되며 연결되는 대로 자동으로 다시 전송됩니다.',
+    'contact.pending': '재전송 대기:',
+    'contact.subject': '분야',
+    'contact.budget': '예산:',
+    'contact.timeline': '일정:',
+    'contact.attachments': '첨부: 이미지 / PDF (최대 3개, 1MB)',
+    'contact.unspecified': '선택 안 함',
+    'contact.errorRequired': '필수 입력 항목입니다',
+    'contact.errorEmail': '이메일 형식이 올바르지 않습니다',
+    'contact.errorShort': '내용이 너무 짧습니다',
+    'contact.errorLong': '내용이 너무 깁니다',
+    'contact.errorFiles': '첨부 파일은 이미지 또는 PDF, 최대 3개 / 1MB까지입니다',
+    'contact.rateLimited': '잠시 후 다시 시도해 주세요 (초):',
+    'contact.timelineAsap': '가능한 빨리',
+    'contact.timelineShort': '1-3개월',
+    'contact.timelineMid': '3-6개월',
+    'contact.timelineLong': '6개월 이상',
+    'footer.inquiry': '직접 문의',
+    'footer.social': '소셜',
+    'card.client': '클라이언트:',
+    'detail.back': '<- [ 콘텐츠 데이터베이스 ]',
+    'detail.record': '레코드',
+    'detail.spec': '프로젝트 개요',
+    'detail.description': '설명:',
+    'detail.prev': '<- 이전',
+    'detail.next': '다음 ->',
+    'detail.notFound': '프로젝트를 찾을 수 없습니다:',
+    'detail.return': '[ 목록으로 ]',
+    'client.profile': '클라이언트 정보',
+    'client.sector': '업종',
+    'client.region': '지역',
+    'client.website': '웹사이트',
+    'client.projects': '프로젝트',
+    'client.archive': '협업 기록',
+    'client.empty': '--- 기록이 없습니다 ---',
+    'client.notFound': '클라이언트를 찾을 수 없습니다:',
+    'client.open': '[ 클라이언트 정보 -> ]'
+  },
+  'zh-Hant': {
+    'nav.content': '[ 作品 ]',
+    'nav.services': '[ 服務 ]',
+    'nav.contact': '[ 聯絡 ]',
+    'nav.language': '語言',
+    'nav.theme': '主題',
+    'home.access': '[ 瀏覽資料庫 ]',
+    'home.recent': '最新作品',
+    'home.history': '合作紀錄',
+    'archive.year': '年份',
+    'archive.company': '客戶',
+    'archive.type': '類別',
+    'archive.project': '專案',
+    'archive.present': '至今',
+    'archive.undated': '日期不詳',
+    'archive.groupByYear': '[依年份分組]',
+    'archive.sort': '排序：',
+    'archive.sortCurated': '預設',
+    'archive.empty': '--- 沒有符合條件的紀錄 ---',
+    'content.title': '作品資料庫',
+    'content.subtitle': '正在載入檔案...',
+    'content.all': '全部',
+    'content.search': '搜尋：標題 / 客戶 / 說明',
+    'content.year': '年份：',
+    'content.from': '起',
+    'content.to': '迄',
+    'content.sortCurated': '排序：精選',
+    'content.sortDateDesc': '排序：最新',
+    'content.sortDateAsc': '排序：最舊',
+    'content.sortTitleAsc': '排序：標題 A-Z',
+    'content.sortTitleDesc': '排序：標題 Z-A',
+    'content.match': '結果：',
+    'content.reset': '[ 重設 ]',
+    'content.empty': '--- 沒有符合的作品 ---',
+    'content.tags': '標籤：',
+    'services.empty': '--- 尚無服務項目 ---',
+    'contact.email': '電子郵件',
+    'contact.coordinates': '地點',
+    'contact.phone': '電話',
+    'contact.terminal': '聯絡表單',
+    'contact.name': '姓名',
+    'contact.replyTo': '回覆信箱',
+    'contact.type': '類別：',
+    'contact.message': '需求說明...',
+    'contact.submit': '[ 送出 ]',
+    'contact.submitting': '[ 傳送中... ]',
+    'contact.error': '錯誤：傳送失敗',
+    'contact.success': '已送出',
+    'contact.successLine': '我們已收到您的訊息',
+    'contact.successBody': '我們將盡快與您聯繫。',
+    'contact.returnHome': '[ 返回首頁 ]',
+    'contact.queued': '等待傳送',
+    'contact.queuedLine': '暫時無法連線，訊息已暫存',
+    'contact.queuedBody': '您的訊息已保存在此瀏覽器中，連線恢復後將自動重新傳送。',
+    'contact.pending': '等待重新傳送：',
+    'contact.subject': '類別',
+    'contact.budget': '預算：',
+    'contact.timeline': '時程：',
+    'contact.attachments': '附件：圖片 / PDF（最多 3 個，1MB）',
+    'contact.unspecified': '未指定',
+    'contact.errorRequired': '此欄位為必填',
+    'contact.errorEmail': '電子郵件格式不正確',
+    'contact.errorShort': '內容太短',
+    'contact.errorLong': '內容太長',
+    'contact.errorFiles': '附件僅限圖片或 PDF，最多 3 個 / 1MB',
+    'contact.rateLimited': '請稍後再試（秒）：',
+    'contact.timelineAsap': '越快越好',
+    'contact.timelineShort': '1-3 個月',
+    'contact.timelineMid': '3-6 個月',
+    'contact.timelineLong': '6 個月以上',
+    'footer.inquiry': '直接聯絡',
+    'footer.social': '社群',
+    'card.client': '客戶：',
+    'detail.back': '<- [ 作品資料庫 ]',
+    'detail.record': '紀錄',
+    'detail.spec': '專案資訊',
+    'detail.description': '說明：',
+    'detail.prev': '<- 上一筆',
+    'detail.next': '下一筆 ->',
+    'detail.notFound': '找不到作品：',
+    'detail.return': '[ 返回列表 ]',
+    'client.profile': '客戶資訊',
+    'client.sector': '產業',
+    'client.region': '地區',
+    'client.website': '網站',
+    'client.projects': '作品',
+    'client.archive': '合作紀錄',
+    'client.empty': '--- 沒有紀錄 ---',
+    'client.notFound': '找不到客戶：',
+    'client.open': '[ 客戶資訊 -> ]'
+  },
+  'zh-Hans': {
+    'nav.content': '[ 作品 ]',
+    'nav.services': '[ 服务 ]',
+    'nav.contact': '[ 联系 ]',
+    'nav.language': '语言',
+    'nav.theme': '主题',
+    'home.access': '[ 浏览数据库 ]',
+    'home.recent': '最新作品',
+    'home.history': '合作记录',
+    'archive.year': '年份',
+    'archive.company': '客户',
+    'archive.type': '类别',
+    'archive.project': '项目',
+    'archive.present': '至今',
+    'archive.undated': '日期不详',
+    'archive.groupByYear': '[按年份分组]',
+    'archive.sort': '排序：',
+    'archive.sortCurated': '默认',
+    'archive.empty': '--- 没有符合条件的记录 ---',
+    'content.title': '作品数据库',
+    'content.subtitle': '正在加载档案...',
+    'content.all': '全部',
+    'content.search': '搜索：标题 / 客户 / 说明',
+    'content.year': '年份：',
+    'content.from': '起',
+    'content.to': '止',
+    'content.sortCurated': '排序：精选',
+    'content.sortDateDesc': '排序：最新',
+    'content.sortDateAsc': '排序：最早',
+    'content.sortTitleAsc': '排序：标题 A-Z',
+    'content.sortTitleDesc': '排序：标题 Z-A',
+    'content.match': '结果：',
+    'content.reset': '[ 重置 ]',
+    'content.empty': '--- 没有符合条件的作品 ---',
+    'content.tags': '标签：',
+    'services.empty': '--- 暂无服务项目 ---',
+    'contact.email': '电子邮件',
+    'contact.coordinates': '地点',
+    'contact.phone': '电话',
+    'contact.terminal': '联系表单',
+    'contact.name': '姓名',
+    'contact.replyTo': '回复邮箱',
+    'contact.type': '类别：',
+    'contact.message': '需求说明...',
+    'contact.submit': '[ 发送 ]',
+    'contact.submitting': '[ 发送中... ]',
+    'contact.error': '错误：发送失败',
+    'contact.success': '已发送',
+    'contact.successLine': '我们已收到您的信息',
+    'contact.successBody': '我们会尽快与您联系。',
+    'contact.returnHome': '[ 返回首页 ]',
+    'contact.queued': '等待发送',
+    'contact.queuedLine': '暂时无法连接，消息已暂存',
+    'contact.queuedBody': '您的消息已保存在此浏览器中，连接恢复后将自动重新发送。',
+    'contact.pending': '等待重新发送：',
+    'contact.subject': '类别',
+    'contact.budget': '预算：',
+    'contact.timeline': '时间：',
+    'contact.attachments': '附件：图片 / PDF（最多 3 个，1MB）',
+    'contact.unspecified': '未指定',
+    'contact.errorRequired': '此项为必填',
+    'contact.errorEmail': '电子邮件格式不正确',
+    'contact.errorShort': '内容太短',
+    'contact.errorLong': '内容太长',
+    'contact.errorFiles': '附件仅限图片或 PDF，最多 3 个 / 1MB',
+    'contact.rateLimited': '请稍后再试（秒）：',
+    'contact.timelineAsap': '越快越好',
+    'contact.timelineShort': '1-3 个月',
+    'contact.timelineMid': '3-6 个月',
+    'contact.timelineLong': '6 个月以上',
+    'footer.inquiry': '直接联系',
+    'footer.social': '社交媒体',
+    'card.client': '客户：',
+    'detail.back': '<- [ 作品数据库 ]',
+    'detail.record': '记录',
+    'detail.spec': '项目信息',
+    'detail.description': '说明：',
+    'detail.prev': '<- 上一条',
+    'detail.next': '下一条 ->',
+    'detail.notFound': '找不到作品：',
+    'detail.return': '[ 返回列表 ]',
+    'client.profile': '客户信息',
+    'client.sector': '行业',
+    'client.region': '地区',
+    'client.website': '网站',
+    'client.projects': '作品',
+    'client.archive': '合作记录',
+    'client.empty': '--- 没有记录 ---',
+    'client.notFound': '找不到客户：',
+    'client.open': '[ 客户信息 -> ]'
+  },
+  id: {
+    'nav.content': '[ KARYA ]',
+    'nav.services': '[ LAYANAN ]',
+    'nav.contact': '[ KONTAK ]',
+    'nav.language': 'BAHASA',
+    'nav.theme': 'TEMA',
+    'home.access': '[ BUKA DATABASE ]',
+    'home.recent': 'KARYA TERBARU',
+    'home.history': 'RIWAYAT KOLABORASI',
+    'archive.year': 'TAHUN',
+    'archive.company': 'KLIEN',
+    'archive.type': 'KATEGORI',
+    'archive.project': 'PROYEK',
+    'archive.present': 'SEKARANG',
+    'archive.undated': 'TANPA TANGGAL',
+    'archive.groupByYear': '[KELOMPOKKAN PER TAHUN]',
+    'archive.sort': 'URUTAN:',
+    'archive.sortCurated': 'BAWAAN',
+    'archive.empty': '--- TIDAK ADA DATA YANG COCOK ---',
+    'content.title': 'DATABASE KARYA',
+    'content.subtitle': 'MEMUAT ARSIP...',
+    'content.all': 'SEMUA',
+    'content.search': 'CARI: JUDUL / KLIEN / DESKRIPSI',
+    'content.year': 'TAHUN:',
+    'content.from': 'DARI',
+    'content.to': 'SAMPAI',
+    'content.sortCurated': 'URUTAN: PILIHAN',
+    'content.sortDateDesc': 'URUTAN: TERBARU',
+    'content.sortDateAsc': 'URUTAN: TERLAMA',
+    'content.sortTitleAsc': 'URUTAN: JUDUL A-Z',
+    'content.sortTitleDesc': 'URUTAN: JUDUL Z-A',
+    'content.match': 'HASIL:',
+    'content.reset': '[ ATUR ULANG ]',
+    'content.empty': '--- TIDAK ADA KARYA YANG COCOK ---',
+    'content.tags': 'TAG:',
+    'services.empty': '--- BELUM ADA LAYANAN ---',
+    'contact.email': 'EMAIL',
+    'contact.coordinates': 'LOKASI',
+    'contact.phone': 'TELEPON',
+    'contact.terminal': 'FORMULIR KONTAK',
+    'contact.name': 'NAMA',
+    'contact.replyTo': 'EMAIL BALASAN',
+    'contact.type': 'KATEGORI:',
+    'contact.message': 'DESKRIPSI KEBUTUHAN...',
+    'contact.submit': '[ KIRIM ]',
+    'contact.submitting': '[ MENGIRIM... ]',
+    'contact.error': 'GALAT: PENGIRIMAN GAGAL',
+    'contact.success': 'TERKIRIM',
+    'contact.successLine': 'PESAN ANDA TELAH KAMI TERIMA',
+    'contact.successBody': 'KAMI AKAN SEGERA MENGHUBUNGI ANDA.',
+    'contact.returnHome': '[ KEMBALI KE BERANDA ]',
+    'contact.queued': 'DALAM ANTREAN',
+    'contact.queuedLine': 'SERVER TIDAK TERJANGKAU // PESAN DISIMPAN SEMENTARA',
+    'contact.queuedBody': 'PESAN ANDA TERSIMPAN DI BROWSER INI DAN AKAN DIKIRIM ULANG SECARA OTOMATIS.',
+    'contact.pending': 'MENUNGGU PENGIRIMAN ULANG:',
+    'contact.subject': 'KATEGORI',
+    'contact.budget': 'ANGGARAN:',
+    'contact.timeline': 'JADWAL:',
+    'contact.attachments': 'LAMPIRAN: GAMBAR / PDF (MAKS 3, 1MB)',
+    'contact.unspecified': 'TIDAK DITENTUKAN',
+    'contact.errorRequired': 'WAJIB DIISI',
+    'contact.errorEmail': 'FORMAT EMAIL TIDAK VALID',
+    'contact.errorShort': 'TERLALU PENDEK',
+    'contact.errorLong': 'TERLALU PANJANG',
+    'contact.errorFiles': 'LAMPIRAN HANYA GAMBAR ATAU PDF, MAKS 3 FILE / 1MB',
+    'contact.rateLimited': 'TERLALU SERING // COBA LAGI DALAM (DETIK):',
+    'contact.timelineAsap': 'SECEPATNYA',
+    'contact.timelineShort': '1-3 BULAN',
+    'contact.timelineMid': '3-6 BULAN',
+    'contact.timelineLong': '6+ BULAN',
+    'footer.inquiry': 'HUBUNGI LANGSUNG',
+    'footer.social': 'MEDIA SOSIAL',
+    'card.client': 'KLIEN:',
+    'detail.back': '<- [ DATABASE KARYA ]',
+    'detail.record': 'DATA',
+    'detail.spec': 'RINGKASAN PROYEK',
+    'detail.description': 'DESKRIPSI:',
+    'detail.prev': '<- SEBELUMNYA',
+    'detail.next': 'BERIKUTNYA ->',
+    'detail.notFound': 'KARYA TIDAK DITEMUKAN:',
+    'detail.return': '[ KEMBALI KE DAFTAR ]',
+    'client.profile': 'PROFIL KLIEN',
+    'client.sector': 'SEKTOR',
+    'client.region': 'WILAYAH',
+    'client.website': 'SITUS WEB',
+    'client.projects': 'KARYA',
+    'client.archive': 'RIWAYAT KOLABORASI',
+    'client.empty': '--- TIDAK ADA DATA ---',
+    'client.notFound': 'KLIEN TIDAK DITEMUKAN:',
+    'client.open': '[ PROFIL KLIEN -> ]'
+  }
+};
+
+export const translate = (locale: Locale, key: UiKey): string =>
+  (locale !== DEFAULT_LOCALE && UI_STRINGS[locale][key]) || EN[key];
+
+export type Translator = (key: UiKey) => string;
+
+export const translator = (locale: Locale): Translator => key => translate(locale, key);
@@ -0,0 +1,40 @@
+import { CSSProperties } from 'react';
+import { ImageAsset, MediaItem, MediaKind } from '../types.ts';
+
+const DEFAULT_FOCAL = 50;
+
+export const createImageAsset = (src: string, meta: Partial<Omit<ImageAsset, 'src'>> = {}): ImageAsset => ({
+  src,
+  alt: '',
+  caption: '',
+  credit: '',
+  focalX: DEFAULT_FOCAL,
+  focalY: DEFAULT_FOCAL,
+  ...meta
+});
+
+export const createMediaItem = (kind: MediaKind, src: string, meta: Partial<Omit<MediaItem, 'kind' | 'src'>> = {}): MediaItem => ({
+  ...createImageAsset(src),
+  kind,
+  ...meta
+});
+
+// 카드·썸네일에 쓰이는 정지 이미지. 이미지는 원본, 영상·임베드는 포스터
+export const mediaPoster = (item: MediaItem): string | undefined =>
+  item.kind === 'image' ? item.src : item.poster;
+
+const clampPercent = (value: number) => Math.min(100, Math.max(0, Math.round(value)));
+
+export const withFocalPoint = (image: ImageAsset, x: number, y: number): ImageAsset => ({
+  ...image,
+  focalX: clampPercent(x),
+  focalY: clampPercent(y)
+});
+
+// object-cover로 잘릴 때 기준점이 화면 안에 남도록 한다.
+export const focalStyle = (image?: ImageAsset): CSSProperties =>
+  image ? { objectPosition: `${image.focalX}% ${image.focalY}%` } : {};
+
+// alt가 비어 있으면 레코드 이름으로 대체 (빈 alt는 장식 이미지로 취급되므로 피한다)
+export const imageAlt = (image: ImageAsset | undefined, fallback: string): string =>
+  image?.alt.trim() || fallback;
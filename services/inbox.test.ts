@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { CATEGORIES, client, message } from '../test/fixtures.ts';
+import { mergeInbox, projectFromInquiry, replyMailto } from './inbox.ts';
+
+describe('mergeInbox', () => {
+  it('adds unseen submissions as unread, newest first', () => {
+    const inbox = [message('MSG-1', { read: true, createdAt: '2024-01-02T00:00:00.000Z' })];
+    const { read, archived, ...submission } = message('MSG-2', { createdAt: '2024-01-03T00:00:00.000Z' });
+
+    const merged = mergeInbox(inbox, [submission, submission, { ...inbox[0], name: 'Changed' }]);
+
+    expect(merged.map(m => [m.id, m.read, m.name])).toEqual([['MSG-2', false, 'Kim'], ['MSG-1', true, 'Kim']]);
+  });
+
+  it('returns the same list when nothing is new', () => {
+    const inbox = [message()];
+    expect(mergeInbox(inbox, inbox)).toBe(inbox);
+  });
+});
+
+describe('replyMailto', () => {
+  it('quotes the original message', () => {
+    const url = replyMailto(message('MSG-1', { message: 'Hi\nThere' }));
+    const params = new URLSearchParams(url.split('?')[1]);
+
+    expect(url.startsWith('mailto:kim@example.com?')).toBe(true);
+    expect(params.get('subject')).toBe('RE: [BRANDING] ODEMIND INQUIRY');
+    expect(params.get('body')).toContain('> Hi\n> There');
+  });
+});
+
+describe('projectFromInquiry', () => {
+  const clients = [client('CL-KIM', 'KIM Ltd.')];
+
+  it('matches the subject to a category and the sender to a client', () => {
+    expect(projectFromInquiry(message('MSG-1', { subject: 'film', message: 'Brief' }), CATEGORIES, clients)).toEqual({
+      category: 'FILM', clientId: 'CL-KIM', status: 'IN_PROGRESS', description: 'Brief'
+    });
+  });
+
+  it('falls back to the first category and no client', () => {
+    const draft = projectFromInquiry(message('MSG-1', { subject: 'Other', name: 'Lee' }), CATEGORIES, clients);
+
+    expect(draft.category).toBe('BRANDING');
+    expect(draft.clientId).toBeUndefined();
+  });
+});
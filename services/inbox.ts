@@ -0,0 +1,40 @@
+import { CategoryTerm, Client, ContactSubmission, InboxMessage, Project } from '../types.ts';
+import { matchClient } from './clients.ts';
+
+// CMS 문의함: 공개 폼 제출, 로컬 대기열, 개발용 목 서버에서 들어온 문의를 한 목록으로 모은다.
+export const toInboxMessage = (submission: ContactSubmission): InboxMessage => ({
+  ...submission,
+  read: false,
+  archived: false
+});
+
+/** 이미 있는 ID는 건너뛰고 최신순으로 합친다. */
+export const mergeInbox = (inbox: InboxMessage[], submissions: ContactSubmission[]): InboxMessage[] => {
+  const known = new Set(inbox.map(m => m.id));
+  const added: InboxMessage[] = [];
+  for (const submission of submissions) {
+    if (known.has(submission.id)) continue;
+    known.add(submission.id);
+    added.push(toInboxMessage(submission));
+  }
+  if (added.length === 0) return inbox;
+  return [...added, ...inbox].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const replyMailto = (message: InboxMessage): string => {
+  const quoted = message.message.split('\n').map(line => `> ${line}`).join('\n');
+  const params = new URLSearchParams({
+    subject: `RE: [${message.subject.toUpperCase()}] ODEMIND INQUIRY`,
+    body: `\n\n--\n${message.name} <${message.email}> ${message.createdAt.replace('T', ' ').slice(0, 16)}\n${quoted}`
+  }).toString().replace(/\+/g, '%20');
+  return `mailto:${message.email}?${params}`;
+};
+
+// 문의 분야(subject)가 카테고리와 같으면 그대로 쓰고, 설명은 문의 내용으로 채운다.
+// 보낸 사람 이름이 등록된 고객사와 비슷하면 그 고객사를 연결해 둔다 (아니면 폼에서 고른다).
+export const projectFromInquiry = (message: InboxMessage, categories: CategoryTerm[], clients: Client[]): Partial<Project> => ({
+  category: (categories.find(c => c.id.toLowerCase() === message.subject.toLowerCase()) || categories[0])?.id,
+  clientId: matchClient(message.name, clients)?.client.id,
+  status: 'IN_PROGRESS',
+  description: message.message
+});
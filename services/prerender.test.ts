@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { appState, client, mediaItem, message, project, service } from '../test/fixtures.ts';
+import { PrerenderOptions, buildStaticPages, publicState, renderRobots, renderSitemap, renderStaticPage } from './prerender.ts';
+
+const OPTIONS: PrerenderOptions = {
+  siteUrl: 'https://example.com/portfolio',
+  assets: new Map([['asset:abc', { path: 'media/abc.jpg', type: 'image/jpeg', size: 1024 }]]),
+  publishedAt: '2024-05-01T00:00:00.000Z'
+};
+
+const STATE = appState({
+  projects: [
+    project('P 1', { clientId: 'CL-1', title: 'Shop <One>', description: 'A "quoted" store', media: [mediaItem('asset:abc', { alt: 'Front' })], updatedAt: '2024-04-02T10:00:00.000Z' }),
+    project('P-2', { title: 'Film' })
+  ],
+  services: [service('S-1', { title: 'Branding' })],
+  clients: [client('CL-1', 'Le Labo', { website: 'https://lelabo.example' })],
+  clientReview: [{ collection: 'projects', recordId: 'P 1', source: 'LE LABO', clientId: 'CL-1', score: 1 }],
+  credential: { algorithm: 'PBKDF2-SHA256', iterations: 1, salt: 'AA==', hash: 'AA==', updatedAt: '2024-01-01' },
+  auditLog: [{ id: 'L-1', at: '2024-01-01', actor: 'ADMIN', action: 'CREATE', recordType: 'service', recordId: 'S-1', label: '', changes: [] }],
+  trash: [{ entryId: 'T-1', collection: 'services', index: 0, deletedAt: '2024-01-01', record: service('S-9') }],
+  inbox: [message()]
+});
+
+describe('publicState', () => {
+  it('strips admin data and points assets at the exported files', () => {
+    const state = publicState(STATE, OPTIONS);
+
+    expect(state.credential).toBeUndefined();
+    expect(state.auditLog).toEqual([]);
+    expect(state.trash).toEqual([]);
+    expect(state.inbox).toEqual([]);
+    expect(state.clientReview).toEqual([]);
+    expect(state.projects[0].media[0].src).toBe('/portfolio/media/abc.jpg');
+  });
+});
+
+describe('buildStaticPages', () => {
+  const pages = buildStaticPages(STATE, OPTIONS);
+
+  it('writes one page per view, project and client under the site path', () => {
+    expect(pages.map(p => p.fileName)).toEqual([
+      'index.html', 'content/index.html', 'services/index.html', 'contact/index.html',
+      'project/P%201/index.html', 'project/P-2/index.html', 'client/CL-1/index.html'
+    ]);
+    expect(pages[4].url).toBe('https://example.com/portfolio/project/P%201/');
+  });
+
+  it('escapes record text and uses the cover as the preview image', () => {
+    const page = pages[4];
+
+    expect(page.body).toContain('<h1>Shop &lt;One&gt;</h1>');
+    expect(page.body).toContain('A &quot;quoted&quot; store');
+    expect(page.image).toBe('https://example.com/portfolio/media/abc.jpg');
+    expect(page.imageAlt).toBe('Front');
+    expect(page.lastModified).toBe('2024-04-02T10:00:00.000Z');
+  });
+
+  it('links projects to their client page', () => {
+    const clientPage = pages[6];
+
+    expect(pages[4].body).toContain('<a href="https://example.com/portfolio/client/CL-1/">Le Labo</a>');
+    expect(pages[4].jsonLd.sponsor).toEqual({ '@type': 'Organization', name: 'Le Labo', url: 'https://example.com/portfolio/client/CL-1/', sameAs: 'https://lelabo.example' });
+    expect(clientPage.title).toBe('Le Labo | ODEMIND');
+    expect(clientPage.body).toContain('project/P%201/');
+    expect(clientPage.lastModified).toBe('2024-04-02T10:00:00.000Z');
+  });
+});
+
+describe('renderStaticPage', () => {
+  it('fills the head and root and keeps </script> inside the seed', () => {
+    const [home] = buildStaticPages(STATE, OPTIONS);
+    const seed = { publishedAt: OPTIONS.publishedAt, state: appState({ tagline: '</script>' }) };
+    const html = renderStaticPage('<title>x</title><div id="root"></div>', home, seed);
+
+    expect(html).toContain('<title>ODEMIND</title>');
+    expect(html).toContain('<link rel="canonical" href="https://example.com/portfolio/">');
+    expect(html).toContain('<link rel="alternate" type="application/rss+xml" title="ODEMIND (RSS 2.0)" href="https://example.com/portfolio/feed/rss.xml">');
+    expect(html).toContain('\\u003c/script>');
+    expect(html.match(/<\/script>/g)).toHaveLength(2);
+  });
+});
+
+describe('renderSitemap / renderRobots', () => {
+  it('lists every page with its modification date', () => {
+    const sitemap = renderSitemap(buildStaticPages(STATE, OPTIONS));
+
+    expect(sitemap).toContain('<url><loc>https://example.com/portfolio/project/P%201/</loc><lastmod>2024-04-02</lastmod></url>');
+    expect(renderRobots(OPTIONS.siteUrl)).toContain('Sitemap: https://example.com/portfolio/sitemap.xml');
+  });
+});
@@ -0,0 +1,324 @@
+import { AppState, Client, Project, MediaItem } from '../types.ts';
+import { Route, routePath } from './router.ts';
+import { featuredProjects } from './projectQuery.ts';
+import { mediaPoster, imageAlt } from './imageAsset.ts';
+import { remapImageRefs, StaticAsset } from './assetStore.ts';
+import { translate, UiKey } from './i18n.ts';
+import { FEED_FORMATS, feedPath } from './feeds.ts';
+import { copyrightLine, siteConfigOf, visibleSocialLinks } from './siteConfig.ts';
+import { categoryLabel } from './taxonomy.ts';
+import { findClient } from './clients.ts';
+import { formatDateRange } from './dateRange.ts';
+
+// 내보낸 데이터베이스(JSON)로 검색 엔진·링크 미리보기용 정적 HTML을 만든다.
+// 파일 입출력은 vite.config.ts의 prerender 플러그인이 맡고, 여기서는 문자열만 다룬다.
+
+export const SEED_ELEMENT_ID = 'odemind-seed';
+
+const DESCRIPTION_LIMIT = 200;
+
+export interface PrerenderOptions {
+  /** 배포 주소 (예: https://odemind.co.kr). canonical·OG·sitemap의 절대 URL 기준 */
+  siteUrl: string;
+  /** 에셋 ID -> 정적 파일 (media/<uuid>.jpg) */
+  assets: Map<string, StaticAsset>;
+  /** 빌드 시각(ISO). 정적 데이터의 버전으로 쓰인다. */
+  publishedAt: string;
+}
+
+export interface StaticPage {
+  route: Route;
+  /** 출력 파일 (예: project/ODM-1/index.html) */
+  fileName: string;
+  url: string;
+  title: string;
+  description: string;
+  image?: string;
+  imageAlt?: string;
+  ogType: 'website' | 'article';
+  jsonLd: Record<string, unknown>;
+  /** 피드 자동 발견용 <link rel="alternate"> */
+  feeds: { href: string; type: string; title: string }[];
+  body: string;
+  lastModified?: string;
+}
+
+/** 정적 페이지의 앱이 localStorage 대신 처음 읽는 데이터 */
+export interface StaticSeed {
+  publishedAt: string;
+  state: AppState;
+}
+
+export const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+
+// </script> 등이 JSON 문자열 안에 있어도 스크립트 블록이 끊기지 않도록
+const scriptJson = (value: unknown): string => JSON.stringify(value).replace(/</g, '\\u003c');
+
+const summarize = (text: string): string => {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > DESCRIPTION_LIMIT ? `${flat.slice(0, DESCRIPTION_LIMIT - 1).trimEnd()}…` : flat;
+};
+
+const t = (key: UiKey) => translate('en', key);
+
+const siteBase = (siteUrl: string): URL => new URL(siteUrl.replace(/\/?$/, '/'));
+
+// 공개 페이지에 필요 없는 관리 데이터(패스키, 이력, 휴지통, 문의함, 고객사 연결 검토)는 정적 파일에 싣지 않는다.
+export const publicState = (state: AppState, options: PrerenderOptions): AppState => {
+  const basePath = siteBase(options.siteUrl).pathname;
+  const mapping = new Map([...options.assets].map(([ref, asset]) => [ref, `${basePath}${asset.path}`]));
+  return { ...remapImageRefs(state, mapping), credential: undefined, auditLog: [], trash: [], inbox: [], clientReview: [] };
+};
+
+const coverOf = (project: Project): MediaItem | undefined =>
+  project.media.find(item => !!mediaPoster(item));
+
+const mediaHtml = (item: MediaItem, fallbackAlt: string, absolute: (ref: string) => string): string => {
+  const caption = [item.caption, item.credit && `© ${item.credit}`].filter(Boolean).map(escapeHtml).join(' / ');
+  const poster = mediaPoster(item);
+  const visual = item.kind === 'embed'
+    ? `<a href="${escapeHtml(item.src)}">${escapeHtml(imageAlt(item, fallbackAlt))}</a>`
+    : item.kind === 'video'
+      ? `<video src="${escapeHtml(absolute(item.src))}"${poster ? ` poster="${escapeHtml(absolute(poster))}"` : ''} controls playsinline></video>`
+      : `<img src="${escapeHtml(absolute(item.src))}" alt="${escapeHtml(imageAlt(item, fallbackAlt))}" loading="lazy">`;
+  return `<figure>${visual}${caption ? `<figcaption>${caption}</figcaption>` : ''}</figure>`;
+};
+
+export const buildStaticPages = (source: AppState, options: PrerenderOptions): StaticPage[] => {
+  const state = publicState(source, options);
+  const base = siteBase(options.siteUrl);
+  const absolute = (ref: string) => new URL(ref, base).href;
+  const pageUrl = (route: Route) => new URL(routePath(route).slice(1), base).href;
+  const link = (route: Route, label: string) => `<a href="${escapeHtml(pageUrl(route))}">${escapeHtml(label)}</a>`;
+
+  const site = siteConfigOf(state.siteConfig);
+  const socialLinks = visibleSocialLinks(site);
+  const organization = {
+    '@type': 'Organization',
+    name: state.siteTitle,
+    url: base.href,
+    foundingDate: String(site.foundedYear),
+    ...(socialLinks.length > 0 ? { sameAs: socialLinks.map(l => l.url) } : {})
+  };
+  const mailLink = `<a href="mailto:${escapeHtml(site.email)}">${escapeHtml(site.email)}</a>`;
+  const header = `<header>${link({ name: 'HOME' }, state.siteTitle)}<nav>${[
+    link({ name: 'CONTENT' }, t('nav.content')),
+    link({ name: 'SERVICES' }, t('nav.services')),
+    link({ name: 'CONTACT' }, t('nav.contact'))
+  ].join(' ')}</nav></header>`;
+  const footer = `<footer>${site.email ? `${mailLink} ` : ''}<small>${escapeHtml(copyrightLine(site))}</small></footer>`;
+
+  const category = (project: Project) => categoryLabel(state.categories, project.category);
+  const clientOf = (record: { clientId?: string }) => findClient(state.clients, record.clientId);
+  const clientLink = (client?: Client) => (client ? link({ name: 'CLIENT', clientId: client.id }, client.name) : '');
+  const clientOrganization = (client: Client) => ({
+    '@type': 'Organization',
+    name: client.name,
+    url: pageUrl({ name: 'CLIENT', clientId: client.id }),
+    ...(client.website ? { sameAs: client.website } : {})
+  });
+  const projectItem = (project: Project) =>
+    `<li>${link({ name: 'PROJECT', projectId: project.id }, project.title)} — ${escapeHtml([category(project), clientOf(project)?.name, project.date].filter(Boolean).join(' / '))}</li>`;
+  const archiveTable = (items: AppState['archiveItems']) =>
+    `<table><thead><tr>${(['archive.year', 'archive.company', 'archive.type', 'archive.project'] as UiKey[]).map(k => `<th>${t(k)}</th>`).join('')}</tr></thead><tbody>`
+    + items.map(item => `<tr><td>${escapeHtml(formatDateRange(item.period, t('archive.present')))}</td><td>${clientLink(clientOf(item))}</td>${[item.tags.join(', '), item.project].map(v => `<td>${escapeHtml(v)}</td>`).join('')}</tr>`).join('')
+    + '</tbody></table>';
+
+  const lastModified = (dates: (string | undefined)[]) =>
+    dates.filter((d): d is string => !!d).sort().pop();
+
+  const feeds = FEED_FORMATS.map(f => ({ href: new URL(feedPath(f.format), base).href, type: f.mimeType, title: `${state.siteTitle} (${f.label})` }));
+
+  const page = (route: Route, fields: Omit<StaticPage, 'route' | 'fileName' | 'url' | 'feeds' | 'body'> & { main: string }): StaticPage => {
+    const { main, ...meta } = fields;
+    return {
+      route,
+      fileName: `${routePath(route).slice(1)}index.html`,
+      url: pageUrl(route),
+      ...meta,
+      feeds,
+      body: `${header}<main>${main}</main>${footer}`
+    };
+  };
+
+  const homeCover = state.projects.map(coverOf).find(Boolean);
+  const pages: StaticPage[] = [
+    page({ name: 'HOME' }, {
+      title: state.siteTitle,
+      description: summarize(state.tagline),
+      image: homeCover && absolute(mediaPoster(homeCover)!),
+      imageAlt: homeCover && imageAlt(homeCover, state.siteTitle),
+      ogType: 'website',
+      jsonLd: { '@context': 'https://schema.org', '@type': 'WebSite', name: state.siteTitle, url: base.href, description: state.tagline, publisher: organization },
+      lastModified: state.settingsUpdatedAt,
+      main: `<h1>${escapeHtml(state.siteTitle)}</h1><p>${escapeHtml(state.tagline)}</p><h2>${t('home.recent')}</h2><ul>${featuredProjects(state.projects).map(projectItem).join('')}</ul>`
+    }),
+    page({ name: 'CONTENT' }, {
+      title: `${t('content.title')} | ${state.siteTitle}`,
+      description: summarize(state.projects.map(p => p.title).join(', ')),
+      image: homeCover && absolute(mediaPoster(homeCover)!),
+      imageAlt: homeCover && imageAlt(homeCover, state.siteTitle),
+      ogType: 'website',
+      jsonLd: {
+        '@context': 'https://schema.org',
+        '@type': 'CollectionPage',
+        name: t('content.title'),
+        url: pageUrl({ name: 'CONTENT' }),
+        hasPart: state.projects.map(p => ({ '@type': 'CreativeWork', name: p.title, url: pageUrl({ name: 'PROJECT', projectId: p.id }) }))
+      },
+      lastModified: lastModified([...state.projects, ...state.archiveItems].map(r => r.updatedAt)),
+      main: `<h1>${t('content.title')}</h1><ul>${state.projects.map(projectItem).join('')}</ul>`
+        + `<h2>${t('home.history')}</h2>${archiveTable(state.archiveItems)}`
+    }),
+    page({ name: 'SERVICES' }, {
+      title: `SERVICES | ${state.siteTitle}`,
+      description: summarize(state.services.map(s => s.title).join(', ')),
+      ogType: 'website',
+      jsonLd: {
+        '@context': 'https://schema.org',
+        '@type': 'WebPage',
+        name: 'SERVICES',
+        url: pageUrl({ name: 'SERVICES' }),
+        about: state.services.map(s => ({ '@type': 'Service', name: s.title, description: s.description, provider: organization }))
+      },
+      lastModified: lastModified(state.services.map(s => s.updatedAt)),
+      main: `<h1>SERVICES</h1>${state.services.map(s => `<section><h2>${escapeHtml(`${s.number} ${s.title}`)}</h2><p>${escapeHtml(s.description)}</p></section>`).join('') || `<p>${t('services.empty')}</p>`}`
+    }),
+    page({ name: 'CONTACT' }, {
+      title: `CONTACT | ${state.siteTitle}`,
+      description: summarize([site.email && `${t('contact.email')}: ${site.email}`, site.location.address].filter(Boolean).join(' / ')),
+      ogType: 'website',
+      jsonLd: {
+        '@context': 'https://schema.org',
+        '@type': 'ContactPage',
+        url: pageUrl({ name: 'CONTACT' }),
+        about: {
+          ...organization,
+          ...(site.email ? { email: site.email } : {}),
+          ...(site.phone ? { telephone: site.phone } : {}),
+          address: site.location.address
+        }
+      },
+      main: `<h1>CONTACT</h1>`
+        + (site.email ? `<p>${t('contact.email')}: ${mailLink}</p>` : '')
+        + (site.phone ? `<p>${t('contact.phone')}: ${escapeHtml(site.phone)}</p>` : '')
+        + `<p>${t('contact.coordinates')}: ${escapeHtml(site.location.address)}</p>`
+        + (socialLinks.length > 0 ? `<ul>${socialLinks.map(l => `<li><a href="${escapeHtml(l.url)}" rel="me">${escapeHtml(l.label)}</a></li>`).join('')}</ul>` : '')
+    })
+  ];
+
+  for (const project of state.projects) {
+    const route: Route = { name: 'PROJECT', projectId: project.id };
+    const client = clientOf(project);
+    const cover = coverOf(project);
+    const images = project.media.map(mediaPoster).filter((ref): ref is string => !!ref).map(absolute);
+    pages.push(page(route, {
+      title: `${project.title} | ${state.siteTitle}`,
+      description: summarize(project.description),
+      image: cover && absolute(mediaPoster(cover)!),
+      imageAlt: cover && imageAlt(cover, project.title),
+      ogType: 'article',
+      jsonLd: {
+        '@context': 'https://schema.org',
+        '@type': 'CreativeWork',
+        '@id': pageUrl(route),
+        url: pageUrl(route),
+        identifier: project.id,
+        name: project.title,
+        description: project.description,
+        genre: category(project),
+        ...(project.tags.length > 0 ? { keywords: project.tags.join(', ') } : {}),
+        dateCreated: project.date,
+        ...(project.updatedAt ? { dateModified: project.updatedAt } : {}),
+        ...(images.length > 0 ? { image: images } : {}),
+        ...(client ? { sponsor: clientOrganization(client) } : {}),
+        creator: organization,
+        inLanguage: 'en',
+        creativeWorkStatus: project.status
+      },
+      lastModified: project.updatedAt,
+      main: `<article><h1>${escapeHtml(project.title)}</h1><p>${escapeHtml(project.description)}</p><dl>`
+        + (client ? `<dt>${escapeHtml(t('card.client'))}</dt><dd>${clientLink(client)}</dd>` : '')
+        + [['CATEGORY:', category(project)], ['TAGS:', project.tags.join(', ')], ['DATE:', project.date], ['STATUS:', project.status]]
+          .filter(([, value]) => value !== '')
+          .map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`).join('')
+        + `</dl>${project.media.map(item => mediaHtml(item, project.title, absolute)).join('')}</article>`
+        + `<p>${link({ name: 'CONTENT' }, t('detail.back'))}</p>`
+    }));
+  }
+
+  for (const client of state.clients) {
+    const route: Route = { name: 'CLIENT', clientId: client.id };
+    const projects = state.projects.filter(p => p.clientId === client.id);
+    const archiveItems = state.archiveItems.filter(a => a.clientId === client.id);
+    pages.push(page(route, {
+      title: `${client.name} | ${state.siteTitle}`,
+      description: summarize([client.name, client.sector, client.region, ...projects.map(p => p.title), ...archiveItems.map(a => a.project)].filter(Boolean).join(', ')),
+      image: client.logo && absolute(client.logo.src),
+      imageAlt: client.logo && imageAlt(client.logo, client.name),
+      ogType: 'website',
+      jsonLd: {
+        '@context': 'https://schema.org',
+        '@type': 'ProfilePage',
+        url: pageUrl(route),
+        mainEntity: {
+          ...clientOrganization(client),
+          ...(client.sector ? { knowsAbout: client.sector } : {}),
+          ...(client.region ? { address: client.region } : {}),
+          ...(client.logo ? { logo: absolute(client.logo.src) } : {})
+        },
+        hasPart: projects.map(p => ({ '@type': 'CreativeWork', name: p.title, url: pageUrl({ name: 'PROJECT', projectId: p.id }) }))
+      },
+      lastModified: lastModified([client, ...projects, ...archiveItems].map(r => r.updatedAt)),
+      main: `<h1>${escapeHtml(client.name)}</h1><dl>`
+        + [[`${t('client.sector')}:`, client.sector], [`${t('client.region')}:`, client.region], [`${t('client.website')}:`, client.website]]
+          .filter(([, value]) => value !== '')
+          .map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`).join('')
+        + `</dl><h2>${t('client.projects')}</h2>${projects.length > 0 ? `<ul>${projects.map(projectItem).join('')}</ul>` : `<p>${t('client.empty')}</p>`}`
+        + `<h2>${t('client.archive')}</h2>${archiveItems.length > 0 ? archiveTable(archiveItems) : `<p>${t('client.empty')}</p>`}`
+        + `<p>${link({ name: 'CONTENT' }, t('detail.back'))}</p>`
+    }));
+  }
+  return pages;
+};
+
+const headTags = (page: StaticPage, siteTitle: string): string => [
+  `<meta name="description" content="${escapeHtml(page.description)}">`,
+  `<link rel="canonical" href="${escapeHtml(page.url)}">`,
+  `<meta property="og:site_name" content="${escapeHtml(siteTitle)}">`,
+  `<meta property="og:type" content="${page.ogType}">`,
+  `<meta property="og:title" content="${escapeHtml(page.title)}">`,
+  `<meta property="og:description" content="${escapeHtml(page.description)}">`,
+  `<meta property="og:url" content="${escapeHtml(page.url)}">`,
+  ...(page.image ? [
+    `<meta property="og:image" content="${escapeHtml(page.image)}">`,
+    `<meta property="og:image:alt" content="${escapeHtml(page.imageAlt || page.title)}">`
+  ] : []),
+  `<meta name="twitter:card" content="${page.image ? 'summary_large_image' : 'summary'}">`,
+  `<meta name="twitter:title" content="${escapeHtml(page.title)}">`,
+  `<meta name="twitter:description" content="${escapeHtml(page.description)}">`,
+  ...(page.image ? [`<meta name="twitter:image" content="${escapeHtml(page.image)}">`] : []),
+  ...page.feeds.map(feed => `<link rel="alternate" type="${feed.type}" title="${escapeHtml(feed.title)}" href="${escapeHtml(feed.href)}">`),
+  `<script type="application/ld+json">${scriptJson(page.jsonLd)}</script>`
+].join('\n    ');
+
+// 빌드된 index.html을 틀로 페이지별 head 메타와 #root 본문을 채운다. 앱이 마운트되면 본문은 교체된다.
+export const renderStaticPage = (template: string, page: StaticPage, seed: StaticSeed): string =>
+  template
+    .replace(/<title>[\s\S]*?<\/title>/, () => `<title>${escapeHtml(page.title)}</title>\n    ${headTags(page, seed.state.siteTitle)}`)
+    .replace(/<div id="root"><\/div>/, () =>
+      `<div id="root">${page.body}</div>\n    <script type="application/json" id="${SEED_ELEMENT_ID}">${scriptJson(seed)}</script>`);
+
+export const renderSitemap = (pages: StaticPage[]): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+  ...pages.map(page =>
+    `  <url><loc>${escapeHtml(page.url)}</loc>${page.lastModified ? `<lastmod>${page.lastModified.slice(0, 10)}</lastmod>` : ''}</url>`),
+  '</urlset>',
+  ''
+].join('\n');
+
+// CMS 진입점(#/cms)은 해시라서 크롤링 대상이 아니다.
+export const renderRobots = (siteUrl: string): string =>
+  `User-agent: *\nAllow: /\n\nSitemap: ${new URL('sitemap.xml', siteBase(siteUrl)).href}\n`;
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { Project } from '../types.ts';
+import { CATEGORIES, client, project } from '../test/fixtures.ts';
+import {
+  DEFAULT_PROJECT_FILTER, ProjectFilter, countByCategory, featuredProjects, isFilterActive,
+  parseProjectFilter, projectYears, queryProjects, serializeProjectFilter
+} from './projectQuery.ts';
+
+const CLIENTS = [client('CL-AESOP', 'Aesop')];
+
+const PROJECTS = [
+  project('Beta', { date: '2021-05-01', clientId: 'CL-AESOP', tags: ['Retail'] }),
+  project('Alpha', { category: 'FILM', date: '2023-01-10', status: 'IN_PROGRESS', tags: ['Motion', 'retail'] }),
+  project('Gamma', { date: '2019-11-30', description: 'Seoul flagship', translations: { ko: { title: '감마 공간' } } }),
+  project('Delta', { category: 'FILM' })
+];
+
+const filter = (patch: Partial<ProjectFilter>): ProjectFilter => ({ ...DEFAULT_PROJECT_FILTER, ...patch });
+const ids = (projects: Project[]) => projects.map(p => p.id);
+
+describe('parseProjectFilter / serializeProjectFilter', () => {
+  it('reads the URL query and drops unknown values', () => {
+    const parsed = parseProjectFilter(
+      { cat: 'film,unknown', tag: 'Retail, retail ,,Motion', status: 'in_progress,DONE', from: '2020', to: 'x', q: 'aesop', sort: 'title_asc' },
+      CATEGORIES
+    );
+
+    expect(parsed).toEqual({
+      categories: ['FILM'],
+      tags: ['Retail', 'Motion'],
+      statuses: ['IN_PROGRESS'],
+      yearFrom: 2020,
+      yearTo: null,
+      search: 'aesop',
+      sort: 'TITLE_ASC'
+    });
+  });
+
+  it('round-trips a filter and omits defaults', () => {
+    const value = filter({ categories: ['FILM', 'BRANDING'], tags: ['Motion'], yearTo: 2022, sort: 'DATE_DESC' });
+
+    expect(serializeProjectFilter(value)).toEqual({ cat: 'FILM,BRANDING', tag: 'Motion', to: '2022', sort: 'DATE_DESC' });
+    expect(parseProjectFilter(serializeProjectFilter(value), CATEGORIES)).toEqual(value);
+    expect(serializeProjectFilter(DEFAULT_PROJECT_FILTER)).toEqual({});
+    expect(parseProjectFilter(undefined, CATEGORIES)).toEqual(DEFAULT_PROJECT_FILTER);
+  });
+
+  it('does not count sorting as an active filter', () => {
+    expect(isFilterActive(filter({ sort: 'TITLE_DESC' }))).toBe(false);
+    expect(isFilterActive(filter({ search: '  ' }))).toBe(false);
+    expect(isFilterActive(filter({ yearFrom: 2020 }))).toBe(true);
+  });
+});
+
+describe('queryProjects', () => {
+  it('keeps the curated order by default', () => {
+    expect(ids(queryProjects(PROJECTS, DEFAULT_PROJECT_FILTER))).toEqual(['Beta', 'Alpha', 'Gamma', 'Delta']);
+  });
+
+  it('combines category, tag and status filters', () => {
+    expect(ids(queryProjects(PROJECTS, filter({ categories: ['FILM'] })))).toEqual(['Alpha', 'Delta']);
+    expect(ids(queryProjects(PROJECTS, filter({ tags: ['RETAIL'] })))).toEqual(['Beta', 'Alpha']);
+    expect(ids(queryProjects(PROJECTS, filter({ tags: ['retail', 'motion'] })))).toEqual(['Alpha']);
+    expect(ids(queryProjects(PROJECTS, filter({ statuses: ['COMPLETED'], categories: ['FILM'] })))).toEqual(['Delta']);
+  });
+
+  it('excludes undated projects from a year range', () => {
+    expect(ids(queryProjects(PROJECTS, filter({ yearFrom: 2020 })))).toEqual(['Beta', 'Alpha']);
+    expect(ids(queryProjects(PROJECTS, filter({ yearFrom: 2020, yearTo: 2021 })))).toEqual(['Beta']);
+  });
+
+  it('searches title, client name, description, tags and translations with every term required', () => {
+    expect(ids(queryProjects(PROJECTS, filter({ search: 'aesop' }), CLIENTS))).toEqual(['Beta']);
+    expect(ids(queryProjects(PROJECTS, filter({ search: 'aesop' })))).toEqual([]);
+    expect(ids(queryProjects(PROJECTS, filter({ search: 'SEOUL gamma' })))).toEqual(['Gamma']);
+    expect(ids(queryProjects(PROJECTS, filter({ search: 'motion' })))).toEqual(['Alpha']);
+    expect(ids(queryProjects(PROJECTS, filter({ search: '감마 공간' })))).toEqual(['Gamma']);
+    expect(ids(queryProjects(PROJECTS, filter({ search: 'seoul alpha' })))).toEqual([]);
+  });
+
+  it('sorts by date and title', () => {
+    expect(ids(queryProjects(PROJECTS, filter({ sort: 'DATE_DESC' })))).toEqual(['Alpha', 'Beta', 'Gamma', 'Delta']);
+    expect(ids(queryProjects(PROJECTS, filter({ sort: 'DATE_ASC' })))).toEqual(['Delta', 'Gamma', 'Beta', 'Alpha']);
+    expect(ids(queryProjects(PROJECTS, filter({ sort: 'TITLE_ASC' })))).toEqual(['Alpha', 'Beta', 'Delta', 'Gamma']);
+  });
+});
+
+describe('countByCategory', () => {
+  it('counts with every filter except the selected categories', () => {
+    expect(countByCategory(PROJECTS, filter({ categories: ['FILM'], tags: ['retail'] }))).toEqual({ BRANDING: 1, FILM: 1 });
+  });
+});
+
+describe('featuredProjects', () => {
+  it('returns pinned projects, or the first three when none are pinned', () => {
+    expect(ids(featuredProjects(PROJECTS))).toEqual(['Beta', 'Alpha', 'Gamma']);
+    expect(ids(featuredProjects([...PROJECTS.slice(0, 3), { ...PROJECTS[3], featured: true }]))).toEqual(['Delta']);
+  });
+});
+
+describe('projectYears', () => {
+  it('lists distinct years, newest first', () => {
+    expect(projectYears([...PROJECTS, project('Epsilon', { date: '2021-01-01' })])).toEqual([2023, 2021, 2019]);
+  });
+});
@@ -0,0 +1,123 @@
+import { CategoryTerm, Client, Project } from '../types.ts';
+import { hasTag, normalizeTags } from './taxonomy.ts';
+import { clientName } from './clients.ts';
+import { RouteQuery } from './router.ts';
+
+export type ProjectStatus = Project['status'];
+export type ProjectSort = 'CURATED' | 'DATE_DESC' | 'DATE_ASC' | 'TITLE_ASC' | 'TITLE_DESC';
+
+export const PROJECT_STATUSES: ProjectStatus[] = ['COMPLETED', 'IN_PROGRESS', 'ARCHIVED'];
+export const PROJECT_SORTS: ProjectSort[] = ['CURATED', 'DATE_DESC', 'DATE_ASC', 'TITLE_ASC', 'TITLE_DESC'];
+
+export interface ProjectFilter {
+  /** CategoryTerm.id (하나라도 일치) */
+  categories: string[];
+  /** 모두 포함해야 일치 */
+  tags: string[];
+  statuses: ProjectStatus[];
+  yearFrom: number | null;
+  yearTo: number | null;
+  search: string;
+  sort: ProjectSort;
+}
+
+export const DEFAULT_PROJECT_FILTER: ProjectFilter = {
+  categories: [],
+  tags: [],
+  statuses: [],
+  yearFrom: null,
+  yearTo: null,
+  search: '',
+  sort: 'CURATED'
+};
+
+const parseList = <T extends string>(value: string | undefined, allowed: readonly T[]): T[] =>
+  (value || '').split(',').map(v => v.trim().toUpperCase()).filter((v): v is T => (allowed as readonly string[]).includes(v));
+
+const parseYear = (value?: string): number | null => {
+  const year = parseInt(value || '', 10);
+  return Number.isFinite(year) ? year : null;
+};
+
+// URL 쿼리 <-> 필터: cat, tag, status, from, to, q, sort (기본값은 쿼리에서 생략)
+// 분야는 현재 목록에 있는 것만 받는다. 태그는 대소문자를 구분하지 않고 그대로 받는다.
+export const parseProjectFilter = (query: RouteQuery = {}, categories: CategoryTerm[] = []): ProjectFilter => ({
+  categories: parseList(query.cat, categories.map(c => c.id)),
+  tags: normalizeTags((query.tag || '').split(',')),
+  statuses: parseList(query.status, PROJECT_STATUSES),
+  yearFrom: parseYear(query.from),
+  yearTo: parseYear(query.to),
+  search: query.q || '',
+  sort: parseList(query.sort, PROJECT_SORTS)[0] || DEFAULT_PROJECT_FILTER.sort
+});
+
+export const serializeProjectFilter = (filter: ProjectFilter): RouteQuery => {
+  const query: RouteQuery = {};
+  if (filter.categories.length) query.cat = filter.categories.join(',');
+  if (filter.tags.length) query.tag = filter.tags.join(',');
+  if (filter.statuses.length) query.status = filter.statuses.join(',');
+  if (filter.yearFrom !== null) query.from = String(filter.yearFrom);
+  if (filter.yearTo !== null) query.to = String(filter.yearTo);
+  if (filter.search.trim()) query.q = filter.search;
+  if (filter.sort !== DEFAULT_PROJECT_FILTER.sort) query.sort = filter.sort;
+  return query;
+};
+
+export const isFilterActive = (filter: ProjectFilter): boolean =>
+  Object.keys(serializeProjectFilter({ ...filter, sort: DEFAULT_PROJECT_FILTER.sort })).length > 0;
+
+export const projectYear = (project: Project): number | null => parseYear(project.date?.slice(0, 4));
+
+const matchesSearch = (project: Project, search: string, clients: Client[]): boolean => {
+  const terms = search.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  // 번역된 제목·설명으로도 찾을 수 있도록 모든 언어를 함께 검색
+  const translated = Object.values(project.translations || {}).flatMap(fields => Object.values(fields || {}));
+  const haystack = [project.title, clientName(clients, project.clientId), project.description, ...project.tags, ...translated].join(' ').toLowerCase();
+  return terms.every(term => haystack.includes(term));
+};
+
+const matchesFilter = (project: Project, filter: ProjectFilter, clients: Client[], ignoreCategory = false): boolean => {
+  if (!ignoreCategory && filter.categories.length && !filter.categories.includes(project.category)) return false;
+  if (!filter.tags.every(tag => hasTag(project.tags, tag))) return false;
+  if (filter.statuses.length && !filter.statuses.includes(project.status)) return false;
+  const year = projectYear(project);
+  if (filter.yearFrom !== null && (year === null || year < filter.yearFrom)) return false;
+  if (filter.yearTo !== null && (year === null || year > filter.yearTo)) return false;
+  return matchesSearch(project, filter.search, clients);
+};
+
+const compareProjects = (sort: ProjectSort) => (a: Project, b: Project): number => {
+  switch (sort) {
+    case 'DATE_ASC': return (a.date || '').localeCompare(b.date || '');
+    case 'TITLE_ASC': return a.title.localeCompare(b.title);
+    case 'TITLE_DESC': return b.title.localeCompare(a.title);
+    case 'DATE_DESC': return (b.date || '').localeCompare(a.date || '');
+    // CMS에서 정한 목록 순서 유지 (정렬은 안정적)
+    default: return 0;
+  }
+};
+
+const FEATURED_FALLBACK_COUNT = 3;
+
+// 홈 화면 노출 프로젝트: 고정(featured)된 항목을 목록 순서대로, 없으면 목록 앞쪽 몇 개
+export const featuredProjects = (projects: Project[]): Project[] => {
+  const pinned = projects.filter(p => p.featured);
+  return pinned.length > 0 ? pinned : projects.slice(0, FEATURED_FALLBACK_COUNT);
+};
+
+/** clients: 고객사 이름으로도 검색하기 위한 목록 */
+export const queryProjects = (projects: Project[], filter: ProjectFilter, clients: Client[] = []): Project[] =>
+  projects.filter(p => matchesFilter(p, filter, clients)).sort(compareProjects(filter.sort));
+
+// 카테고리별 건수는 카테고리 선택을 제외한 나머지 조건 기준 (선택을 바꿨을 때의 결과 수)
+export const countByCategory = (projects: Project[], filter: ProjectFilter, clients: Client[] = []): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  projects.filter(p => matchesFilter(p, filter, clients, true)).forEach(p => {
+    counts[p.category] = (counts[p.category] || 0) + 1;
+  });
+  return counts;
+};
+
+export const projectYears = (projects: Project[]): number[] =>
+  Array.from(new Set(projects.map(projectYear).filter((y): y is number => y !== null))).sort((a, b) => b - a);
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { HOME_ROUTE, Route, formatRoute, parsePath, parseRoute, routePath, routeView } from './router.ts';
+
+describe('parseRoute / formatRoute', () => {
+  const routes: [string, Route][] = [
+    ['#/', HOME_ROUTE],
+    ['#/content', { name: 'CONTENT' }],
+    ['#/services', { name: 'SERVICES' }],
+    ['#/contact', { name: 'CONTACT' }],
+    ['#/content?cat=FILM,SPACE&q=seoul+film', { name: 'CONTENT', query: { cat: 'FILM,SPACE', q: 'seoul film' } }],
+    ['#/project/P-1', { name: 'PROJECT', projectId: 'P-1' }],
+    ['#/client/CL-AESOP', { name: 'CLIENT', clientId: 'CL-AESOP' }],
+    ['#/cms', { name: 'CMS' }]
+  ];
+
+  it.each(routes)('round-trips %s', (hash, route) => {
+    expect(parseRoute(hash)).toEqual(route);
+    expect(formatRoute(route)).toBe(hash);
+  });
+
+  it('encodes and decodes project IDs', () => {
+    const route: Route = { name: 'PROJECT', projectId: 'P 1/가' };
+    expect(formatRoute(route)).toBe('#/project/P%201%2F%EA%B0%80');
+    expect(parseRoute(formatRoute(route))).toEqual(route);
+  });
+
+  it('keeps malformed percent-encoding as the raw segment instead of throwing', () => {
+    expect(parseRoute('#/project/%E0')).toEqual({ name: 'PROJECT', projectId: '%E0' });
+    expect(parsePath('/client/%E0/')).toEqual({ route: { name: 'CLIENT', clientId: '%E0' }, base: '/' });
+  });
+
+  it('falls back to home for empty and unknown paths', () => {
+    expect(parseRoute('')).toEqual(HOME_ROUTE);
+    expect(parseRoute('#')).toEqual(HOME_ROUTE);
+    expect(parseRoute('#/unknown')).toEqual(HOME_ROUTE);
+    expect(parseRoute('#/project')).toEqual(HOME_ROUTE);
+    expect(parseRoute('#/client/')).toEqual(HOME_ROUTE);
+  });
+});
+
+describe('routeView', () => {
+  it('places projects and clients under CONTENT and the CMS over HOME', () => {
+    expect(routeView({ name: 'PROJECT', projectId: 'P-1' })).toBe('CONTENT');
+    expect(routeView({ name: 'CLIENT', clientId: 'CL-1' })).toBe('CONTENT');
+    expect(routeView({ name: 'CMS' })).toBe('HOME');
+    expect(routeView({ name: 'SERVICES' })).toBe('SERVICES');
+  });
+});
+
+describe('routePath / parsePath', () => {
+  it.each([
+    ['/', HOME_ROUTE],
+    ['/content/', { name: 'CONTENT' }],
+    ['/services/', { name: 'SERVICES' }],
+    ['/project/P%201%2F%EA%B0%80/', { name: 'PROJECT', projectId: 'P 1/가' }],
+    ['/client/CL-%EA%B0%80/', { name: 'CLIENT', clientId: 'CL-가' }]
+  ] as [string, Route][])('maps %s', (path, route) => {
+    expect(routePath(route)).toBe(path);
+    if (path !== '/') expect(parsePath(path)).toEqual({ route, base: '/' });
+  });
+
+  it('keeps the site base and accepts index.html', () => {
+    expect(parsePath('/portfolio/contact/index.html')).toEqual({ route: { name: 'CONTACT' }, base: '/portfolio/' });
+    expect(parsePath('/portfolio/project/P-1')).toEqual({ route: { name: 'PROJECT', projectId: 'P-1' }, base: '/portfolio/' });
+  });
+
+  it('ignores the site root and unknown paths', () => {
+    expect(routePath({ name: 'CMS' })).toBe('/');
+    expect(parsePath('/')).toBeNull();
+    expect(parsePath('/portfolio/about/')).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+// 정적 호스팅을 고려한 해시 기반 라우팅: #/content, #/project/<ID>, #/client/<ID>, #/cms ...
+export type ViewType = 'HOME' | 'CONTENT' | 'SERVICES' | 'CONTACT';
+
+export type RouteQuery = Record<string, string>;
+
+export type Route =
+  | { name: ViewType; query?: RouteQuery }
+  | { name: 'PROJECT'; projectId: string }
+  | { name: 'CLIENT'; clientId: string }
+  | { name: 'CMS' };
+
+const VIEW_PATHS: Record<ViewType, string> = {
+  HOME: '',
+  CONTENT: 'content',
+  SERVICES: 'services',
+  CONTACT: 'contact'
+};
+
+export const HOME_ROUTE: Route = { name: 'HOME' };
+
+// 잘못 인코딩된 주소(#/project/%E0)는 원문 그대로 두어 해당 레코드 없음(NOT_FOUND)으로 처리되게 한다.
+const safeDecode = (segment: string): string => {
+  try {
+    return decodeURIComponent(segment);
+  } catch (e) {
+    return segment;
+  }
+};
+
+export const parseRoute = (hash: string): Route => {
+  const [path, search = ''] = hash.replace(/^#\/?/, '').split('?');
+  const segments = path.split('/').filter(Boolean).map(safeDecode);
+  const [head, ...rest] = segments;
+
+  if (!head) return HOME_ROUTE;
+  if (head === 'cms') return { name: 'CMS' };
+  if (head === 'project' && rest[0]) return { name: 'PROJECT', projectId: rest[0] };
+  if (head === 'client' && rest[0]) return { name: 'CLIENT', clientId: rest[0] };
+
+  const view = (Object.keys(VIEW_PATHS) as ViewType[]).find(v => VIEW_PATHS[v] === head);
+  if (!view) return HOME_ROUTE;
+  const query = Object.fromEntries(new URLSearchParams(search));
+  return Object.keys(query).length > 0 ? { name: view, query } : { name: view };
+};
+
+export const formatRoute = (route: Route): string => {
+  switch (route.name) {
+    case 'CMS':
+      return '#/cms';
+    case 'PROJECT':
+      return `#/project/${encodeURIComponent(route.projectId)}`;
+    case 'CLIENT':
+      return `#/client/${encodeURIComponent(route.clientId)}`;
+    default: {
+      // 쉼표 목록(cat=FILM,SPACE)은 공유 링크 가독성을 위해 인코딩하지 않는다.
+      const search = new URLSearchParams(route.query).toString().replace(/%2C/gi, ',');
+      return `#/${VIEW_PATHS[route.name]}${search ? `?${search}` : ''}`;
+    }
+  }
+};
+
+// 공개 화면 기준의 섹션: 프로젝트·고객사는 CONTENT 소속, CMS 인증 중에는 HOME을 배경으로 둔다.
+export const routeView = (route: Route): ViewType => {
+  if (route.name === 'PROJECT' || route.name === 'CLIENT') return 'CONTENT';
+  if (route.name === 'CMS') return 'HOME';
+  return route.name;
+};
+
+// 정적 빌드(prerender)의 실제 경로: /content/, /project/<ID>/ ...
+export const routePath = (route: Route): string => {
+  switch (route.name) {
+    case 'CMS':
+      return '/';
+    case 'PROJECT':
+      return `/project/${encodeURIComponent(route.projectId)}/`;
+    case 'CLIENT':
+      return `/client/${encodeURIComponent(route.clientId)}/`;
+    default:
+      return VIEW_PATHS[route.name] ? `/${VIEW_PATHS[route.name]}/` : '/';
+  }
+};
+
+// 정적 페이지로 진입한 경우 경로에서 라우트를 읽고, 사이트 루트(base)를 함께 돌려준다.
+export const parsePath = (pathname: string): { route: Route; base: string } | null => {
+  const match = pathname.match(/^(.*?\/)(content|services|contact|project\/([^/]+)|client\/([^/]+))\/?(?:index\.html)?$/);
+  if (!match) return null;
+  const [, base, head, projectId, clientId] = match;
+  if (projectId) return { route: { name: 'PROJECT', projectId: safeDecode(projectId) }, base };
+  if (clientId) return { route: { name: 'CLIENT', clientId: safeDecode(clientId) }, base };
+  return { route: parseRoute(`#/${head}`), base };
+};
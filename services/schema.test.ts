@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import { AppState, Project } from '../types.ts';
+import { appState, client, message, project, service } from '../test/fixtures.ts';
+import { SCHEMA_VERSION, SchemaError, loadState, migrateState, validateState } from './schema.ts';
+
+// 불러온 JSON처럼 검증 전 입력으로 넘긴다.
+const raw = (state: AppState): Record<string, unknown> => ({ ...state });
+
+const DEFAULTS = appState({ services: [service('S-DEFAULT')], siteTitle: 'DEFAULT_TITLE', tagline: 'DEFAULT_TAGLINE' });
+
+describe('migrateState', () => {
+  it('migrates a v0 save to the current version', () => {
+    const v0 = {
+      projects: [{ id: 'P-1', title: 'Shop', category: 'BRANDING', client: 'LE LABO', date: '2020-05-01', description: '', imageUrl: 'https://img/a.jpg', status: 'COMPLETED' }],
+      archiveItems: [{ id: 'A-1', year: '2015 - Present', company: 'Le Labo Inc.', category: 'Retail, Beauty, retail', project: 'Store', imageUrl: '' }]
+    };
+
+    const { state, fromVersion, issues } = loadState(v0, DEFAULTS);
+
+    expect(fromVersion).toBe(0);
+    expect(issues).toEqual([]);
+    expect(state.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(state.services).toEqual(DEFAULTS.services);
+    expect(state.siteTitle).toBe('DEFAULT_TITLE');
+    expect(state.trash).toEqual([]);
+    expect(state.auditLog).toEqual([]);
+    expect(state.inbox).toEqual([]);
+    expect(state.categories).toEqual(DEFAULTS.categories);
+
+    // 아카이브 표기("Le Labo Inc.")가 먼저 고객사 이름이 되고 프로젝트의 대문자 표기도 같은 고객사로 묶인다.
+    expect(state.clients.map(c => [c.id, c.name])).toEqual([['CL-LE-LABO-INC', 'Le Labo Inc.']]);
+    expect(state.projects[0]).toMatchObject({
+      clientId: 'CL-LE-LABO-INC',
+      tags: [],
+      media: [{ src: 'https://img/a.jpg', alt: '', caption: '', credit: '', focalX: 50, focalY: 50, kind: 'image' }]
+    });
+    expect(state.projects[0]).not.toHaveProperty('imageUrl');
+    expect(state.projects[0]).not.toHaveProperty('client');
+    expect(state.archiveItems[0]).toEqual({ id: 'A-1', period: { start: '2015', ongoing: true }, clientId: 'CL-LE-LABO-INC', tags: ['Retail', 'Beauty'], project: 'Store' });
+    expect(state.clientReview.map(m => m.recordId).sort()).toEqual(['A-1', 'P-1']);
+  });
+
+  it('applies record migrations to trash and audit snapshots', () => {
+    const v3 = {
+      schemaVersion: 3,
+      projects: [],
+      archiveItems: [],
+      services: [],
+      siteTitle: 'T',
+      tagline: 'L',
+      trash: [{ entryId: 'T-1', collection: 'archiveItems', index: 0, deletedAt: '2024-01-01', record: { id: 'A-9', year: '2019.03 - 2020.1', company: 'Aesop', category: 'Beauty', project: 'Store', imageUrl: 'https://img/b.jpg' } }],
+      auditLog: [{ id: 'L-1', at: '2024-01-01', actor: 'ADMIN', action: 'UPDATE', recordType: 'project', recordId: 'P-9', label: 'Old', changes: [], snapshot: { id: 'P-9', imageUrls: ['https://img/c.jpg', ''] } }]
+    };
+
+    const migrated = migrateState(v3, DEFAULTS);
+    const [entry] = migrated.trash as { record: Record<string, unknown> }[];
+    const [log] = migrated.auditLog as { snapshot: Record<string, unknown> }[];
+
+    expect(entry.record).toMatchObject({ period: { start: '2019-03', end: '2020-01' }, tags: ['Beauty'], image: { src: 'https://img/b.jpg', focalX: 50 } });
+    expect(entry.record).not.toHaveProperty('imageUrl');
+    expect(entry.record).not.toHaveProperty('category');
+    expect(entry.record.clientId).toBe('CL-AESOP');
+    expect(entry.record).not.toHaveProperty('company');
+    expect(log.snapshot).toEqual({ id: 'P-9', tags: [], media: [expect.objectContaining({ src: 'https://img/c.jpg', kind: 'image' })] });
+    // 휴지통 레코드의 고객사도 만들지만 검토 목록에는 올리지 않는다.
+    expect(migrated.clients).toHaveLength(1);
+    expect(migrated.clientReview).toEqual([]);
+  });
+
+  it('leaves current data untouched', () => {
+    const data = raw(appState({ schemaVersion: SCHEMA_VERSION, projects: [project()] }));
+    expect(migrateState(data, DEFAULTS)).toBe(data);
+  });
+
+  it('rejects data from a newer version', () => {
+    expect(() => migrateState({ schemaVersion: SCHEMA_VERSION + 1 }, DEFAULTS)).toThrow(SchemaError);
+  });
+});
+
+describe('validateState', () => {
+  it('drops invalid and duplicate records and reports their paths', () => {
+    const { state, issues } = validateState(raw(appState({
+      projects: [project(), project('P-2', { status: 'DONE' as Project['status'] }), project('P-1', { title: 'Copy' })]
+    })), DEFAULTS);
+
+    expect(state.projects.map(p => p.title)).toEqual(['P-1']);
+    expect(issues).toEqual([
+      { path: 'projects[1]<P-2>', message: 'status: EXPECTED COMPLETED|IN_PROGRESS|ARCHIVED' },
+      { path: 'projects[2]<P-1>', message: 'DUPLICATE_ID' }
+    ]);
+  });
+
+  it('reports non-object records and missing collections', () => {
+    const { state, issues } = validateState({ ...appState(), services: [null], archiveItems: 'x' }, DEFAULTS);
+
+    expect(state.services).toEqual([]);
+    expect(state.archiveItems).toEqual([]);
+    expect(issues).toEqual([
+      { path: 'archiveItems', message: 'EXPECTED ARRAY' },
+      { path: 'services[0]', message: 'EXPECTED OBJECT' }
+    ]);
+  });
+
+  it('validates trashed records against their collection', () => {
+    const { state, issues } = validateState(raw(appState({
+      trash: [
+        { entryId: 'T-1', collection: 'services', record: service(), index: 0, deletedAt: '2024-01-01' },
+        { entryId: 'T-2', collection: 'services', record: { ...service(), title: 1 } as never, index: 0, deletedAt: '2024-01-01' }
+      ]
+    })), DEFAULTS);
+
+    expect(state.trash.map(e => e.entryId)).toEqual(['T-1']);
+    expect(issues).toEqual([{ path: 'trash[1]', message: 'record.title: EXPECTED STRING' }]);
+  });
+
+  it('recreates categories used by projects and restores defaults when the list is empty', () => {
+    const { state, issues } = validateState(raw(appState({ categories: [], projects: [project('P-1', { category: 'SPACE' })] })), DEFAULTS);
+
+    expect(state.categories).toEqual([...DEFAULTS.categories, { id: 'SPACE', label: 'SPACE' }]);
+    expect(issues.map(i => i.path)).toEqual(['categories', 'categories<SPACE>']);
+  });
+
+  it('unlinks references to unknown clients but keeps clients in the trash', () => {
+    const { state, issues } = validateState(raw(appState({
+      projects: [project('P-1', { clientId: 'CL-GONE' }), project('P-2', { clientId: 'CL-OLD' })],
+      trash: [{ entryId: 'T-1', collection: 'clients', record: client('CL-OLD'), index: 0, deletedAt: '2024-01-01' }]
+    })), DEFAULTS);
+
+    expect(state.projects[0]).not.toHaveProperty('clientId');
+    expect(state.projects[1].clientId).toBe('CL-OLD');
+    expect(issues).toEqual([{ path: 'projects<P-1>', message: 'UNKNOWN_CLIENT CL-GONE: UNLINKED' }]);
+  });
+
+  it('accepts inbox attachments stored inline or in the asset store', () => {
+    const file = (data: string) => ({ name: 'brief.pdf', type: 'application/pdf', size: 3, data });
+    const { state, issues } = validateState(raw(appState({
+      inbox: [
+        message('MSG-1', { attachments: [file('data:application/pdf;base64,AAAA')] }),
+        message('MSG-2', { attachments: [file('asset:A-1')] }),
+        message('MSG-3', { attachments: [file('https://example.com/brief.pdf')] })
+      ]
+    })), DEFAULTS);
+
+    expect(state.inbox.map(m => m.id)).toEqual(['MSG-1', 'MSG-2']);
+    expect(issues.map(i => i.path)).toEqual(['inbox[2]<MSG-3>']);
+  });
+
+  it('falls back to defaults for text fields and drops an invalid credential', () => {
+    const { state, issues } = validateState({ ...appState(), siteTitle: 42, credential: { algorithm: 'MD5' } }, DEFAULTS);
+
+    expect(state.siteTitle).toBe('DEFAULT_TITLE');
+    expect(state).not.toHaveProperty('credential');
+    expect(issues.map(i => i.path)).toEqual(['credential', 'credential', 'credential', 'credential', 'siteTitle']);
+  });
+
+  it('accepts only base64 credentials with a bounded iteration count', () => {
+    const credential = { algorithm: 'PBKDF2-SHA256', iterations: 310000, salt: 'AAAAAAAAAAAAAAAAAAAAAA==', hash: 'AAAA', updatedAt: '2024-01-01' };
+
+    expect(validateState({ ...appState(), credential }, DEFAULTS).state.credential).toEqual(credential);
+
+    const { state, issues } = validateState({ ...appState(), credential: { ...credential, iterations: 1e9, salt: 'not base64!', hash: '' } }, DEFAULTS);
+    expect(state).not.toHaveProperty('credential');
+    expect(issues.map(i => i.message)).toEqual([
+      'iterations: EXPECTED INT 100000-2000000',
+      'salt: EXPECTED BASE64',
+      'hash: EXPECTED BASE64'
+    ]);
+  });
+});
+
+describe('loadState', () => {
+  it('rejects input that is not an object', () => {
+    expect(() => loadState([], DEFAULTS)).toThrow('INVALID_DATA_STRUCTURE');
+    expect(() => loadState(null, DEFAULTS)).toThrow(SchemaError);
+  });
+});
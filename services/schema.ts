@@ -0,0 +1,565 @@
+import { AppState, CategoryTerm, Client, ClientMatch, Project, ArchiveItem, Service, Credential, TrashEntry, AuditEntry, ContactSettings, InboxMessage, SiteConfig, ThemeSettings } from '../types.ts';
+import { TRANSLATION_LOCALES } from './i18n.ts';
+import { ClientSource, buildClientRegistry, matchClient } from './clients.ts';
+import { isDateRange, parseDateRange } from './dateRange.ts';
+import { isHexColor, isThemePreference } from './theme.ts';
+import { MAX_PBKDF2_ITERATIONS, MIN_PBKDF2_ITERATIONS, isBase64 } from './auth.ts';
+
+// AppState 스키마 버전. 저장 형식이 바뀌면 버전을 올리고 MIGRATIONS에 변환 함수를 추가한다.
+// schemaVersion 필드가 없는 데이터는 v0(odemind_archive_v5_final 시절 형식)으로 간주한다.
+export const SCHEMA_VERSION = 9;
+
+export class SchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SchemaError';
+  }
+}
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface LoadResult {
+  state: AppState;
+  fromVersion: number;
+  issues: ValidationIssue[];
+}
+
+type RawState = Record<string, unknown>;
+type Migration = (data: RawState, defaults: AppState) => RawState;
+
+// 목록이면 항목마다 변환하고, 목록이 아니면 그대로 둔다 (검증 단계에서 보고).
+const mapList = (list: unknown, migrate: (item: unknown) => unknown): unknown =>
+  Array.isArray(list) ? list.map(migrate) : list;
+
+// 휴지통 레코드와 변경 이력 스냅샷에도 현재 레코드와 같은 변환을 적용한다.
+const mapTrashRecords = (trash: unknown, migrate: (collection: unknown, record: unknown) => unknown): unknown =>
+  mapList(trash, e => (isObject(e) ? { ...e, record: migrate(e.collection, e.record) } : e));
+
+const mapAuditSnapshots = (auditLog: unknown, migrate: (collection: string | undefined, snapshot: unknown) => unknown): unknown =>
+  mapList(auditLog, e => (isObject(e) && e.snapshot
+    ? { ...e, snapshot: migrate(isString(e.recordType) ? AUDIT_COLLECTIONS[e.recordType] : undefined, e.snapshot) }
+    : e));
+
+// v3 -> v4: 이미지 참조 문자열을 구조화된 ImageAsset으로
+const toImageAsset = (src: string) => ({ src, alt: '', caption: '', credit: '', focalX: 50, focalY: 50 });
+
+const migrateImageFields = (collection: unknown, record: unknown): unknown => {
+  if (!isObject(record)) return record;
+  if (collection === 'projects' && Array.isArray(record.imageUrls)) {
+    const { imageUrls, ...rest } = record;
+    return { ...rest, images: record.imageUrls.filter(isString).filter(u => u !== '').map(toImageAsset) };
+  }
+  if (collection === 'archiveItems' && 'imageUrl' in record) {
+    const { imageUrl, ...rest } = record;
+    return isString(imageUrl) && imageUrl !== '' ? { ...rest, image: toImageAsset(imageUrl) } : rest;
+  }
+  return record;
+};
+
+const AUDIT_COLLECTIONS: Record<string, string> = { project: 'projects', archive: 'archiveItems', client: 'clients' };
+
+// v4 -> v5: 프로젝트 images -> media (모두 image 종류)
+const migrateProjectMedia = (record: unknown): unknown => {
+  if (!isObject(record) || !Array.isArray(record.images)) return record;
+  const { images, ...rest } = record;
+  return { ...rest, media: record.images.map(img => ({ ...(isObject(img) ? img : {}), kind: 'image' })) };
+};
+
+// v6 -> v7: 프로젝트에 태그 추가, 아카이브의 자유 입력 category("Retail, Beauty")는 태그로 나눈다.
+const migrateTags = (collection: unknown, record: unknown): unknown => {
+  if (!isObject(record) || Array.isArray(record.tags)) return record;
+  if (collection === 'archiveItems') {
+    const { category, ...rest } = record;
+    return { ...rest, tags: isString(category) ? splitLegacyTags(category) : [] };
+  }
+  return collection === 'projects' ? { ...record, tags: [] } : record;
+};
+
+const splitLegacyTags = (value: string): string[] => {
+  const seen = new Set<string>();
+  return value.split(',').map(t => t.trim()).filter(t => t !== '' && !seen.has(t.toLowerCase()) && !!seen.add(t.toLowerCase()));
+};
+
+// v7 -> v8: 프로젝트 client, 아카이브 company 문자열을 고객사(Client) 참조로.
+// 휴지통 레코드까지 포함해 고객사를 만들고, 현재 레코드의 연결만 검토 목록(clientReview)에 올린다.
+const LEGACY_CLIENT_FIELDS: Record<string, string> = { projects: 'client', archiveItems: 'company' };
+const legacyClientField = (collection: unknown): string | undefined =>
+  isString(collection) ? LEGACY_CLIENT_FIELDS[collection] : undefined;
+
+const migrateClients = (data: RawState): RawState => {
+  const records = (collection: string, list: unknown) =>
+    (Array.isArray(list) ? list : []).filter(isObject).map(record => ({ collection, record }));
+  const live = [...records('archiveItems', data.archiveItems), ...records('projects', data.projects)];
+  const trashed = (Array.isArray(data.trash) ? data.trash : [])
+    .filter(isObject)
+    .flatMap(e => (isString(e.collection) && legacyClientField(e.collection) && isObject(e.record) ? [{ collection: e.collection, record: e.record }] : []));
+  const sourceOf = ({ collection, record }: { collection: string; record: RawState }): ClientSource | null => {
+    const name = record[LEGACY_CLIENT_FIELDS[collection]];
+    return isString(name) && isString(record.id) ? { collection: collection as ClientSource['collection'], recordId: record.id, name } : null;
+  };
+  const liveSources = live.map(sourceOf).filter((s): s is ClientSource => !!s);
+  const { clients, matches } = buildClientRegistry(
+    [...liveSources, ...trashed.map(sourceOf).filter((s): s is ClientSource => !!s)],
+    Array.isArray(data.clients) ? (data.clients as Client[]) : []
+  );
+  const liveMatches = matches.slice(0, liveSources.length);
+
+  const relink = (collection: unknown, record: unknown, clientId?: string): unknown => {
+    const field = legacyClientField(collection);
+    if (!field || !isObject(record) || !(field in record)) return record;
+    const { [field]: legacy, ...rest } = record;
+    const id = clientId ?? (isString(legacy) ? matchClient(legacy, clients)?.client.id : undefined);
+    return id ? { ...rest, clientId: id } : rest;
+  };
+  const liveId = (collection: string, record: unknown) =>
+    isObject(record) ? liveMatches.find(m => m.collection === collection && m.recordId === record.id)?.clientId : undefined;
+
+  return {
+    ...data,
+    clients,
+    clientReview: liveMatches,
+    projects: mapList(data.projects, p => relink('projects', p, liveId('projects', p))),
+    archiveItems: mapList(data.archiveItems, a => relink('archiveItems', a, liveId('archiveItems', a))),
+    trash: mapTrashRecords(data.trash, (collection, record) => relink(collection, record)),
+    auditLog: mapAuditSnapshots(data.auditLog, (collection, snapshot) => relink(collection, snapshot)),
+    schemaVersion: 8
+  };
+};
+
+// v8 -> v9: 아카이브 year 문자열("2015 - Present")을 구조화된 기간으로. 해석하지 못하면 날짜 미상(start: '')
+const migratePeriod = (collection: unknown, record: unknown): unknown => {
+  if (collection !== 'archiveItems' || !isObject(record) || !('year' in record)) return record;
+  const { year, ...rest } = record;
+  return { ...rest, period: (isString(year) && parseDateRange(year)) || { start: '' } };
+};
+
+// MIGRATIONS[n]은 버전 n -> n+1 변환
+const MIGRATIONS: Migration[] = [
+  // v0 -> v1: 빠진 최상위 필드는 기본값으로 채우고(기존 로더의 spread 동작), 레거시 단일 이미지 필드를 배열로 변환
+  (data, defaults) => ({
+    ...data,
+    projects: mapList(data.projects, p => {
+      if (!isObject(p) || Array.isArray(p.imageUrls) || !isString(p.imageUrl)) return p;
+      const { imageUrl, ...rest } = p;
+      return { ...rest, imageUrls: [imageUrl].filter(Boolean) };
+    }),
+    archiveItems: data.archiveItems ?? defaults.archiveItems,
+    services: data.services ?? defaults.services,
+    siteTitle: data.siteTitle ?? defaults.siteTitle,
+    tagline: data.tagline ?? defaults.tagline,
+    schemaVersion: 1
+  }),
+  // v1 -> v2: 휴지통 추가
+  (data) => ({
+    ...data,
+    trash: data.trash ?? [],
+    schemaVersion: 2
+  }),
+  // v2 -> v3: 변경 이력 추가
+  (data) => ({
+    ...data,
+    auditLog: data.auditLog ?? [],
+    schemaVersion: 3
+  }),
+  // v3 -> v4: 이미지를 ImageAsset(alt, 캡션, 크레딧, 초점)으로. 휴지통과 이력 스냅샷도 함께 변환
+  (data) => ({
+    ...data,
+    projects: mapList(data.projects, p => migrateImageFields('projects', p)),
+    archiveItems: mapList(data.archiveItems, a => migrateImageFields('archiveItems', a)),
+    trash: mapTrashRecords(data.trash, migrateImageFields),
+    auditLog: mapAuditSnapshots(data.auditLog, migrateImageFields),
+    schemaVersion: 4
+  }),
+  // v4 -> v5: 영상/임베드를 담을 수 있도록 프로젝트 이미지를 미디어 목록으로
+  (data) => ({
+    ...data,
+    projects: mapList(data.projects, migrateProjectMedia),
+    trash: mapTrashRecords(data.trash, (collection, record) => (collection === 'projects' ? migrateProjectMedia(record) : record)),
+    auditLog: mapAuditSnapshots(data.auditLog, (collection, snapshot) => (collection === 'projects' ? migrateProjectMedia(snapshot) : snapshot)),
+    schemaVersion: 5
+  }),
+  // v5 -> v6: 문의함 추가
+  (data) => ({
+    ...data,
+    inbox: data.inbox ?? [],
+    schemaVersion: 6
+  }),
+  // v6 -> v7: 분야 목록을 코드(enum)에서 데이터로. 기존 enum 값은 그대로 ID가 된다.
+  (data, defaults) => ({
+    ...data,
+    categories: data.categories ?? defaults.categories,
+    projects: mapList(data.projects, p => migrateTags('projects', p)),
+    archiveItems: mapList(data.archiveItems, a => migrateTags('archiveItems', a)),
+    trash: mapTrashRecords(data.trash, migrateTags),
+    auditLog: mapAuditSnapshots(data.auditLog, migrateTags),
+    schemaVersion: 7
+  }),
+  // v7 -> v8: 고객사 레지스트리
+  migrateClients,
+  // v8 -> v9: 아카이브 기간
+  (data) => ({
+    ...data,
+    archiveItems: mapList(data.archiveItems, a => migratePeriod('archiveItems', a)),
+    trash: mapTrashRecords(data.trash, migratePeriod),
+    auditLog: mapAuditSnapshots(data.auditLog, migratePeriod),
+    schemaVersion: 9
+  })
+];
+
+export const detectVersion = (data: RawState): number =>
+  typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+
+export const migrateState = (data: RawState, defaults: AppState): RawState => {
+  const version = detectVersion(data);
+  if (version > SCHEMA_VERSION) {
+    throw new SchemaError(`UNSUPPORTED_SCHEMA_VERSION: v${version} > v${SCHEMA_VERSION}`);
+  }
+  return MIGRATIONS.slice(version).reduce((acc, migrate) => migrate(acc, defaults), data);
+};
+
+// --- 런타임 검증 ---------------------------------------------------------
+
+const STATUSES: Project['status'][] = ['COMPLETED', 'IN_PROGRESS', 'ARCHIVED'];
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+const isOptionalString = (v: unknown): boolean => v === undefined || isString(v);
+const isOptionalBoolean = (v: unknown): boolean => v === undefined || typeof v === 'boolean';
+const isObject = (v: unknown): v is RawState => !!v && typeof v === 'object' && !Array.isArray(v);
+const isOneOf = (values: readonly string[]) => (v: unknown): boolean => isString(v) && values.includes(v);
+const isInteger = (v: unknown): v is number => typeof v === 'number' && Number.isInteger(v);
+const isPercent = (v: unknown): boolean => typeof v === 'number' && v >= 0 && v <= 100;
+const isImageAsset = (v: unknown): boolean =>
+  isObject(v) && isString(v.src) && isString(v.alt) && isString(v.caption) && isString(v.credit) && isPercent(v.focalX) && isPercent(v.focalY);
+const isLocaleMap = (v: unknown, check: (value: unknown) => boolean): boolean =>
+  isObject(v) && Object.entries(v).every(([locale, value]) => (TRANSLATION_LOCALES as string[]).includes(locale) && check(value));
+const isOptionalTranslations = (v: unknown): boolean =>
+  v === undefined || isLocaleMap(v, fields => isObject(fields) && Object.values(fields).every(isString));
+const MEDIA_KINDS = ['image', 'video', 'embed'];
+const isMediaItem = (v: unknown): boolean =>
+  isImageAsset(v) && isObject(v) && isOneOf(MEDIA_KINDS)(v.kind) && isOptionalString(v.poster);
+
+type FieldCheck = [field: string, check: (v: unknown) => boolean, expected: string];
+
+const checkFields = (record: RawState, checks: FieldCheck[]): string[] =>
+  checks.filter(([field, check]) => !check(record[field])).map(([field, , expected]) => `${field}: EXPECTED ${expected}`);
+
+const isTagList = (v: unknown): boolean => Array.isArray(v) && v.every(t => isString(t) && t.trim() !== '');
+
+const CATEGORY_CHECKS: FieldCheck[] = [
+  ['id', v => isString(v) && v.trim() !== '', 'NON_EMPTY_STRING'],
+  ['label', v => isString(v) && v.trim() !== '', 'NON_EMPTY_STRING'],
+  ['translations', isOptionalTranslations, 'TRANSLATIONS?']
+];
+
+// 분야 ID가 목록에 있는지는 validateState에서 목록과 함께 확인한다.
+const PROJECT_CHECKS: FieldCheck[] = [
+  ['id', v => isString(v) && v.trim() !== '', 'NON_EMPTY_STRING'],
+  ['title', isString, 'STRING'],
+  ['category', v => isString(v) && v !== '', 'CATEGORY_ID'],
+  ['tags', isTagList, 'TAG[]'],
+  ['date', v => isString(v) && (v === '' || /^\d{4}-\d{2}-\d{2}$/.test(v)), 'YYYY-MM-DD'],
+  ['description', isString, 'STRING'],
+  ['media', v => Array.isArray(v) && v.every(isMediaItem), 'MEDIA_ITEM[]'],
+  ['clientId', isOptionalString, 'STRING?'],
+  ['status', isOneOf(STATUSES), STATUSES.join('|')],
+  ['featured', isOptionalBoolean, 'BOOLEAN?'],
+  ['translations', isOptionalTranslations, 'TRANSLATIONS?'],
+  ['updatedAt', isOptionalString, 'STRING?']
+];
+
+const ARCHIVE_CHECKS: FieldCheck[] = [
+  ['id', v => isString(v) && v.trim() !== '', 'NON_EMPTY_STRING'],
+  ['period', isDateRange, 'DATE_RANGE'],
+  ['clientId', isOptionalString, 'STRING?'],
+  ['tags', isTagList, 'TAG[]'],
+  ['project', isString, 'STRING'],
+  ['image', v => v === undefined || isImageAsset(v), 'IMAGE_ASSET?'],
+  ['updatedAt', isOptionalString, 'STRING?']
+];
+
+const SERVICE_CHECKS: FieldCheck[] = [
+  ['id', v => isString(v) && v.trim() !== '', 'NON_EMPTY_STRING'],
+  ['number', isString, 'STRING'],
+  ['title', isString, 'STRING'],
+  ['description', isString, 'STRING'],
+  ['translations', isOptionalTranslations, 'TRANSLATIONS?'],
+  ['updatedAt', isOptionalString, 'STRING?']
+];
+
+const CLIENT_CHECKS: FieldCheck[] = [
+  ['id', v => isString(v) && v.trim() !== '', 'NON_EMPTY_STRING'],
+  ['name', v => isString(v) && v.trim() !== '', 'NON_EMPTY_STRING'],
+  ['logo', v => v === undefined || isImageAsset(v), 'IMAGE_ASSET?'],
+  ['sector', isString, 'STRING'],
+  ['region', isString, 'STRING'],
+  ['website', isString, 'STRING'],
+  ['updatedAt', isOptionalString, 'STRING?']
+];
+
+const CLIENT_MATCH_CHECKS: FieldCheck[] = [
+  ['collection', v => v === 'projects' || v === 'archiveItems', 'projects|archiveItems'],
+  ['recordId', isString, 'STRING'],
+  ['source', isString, 'STRING'],
+  ['clientId', isString, 'STRING'],
+  ['score', v => typeof v === 'number' && v >= 0 && v <= 1, '0..1']
+];
+
+const CREDENTIAL_CHECKS: FieldCheck[] = [
+  ['algorithm', v => v === 'PBKDF2-SHA256', 'PBKDF2-SHA256'],
+  ['iterations', v => isInteger(v) && v >= MIN_PBKDF2_ITERATIONS && v <= MAX_PBKDF2_ITERATIONS, `INT ${MIN_PBKDF2_ITERATIONS}-${MAX_PBKDF2_ITERATIONS}`],
+  ['salt', v => isString(v) && isBase64(v), 'BASE64'],
+  ['hash', v => isString(v) && isBase64(v), 'BASE64']
+];
+
+const CONTACT_OPTIONAL_FIELDS = ['budget', 'timeline', 'attachments'];
+const isAttachment = (v: unknown): boolean =>
+  isObject(v) && isString(v.name) && isString(v.type) && typeof v.size === 'number' && isString(v.data) && (v.data.startsWith('data:') || v.data.startsWith('asset:'));
+
+const CONTACT_SETTINGS_CHECKS: FieldCheck[] = [
+  ['adapter', isOneOf(['formspree', 'webhook', 'mailto', 'local']), 'formspree|webhook|mailto|local'],
+  ['formspreeId', isString, 'STRING'],
+  ['webhookUrl', isString, 'STRING'],
+  ['mailtoAddress', isString, 'STRING'],
+  ['optionalFields', v => v === undefined || (Array.isArray(v) && v.every(isOneOf(CONTACT_OPTIONAL_FIELDS))), `(${CONTACT_OPTIONAL_FIELDS.join('|')})[]?`]
+];
+
+const isSocialLink = (v: unknown): boolean => isObject(v) && isString(v.id) && v.id !== '' && isString(v.label) && isString(v.url);
+const LOCATION_FIELDS = ['address', 'mapQuery', 'coordinates', 'station', 'regionCode', 'timezone'];
+
+const SITE_CONFIG_CHECKS: FieldCheck[] = [
+  ['email', isString, 'STRING'],
+  ['phone', isString, 'STRING'],
+  ['socialLinks', v => Array.isArray(v) && v.every(isSocialLink), 'SOCIAL_LINK[]'],
+  ['location', v => isObject(v) && LOCATION_FIELDS.every(f => isString(v[f])), `{${LOCATION_FIELDS.join(', ')}}`],
+  ['foundedYear', v => isInteger(v) && v >= 1000 && v <= 9999, 'YEAR'],
+  ['footerText', isString, 'STRING']
+];
+
+const THEME_SETTINGS_CHECKS: FieldCheck[] = [
+  ['defaultTheme', isThemePreference, 'system|default|terminal'],
+  ['accent', v => isString(v) && (v === '' || isHexColor(v)), '#RRGGBB|EMPTY']
+];
+
+const INBOX_CHECKS: FieldCheck[] = [
+  ['id', v => isString(v) && v.trim() !== '', 'NON_EMPTY_STRING'],
+  ['name', isString, 'STRING'],
+  ['email', isString, 'STRING'],
+  ['subject', isString, 'STRING'],
+  ['message', isString, 'STRING'],
+  ['budget', isOptionalString, 'STRING?'],
+  ['timeline', isOptionalString, 'STRING?'],
+  ['attachments', v => v === undefined || (Array.isArray(v) && v.every(isAttachment)), 'ATTACHMENT[]?'],
+  ['createdAt', isString, 'STRING'],
+  ['read', v => typeof v === 'boolean', 'BOOLEAN'],
+  ['archived', v => typeof v === 'boolean', 'BOOLEAN'],
+  ['projectId', isOptionalString, 'STRING?']
+];
+
+// 레코드 단위로 검증하여 유효한 것만 남기고, 문제 있는 레코드는 경로와 함께 보고한다.
+const validateCollection = <T>(key: string, value: unknown, checks: FieldCheck[], issues: ValidationIssue[]): T[] => {
+  if (!Array.isArray(value)) {
+    issues.push({ path: key, message: 'EXPECTED ARRAY' });
+    return [];
+  }
+  const seen = new Set<string>();
+  return value.filter((record, idx) => {
+    const path = `${key}[${idx}]`;
+    if (!isObject(record)) {
+      issues.push({ path, message: 'EXPECTED OBJECT' });
+      return false;
+    }
+    const label = isString(record.id) ? `${path}<${record.id}>` : path;
+    const problems = checkFields(record, checks);
+    if (problems.length > 0) {
+      problems.forEach(message => issues.push({ path: label, message }));
+      return false;
+    }
+    const id = String(record.id);
+    if (seen.has(id)) {
+      issues.push({ path: label, message: 'DUPLICATE_ID' });
+      return false;
+    }
+    seen.add(id);
+    return true;
+  }) as T[];
+};
+
+const COLLECTION_CHECKS: Record<TrashEntry['collection'], FieldCheck[]> = {
+  projects: PROJECT_CHECKS,
+  archiveItems: ARCHIVE_CHECKS,
+  services: SERVICE_CHECKS,
+  clients: CLIENT_CHECKS
+};
+
+const TRASH_CHECKS: FieldCheck[] = [
+  ['entryId', v => isString(v) && v !== '', 'NON_EMPTY_STRING'],
+  ['collection', isOneOf(Object.keys(COLLECTION_CHECKS)), Object.keys(COLLECTION_CHECKS).join('|')],
+  ['record', isObject, 'OBJECT'],
+  ['index', v => isInteger(v) && v >= 0, 'NON_NEGATIVE_INT'],
+  ['deletedAt', isString, 'STRING']
+];
+
+const validateTrash = (value: unknown, issues: ValidationIssue[]): TrashEntry[] => {
+  if (!Array.isArray(value)) {
+    issues.push({ path: 'trash', message: 'EXPECTED ARRAY' });
+    return [];
+  }
+  return value.filter((entry, idx) => {
+    const path = `trash[${idx}]`;
+    if (!isObject(entry)) {
+      issues.push({ path, message: 'EXPECTED OBJECT' });
+      return false;
+    }
+    const problems = checkFields(entry, TRASH_CHECKS);
+    if (problems.length === 0 && isObject(entry.record)) {
+      const collection = entry.collection as TrashEntry['collection'];
+      checkFields(entry.record, COLLECTION_CHECKS[collection]).forEach(p => problems.push(`record.${p}`));
+    }
+    problems.forEach(message => issues.push({ path, message }));
+    return problems.length === 0;
+  }) as TrashEntry[];
+};
+
+const AUDIT_CHECKS: FieldCheck[] = [
+  ['id', v => isString(v) && v !== '', 'NON_EMPTY_STRING'],
+  ['at', isString, 'STRING'],
+  ['actor', isString, 'STRING'],
+  ['action', isString, 'STRING'],
+  ['recordType', isOneOf(['project', 'archive', 'service', 'client', 'settings']), 'project|archive|service|client|settings'],
+  ['recordId', isString, 'STRING'],
+  ['label', isString, 'STRING'],
+  ['changes', v => Array.isArray(v) && v.every(c => isObject(c) && isString(c.field)), 'FIELD_CHANGE[]']
+];
+
+const validateAuditLog = (value: unknown, issues: ValidationIssue[]): AuditEntry[] => {
+  if (!Array.isArray(value)) {
+    issues.push({ path: 'auditLog', message: 'EXPECTED ARRAY' });
+    return [];
+  }
+  return value.filter((entry, idx) => {
+    const problems = isObject(entry) ? checkFields(entry, AUDIT_CHECKS) : ['EXPECTED OBJECT'];
+    problems.forEach(message => issues.push({ path: `auditLog[${idx}]`, message }));
+    return problems.length === 0;
+  }) as AuditEntry[];
+};
+
+export const validateState = (data: RawState, defaults: AppState): { state: AppState; issues: ValidationIssue[] } => {
+  const issues: ValidationIssue[] = [];
+
+  const projects = validateCollection<Project>('projects', data.projects, PROJECT_CHECKS, issues);
+  const archiveItems = validateCollection<ArchiveItem>('archiveItems', data.archiveItems, ARCHIVE_CHECKS, issues);
+  const services = validateCollection<Service>('services', data.services, SERVICE_CHECKS, issues);
+  const inbox = validateCollection<InboxMessage>('inbox', data.inbox, INBOX_CHECKS, issues);
+  const clients = validateCollection<Client>('clients', data.clients, CLIENT_CHECKS, issues);
+
+  // 목록이 비면 공개 화면 필터와 프로젝트 폼이 동작하지 않으므로 기본 목록으로 되돌린다.
+  let categories = validateCollection<CategoryTerm>('categories', data.categories, CATEGORY_CHECKS, issues);
+  if (categories.length === 0) {
+    issues.push({ path: 'categories', message: 'EMPTY: DEFAULTS_RESTORED' });
+    categories = defaults.categories;
+  }
+  // 목록에 없는 분야를 쓰는 프로젝트는 버리지 않고 분야를 되살린다.
+  const known = new Set(categories.map(c => c.id));
+  const trashedProjects = (Array.isArray(data.trash) ? data.trash : [])
+    .flatMap(e => (isObject(e) && e.collection === 'projects' && isObject(e.record) ? [e.record] : []));
+  const orphaned = [...projects.map(p => p.category), ...trashedProjects.map(p => p.category)]
+    .filter((id): id is string => isString(id) && id !== '' && !known.has(id) && !!known.add(id));
+  orphaned.forEach(id => issues.push({ path: `categories<${id}>`, message: 'MISSING: RECREATED FROM PROJECTS' }));
+  categories = [...categories, ...orphaned.map(id => ({ id, label: id }))];
+
+  const text = (key: 'siteTitle' | 'tagline'): string => {
+    if (isString(data[key])) return data[key];
+    issues.push({ path: key, message: 'EXPECTED STRING' });
+    return defaults[key];
+  };
+
+  let taglineTranslations: AppState['taglineTranslations'];
+  if (data.taglineTranslations !== undefined) {
+    if (isLocaleMap(data.taglineTranslations, isString)) taglineTranslations = data.taglineTranslations;
+    else issues.push({ path: 'taglineTranslations', message: 'EXPECTED LOCALE -> STRING MAP' });
+  }
+
+  let contactSettings: ContactSettings | undefined;
+  if (data.contactSettings !== undefined) {
+    const problems = isObject(data.contactSettings) ? checkFields(data.contactSettings, CONTACT_SETTINGS_CHECKS) : ['EXPECTED OBJECT'];
+    problems.forEach(message => issues.push({ path: 'contactSettings', message }));
+    if (problems.length === 0) contactSettings = data.contactSettings as ContactSettings;
+  }
+
+  let siteConfig: SiteConfig | undefined;
+  if (data.siteConfig !== undefined) {
+    const problems = isObject(data.siteConfig) ? checkFields(data.siteConfig, SITE_CONFIG_CHECKS) : ['EXPECTED OBJECT'];
+    problems.forEach(message => issues.push({ path: 'siteConfig', message }));
+    if (problems.length === 0) siteConfig = data.siteConfig as SiteConfig;
+  }
+
+  let themeSettings: ThemeSettings | undefined;
+  if (data.themeSettings !== undefined) {
+    const problems = isObject(data.themeSettings) ? checkFields(data.themeSettings, THEME_SETTINGS_CHECKS) : ['EXPECTED OBJECT'];
+    problems.forEach(message => issues.push({ path: 'themeSettings', message }));
+    if (problems.length === 0) themeSettings = data.themeSettings as ThemeSettings;
+  }
+
+  const trash = validateTrash(data.trash, issues);
+
+  // 없는 고객사를 가리키는 연결은 끊는다. 휴지통의 고객사는 복원될 수 있으므로 유지한다.
+  const clientIds = new Set([...clients, ...trash.filter(e => e.collection === 'clients').map(e => e.record)].map(c => c.id));
+  const unlinkMissing = <T extends Project | ArchiveItem>(key: string) => (record: T): T => {
+    if (!record.clientId || clientIds.has(record.clientId)) return record;
+    issues.push({ path: `${key}<${record.id}>`, message: `UNKNOWN_CLIENT ${record.clientId}: UNLINKED` });
+    const { clientId, ...rest } = record;
+    return rest as T;
+  };
+  const linkedProjects = projects.map(unlinkMissing<Project>('projects'));
+  const linkedArchive = archiveItems.map(unlinkMissing<ArchiveItem>('archiveItems'));
+
+  // 검토 목록은 지금 있는 레코드와 고객사를 가리키는 항목만 남긴다 (검증 문제로 보고하지 않음).
+  const reviewable = (m: RawState) =>
+    isString(m.clientId) && clientIds.has(m.clientId) && (m.collection === 'projects' ? linkedProjects : linkedArchive).some(r => r.id === m.recordId);
+  const clientReview = Array.isArray(data.clientReview)
+    ? data.clientReview.filter((m): m is ClientMatch => isObject(m) && checkFields(m, CLIENT_MATCH_CHECKS).length === 0 && reviewable(m))
+    : [];
+  const auditLog = validateAuditLog(data.auditLog, issues);
+
+  let credential: Credential | undefined;
+  if (data.credential !== undefined) {
+    const problems = isObject(data.credential) ? checkFields(data.credential, CREDENTIAL_CHECKS) : ['EXPECTED OBJECT'];
+    problems.forEach(message => issues.push({ path: 'credential', message }));
+    if (problems.length === 0) credential = data.credential as Credential;
+  }
+
+  return {
+    state: {
+      schemaVersion: SCHEMA_VERSION,
+      projects: linkedProjects,
+      archiveItems: linkedArchive,
+      services,
+      clients,
+      clientReview,
+      categories,
+      siteTitle: text('siteTitle'),
+      tagline: text('tagline'),
+      ...(taglineTranslations ? { taglineTranslations } : {}),
+      ...(contactSettings ? { contactSettings } : {}),
+      ...(siteConfig ? { siteConfig } : {}),
+      ...(themeSettings ? { themeSettings } : {}),
+      trash,
+      inbox,
+      auditLog,
+      ...(isString(data.settingsUpdatedAt) ? { settingsUpdatedAt: data.settingsUpdatedAt } : {}),
+      ...(credential ? { credential } : {})
+    },
+    issues
+  };
+};
+
+// 원본(JSON 파싱 결과) -> 마이그레이션 -> 검증
+export const loadState = (raw: unknown, defaults: AppState): LoadResult => {
+  if (!isObject(raw)) throw new SchemaError('INVALID_DATA_STRUCTURE');
+  const fromVersion = detectVersion(raw);
+  const { state, issues } = validateState(migrateState(raw, defaults), defaults);
+  return { state, fromVersion, issues };
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SITE_CONFIG, copyrightLine, mapUrl, siteConfigOf, visibleSocialLinks } from './siteConfig.ts';
+
+describe('siteConfigOf', () => {
+  it('falls back to the defaults and fills missing location fields', () => {
+    expect(siteConfigOf()).toEqual(DEFAULT_SITE_CONFIG);
+
+    const config = siteConfigOf({ ...DEFAULT_SITE_CONFIG, email: 'hi@example.com', location: { address: 'BUSAN' } as typeof DEFAULT_SITE_CONFIG.location });
+    expect(config.email).toBe('hi@example.com');
+    expect(config.location.address).toBe('BUSAN');
+    expect(config.location.timezone).toBe(DEFAULT_SITE_CONFIG.location.timezone);
+  });
+});
+
+describe('visibleSocialLinks / mapUrl', () => {
+  it('hides links without a label or url and searches the address when mapQuery is empty', () => {
+    const config = siteConfigOf({
+      ...DEFAULT_SITE_CONFIG,
+      socialLinks: [
+        { id: 'a', label: 'VIMEO', url: 'https://vimeo.com/x' },
+        { id: 'b', label: 'EMPTY', url: ' ' },
+        { id: 'c', label: '', url: 'https://example.com' }
+      ],
+      location: { ...DEFAULT_SITE_CONFIG.location, mapQuery: '', address: 'SEOUL 1' }
+    });
+
+    expect(visibleSocialLinks(config).map(l => l.id)).toEqual(['a']);
+    expect(mapUrl(config)).toBe('https://www.google.com/maps/search/?api=1&query=SEOUL%201');
+  });
+});
+
+describe('copyrightLine', () => {
+  it('prints a year range, or a single year when founded this year', () => {
+    const now = new Date(2026, 5, 1);
+    expect(copyrightLine({ ...DEFAULT_SITE_CONFIG, foundedYear: 2004 }, now)).toBe('(C) 2004-2026 ODEMIND ARCHIVE');
+    expect(copyrightLine({ ...DEFAULT_SITE_CONFIG, foundedYear: 2026 }, now)).toBe('(C) 2026 ODEMIND ARCHIVE');
+  });
+});
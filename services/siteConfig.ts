@@ -0,0 +1,39 @@
+import { SiteConfig, SocialLink } from '../types.ts';
+
+// 공개 화면에 쓰이는 연락처·소셜 링크·위치 표기. CMS CONFIG 탭에서 고친다.
+export const DEFAULT_SITE_CONFIG: SiteConfig = {
+  email: 'info@odemind.co.kr',
+  phone: '',
+  socialLinks: [
+    { id: 'instagram', label: 'INSTAGRAM', url: 'https://www.instagram.com/onedayearly.mind/?igsh=dHJobnplYTR2bmt3&utm_source=qr#' }
+  ],
+  location: {
+    address: 'SEOUL_KOR / SEODAEMUN-GU',
+    mapQuery: 'Seodaemun-gu Seoul Korea',
+    coordinates: '39.916°N 116.273°E',
+    station: 'SEOUL_HQ',
+    regionCode: 'SEOUL_KR',
+    timezone: 'GMT+9'
+  },
+  foundedYear: 2004,
+  footerText: 'ODEMIND ARCHIVE'
+};
+
+export const siteConfigOf = (config?: SiteConfig): SiteConfig =>
+  ({ ...DEFAULT_SITE_CONFIG, ...config, location: { ...DEFAULT_SITE_CONFIG.location, ...config?.location } });
+
+export const createSocialLinkId = (): string => `SL-${Date.now().toString(36).toUpperCase()}`;
+
+/** 주소가 없는 링크는 공개 화면에 내보내지 않는다. */
+export const visibleSocialLinks = (config: SiteConfig): SocialLink[] =>
+  config.socialLinks.filter(link => link.label.trim() && link.url.trim());
+
+export const mapUrl = (config: SiteConfig): string =>
+  `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(config.location.mapQuery.trim() || config.location.address)}`;
+
+/** "(C) 2004-2026 ODEMIND ARCHIVE". 설립 연도가 올해면 한 해만 */
+export const copyrightLine = (config: SiteConfig, now: Date = new Date()): string => {
+  const year = now.getFullYear();
+  const years = config.foundedYear >= year ? String(config.foundedYear) : `${config.foundedYear}-${year}`;
+  return `(C) ${years} ${config.footerText}`.trim();
+};
@@ -0,0 +1,95 @@
+import { AppState } from '../types.ts';
+import { loadState, ValidationIssue } from './schema.ts';
+import { SEED_ELEMENT_ID, StaticSeed } from './prerender.ts';
+
+// 키 이름은 기존 저장 데이터 호환을 위해 유지한다. 형식 버전은 payload의 schemaVersion으로 관리.
+export const STORAGE_KEY = 'odemind_archive_v5_final';
+const QUARANTINE_PREFIX = `${STORAGE_KEY}__quarantine_`;
+// 로컬 데이터가 어느 정적 빌드에서 시작됐는지 (publishedAt)
+const SEED_KEY = `${STORAGE_KEY}__seed`;
+
+export interface PersistedLoad {
+  state: AppState;
+  issues: ValidationIssue[];
+  /** 검증 실패 레코드가 있을 때 원본 payload를 보관한 localStorage 키 */
+  quarantineKey?: string;
+  /** 로컬 관리 데이터를 유지한 채 아직 검토하지 않은 새 정적 빌드 */
+  pendingSeed?: StaticSeed;
+}
+
+// 정적 빌드(prerender) 페이지에 포함된 공개 데이터. 일반 빌드에서는 null
+export const readStaticSeed = (defaults: AppState): StaticSeed | null => {
+  const element = document.getElementById(SEED_ELEMENT_ID);
+  if (!element?.textContent) return null;
+  try {
+    const seed = JSON.parse(element.textContent);
+    return { publishedAt: String(seed.publishedAt), state: loadState(seed.state, defaults).state };
+  } catch (e) {
+    console.warn("SYSTEM: INVALID_STATIC_SEED", e);
+    return null;
+  }
+};
+
+export const readPersistedState = (defaults: AppState): PersistedLoad => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  const local = saved ? readSaved(saved, defaults) : null;
+
+  // 관리 흔적(패스키·변경 이력·휴지통)이 없는 로컬 데이터는 방문자 캐시이므로 배포된 데이터를 쓴다.
+  const seed = readStaticSeed(defaults);
+  if (seed && !(local && hasAdminData(local.state))) {
+    acknowledgeSeed(seed.publishedAt);
+    return { ...local, state: seed.state, issues: local?.issues || [] };
+  }
+  if (!local) return { state: defaults, issues: [] };
+
+  // 관리 데이터는 덮어쓰지 않는다. 새 빌드의 데이터는 CMS에서 백업 복원과 같은 병합 화면으로 검토한다.
+  if (seed && localStorage.getItem(SEED_KEY) !== seed.publishedAt) return { ...local, pendingSeed: seed };
+  return local;
+};
+
+/** 새 정적 빌드의 데이터를 검토(병합 또는 무시)했음을 기록 */
+export const acknowledgeSeed = (publishedAt: string) => {
+  try {
+    localStorage.setItem(SEED_KEY, publishedAt);
+  } catch (e) {
+    console.warn("SYSTEM: FAILED_TO_RECORD_SEED", e);
+  }
+};
+
+const hasAdminData = (state: AppState): boolean =>
+  !!state.credential || state.auditLog.length > 0 || state.trash.length > 0;
+
+const readSaved = (saved: string, defaults: AppState): PersistedLoad => {
+  let result;
+  try {
+    result = loadState(JSON.parse(saved), defaults);
+  } catch (e) {
+    const quarantineKey = quarantine(saved);
+    console.warn("SYSTEM: FAILED_TO_LOAD_PERSISTENT_STORAGE", e);
+    return {
+      state: defaults,
+      issues: [{ path: '$', message: e instanceof Error ? e.message : 'UNREADABLE_PAYLOAD' }],
+      quarantineKey
+    };
+  }
+
+  if (result.issues.length === 0) return { state: result.state, issues: [] };
+
+  // 문제 레코드는 활성 상태에서 제외되므로, 복구할 수 있도록 원본을 별도 키에 남긴다.
+  console.warn("SYSTEM: MALFORMED_RECORDS_DETECTED", result.issues);
+  return { state: result.state, issues: result.issues, quarantineKey: quarantine(saved) };
+};
+
+const quarantine = (payload: string): string | undefined => {
+  const key = `${QUARANTINE_PREFIX}${Date.now()}`;
+  try {
+    localStorage.setItem(key, payload);
+    return key;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+export const writePersistedState = (state: AppState) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+};
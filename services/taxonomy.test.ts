@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { CATEGORIES, project } from '../test/fixtures.ts';
+import { categoryLabel, categorySlug, collectTags, createCategoryId, normalizeTags, parseTags, reassignCategory } from './taxonomy.ts';
+
+describe('categories', () => {
+  it('labels categories by locale and shows unknown IDs as they are', () => {
+    const categories = [...CATEGORIES, { id: 'SPACE', label: 'Space', translations: { ko: { label: '공간' } } }];
+
+    expect(categoryLabel(categories, 'SPACE', 'ko')).toBe('공간');
+    expect(categoryLabel(categories, 'SPACE', 'id')).toBe('Space');
+    expect(categoryLabel(categories, 'GONE')).toBe('GONE');
+    expect(categorySlug('PERFORMING_ARTS')).toBe('performing-arts');
+  });
+
+  it('creates unique IDs from labels', () => {
+    expect(createCategoryId(' Exhibition Design! ', CATEGORIES)).toBe('EXHIBITION_DESIGN');
+    expect(createCategoryId('film', CATEGORIES)).toBe('FILM_2');
+    expect(createCategoryId('전시', CATEGORIES)).toBe('CATEGORY');
+  });
+
+  it('reassigns only mapped categories', () => {
+    const film = project('P-1', { category: 'FILM' });
+    const branding = project('P-2');
+
+    expect(reassignCategory(film, { FILM: 'BRANDING' }).category).toBe('BRANDING');
+    expect(reassignCategory(branding, { FILM: 'BRANDING' })).toBe(branding);
+  });
+});
+
+describe('tags', () => {
+  it('trims, collapses spaces and drops case-insensitive duplicates', () => {
+    expect(normalizeTags(['  Retail ', 'Motion   Design', 'retail', ''])).toEqual(['Retail', 'Motion Design']);
+    expect(parseTags('Retail, ,BEAUTY, beauty')).toEqual(['Retail', 'BEAUTY']);
+  });
+
+  it('counts tags across records, most used first', () => {
+    expect(collectTags([{ tags: ['Retail', 'Beauty'] }, { tags: ['retail'] }, { tags: ['Art'] }])).toEqual([
+      { tag: 'Retail', count: 2 },
+      { tag: 'Art', count: 1 },
+      { tag: 'Beauty', count: 1 }
+    ]);
+  });
+});
@@ -0,0 +1,56 @@
+import { CategoryTerm, Locale } from '../types.ts';
+import { localize } from './i18n.ts';
+
+// 분야(카테고리)와 태그. 분야는 CMS에서 관리하는 목록이고, 태그는 레코드마다 자유롭게 붙인다.
+
+export const findCategory = (categories: CategoryTerm[], id: string): CategoryTerm | undefined =>
+  categories.find(c => c.id === id);
+
+/** 목록에 없는 ID(삭제 직후의 휴지통 레코드 등)는 ID를 그대로 보여준다. */
+export const categoryLabel = (categories: CategoryTerm[], id: string, locale: Locale = 'en'): string => {
+  const term = findCategory(categories, id);
+  return term ? localize(term, 'label', locale) : id;
+};
+
+/** 피드·URL 경로용: PERFORMING_ARTS -> performing-arts */
+export const categorySlug = (id: string): string => id.toLowerCase().replace(/_/g, '-');
+
+// 이름에서 고정 키를 만든다: "Exhibition Design" -> EXHIBITION_DESIGN. 겹치면 _2, _3 ...
+export const createCategoryId = (label: string, categories: CategoryTerm[]): string => {
+  const base = label.trim().toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'CATEGORY';
+  const taken = new Set(categories.map(c => c.id));
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}_${n}`;
+  return id;
+};
+
+/** 분야를 합치거나 지울 때 레코드의 분야를 바꿔 끼운다. 바뀌지 않으면 같은 객체를 돌려준다. */
+export const reassignCategory = <T extends { category: string }>(record: T, mapping: Record<string, string>): T =>
+  mapping[record.category] ? { ...record, category: mapping[record.category] } : record;
+
+// --- 태그 ---------------------------------------------------------------------
+
+/** 앞뒤 공백 제거, 연속 공백 정리, 대소문자 구분 없이 중복 제거 (먼저 나온 표기를 유지) */
+export const normalizeTags = (tags: string[]): string[] => {
+  const seen = new Set<string>();
+  return tags
+    .map(tag => tag.trim().replace(/\s+/g, ' '))
+    .filter(tag => tag !== '' && !seen.has(tag.toLowerCase()) && !!seen.add(tag.toLowerCase()));
+};
+
+/** 쉼표로 구분된 입력 -> 태그 목록 */
+export const parseTags = (input: string): string[] => normalizeTags(input.split(','));
+
+export const hasTag = (tags: string[], tag: string): boolean =>
+  tags.some(t => t.toLowerCase() === tag.toLowerCase());
+
+/** 사용 중인 태그와 건수 (많이 쓰인 순, 같으면 이름순) */
+export const collectTags = (records: { tags: string[] }[]): { tag: string; count: number }[] => {
+  const counts = new Map<string, { tag: string; count: number }>();
+  records.forEach(record => record.tags.forEach(tag => {
+    const entry = counts.get(tag.toLowerCase());
+    if (entry) entry.count++;
+    else counts.set(tag.toLowerCase(), { tag, count: 1 });
+  }));
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
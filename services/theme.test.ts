@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_THEME_SETTINGS, THEMES, isThemePreference, resolveTheme, themeTokens, themeVariables } from './theme.ts';
+
+describe('resolveTheme', () => {
+  it('prefers the visitor choice, then the CMS default, then the OS setting', () => {
+    const system = DEFAULT_THEME_SETTINGS;
+    expect(resolveTheme('default', { ...system, defaultTheme: 'terminal' }, true)).toBe('default');
+    expect(resolveTheme(null, { ...system, defaultTheme: 'terminal' }, false)).toBe('terminal');
+    expect(resolveTheme(null, system, true)).toBe('terminal');
+    expect(resolveTheme(null, system, false)).toBe('default');
+  });
+
+  it('accepts only known themes or system as a preference', () => {
+    expect(isThemePreference('system')).toBe(true);
+    expect(isThemePreference('terminal')).toBe(true);
+    expect(isThemePreference('neon')).toBe(false);
+  });
+});
+
+describe('themeTokens / themeVariables', () => {
+  it('overrides the accent only with a valid hex color', () => {
+    expect(themeTokens('default', { ...DEFAULT_THEME_SETTINGS, accent: '#ff0000' }).accent).toBe('#ff0000');
+    expect(themeTokens('default', { ...DEFAULT_THEME_SETTINGS, accent: 'red' })).toBe(THEMES.default);
+  });
+
+  it('writes channels as "r g b" and mixes the muted paper towards the ink', () => {
+    const vars = themeVariables(THEMES.default);
+    expect(vars['--paper']).toBe('255 255 255');
+    expect(vars['--ink']).toBe('0 0 0');
+    expect(vars['--paper-muted']).toBe('249 249 249');
+    expect(vars['--paper-shade']).toBe('242 242 242');
+    expect(vars['--image-grayscale']).toBe('100%');
+  });
+});
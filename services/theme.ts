@@ -0,0 +1,81 @@
+import { ThemeId, ThemePreference, ThemeSettings } from '../types.ts';
+
+// 화면 색은 Tailwind의 black/white/gray-50/gray-100/accent를 CSS 변수로 바꿔 잡아 둔 것이다 (index.html).
+// 테마를 바꾸면 <html>의 변수만 갈아 끼우므로 컴포넌트의 클래스는 그대로 둔다.
+
+export interface ThemeTokens {
+  label: string;
+  /** 배경 (#rrggbb) */
+  paper: string;
+  /** 글자·선 */
+  ink: string;
+  accent: string;
+  /** 종이 질감 노이즈 불투명도 0~1 */
+  grain: number;
+  /** 이미지를 흑백으로 */
+  grayscale: boolean;
+  /** 폼 컨트롤·스크롤바의 기본 색 */
+  scheme: 'light' | 'dark';
+}
+
+export const THEMES: Record<ThemeId, ThemeTokens> = {
+  default: { label: 'RECEIPT', paper: '#ffffff', ink: '#000000', accent: '#000000', grain: 0, grayscale: true, scheme: 'light' },
+  terminal: { label: 'TERMINAL', paper: '#0b0d0b', ink: '#d7ffd9', accent: '#39ff14', grain: 0.08, grayscale: true, scheme: 'dark' }
+};
+
+export const THEME_IDS = Object.keys(THEMES) as ThemeId[];
+
+export const DEFAULT_THEME_SETTINGS: ThemeSettings = {
+  defaultTheme: 'system',
+  accent: ''
+};
+
+export const themeSettingsOf = (settings?: ThemeSettings): ThemeSettings =>
+  ({ ...DEFAULT_THEME_SETTINGS, ...settings });
+
+export const isThemeId = (value: unknown): value is ThemeId =>
+  typeof value === 'string' && value in THEMES;
+
+export const isThemePreference = (value: unknown): value is ThemePreference =>
+  value === 'system' || isThemeId(value);
+
+export const isHexColor = (value: string): boolean => /^#[0-9a-f]{6}$/i.test(value);
+
+/** 방문자 선택 > CMS 기본값 > (system이면) OS 설정 */
+export const resolveTheme = (visitor: ThemeId | null, settings: ThemeSettings, prefersDark: boolean): ThemeId => {
+  if (visitor) return visitor;
+  if (settings.defaultTheme !== 'system') return settings.defaultTheme;
+  return prefersDark ? 'terminal' : 'default';
+};
+
+export const themeTokens = (id: ThemeId, settings: ThemeSettings): ThemeTokens => {
+  const tokens = THEMES[id];
+  return isHexColor(settings.accent) ? { ...tokens, accent: settings.accent } : tokens;
+};
+
+const channels = (hex: string): number[] => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+
+// Tailwind의 <alpha-value>를 쓰려면 "r g b" 형태여야 한다.
+const toVar = (rgb: number[]) => rgb.map(Math.round).join(' ');
+
+/** paper를 ink 쪽으로 ratio만큼 섞는다 (gray-50, gray-100 대체) */
+const mix = (paper: string, ink: string, ratio: number): number[] => {
+  const [a, b] = [channels(paper), channels(ink)];
+  return a.map((value, i) => value + (b[i] - value) * ratio);
+};
+
+export const themeVariables = (tokens: ThemeTokens): Record<string, string> => ({
+  '--paper': toVar(channels(tokens.paper)),
+  '--ink': toVar(channels(tokens.ink)),
+  '--accent': toVar(channels(tokens.accent)),
+  '--paper-muted': toVar(mix(tokens.paper, tokens.ink, 0.025)),
+  '--paper-shade': toVar(mix(tokens.paper, tokens.ink, 0.05)),
+  '--grain-opacity': String(tokens.grain),
+  '--image-grayscale': tokens.grayscale ? '100%' : '0%'
+});
+
+export const applyTheme = (id: ThemeId, tokens: ThemeTokens, root: HTMLElement = document.documentElement) => {
+  Object.entries(themeVariables(tokens)).forEach(([name, value]) => root.style.setProperty(name, value));
+  root.style.colorScheme = tokens.scheme;
+  root.dataset.theme = id;
+};
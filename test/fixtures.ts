@@ -0,0 +1,72 @@
+import { AppState, ArchiveItem, CategoryTerm, Client, InboxMessage, MediaItem, Project, Service } from '../types.ts';
+import { SCHEMA_VERSION } from '../services/schema.ts';
+
+// 서비스 단위 테스트에서 함께 쓰는 레코드 생성 함수. 필요한 필드만 덮어써서 쓴다.
+export const project = (id = 'P-1', patch: Partial<Project> = {}): Project => ({
+  id,
+  title: id,
+  category: 'BRANDING',
+  tags: [],
+  date: '',
+  description: '',
+  media: [],
+  status: 'COMPLETED',
+  ...patch
+});
+
+export const mediaItem = (src: string, patch: Partial<MediaItem> = {}): MediaItem =>
+  ({ kind: 'image', src, alt: '', caption: '', credit: '', focalX: 50, focalY: 50, ...patch });
+
+export const archiveItem = (id = 'A-1', patch: Partial<ArchiveItem> = {}): ArchiveItem =>
+  ({ id, period: { start: '' }, tags: [], project: id, ...patch });
+
+export const service = (id = 'S-1', patch: Partial<Service> = {}): Service =>
+  ({ id, number: id, title: id, description: '', ...patch });
+
+export const client = (id = 'CL-1', name = id, patch: Partial<Client> = {}): Client =>
+  ({ id, name, sector: '', region: '', website: '', ...patch });
+
+export const message = (id = 'MSG-1', patch: Partial<InboxMessage> = {}): InboxMessage => ({
+  id,
+  name: 'Kim',
+  email: 'kim@example.com',
+  subject: 'BRANDING',
+  message: '',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  read: false,
+  archived: false,
+  ...patch
+});
+
+export const CATEGORIES: CategoryTerm[] = [{ id: 'BRANDING', label: 'Branding' }, { id: 'FILM', label: 'Film' }];
+
+export const appState = (patch: Partial<AppState> = {}): AppState => ({
+  schemaVersion: SCHEMA_VERSION,
+  projects: [],
+  archiveItems: [],
+  services: [],
+  clients: [],
+  clientReview: [],
+  categories: CATEGORIES,
+  siteTitle: 'ODEMIND',
+  tagline: 'TAGLINE',
+  trash: [],
+  auditLog: [],
+  inbox: [],
+  ...patch
+});
+
+// node에는 localStorage가 없으므로 테스트마다 빈 메모리 저장소를 전역에 둔다.
+export const installMemoryStorage = (): Storage => {
+  const items = new Map<string, string>();
+  const storage: Storage = {
+    get length() { return items.size; },
+    key: index => [...items.keys()][index] ?? null,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, String(value)); },
+    removeItem: key => { items.delete(key); },
+    clear: () => items.clear()
+  };
+  globalThis.localStorage = storage;
+  return storage;
+};
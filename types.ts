@@ -1,30 +1,108 @@
 
-export enum Category {
-  CONTENT = 'CONTENT',
-  BRANDING = 'BRANDING',
-  SPACE = 'SPACE',
-  FILM = 'FILM',
-  PERFORMING_ARTS = 'PERFORMING_ARTS'
+/** 지원 언어. 기본 필드(title, description 등)는 영어(en) 원문 */
+export type Locale = 'en' | 'ko' | 'zh-Hant' | 'zh-Hans' | 'id';
+export type TranslationLocale = Exclude<Locale, 'en'>;
+
+/** 언어별 번역. 비어 있는 항목은 영어 원문으로 대체된다. */
+export type Translations<K extends string> = Partial<Record<TranslationLocale, Partial<Record<K, string>>>>;
+
+/** 프로젝트 분야. CMS에서 관리하며 목록 순서가 공개 화면의 필터 순서가 된다. */
+export interface CategoryTerm {
+  /** 레코드가 참조하는 고정 키 (예: BRANDING). 이름을 바꿔도 유지된다. */
+  id: string;
+  label: string;
+  translations?: Translations<'label'>;
+}
+
+/** 이미지 에셋: 원본 참조와 접근성·표기용 메타데이터 */
+export interface ImageAsset {
+  /** `asset:<uuid>`(IndexedDB) 또는 외부 URL */
+  src: string;
+  /** 대체 텍스트 (스크린 리더용) */
+  alt: string;
+  caption: string;
+  credit: string;
+  /** 크롭 기준점(%). object-position으로 적용되며 기본값은 중앙(50, 50) */
+  focalX: number;
+  focalY: number;
+}
+
+export type MediaKind = 'image' | 'video' | 'embed';
+
+/** 프로젝트 미디어. 영상·임베드의 alt/캡션/초점은 포스터 프레임 기준 */
+export interface MediaItem extends ImageAsset {
+  kind: MediaKind;
+  /** image: 이미지 참조, video: 영상 에셋(`asset:<uuid>`) 또는 URL, embed: Vimeo/YouTube 페이지 URL */
+  src: string;
+  /** 영상·임베드의 포스터 이미지 참조 */
+  poster?: string;
 }
 
 export interface Project {
   id: string;
   title: string;
-  category: Category;
+  /** CategoryTerm.id */
+  category: string;
+  /** 자유 태그 (대소문자 구분 없이 중복 없음) */
+  tags: string[];
   date: string;
   description: string;
-  imageUrls: string[];
-  client: string;
+  /** 미디어 목록. 첫 번째가 커버 */
+  media: MediaItem[];
+  /** Client.id. 고객사가 없는 자체 프로젝트는 비워 둔다. */
+  clientId?: string;
   status: 'COMPLETED' | 'IN_PROGRESS' | 'ARCHIVED';
+  /** 홈 화면 RECENT_TRANSMISSIONS에 고정 노출 (목록 순서대로) */
+  featured?: boolean;
+  translations?: Translations<'title' | 'description'>;
+  /** 마지막 수정 시각(ISO). 백업 병합 시 최신 레코드 판별에 사용 */
+  updatedAt?: string;
+}
+
+/** 기간. 시점은 'YYYY' 또는 'YYYY-MM' */
+export interface DateRange {
+  /** 빈 문자열이면 날짜 미상 (v9 이전 문자열을 해석하지 못한 기록) */
+  start: string;
+  /** 없으면 start 한 시점 (ongoing이면 항상 없음) */
+  end?: string;
+  /** 진행 중 (화면에는 PRESENT) */
+  ongoing?: boolean;
 }
 
 export interface ArchiveItem {
   id: string;
-  year: string;
-  company: string;
-  category: string;
+  period: DateRange;
+  /** Client.id */
+  clientId?: string;
+  /** 업종 등 자유 태그. v7 이전의 category 문자열("Retail, Beauty")을 나눈 것 */
+  tags: string[];
   project: string;
-  imageUrl?: string;
+  image?: ImageAsset;
+  updatedAt?: string;
+}
+
+/** 고객사. 프로젝트와 아카이브(협업 이력)가 함께 참조한다. */
+export interface Client {
+  id: string;
+  name: string;
+  logo?: ImageAsset;
+  /** 업종 (예: Retail, Beauty) */
+  sector: string;
+  /** 지역 (예: SEOUL, KR) */
+  region: string;
+  website: string;
+  updatedAt?: string;
+}
+
+/** v8 마이그레이션에서 자유 입력 문자열을 고객사에 연결한 결과. CMS에서 검토하면 목록에서 빠진다. */
+export interface ClientMatch {
+  collection: 'projects' | 'archiveItems';
+  recordId: string;
+  /** 원래 입력돼 있던 문자열 */
+  source: string;
+  clientId: string;
+  /** 1이면 정규화한 이름이 같고, 1보다 작으면 유사도로 묶인 것 */
+  score: number;
 }
 
 export interface Service {
@@ -32,12 +110,162 @@ export interface Service {
   number: string;
   title: string;
   description: string;
+  translations?: Translations<'title' | 'description'>;
+  updatedAt?: string;
+}
+
+export type TrashEntry =
+  | { entryId: string; collection: 'projects'; record: Project; index: number; deletedAt: string }
+  | { entryId: string; collection: 'archiveItems'; record: ArchiveItem; index: number; deletedAt: string }
+  | { entryId: string; collection: 'services'; record: Service; index: number; deletedAt: string }
+  | { entryId: string; collection: 'clients'; record: Client; index: number; deletedAt: string };
+
+export type AuditRecordType = 'project' | 'archive' | 'service' | 'client' | 'settings';
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE' | 'PURGE' | 'REORDER' | 'REVERT' | 'UNDO' | 'REDO' | 'IMPORT';
+
+export interface FieldChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditEntry {
+  id: string;
+  at: string;
+  actor: string;
+  action: AuditAction;
+  recordType: AuditRecordType;
+  recordId: string;
+  label: string;
+  changes: FieldChange[];
+  /** 변경 직후(삭제의 경우 삭제 직전) 레코드 전체. 이전 버전 복원에 사용. 최근 MAX_AUDIT_SNAPSHOTS개 항목에만 남는다 (services/audit.ts). */
+  snapshot?: Project | ArchiveItem | Service | Client;
+}
+
+export interface Credential {
+  algorithm: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string;
+  hash: string;
+  updatedAt: string;
+}
+
+/** 문의 폼 전송 방식 */
+export type ContactAdapterKind = 'formspree' | 'webhook' | 'mailto' | 'local';
+
+/** 문의 폼의 선택 입력 항목 (CMS에서 켜고 끈다) */
+export type ContactOptionalField = 'budget' | 'timeline' | 'attachments';
+
+export interface ContactSettings {
+  adapter: ContactAdapterKind;
+  optionalFields?: ContactOptionalField[];
+  formspreeId: string;
+  /** JSON POST를 받는 주소 (개발 중에는 /__mock/contact) */
+  webhookUrl: string;
+  mailtoAddress: string;
+}
+
+export interface SocialLink {
+  id: string;
+  label: string;
+  url: string;
+}
+
+export interface SiteLocation {
+  /** 주소 표기 (예: SEOUL_KOR / SEODAEMUN-GU) */
+  address: string;
+  /** 지도 검색어. 비우면 address로 검색한다. */
+  mapQuery: string;
+  /** 예: 39.916°N 116.273°E */
+  coordinates: string;
+  /** 거점 이름 (예: SEOUL_HQ) */
+  station: string;
+  /** 헤더 EST. 옆 지역 코드 (예: SEOUL_KR) */
+  regionCode: string;
+  timezone: string;
+}
+
+// 공개 화면의 연락처·소셜 링크·위치·푸터 표기
+export interface SiteConfig {
+  email: string;
+  /** 비우면 표시하지 않는다. */
+  phone: string;
+  /** 표시 순서 */
+  socialLinks: SocialLink[];
+  location: SiteLocation;
+  /** 헤더 EST. 표기와 저작권 표기 시작 연도 */
+  foundedYear: number;
+  /** 저작권 표기 뒤 문구 (예: ODEMIND ARCHIVE) */
+  footerText: string;
+}
+
+export type ThemeId = 'default' | 'terminal';
+/** system: 방문자 OS의 prefers-color-scheme을 따른다. */
+export type ThemePreference = ThemeId | 'system';
+
+export interface ThemeSettings {
+  /** 방문자가 테마를 고르지 않았을 때 */
+  defaultTheme: ThemePreference;
+  /** 강조색 (#rrggbb). 비우면 테마 기본값 */
+  accent: string;
+}
+
+export interface ContactAttachment {
+  name: string;
+  type: string;
+  size: number;
+  /** 에셋 ID(asset:…). 웹훅으로 받은 문의와 이전 버전 데이터는 data URL */
+  data: string;
+}
+
+export interface ContactSubmission {
+  id: string;
+  name: string;
+  email: string;
+  subject: string;
+  message: string;
+  budget?: string;
+  timeline?: string;
+  attachments?: ContactAttachment[];
+  createdAt: string;
+}
+
+/** CMS 문의함 항목 */
+export interface InboxMessage extends ContactSubmission {
+  read: boolean;
+  archived: boolean;
+  /** 이 문의로 만든 프로젝트 ID */
+  projectId?: string;
 }
 
 export interface AppState {
+  /** 저장 형식 버전 (services/schema.ts의 SCHEMA_VERSION) */
+  schemaVersion: number;
   projects: Project[];
   archiveItems: ArchiveItem[];
   services: Service[];
+  clients: Client[];
+  /** 검토 대기 중인 고객사 자동 연결 (CMS 전용, 정적 빌드에는 포함하지 않는다) */
+  clientReview: ClientMatch[];
+  /** 프로젝트 분야 목록 (표시 순서) */
+  categories: CategoryTerm[];
   siteTitle: string;
   tagline: string;
+  taglineTranslations?: Partial<Record<TranslationLocale, string>>;
+  /** 없으면 DEFAULT_CONTACT_SETTINGS (services/contact.ts) */
+  contactSettings?: ContactSettings;
+  /** 없으면 DEFAULT_SITE_CONFIG (services/siteConfig.ts) */
+  siteConfig?: SiteConfig;
+  /** 없으면 DEFAULT_THEME_SETTINGS (services/theme.ts) */
+  themeSettings?: ThemeSettings;
+  /** siteTitle/tagline 마지막 수정 시각(ISO) */
+  settingsUpdatedAt?: string;
+  /** 삭제된 레코드 보관함. 영구 삭제 전까지 원래 위치로 복원할 수 있다. */
+  trash: TrashEntry[];
+  /** 문의함 (최신 항목이 앞). 변경 이력·undo 대상이 아니다. */
+  inbox: InboxMessage[];
+  /** 변경 이력 (최신 항목이 앞). undo/redo로 되돌리지 않는다. */
+  auditLog: AuditEntry[];
+  /** 관리자 패스키 해시. 없으면 최초 접속 시 설정 화면을 띄운다. */
+  credential?: Credential;
 }
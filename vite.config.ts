@@ -1,15 +1,72 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { loadState } from './services/schema.ts';
+import { ASSET_PREFIX, StaticAsset, staticAssetPath } from './services/assetStore.ts';
+import { buildStaticPages, publicState, renderStaticPage, renderSitemap, renderRobots } from './services/prerender.ts';
+import { FEED_FORMATS, feedPath, renderFeed } from './services/feeds.ts';
+import { INITIAL_STATE } from './constants.tsx';
+import { contactMockPlugin } from './mock/contactServer.ts';
+
+// `npm run prerender`: 내보낸 데이터베이스 JSON으로 페이지별 정적 HTML, 피드, sitemap.xml, robots.txt를 함께 출력한다.
+const prerenderPlugin = (dataFile: string, siteUrl: string): Plugin => ({
+  name: 'odemind-prerender',
+  apply: 'build',
+  // index.html은 Vite의 HTML 플러그인이 generateBundle에서 만든 뒤에 읽는다.
+  enforce: 'post',
+  generateBundle(_, bundle) {
+    const template = bundle['index.html'];
+    if (!template || template.type !== 'asset') return this.error('PRERENDER: index.html NOT_FOUND');
+
+    const { assets: backupAssets = {}, ...json } = JSON.parse(fs.readFileSync(path.resolve(dataFile), 'utf-8'));
+    const { state, issues } = loadState(json, INITIAL_STATE);
+    issues.forEach(issue => this.warn(`PRERENDER: SKIPPED ${issue.path} (${issue.message})`));
+
+    // 백업에 data URL로 담긴 에셋은 media/ 아래 파일로 풀어 둔다.
+    const assets = new Map<string, StaticAsset>();
+    for (const [ref, dataUrl] of Object.entries<string>(backupAssets)) {
+      const match = dataUrl.match(/^data:([\w.+-]+\/[\w.+-]+)[^,]*?(;base64)?,(.*)$/s);
+      if (!ref.startsWith(ASSET_PREFIX) || !match) continue;
+      const source = match[2] ? Buffer.from(match[3], 'base64') : Buffer.from(decodeURIComponent(match[3]));
+      const path = staticAssetPath(ref, match[1]);
+      this.emitFile({ type: 'asset', fileName: path, source });
+      assets.set(ref, { path, type: match[1], size: source.length });
+    }
+
+    const options = { siteUrl, assets, publishedAt: new Date().toISOString() };
+    const seed = { publishedAt: options.publishedAt, state: publicState(state, options) };
+    const html = String(template.source);
+    const pages = buildStaticPages(state, options);
+    for (const page of pages) {
+      const source = renderStaticPage(html, page, seed);
+      if (page.fileName === 'index.html') template.source = source;
+      else this.emitFile({ type: 'asset', fileName: page.fileName, source });
+    }
+    for (const category of [undefined, ...state.categories.map(c => c.id)]) {
+      for (const { format } of FEED_FORMATS) {
+        this.emitFile({ type: 'asset', fileName: feedPath(format, category), source: renderFeed(format, state, { ...options, category }) });
+      }
+    }
+    this.emitFile({ type: 'asset', fileName: 'sitemap.xml', source: renderSitemap(pages) });
+    this.emitFile({ type: 'asset', fileName: 'robots.txt', source: renderRobots(siteUrl) });
+  }
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const prerender = mode === 'prerender';
+    if (prerender && (!env.PRERENDER_DATA || !env.SITE_URL)) {
+      throw new Error('PRERENDER: SET PRERENDER_DATA (exported database JSON) AND SITE_URL');
+    }
     return {
+      // 정적 페이지는 /project/<ID>/ 처럼 하위 경로에 놓이므로 번들 경로를 배포 주소 기준으로 고정한다.
+      base: prerender ? new URL(env.SITE_URL.replace(/\/?$/, '/')).pathname : '/',
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), contactMockPlugin(Number(env.MOCK_CONTACT_FAIL_RATE) || 0), ...(prerender ? [prerenderPlugin(env.PRERENDER_DATA, env.SITE_URL)] : [])],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)